@@ -9,10 +9,13 @@ pragma solidity ^0.8.19;
  * OpenZeppelin:
  *   - Ownable: Admin functions (manual settle fallback, emergency)
  *   - ReentrancyGuard: Prevents re-entrancy on ETH transfers (claimWinnings/claimRefund)
+ *   - SafeERC20: Token transfers for markets staked in an ERC-20 (e.g. a
+ *     stablecoin) that revert on failure, even for tokens that return false
  *
  * Chainlink Functions (v1.3.0):
  *   - FunctionsClient: Base contract for sending requests to Chainlink DON
- *   - FunctionsRequest: Library for building CBOR-encoded request payloads
+ *   - FunctionsRequest: Library for building CBOR-encoded request payloads,
+ *     used by our linked TrialRequest library (libraries/TrialRequest.sol)
  *   We extend FunctionsClient so the Chainlink router can call our
  *   _fulfillRequest() callback with the trial results.
  *
@@ -28,10 +31,13 @@ pragma solidity ^0.8.19;
  */
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {FunctionsClient} from "@chainlink/contracts/src/v0.8/functions/v1_3_0/FunctionsClient.sol";
-import {FunctionsRequest} from "@chainlink/contracts/src/v0.8/functions/v1_0_0/libraries/FunctionsRequest.sol";
 import {AutomationCompatibleInterface} from "@chainlink/contracts/src/v0.8/automation/interfaces/AutomationCompatibleInterface.sol";
 import {AggregatorV3Interface} from "@chainlink/contracts/src/v0.8/shared/interfaces/AggregatorV3Interface.sol";
+import {TrialRequest} from "./libraries/TrialRequest.sol";
+import {CategoricalMarkets} from "./libraries/CategoricalMarkets.sol";
 
 /**
  * @title TrialMarket
@@ -58,27 +64,51 @@ import {AggregatorV3Interface} from "@chainlink/contracts/src/v0.8/shared/interf
  *
  * Lifecycle:
  *   1. createMarket()        — Anyone posts a question + 0.01 ETH deposit
+ *      createTokenMarket()   — Same, staked in an allowlisted ERC-20
+ *      createCategoricalMarket() — A question with 2-8 named outcomes
  *   2. takePosition()        — Stake ETH on YES or NO
+ *      takeTokenPosition()   — Stake tokens (after approve()) in a token market
+ *      takeOutcomePosition() — Stake on one outcome of a categorical market
+ *      exitPosition()        — In markets with early exit enabled, withdraw a
+ *                              stake before the deadline, minus a penalty
  *   3. requestSettlement()   — After deadline (manual or via Automation)
  *   4. sendTrialRequest()    — Triggers Chainlink Functions to run the trial
  *   5. _fulfillRequest()     — DON returns verdict → auto-settle or escalate
- *   6. claimWinnings()       — Winners withdraw proportional payouts
+ *      settleOutcome()       — Categorical markets are settled by the owner
+ *                              from the engine's trial instead
+ *   6. appeal()              — Within APPEAL_WINDOW of an escalation, a staker
+ *                              posts APPEAL_BOND to force one retrial (→ step 4)
+ *      expireAppeal()        — A retrial not settled within RETRIAL_PERIOD
+ *                              escalates again, so stakes don't stay locked
+ *   7. castArbitrationVote() — Once an escalation can't be appealed, registered
+ *                              arbitrators have ARBITRATION_PERIOD to resolve
+ *                              it by an m-of-n vote after reading the transcript
+ *   8. claimWinnings()       — Winners withdraw proportional payouts
  *      claimRefund()         — On escalation, everyone gets their stake back
+ *                              (once no appeal or arbitration vote is pending);
+ *                              likewise when the question is ruled Invalid
+ *
+ *   cancelMarket()           — The creator withdraws a market nobody has
+ *                              staked in yet, reclaiming the deposit
  *
  * Economics:
  *   - Market creator deposits 0.01 ETH (refunded after settlement)
  *   - Stakers bet ETH on YES or NO
- *   - Winners split the total pool proportional to their stake
- *   - Escalated markets refund all stakers (no one loses money)
+ *   - At resolution a protocol fee (protocolFeeBps, for LINK and LLM
+ *     costs) and an optional creator reward (creatorRewardBps) are
+ *     taken from the pool; winners split the rest pro rata
+ *   - Escalated markets refund all stakers (no one loses money),
+ *     unless the arbitration committee resolves them
+ *   - Markets ruled Invalid refund all stakers and take no fees
+ *   - Early-exit penalties stay in the market: winners split them with
+ *     the pool, or stakers share them pro rata with their refunds
+ *   - An appeal bond is returned if the retrial resolves the market,
+ *     and slashed (kept by the protocol) if it escalates again
  */
 contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCompatibleInterface {
 
-    /*
-     * Using the FunctionsRequest library lets us build CBOR-encoded
-     * payloads with a clean API: initializeRequestForInlineJavaScript(),
-     * setArgs(), addSecretsReference(), etc.
-     */
-    using FunctionsRequest for FunctionsRequest.Request;
+    using SafeERC20 for IERC20;
+    using CategoricalMarkets for CategoricalMarkets.Book;
 
     // ═══════════════════════════════════════════════════════════════
     //  ENUMS
@@ -87,17 +117,32 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
     /*
      * MarketStatus tracks the lifecycle state machine:
      *   Open → SettlementRequested → Resolved | Escalated
-     * Each transition is one-way. Once resolved or escalated, a market
-     * cannot return to an earlier state.
+     *   Escalated → Appealed → Resolved | Escalated   (at most once; a
+     *                                                 retrial that never
+     *                                                 settles expires)
+     *   Open → Cancelled   (by the creator, before anyone stakes)
+     * Resolved and Cancelled are final. Escalated is final once its
+     * appeal window has closed or its one appeal has been tried. New
+     * statuses are appended so the existing codes keep their meaning.
      */
-    enum MarketStatus { Open, SettlementRequested, Resolved, Escalated }
+    enum MarketStatus { Open, SettlementRequested, Resolved, Escalated, Appealed, Cancelled }
 
     /*
      * Verdict represents the trial outcome.
      * None is the default (unresolved). Yes/No map to the two sides
-     * of the prediction market question.
+     * of the prediction market question. Invalid means the question
+     * itself can't be answered — ambiguous, unresolvable or malformed
+     * — which is different from a close call (that escalates). An
+     * Invalid market is resolved with full refunds and no fees.
+     */
+    enum Verdict { None, Yes, No, Invalid }
+
+    /*
+     * AppealState tracks a market's single appeal:
+     *   None → Pending (bond posted) → Succeeded (retrial resolved) | Failed
+     *                                | Expired (retrial never settled)
      */
-    enum Verdict { None, Yes, No }
+    enum AppealState { None, Pending, Succeeded, Failed, Expired }
 
     // ═══════════════════════════════════════════════════════════════
     //  STRUCTS
@@ -115,7 +160,30 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         bytes32 transcriptCidA;   // IPFS CID part 1 (first 32 ASCII bytes)
         bytes32 transcriptCidB;   // IPFS CID part 2 (remaining bytes, zero-padded)
         address creator;          // Address that created the market
-        uint256 creationDeposit;  // ETH deposited by creator (refundable)
+        uint256 creationDeposit;  // Deposit in the market's collateral (refundable)
+    }
+
+    struct Appeal {
+        address appellant;        // Staker who posted the bond
+        uint256 bond;             // ETH posted (zeroed once reclaimed)
+        AppealState state;
+    }
+
+    struct ArbitrationTally {
+        uint256 yesVotes;
+        uint256 noVotes;
+    }
+
+    /*
+     * Payout accounting, fixed when a market resolves. Fee rates are
+     * snapshotted here, so changing them later never touches a market
+     * that already resolved.
+     */
+    struct Payout {
+        uint256 payoutPool;       // Pool left for winners after fees
+        uint256 creatorReward;    // Owed to the creator (zeroed once claimed)
+        uint256 claimedStake;     // Winning stake that has claimed so far
+        uint256 paidOut;          // ETH paid to winners so far
     }
 
     // ═══════════════════════════════════════════════════════════════
@@ -169,6 +237,13 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
     uint32 public s_callbackGasLimit = 300_000;
     mapping(bytes32 => uint256) public s_requestIdToMarketId;
 
+    /*
+     * The latest Functions request per market. Only its callback counts:
+     * an appealed market gets a second request, and a late answer to the
+     * first one must not settle the retrial.
+     */
+    mapping(uint256 => bytes32) public s_activeRequestId;
+
     /*
      * Chainlink Data Feed for ETH/USD price.
      * We read the latest price and pass it as evidence to the trial.
@@ -184,6 +259,149 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
      */
     uint256 public constant CREATION_DEPOSIT = 0.01 ether;
 
+    /*
+     * Appeals. After an escalation, any staker has APPEAL_WINDOW to post
+     * APPEAL_BOND and send the market to a second trial. Refunds wait
+     * for the window to close, because a successful appeal pays out the
+     * pools instead. The bond prices in the cost of a second DON run and
+     * discourages appealing every close call.
+     *
+     * A retrial has RETRIAL_PERIOD to settle. If neither the DON nor
+     * the owner fallback settles it by then, anyone can expireAppeal():
+     * the market escalates again, as if the retrial had, so refunds (or
+     * arbitration) open instead of the stakes staying locked in
+     * Appealed. The appellant isn't at fault, so the bond is returned
+     * rather than slashed.
+     *
+     * escalatedAt: when each market was (last) escalated
+     * appealedAt: when each market's appeal was filed
+     * slashedBonds: bonds of failed appeals, withdrawable by the owner
+     */
+    uint256 public constant APPEAL_WINDOW = 2 days;
+    uint256 public constant APPEAL_BOND = 0.05 ether;
+    uint256 public constant RETRIAL_PERIOD = 3 days;
+    mapping(uint256 => uint256) public escalatedAt;
+    mapping(uint256 => uint256) public appealedAt;
+    mapping(uint256 => Appeal) public appeals;
+    uint256 public slashedBonds;
+
+    /*
+     * Arbitration committee. The owner registers arbitrators and sets
+     * the quorum m (of n registered). Once an escalated market can no
+     * longer be appealed, arbitrators have ARBITRATION_PERIOD to review
+     * the transcript (CID onchain) and vote YES or NO; the first side
+     * to reach m votes resolves the market. If neither does by the
+     * deadline, the escalation stands and refunds open.
+     *
+     * Votes are counted when cast — removing an arbitrator later does
+     * not undo their votes. A quorum of 0 disables arbitration, so
+     * refunds never wait on a committee that doesn't exist.
+     *
+     * Each market is held to the quorum in force when it escalated:
+     * changing arbitrationQuorum later only affects later escalations.
+     * Otherwise raising it could reopen voting on a market that was
+     * already refunding, and a resolution would pay winners out of
+     * stakes that had been refunded. For the same reason no vote is
+     * accepted once any refund has been paid.
+     *
+     * arbitrationVotes: marketId → arbitrator → their vote (None = not voted)
+     * arbitrationTallies: marketId → votes per side
+     * arbitrationQuorums: marketId → quorum fixed at its (last) escalation
+     * refundsStarted: marketId → an escalation refund has been paid
+     */
+    uint256 public constant ARBITRATION_PERIOD = 3 days;
+    mapping(address => bool) public isArbitrator;
+    uint256 public arbitratorCount;
+    uint256 public arbitrationQuorum;
+    mapping(uint256 => mapping(address => Verdict)) public arbitrationVotes;
+    mapping(uint256 => ArbitrationTally) public arbitrationTallies;
+    mapping(uint256 => uint256) public arbitrationQuorums;
+    mapping(uint256 => bool) public refundsStarted;
+
+    /*
+     * Fees, in basis points of a resolved market's total pool. The
+     * protocol fee accrues to `treasury` (withdrawFees()); the creator
+     * reward to the market's creator (claimCreatorReward()). Escalated
+     * markets are refunded in full and pay no fees. Together the two
+     * are capped at MAX_FEE_BPS.
+     */
+    uint256 public constant MAX_FEE_BPS = 1000; // 10%
+    uint256 public protocolFeeBps;
+    uint256 public creatorRewardBps;
+    address public treasury;
+    uint256 public accruedFees;
+    mapping(uint256 => Payout) public payouts;
+
+    /*
+     * Collateral. A market is staked either in ETH or in one ERC-20
+     * chosen at creation; every amount of that market — pools,
+     * positions, creation deposit, fees, payouts, refunds — is in that
+     * unit. The owner allowlists tokens and sets each one's creation
+     * deposit (0.01 ETH means nothing for a 6-decimal stablecoin).
+     * Only plain tokens belong on the list: fee-on-transfer or rebasing
+     * tokens would break the pool accounting.
+     *
+     * Appeal bonds stay in ETH for every market.
+     *
+     * marketTokens: marketId → collateral token (address(0) = ETH)
+     * accruedTokenFees: token → protocol fees awaiting withdrawTokenFees()
+     */
+    mapping(address => bool) public collateralAllowed;
+    mapping(address => uint256) public tokenCreationDeposit;
+    mapping(uint256 => IERC20) public marketTokens;
+    mapping(address => uint256) public accruedTokenFees;
+
+    /*
+     * Early exit. Positions are locked until settlement unless the
+     * creator opts the market in (enableEarlyExit(), before the first
+     * stake, so every staker knows the rules). Exiting returns the
+     * stake minus a penalty that decays with how long it was held:
+     * EXIT_PENALTY_MAX_BPS right after staking, falling linearly to
+     * EXIT_PENALTY_MIN_BPS after EXIT_PENALTY_DECAY. A steep early
+     * penalty is what keeps stake-move-the-odds-withdraw manipulation
+     * unprofitable.
+     *
+     * Penalties leave the YES/NO pools (so the implied probability only
+     * reflects live stakes) but stay in the market as exitPenalties:
+     * at resolution they join the pool winners split, and on a final
+     * escalation they're refunded pro rata with the remaining stakes.
+     *
+     * entryTimes: marketId → staker → side → stake-weighted average
+     * time the position was built (topping up moves it forward)
+     */
+    uint256 public constant EXIT_PENALTY_MAX_BPS = 2000; // 20%
+    uint256 public constant EXIT_PENALTY_MIN_BPS = 200;  // 2%
+    uint256 public constant EXIT_PENALTY_DECAY = 7 days;
+    mapping(uint256 => bool) public earlyExitEnabled;
+    mapping(uint256 => uint256) public exitPenalties;
+    mapping(uint256 => mapping(address => mapping(Verdict => uint256))) public entryTimes;
+
+    /*
+     * Categorical markets. Created with createCategoricalMarket(), a
+     * market can have 2 to MAX_OUTCOMES named outcomes instead of
+     * YES/NO ("which of these will happen"). Each outcome has its own
+     * pool; yesPool/noPool stay zero. The pool split across outcomes
+     * is the market's implied distribution.
+     *
+     * The trial runs one advocate per outcome, which doesn't fit in a
+     * single Functions request, so categorical markets are tried by
+     * the engine and settled through settleOutcome() — escalation,
+     * appeals and refunds work as for binary markets. Early exit and
+     * arbitration are binary-only.
+     *
+     * A resolved categorical market keeps outcome = None and records
+     * the winner's index in winningOutcome; a question ruled invalid
+     * resolves with outcome = Invalid (INVALID_OUTCOME in settleOutcome).
+     *
+     * Each market's labels, outcome pools and positions are a Book,
+     * kept and updated by the linked CategoricalMarkets library
+     * (libraries/CategoricalMarkets.sol); outcomePositions() and
+     * winningOutcome() read it.
+     */
+    uint256 public constant MAX_OUTCOMES = CategoricalMarkets.MAX_OUTCOMES;
+    uint256 public constant INVALID_OUTCOME = CategoricalMarkets.INVALID_OUTCOME;
+    mapping(uint256 => CategoricalMarkets.Book) internal outcomeBooks;
+
     // ═══════════════════════════════════════════════════════════════
     //  EVENTS
     // ═══════════════════════════════════════════════════════════════
@@ -200,8 +418,32 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
     event TrialRequested(uint256 indexed marketId, bytes32 indexed requestId);
     event MarketResolved(uint256 indexed marketId, Verdict outcome, uint256 scoreYes, uint256 scoreNo, bytes32 transcriptHash);
     event MarketEscalated(uint256 indexed marketId, bytes32 transcriptHash);
+    event MarketCancelled(uint256 indexed marketId);
     event RefundClaimed(uint256 indexed marketId, address indexed participant, uint256 amount);
     event DepositRefunded(uint256 indexed marketId, address indexed creator, uint256 amount);
+    event MarketAppealed(uint256 indexed marketId, address indexed appellant, uint256 bond);
+    event AppealConcluded(uint256 indexed marketId, bool succeeded);
+    event AppealExpired(uint256 indexed marketId);
+    event AppealBondClaimed(uint256 indexed marketId, address indexed appellant, uint256 amount);
+    event ArbitratorAdded(address indexed arbitrator);
+    event ArbitratorRemoved(address indexed arbitrator);
+    event ArbitrationQuorumSet(uint256 quorum);
+    event ArbitrationVoteCast(uint256 indexed marketId, address indexed arbitrator, Verdict vote);
+    event MarketArbitrated(uint256 indexed marketId, Verdict outcome, uint256 yesVotes, uint256 noVotes);
+    event FeesUpdated(uint256 protocolFeeBps, uint256 creatorRewardBps);
+    event TreasuryUpdated(address indexed treasury);
+    event ProtocolFeeAccrued(uint256 indexed marketId, uint256 amount);
+    event CreatorRewardAccrued(uint256 indexed marketId, address indexed creator, uint256 amount);
+    event FeesWithdrawn(address indexed treasury, uint256 amount);
+    event CreatorRewardClaimed(uint256 indexed marketId, address indexed creator, uint256 amount);
+    event CollateralTokenSet(address indexed token, bool allowed, uint256 creationDeposit);
+    event MarketCollateral(uint256 indexed marketId, address indexed token);
+    event TokenFeesWithdrawn(address indexed token, address indexed treasury, uint256 amount);
+    event EarlyExitEnabled(uint256 indexed marketId);
+    event PositionExited(uint256 indexed marketId, address indexed participant, Verdict side, uint256 amount, uint256 penalty);
+    event CategoricalMarketCreated(uint256 indexed marketId, string[] outcomes);
+    event OutcomePositionTaken(uint256 indexed marketId, address indexed participant, uint256 outcome, uint256 amount);
+    event OutcomeResolved(uint256 indexed marketId, uint256 outcome, uint256 topScore, uint256 runnerUpScore, bytes32 transcriptHash);
 
     // ═══════════════════════════════════════════════════════════════
     //  CONSTRUCTOR
@@ -228,6 +470,7 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         address priceFeed
     ) Ownable(msg.sender) FunctionsClient(router) {
         s_priceFeed = AggregatorV3Interface(priceFeed);
+        treasury = msg.sender;
     }
 
     // ═══════════════════════════════════════════════════════════════
@@ -262,6 +505,28 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         s_donHostedSecretsVersion = version;
     }
 
+    function setFees(uint256 protocolBps, uint256 creatorBps) external onlyOwner {
+        require(protocolBps + creatorBps <= MAX_FEE_BPS, "Fees too high");
+        protocolFeeBps = protocolBps;
+        creatorRewardBps = creatorBps;
+        emit FeesUpdated(protocolBps, creatorBps);
+    }
+
+    /* Allow (or disallow) an ERC-20 as collateral for new markets */
+    function setCollateralToken(address token, bool allowed, uint256 creationDeposit) external onlyOwner {
+        require(token != address(0), "Zero address");
+        require(!allowed || creationDeposit > 0, "Deposit required");
+        collateralAllowed[token] = allowed;
+        tokenCreationDeposit[token] = creationDeposit;
+        emit CollateralTokenSet(token, allowed, creationDeposit);
+    }
+
+    function setTreasury(address newTreasury) external onlyOwner {
+        require(newTreasury != address(0), "Zero address");
+        treasury = newTreasury;
+        emit TreasuryUpdated(newTreasury);
+    }
+
     function setCallbackGasLimit(uint32 gasLimit) external onlyOwner {
         s_callbackGasLimit = gasLimit;
     }
@@ -292,8 +557,78 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         string calldata rubricHash,
         uint256 deadline
     ) external payable returns (uint256 marketId) {
-        require(deadline > block.timestamp, "Deadline must be in the future");
         require(msg.value >= CREATION_DEPOSIT, "Must deposit 0.01 ETH");
+        marketId = _createMarket(question, rubricHash, deadline, msg.value);
+    }
+
+    /**
+     * @notice Create a market staked in an ERC-20 instead of ETH.
+     * @param token An allowlisted collateral token (see setCollateralToken)
+     *
+     * The creation deposit is tokenCreationDeposit[token], pulled with
+     * transferFrom — approve() it first. Everything else works as in
+     * createMarket().
+     */
+    function createTokenMarket(
+        string calldata question,
+        string calldata rubricHash,
+        uint256 deadline,
+        IERC20 token
+    ) external returns (uint256 marketId) {
+        require(collateralAllowed[address(token)], "Token not allowed");
+        uint256 deposit = tokenCreationDeposit[address(token)];
+
+        marketId = _createMarket(question, rubricHash, deadline, deposit);
+        marketTokens[marketId] = token;
+        emit MarketCollateral(marketId, address(token));
+
+        token.safeTransferFrom(msg.sender, address(this), deposit);
+    }
+
+    /**
+     * @notice Create a categorical market with named outcomes.
+     * @param outcomes Between 2 and MAX_OUTCOMES non-empty labels, in
+     *                 the order their indices are used everywhere else
+     * @param token    Collateral token, or address(0) for ETH
+     *
+     * ETH markets send CREATION_DEPOSIT as value; token markets approve
+     * tokenCreationDeposit[token] first, as in createTokenMarket().
+     */
+    function createCategoricalMarket(
+        string calldata question,
+        string calldata rubricHash,
+        uint256 deadline,
+        string[] calldata outcomes,
+        IERC20 token
+    ) external payable returns (uint256 marketId) {
+        uint256 deposit;
+        if (address(token) == address(0)) {
+            require(msg.value >= CREATION_DEPOSIT, "Must deposit 0.01 ETH");
+            deposit = msg.value;
+        } else {
+            require(msg.value == 0, "Token market");
+            require(collateralAllowed[address(token)], "Token not allowed");
+            deposit = tokenCreationDeposit[address(token)];
+        }
+
+        marketId = _createMarket(question, rubricHash, deadline, deposit);
+        outcomeBooks[marketId].open(outcomes);
+        emit CategoricalMarketCreated(marketId, outcomes);
+
+        if (address(token) != address(0)) {
+            marketTokens[marketId] = token;
+            emit MarketCollateral(marketId, address(token));
+            token.safeTransferFrom(msg.sender, address(this), deposit);
+        }
+    }
+
+    function _createMarket(
+        string calldata question,
+        string calldata rubricHash,
+        uint256 deadline,
+        uint256 deposit
+    ) internal returns (uint256 marketId) {
+        require(deadline > block.timestamp, "Deadline must be in the future");
 
         marketId = nextMarketId++;
         markets[marketId] = Market({
@@ -308,11 +643,35 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
             transcriptCidA: bytes32(0),
             transcriptCidB: bytes32(0),
             creator: msg.sender,
-            creationDeposit: msg.value
+            creationDeposit: deposit
         });
         emit MarketCreated(marketId, msg.sender, question, deadline);
     }
 
+    /**
+     * @notice Withdraw a market before anyone has staked in it.
+     *
+     * Creator only. A question that turns out to be badly worded can be
+     * pulled while nothing is riding on it; the creation deposit is
+     * returned straight away. Once a position has been taken (even one
+     * since exited) the market has to run its course.
+     */
+    function cancelMarket(uint256 marketId) external nonReentrant {
+        Market storage m = markets[marketId];
+        require(msg.sender == m.creator, "Not market creator");
+        require(m.status == MarketStatus.Open, "Market not open");
+        require(_totalStake(marketId) == 0 && exitPenalties[marketId] == 0, "Market has stakes");
+
+        m.status = MarketStatus.Cancelled;
+        uint256 deposit = m.creationDeposit;
+        m.creationDeposit = 0;
+
+        _send(marketTokens[marketId], msg.sender, deposit);
+
+        emit MarketCancelled(marketId);
+        emit DepositRefunded(marketId, msg.sender, deposit);
+    }
+
     // ═══════════════════════════════════════════════════════════════
     //  POSITION TAKING (BETTING)
     // ═══════════════════════════════════════════════════════════════
@@ -332,23 +691,139 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
      *
      * Positions are locked until settlement. No withdrawals before
      * the deadline — this prevents manipulation where someone stakes,
-     * moves the odds, then withdraws.
+     * moves the odds, then withdraws. Markets with early exit enabled
+     * are the exception: see exitPosition().
      */
     function takePosition(uint256 marketId, Verdict side) external payable {
+        require(address(marketTokens[marketId]) == address(0), "Token market");
+        require(msg.value > 0, "Must send ETH");
+        _takePosition(marketId, side, msg.value);
+    }
+
+    /**
+     * @notice Stake tokens in a token market. approve() `amount` first.
+     */
+    function takeTokenPosition(uint256 marketId, Verdict side, uint256 amount) external {
+        IERC20 token = marketTokens[marketId];
+        require(address(token) != address(0), "Not a token market");
+        require(amount > 0, "Must stake tokens");
+        _takePosition(marketId, side, amount);
+        token.safeTransferFrom(msg.sender, address(this), amount);
+    }
+
+    function _takePosition(uint256 marketId, Verdict side, uint256 amount) internal {
         Market storage m = markets[marketId];
+        require(!_isCategorical(marketId), "Categorical market");
         require(m.status == MarketStatus.Open, "Market not open");
         require(block.timestamp < m.deadline, "Past deadline");
         require(side == Verdict.Yes || side == Verdict.No, "Invalid side");
-        require(msg.value > 0, "Must send ETH");
 
+        uint256 held;
         if (side == Verdict.Yes) {
-            yesPositions[marketId][msg.sender] += msg.value;
-            m.yesPool += msg.value;
+            held = yesPositions[marketId][msg.sender];
+            yesPositions[marketId][msg.sender] += amount;
+            m.yesPool += amount;
+        } else {
+            held = noPositions[marketId][msg.sender];
+            noPositions[marketId][msg.sender] += amount;
+            m.noPool += amount;
+        }
+
+        if (earlyExitEnabled[marketId]) {
+            uint256 entered = entryTimes[marketId][msg.sender][side];
+            entryTimes[marketId][msg.sender][side] =
+                (entered * held + block.timestamp * amount) / (held + amount);
+        }
+        emit PositionTaken(marketId, msg.sender, side, amount);
+    }
+
+    /**
+     * @notice Stake on one outcome of a categorical market.
+     * @param outcome Index into the market's outcomes (see getOutcomes())
+     * @param amount  The stake. ETH markets send exactly this as value;
+     *                token markets approve() it first.
+     */
+    function takeOutcomePosition(uint256 marketId, uint256 outcome, uint256 amount) external payable {
+        Market storage m = markets[marketId];
+        IERC20 token = marketTokens[marketId];
+        require(_isCategorical(marketId), "Not a categorical market");
+        require(m.status == MarketStatus.Open, "Market not open");
+        require(block.timestamp < m.deadline, "Past deadline");
+        require(amount > 0, "Must stake");
+        if (address(token) == address(0)) {
+            require(msg.value == amount, "Value must equal amount");
         } else {
-            noPositions[marketId][msg.sender] += msg.value;
-            m.noPool += msg.value;
+            require(msg.value == 0, "Token market");
+        }
+
+        outcomeBooks[marketId].stake(msg.sender, outcome, amount);
+        emit OutcomePositionTaken(marketId, msg.sender, outcome, amount);
+
+        if (address(token) != address(0)) {
+            token.safeTransferFrom(msg.sender, address(this), amount);
         }
-        emit PositionTaken(marketId, msg.sender, side, msg.value);
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    //  EARLY EXIT
+    // ═══════════════════════════════════════════════════════════════
+
+    /**
+     * @notice Opt a market in to early exit. Creator only, and only
+     * before anyone has staked — the rules can't change under stakers.
+     */
+    function enableEarlyExit(uint256 marketId) external {
+        Market storage m = markets[marketId];
+        require(msg.sender == m.creator, "Not market creator");
+        require(!_isCategorical(marketId), "Categorical market");
+        require(m.status == MarketStatus.Open, "Market not open");
+        require(_totalStake(marketId) == 0 && exitPenalties[marketId] == 0, "Market has stakes");
+        earlyExitEnabled[marketId] = true;
+        emit EarlyExitEnabled(marketId);
+    }
+
+    /**
+     * @notice Withdraw `amount` of a position before the deadline.
+     * @param side The side the stake is on — Verdict.Yes (1) or Verdict.No (2)
+     *
+     * Pays back `amount` minus exitPenaltyBps() of it, in the market's
+     * collateral. The pool shrinks by the full amount; the penalty is
+     * held in exitPenalties for the stakers who stay.
+     */
+    function exitPosition(uint256 marketId, Verdict side, uint256 amount) external nonReentrant {
+        Market storage m = markets[marketId];
+        require(earlyExitEnabled[marketId], "Early exit not enabled");
+        require(m.status == MarketStatus.Open, "Market not open");
+        require(block.timestamp < m.deadline, "Past deadline");
+        require(side == Verdict.Yes || side == Verdict.No, "Invalid side");
+        require(amount > 0, "Nothing to exit");
+
+        uint256 penalty = (amount * exitPenaltyBps(marketId, msg.sender, side)) / 10_000;
+
+        if (side == Verdict.Yes) {
+            require(yesPositions[marketId][msg.sender] >= amount, "Exceeds position");
+            yesPositions[marketId][msg.sender] -= amount;
+            m.yesPool -= amount;
+        } else {
+            require(noPositions[marketId][msg.sender] >= amount, "Exceeds position");
+            noPositions[marketId][msg.sender] -= amount;
+            m.noPool -= amount;
+        }
+        exitPenalties[marketId] += penalty;
+
+        _send(marketTokens[marketId], msg.sender, amount - penalty);
+
+        emit PositionExited(marketId, msg.sender, side, amount, penalty);
+    }
+
+    /**
+     * @notice The penalty, in basis points, `participant` would pay to
+     * exit their `side` position now.
+     */
+    function exitPenaltyBps(uint256 marketId, address participant, Verdict side) public view returns (uint256) {
+        uint256 held = block.timestamp - entryTimes[marketId][participant][side];
+        if (held >= EXIT_PENALTY_DECAY) return EXIT_PENALTY_MIN_BPS;
+        return EXIT_PENALTY_MAX_BPS - ((EXIT_PENALTY_MAX_BPS - EXIT_PENALTY_MIN_BPS) * held) / EXIT_PENALTY_DECAY;
     }
 
     // ═══════════════════════════════════════════════════════════════
@@ -410,10 +885,11 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
      */
     function sendTrialRequest(uint256 marketId) external returns (bytes32 requestId) {
         Market storage m = markets[marketId];
-        require(m.status == MarketStatus.SettlementRequested, "Settlement not requested");
+        require(_awaitingTrial(m), "Settlement not requested");
+        require(!_isCategorical(marketId), "Categorical market");
         require(bytes(s_functionsSource).length > 0, "Functions source not set");
 
-        /*yeste
+        /*
          * Read the latest ETH/USD price from Chainlink Data Feeds.
          * latestRoundData() returns 5 values; we only need `answer`
          * (the price with 8 decimals, e.g. 350000000000 = $3,500.00).
@@ -423,36 +899,24 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         (, int256 ethUsdPrice,,,) = s_priceFeed.latestRoundData();
 
         /*
-         * Build the arguments array for the Functions JavaScript.
-         * args[] is an array of strings that the JS source receives
-         * as the `args` parameter. We pass:
-         *   [0] marketId — so the JS knows which market it's resolving
-         *   [1] question — the full question text
-         *   [2] rubricHash — identifier for scoring criteria
-         *   [3] ethUsdPrice — verified Chainlink oracle price
+         * Build and send the Chainlink Functions request. TrialRequest
+         * (a linked library) turns the market into the JS args[] and
+         * CBOR-encodes them with the source and secrets reference; the
+         * encoded request is sent to the DON via the router.
          */
-        string[] memory args = new string[](4);
-        args[0] = _uint256ToString(marketId);
-        args[1] = m.question;
-        args[2] = m.rubricHash;
-        args[3] = _int256ToString(ethUsdPrice);
-
-        /*
-         * Build and send the Chainlink Functions request.
-         * initializeRequestForInlineJavaScript sets the source code
-         * to be executed directly (not fetched from a URL).
-         * The CBOR-encoded request is sent to the DON via the router.
-         */
-        FunctionsRequest.Request memory req;
-        req.initializeRequestForInlineJavaScript(s_functionsSource);
-        req.setArgs(args);
-
-        if (s_donHostedSecretsVersion > 0) {
-            req.addDONHostedSecrets(s_donHostedSecretsSlotId, s_donHostedSecretsVersion);
-        }
+        bytes memory request = TrialRequest.encode(
+            s_functionsSource,
+            marketId,
+            m.question,
+            m.rubricHash,
+            ethUsdPrice,
+            m.status == MarketStatus.Appealed,
+            s_donHostedSecretsSlotId,
+            s_donHostedSecretsVersion
+        );
 
         requestId = _sendRequest(
-            req.encodeCBOR(),
+            request,
             s_subscriptionId,
             s_callbackGasLimit,
             s_donId
@@ -464,6 +928,7 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
          * to know which market to settle with the result.
          */
         s_requestIdToMarketId[requestId] = marketId;
+        s_activeRequestId[marketId] = requestId;
         emit TrialRequested(marketId, requestId);
     }
 
@@ -483,7 +948,7 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
      *   (uint8 action, uint8 verdict, uint256 scoreYes, uint256 scoreNo)
      *
      *   action:  1 = RESOLVE, 2 = ESCALATE
-     *   verdict: 1 = Yes, 2 = No (only meaningful if action = RESOLVE)
+     *   verdict: 1 = Yes, 2 = No, 3 = Invalid (only meaningful if action = RESOLVE)
      *   scoreYes/scoreNo: Judge scores for each side (0-100)
      *
      * If the DON returns an error (e.g., API timeout, JS exception),
@@ -502,6 +967,18 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         uint256 marketId = s_requestIdToMarketId[requestId];
         Market storage m = markets[marketId];
 
+        /*
+         * Ignore a late callback. If the DON took too long, the engine's
+         * watchdog may already have settled or escalated the market via
+         * the owner fallback — the first settlement stands. Likewise a
+         * superseded request (the first trial of an appealed market) is
+         * ignored. Returning (rather than reverting) lets the router
+         * record the fulfillment.
+         */
+        if (!_awaitingTrial(m) || requestId != s_activeRequestId[marketId]) {
+            return;
+        }
+
         /*
          * If the DON returned an error, escalate the market.
          * Common errors: API rate limits, LLM timeout, JS exceptions.
@@ -510,6 +987,7 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         if (err.length > 0 || response.length == 0) {
             m.status = MarketStatus.Escalated;
             m.transcriptHash = keccak256(err);
+            _recordEscalation(marketId);
             emit MarketEscalated(marketId, m.transcriptHash);
             return;
         }
@@ -540,16 +1018,19 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         }
 
         if (action == 1) {
-            // RESOLVE — the trial produced a clear verdict
-            Verdict v = verdict == 1 ? Verdict.Yes : Verdict.No;
+            // RESOLVE — the trial produced a clear verdict (or ruled the question invalid)
+            Verdict v = verdict == 1 ? Verdict.Yes : verdict == 3 ? Verdict.Invalid : Verdict.No;
             m.status = MarketStatus.Resolved;
             m.outcome = v;
             m.transcriptHash = transcriptHash;
+            _concludeAppeal(marketId, true);
+            if (v != Verdict.Invalid) _accrueFees(marketId);
             emit MarketResolved(marketId, v, scoreYes, scoreNo, transcriptHash);
         } else {
             // ESCALATE — margin too thin or hallucination detected
             m.status = MarketStatus.Escalated;
             m.transcriptHash = transcriptHash;
+            _recordEscalation(marketId);
             emit MarketEscalated(marketId, transcriptHash);
         }
     }
@@ -669,16 +1150,56 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         bytes32 cidB
     ) external onlyOwner {
         Market storage m = markets[marketId];
-        require(m.status == MarketStatus.SettlementRequested, "Settlement not requested");
-        require(outcome == Verdict.Yes || outcome == Verdict.No, "Invalid verdict");
+        require(_awaitingTrial(m), "Settlement not requested");
+        require(!_isCategorical(marketId), "Categorical market");
+        require(outcome != Verdict.None, "Invalid verdict");
         m.status = MarketStatus.Resolved;
         m.outcome = outcome;
         m.transcriptHash = transcriptHash;
         m.transcriptCidA = cidA;
         m.transcriptCidB = cidB;
+        _concludeAppeal(marketId, true);
+        if (outcome != Verdict.Invalid) _accrueFees(marketId);
         emit MarketResolved(marketId, outcome, scoreYes, scoreNo, transcriptHash);
     }
 
+    /**
+     * @notice Owner settles a categorical market from the engine's trial.
+     * @param outcome       Index of the winning outcome, or INVALID_OUTCOME
+     * @param topScore      Judge score of the winning outcome (0-100)
+     * @param runnerUpScore Judge score of the strongest losing outcome
+     *
+     * MarketResolved is emitted alongside OutcomeResolved (with outcome
+     * None, or Invalid) so lifecycle watchers needn't special-case
+     * categorical markets.
+     */
+    function settleOutcome(
+        uint256 marketId,
+        uint256 outcome,
+        uint256 topScore,
+        uint256 runnerUpScore,
+        bytes32 transcriptHash,
+        bytes32 cidA,
+        bytes32 cidB
+    ) external onlyOwner {
+        Market storage m = markets[marketId];
+        require(_awaitingTrial(m), "Settlement not requested");
+        require(_isCategorical(marketId), "Not a categorical market");
+        outcomeBooks[marketId].resolve(outcome);
+        m.status = MarketStatus.Resolved;
+        m.transcriptHash = transcriptHash;
+        m.transcriptCidA = cidA;
+        m.transcriptCidB = cidB;
+        _concludeAppeal(marketId, true);
+        if (outcome == INVALID_OUTCOME) {
+            m.outcome = Verdict.Invalid;
+        } else {
+            _accrueFees(marketId);
+        }
+        emit OutcomeResolved(marketId, outcome, topScore, runnerUpScore, transcriptHash);
+        emit MarketResolved(marketId, m.outcome, topScore, runnerUpScore, transcriptHash);
+    }
+
     /**
      * @notice Owner can manually escalate a market as a fallback.
      */
@@ -689,11 +1210,12 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         bytes32 cidB
     ) external onlyOwner {
         Market storage m = markets[marketId];
-        require(m.status == MarketStatus.SettlementRequested, "Settlement not requested");
+        require(_awaitingTrial(m), "Settlement not requested");
         m.status = MarketStatus.Escalated;
         m.transcriptHash = transcriptHash;
         m.transcriptCidA = cidA;
         m.transcriptCidB = cidB;
+        _recordEscalation(marketId);
         emit MarketEscalated(marketId, transcriptHash);
     }
 
@@ -704,13 +1226,18 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
     /**
      * @notice Winners claim proportional payouts from resolved markets.
      *
-     * Payout formula: (userStake / winnerPool) * totalPool
+     * Payout formula: (userStake / winnerPool) * payoutPool
+     * where payoutPool = totalPool − protocol fee − creator reward.
      *
-     * Example with YES pool = 3 ETH, NO pool = 1 ETH, verdict = YES:
+     * Example with YES pool = 3 ETH, NO pool = 1 ETH, verdict = YES, no fees:
      *   Alice staked 1 ETH YES → payout = (1/3) * 4 = 1.33 ETH
      *   Carol staked 2 ETH YES → payout = (2/3) * 4 = 2.67 ETH
      *   Bob (NO) gets nothing — his 1 ETH was distributed to winners
      *
+     * Integer division rounds every payout down. The last winner to
+     * claim receives whatever is left of payoutPool instead, so the
+     * rounding dust goes to a winner and the payouts sum to it exactly.
+     *
      * The position is zeroed BEFORE the transfer (checks-effects-interactions
      * pattern) to prevent re-entrancy. ReentrancyGuard provides additional
      * safety, but CEI is the primary defense.
@@ -718,12 +1245,14 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
     function claimWinnings(uint256 marketId) external nonReentrant {
         Market storage m = markets[marketId];
         require(m.status == MarketStatus.Resolved, "Market not resolved");
+        require(m.outcome != Verdict.Invalid, "Market invalid");
 
         uint256 userPosition;
         uint256 totalWinnerPool;
-        uint256 totalPool = m.yesPool + m.noPool;
 
-        if (m.outcome == Verdict.Yes) {
+        if (_isCategorical(marketId)) {
+            (userPosition, totalWinnerPool) = outcomeBooks[marketId].claimWinning(msg.sender);
+        } else if (m.outcome == Verdict.Yes) {
             userPosition = yesPositions[marketId][msg.sender];
             totalWinnerPool = m.yesPool;
             yesPositions[marketId][msg.sender] = 0;
@@ -736,9 +1265,58 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         require(userPosition > 0, "No winning position");
         require(totalWinnerPool > 0, "No winner pool");
 
-        uint256 payout = (userPosition * totalPool) / totalWinnerPool;
-        (bool sent, ) = payable(msg.sender).call{value: payout}("");
+        Payout storage p = payouts[marketId];
+        p.claimedStake += userPosition;
+        uint256 payout = p.claimedStake == totalWinnerPool
+            ? p.payoutPool - p.paidOut
+            : (userPosition * p.payoutPool) / totalWinnerPool;
+        p.paidOut += payout;
+
+        _send(marketTokens[marketId], msg.sender, payout);
+    }
+
+    /**
+     * @notice Creator claims their reward share of a resolved market.
+     */
+    function claimCreatorReward(uint256 marketId) external nonReentrant {
+        Market storage m = markets[marketId];
+        require(msg.sender == m.creator, "Not market creator");
+        uint256 reward = payouts[marketId].creatorReward;
+        require(reward > 0, "No creator reward");
+
+        payouts[marketId].creatorReward = 0;
+
+        _send(marketTokens[marketId], msg.sender, reward);
+
+        emit CreatorRewardClaimed(marketId, msg.sender, reward);
+    }
+
+    /**
+     * @notice Send accrued protocol fees to the treasury.
+     * Permissionless — the destination is fixed by the owner.
+     */
+    function withdrawFees() external nonReentrant {
+        uint256 amount = accruedFees;
+        require(amount > 0, "Nothing to withdraw");
+        accruedFees = 0;
+
+        (bool sent, ) = payable(treasury).call{value: amount}("");
         require(sent, "Transfer failed");
+
+        emit FeesWithdrawn(treasury, amount);
+    }
+
+    /**
+     * @notice Send a token's accrued protocol fees to the treasury.
+     */
+    function withdrawTokenFees(IERC20 token) external nonReentrant {
+        uint256 amount = accruedTokenFees[address(token)];
+        require(amount > 0, "Nothing to withdraw");
+        accruedTokenFees[address(token)] = 0;
+
+        token.safeTransfer(treasury, amount);
+
+        emit TokenFeesWithdrawn(address(token), treasury, amount);
     }
 
     /**
@@ -754,23 +1332,57 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
      *
      * Both YES and NO positions are refunded in a single call.
      * If a user staked on both sides (rare), they get both back.
+     * Likewise every outcome of a categorical market.
+     *
+     * Refunds open once the escalation is final: the market can no
+     * longer be appealed (window closed, or its one appeal tried) and
+     * the arbitration vote, if a committee is configured, has expired.
+     *
+     * A market resolved as Invalid refunds the same way, immediately —
+     * the ruling is final and there is no winning side to pay.
      */
     function claimRefund(uint256 marketId) external nonReentrant {
         Market storage m = markets[marketId];
-        require(m.status == MarketStatus.Escalated, "Market not escalated");
-
-        uint256 yesAmount = yesPositions[marketId][msg.sender];
-        uint256 noAmount = noPositions[marketId][msg.sender];
-        uint256 totalRefund = yesAmount + noAmount;
-
-        require(totalRefund > 0, "No position to refund");
+        bool invalid = m.status == MarketStatus.Resolved && m.outcome == Verdict.Invalid;
+        require(m.status == MarketStatus.Escalated || invalid, "Market not escalated");
+        if (!invalid) {
+            require(!_appealWindowOpen(marketId), "Appeal window open");
+            require(
+                arbitrationQuorums[marketId] == 0 || block.timestamp >= _arbitrationClosesAt(marketId),
+                "Arbitration pending"
+            );
+            refundsStarted[marketId] = true;
+        }
 
         // Zero positions before transfer (CEI pattern)
+        uint256 totalRefund = yesPositions[marketId][msg.sender] + noPositions[marketId][msg.sender];
         yesPositions[marketId][msg.sender] = 0;
         noPositions[marketId][msg.sender] = 0;
+        if (_isCategorical(marketId)) {
+            totalRefund += outcomeBooks[marketId].claimRefund(msg.sender);
+        }
 
-        (bool sent, ) = payable(msg.sender).call{value: totalRefund}("");
-        require(sent, "Transfer failed");
+        require(totalRefund > 0, "No position to refund");
+
+        /*
+         * Early-exit penalties are shared pro rata with the refunds.
+         * The payout ledger is free to track this: an escalated or
+         * Invalid market never accrued payouts, so nothing else uses it. The last refund takes
+         * the rounding remainder.
+         */
+        uint256 penalties = exitPenalties[marketId];
+        if (penalties > 0) {
+            Payout storage p = payouts[marketId];
+            uint256 totalStake = _totalStake(marketId);
+            p.claimedStake += totalRefund;
+            uint256 share = p.claimedStake == totalStake
+                ? penalties - p.paidOut
+                : (totalRefund * penalties) / totalStake;
+            p.paidOut += share;
+            totalRefund += share;
+        }
+
+        _send(marketTokens[marketId], msg.sender, totalRefund);
 
         emit RefundClaimed(marketId, msg.sender, totalRefund);
     }
@@ -795,12 +1407,186 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         uint256 deposit = m.creationDeposit;
         m.creationDeposit = 0;
 
-        (bool sent, ) = payable(msg.sender).call{value: deposit}("");
-        require(sent, "Transfer failed");
+        _send(marketTokens[marketId], msg.sender, deposit);
 
         emit DepositRefunded(marketId, msg.sender, deposit);
     }
 
+    // ═══════════════════════════════════════════════════════════════
+    //  APPEALS
+    // ═══════════════════════════════════════════════════════════════
+
+    /**
+     * @notice Appeal an escalation and send the market to a second trial.
+     * @param marketId The escalated market
+     *
+     * Any staker may appeal, once per market, within APPEAL_WINDOW of
+     * the escalation, by sending exactly APPEAL_BOND. The market moves
+     * to Appealed and is tried again through sendTrialRequest() (or the
+     * owner fallback); the trial is told it's an appeal and applies a
+     * stricter confidence threshold.
+     *
+     *   Retrial resolves  → appeal succeeded, bond reclaimable
+     *   Retrial escalates → appeal failed, bond slashed, refunds open
+     *   No retrial within RETRIAL_PERIOD → expireAppeal(), bond
+     *                       reclaimable, refunds open
+     */
+    function appeal(uint256 marketId) external payable {
+        Market storage m = markets[marketId];
+        require(m.status == MarketStatus.Escalated, "Market not escalated");
+        require(appeals[marketId].state == AppealState.None, "Already appealed");
+        require(block.timestamp < escalatedAt[marketId] + APPEAL_WINDOW, "Appeal window closed");
+        require(_positionOf(marketId, msg.sender) > 0, "Not a staker");
+        require(msg.value == APPEAL_BOND, "Must post appeal bond");
+
+        appeals[marketId] = Appeal({
+            appellant: msg.sender,
+            bond: msg.value,
+            state: AppealState.Pending
+        });
+        appealedAt[marketId] = block.timestamp;
+        m.status = MarketStatus.Appealed;
+        emit MarketAppealed(marketId, msg.sender, msg.value);
+    }
+
+    /**
+     * @notice Give up on a retrial that hasn't settled in RETRIAL_PERIOD.
+     *
+     * Permissionless. The market is escalated again with its first
+     * trial's transcript; refunds and arbitration then work as after a
+     * failed appeal, except that the bond stays reclaimable. A late
+     * answer from the DON is ignored, like any callback for a market
+     * that is no longer awaiting a trial.
+     */
+    function expireAppeal(uint256 marketId) external {
+        Market storage m = markets[marketId];
+        require(m.status == MarketStatus.Appealed, "Market not appealed");
+        require(block.timestamp >= appealedAt[marketId] + RETRIAL_PERIOD, "Retrial still pending");
+
+        appeals[marketId].state = AppealState.Expired;
+        m.status = MarketStatus.Escalated;
+        _recordEscalation(marketId);
+        emit AppealExpired(marketId);
+        emit MarketEscalated(marketId, m.transcriptHash);
+    }
+
+    /**
+     * @notice Appellant reclaims the bond after a successful or expired appeal.
+     */
+    function claimAppealBond(uint256 marketId) external nonReentrant {
+        Appeal storage a = appeals[marketId];
+        require(
+            a.state == AppealState.Succeeded || a.state == AppealState.Expired,
+            "Appeal not succeeded"
+        );
+        require(msg.sender == a.appellant, "Not appellant");
+        require(a.bond > 0, "Bond already claimed");
+
+        uint256 bond = a.bond;
+        a.bond = 0;
+
+        (bool sent, ) = payable(msg.sender).call{value: bond}("");
+        require(sent, "Transfer failed");
+
+        emit AppealBondClaimed(marketId, msg.sender, bond);
+    }
+
+    /**
+     * @notice Owner withdraws the bonds of failed appeals.
+     */
+    function withdrawSlashedBonds(address payable to) external onlyOwner nonReentrant {
+        uint256 amount = slashedBonds;
+        require(amount > 0, "Nothing to withdraw");
+        slashedBonds = 0;
+
+        (bool sent, ) = to.call{value: amount}("");
+        require(sent, "Transfer failed");
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    //  ARBITRATION
+    // ═══════════════════════════════════════════════════════════════
+
+    function addArbitrator(address arbitrator) external onlyOwner {
+        require(arbitrator != address(0), "Zero address");
+        require(!isArbitrator[arbitrator], "Already an arbitrator");
+        isArbitrator[arbitrator] = true;
+        arbitratorCount++;
+        emit ArbitratorAdded(arbitrator);
+    }
+
+    function removeArbitrator(address arbitrator) external onlyOwner {
+        require(isArbitrator[arbitrator], "Not an arbitrator");
+        require(arbitratorCount - 1 >= arbitrationQuorum, "Quorum exceeds arbitrators");
+        isArbitrator[arbitrator] = false;
+        arbitratorCount--;
+        emit ArbitratorRemoved(arbitrator);
+    }
+
+    /* m of the n registered arbitrators; 0 disables arbitration */
+    function setArbitrationQuorum(uint256 quorum) external onlyOwner {
+        require(quorum <= arbitratorCount, "Quorum exceeds arbitrators");
+        arbitrationQuorum = quorum;
+        emit ArbitrationQuorumSet(quorum);
+    }
+
+    /**
+     * @notice Vote to resolve an escalated market.
+     * @param marketId The escalated market
+     * @param vote     Yes or No — the outcome the arbitrator rules for
+     *
+     * Open from the moment the escalation can't be appealed until
+     * ARBITRATION_PERIOD later (see arbitrationWindow()). One vote per
+     * arbitrator. The vote that brings a side to the market's quorum
+     * resolves the market; claimWinnings() then pays out as usual.
+     */
+    function castArbitrationVote(uint256 marketId, Verdict vote) external {
+        Market storage m = markets[marketId];
+        uint256 quorum = arbitrationQuorums[marketId];
+        require(isArbitrator[msg.sender], "Not an arbitrator");
+        require(m.status == MarketStatus.Escalated, "Market not escalated");
+        require(!_isCategorical(marketId), "Categorical market");
+        require(quorum > 0, "Arbitration disabled");
+        require(!refundsStarted[marketId], "Refunds started");
+        require(vote == Verdict.Yes || vote == Verdict.No, "Invalid verdict");
+        (uint256 opensAt, uint256 closesAt) = arbitrationWindow(marketId);
+        require(block.timestamp >= opensAt, "Arbitration not open");
+        require(block.timestamp < closesAt, "Arbitration closed");
+        require(arbitrationVotes[marketId][msg.sender] == Verdict.None, "Already voted");
+
+        arbitrationVotes[marketId][msg.sender] = vote;
+        ArbitrationTally storage t = arbitrationTallies[marketId];
+        if (vote == Verdict.Yes) {
+            t.yesVotes++;
+        } else {
+            t.noVotes++;
+        }
+        emit ArbitrationVoteCast(marketId, msg.sender, vote);
+
+        uint256 votesFor = vote == Verdict.Yes ? t.yesVotes : t.noVotes;
+        if (votesFor >= quorum) {
+            m.status = MarketStatus.Resolved;
+            m.outcome = vote;
+            _accrueFees(marketId);
+            emit MarketArbitrated(marketId, vote, t.yesVotes, t.noVotes);
+            emit MarketResolved(marketId, vote, 0, 0, m.transcriptHash);
+        }
+    }
+
+    /**
+     * @notice When arbitrators may vote on an escalated market.
+     * Opens when the escalation becomes unappealable: at escalation if
+     * the market was already appealed, otherwise when APPEAL_WINDOW
+     * closes. Appeals and votes never overlap, so votes from one
+     * escalation can't carry over to the next.
+     */
+    function arbitrationWindow(uint256 marketId) public view returns (uint256 opensAt, uint256 closesAt) {
+        opensAt = appeals[marketId].state == AppealState.None
+            ? escalatedAt[marketId] + APPEAL_WINDOW
+            : escalatedAt[marketId];
+        closesAt = opensAt + ARBITRATION_PERIOD;
+    }
+
     // ═══════════════════════════════════════════════════════════════
     //  VIEW FUNCTIONS
     // ═══════════════════════════════════════════════════════════════
@@ -813,6 +1599,33 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
         return markets[marketId];
     }
 
+    /**
+     * @notice A categorical market's outcome labels and pools, by index.
+     * Both are empty for a binary market.
+     */
+    function getOutcomes(uint256 marketId)
+        external
+        view
+        returns (string[] memory labels, uint256[] memory pools)
+    {
+        CategoricalMarkets.Book storage book = outcomeBooks[marketId];
+        return (book.labels, book.pools);
+    }
+
+    /**
+     * @notice A staker's stake on one outcome of a categorical market.
+     */
+    function outcomePositions(uint256 marketId, address who, uint256 outcome) external view returns (uint256) {
+        return outcomeBooks[marketId].positions[who][outcome];
+    }
+
+    /**
+     * @notice The winning outcome's index of a resolved categorical market.
+     */
+    function winningOutcome(uint256 marketId) external view returns (uint256) {
+        return outcomeBooks[marketId].winner;
+    }
+
     /**
      * @notice Returns the latest ETH/USD price from Chainlink Data Feeds.
      * @return price The ETH price in USD with 8 decimals
@@ -829,37 +1642,98 @@ contract TrialMarket is Ownable, ReentrancyGuard, FunctionsClient, AutomationCom
     //  INTERNAL HELPERS
     // ═══════════════════════════════════════════════════════════════
 
+    /* A market waiting for a verdict: first trial or appeal retrial */
+    function _awaitingTrial(Market storage m) internal view returns (bool) {
+        return m.status == MarketStatus.SettlementRequested || m.status == MarketStatus.Appealed;
+    }
+
+    function _isCategorical(uint256 marketId) internal view returns (bool) {
+        return outcomeBooks[marketId].labels.length > 0;
+    }
+
+    /* Every stake still in a market: both binary pools plus any outcome pools */
+    function _totalStake(uint256 marketId) internal view returns (uint256 total) {
+        Market storage m = markets[marketId];
+        total = m.yesPool + m.noPool;
+        if (_isCategorical(marketId)) total += outcomeBooks[marketId].totalStake();
+    }
+
+    /* A staker's whole position in a market, across every side or outcome */
+    function _positionOf(uint256 marketId, address who) internal view returns (uint256 total) {
+        total = yesPositions[marketId][who] + noPositions[marketId][who];
+        if (_isCategorical(marketId)) total += outcomeBooks[marketId].positionOf(who);
+    }
+
+    function _arbitrationClosesAt(uint256 marketId) internal view returns (uint256 closesAt) {
+        (, closesAt) = arbitrationWindow(marketId);
+    }
+
     /*
-     * String conversion utilities for building Functions arguments.
-     * Chainlink Functions args[] is string[], so we need to convert
-     * numeric values to strings before passing them.
-     *
-     * Why not use OpenZeppelin Strings? We could, but these are
-     * minimal implementations that avoid an extra import. The
-     * contract already has enough imports.
-     */
-
-    function _uint256ToString(uint256 value) internal pure returns (string memory) {
-        if (value == 0) return "0";
-        uint256 temp = value;
-        uint256 digits;
-        while (temp != 0) {
-            digits++;
-            temp /= 10;
+     * Take the protocol fee and creator reward from a market's pool as
+     * it resolves, at the current rates, and fix the winners' share.
+     * Every resolution path calls this exactly once.
+     */
+    function _accrueFees(uint256 marketId) internal {
+        Market storage m = markets[marketId];
+        uint256 totalPool = _totalStake(marketId) + exitPenalties[marketId];
+        uint256 fee = (totalPool * protocolFeeBps) / 10_000;
+        uint256 reward = (totalPool * creatorRewardBps) / 10_000;
+
+        payouts[marketId] = Payout({
+            payoutPool: totalPool - fee - reward,
+            creatorReward: reward,
+            claimedStake: 0,
+            paidOut: 0
+        });
+        address token = address(marketTokens[marketId]);
+        if (token == address(0)) {
+            accruedFees += fee;
+        } else {
+            accruedTokenFees[token] += fee;
         }
-        bytes memory buffer = new bytes(digits);
-        while (value != 0) {
-            digits -= 1;
-            buffer[digits] = bytes1(uint8(48 + uint256(value % 10)));
-            value /= 10;
+
+        if (fee > 0) emit ProtocolFeeAccrued(marketId, fee);
+        if (reward > 0) emit CreatorRewardAccrued(marketId, m.creator, reward);
+    }
+
+    /* Pay out in a market's collateral: ETH, or its ERC-20 */
+    function _send(IERC20 token, address to, uint256 amount) internal {
+        if (address(token) == address(0)) {
+            (bool sent, ) = payable(to).call{value: amount}("");
+            require(sent, "Transfer failed");
+        } else {
+            token.safeTransfer(to, amount);
         }
-        return string(buffer);
     }
 
-    function _int256ToString(int256 value) internal pure returns (string memory) {
-        if (value >= 0) {
-            return _uint256ToString(uint256(value));
+    /* True while an escalated market can still be appealed */
+    function _appealWindowOpen(uint256 marketId) internal view returns (bool) {
+        return appeals[marketId].state == AppealState.None &&
+            block.timestamp < escalatedAt[marketId] + APPEAL_WINDOW;
+    }
+
+    /*
+     * Every escalation path: start the appeal window, or fail the
+     * pending appeal, and fix the quorum arbitration will need.
+     * Categorical markets aren't arbitrated, so theirs is always 0.
+     */
+    function _recordEscalation(uint256 marketId) internal {
+        escalatedAt[marketId] = block.timestamp;
+        arbitrationQuorums[marketId] = _isCategorical(marketId) ? 0 : arbitrationQuorum;
+        _concludeAppeal(marketId, false);
+    }
+
+    /* Settle a pending appeal; a failed appeal's bond is slashed */
+    function _concludeAppeal(uint256 marketId, bool succeeded) internal {
+        Appeal storage a = appeals[marketId];
+        if (a.state != AppealState.Pending) return;
+
+        if (succeeded) {
+            a.state = AppealState.Succeeded;
+        } else {
+            a.state = AppealState.Failed;
+            slashedBonds += a.bond;
         }
-        return string(abi.encodePacked("-", _uint256ToString(uint256(-value))));
+        emit AppealConcluded(marketId, succeeded);
     }
 }
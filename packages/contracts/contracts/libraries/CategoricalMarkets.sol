@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title CategoricalMarkets
+ * @notice Outcome book-keeping for TrialMarket's categorical markets.
+ *
+ * A categorical market has 2 to MAX_OUTCOMES named outcomes instead of
+ * YES/NO, each with its own pool. Everything that only categorical
+ * markets need — the labels, the per-outcome pools and positions, and
+ * the winning index — lives in one Book per market, and the code that
+ * reads and writes it lives here.
+ *
+ * Market status, collateral, fees and events stay in TrialMarket: a
+ * Book only knows who holds what.
+ *
+ * open(), which copies the labels into storage, is external: the
+ * library is deployed once and linked into TrialMarket, which
+ * delegatecalls it with the market's Book, keeping that code out of
+ * TrialMarket's 24KB size budget (EIP-170). The rest are small enough
+ * that a library call would cost TrialMarket more bytecode than it
+ * saves, so they're internal and compiled in.
+ */
+library CategoricalMarkets {
+    uint256 internal constant MAX_OUTCOMES = 8;
+    uint256 internal constant INVALID_OUTCOME = type(uint256).max;
+
+    /*
+     * labels/pools: indexed by outcome; labels is empty for a binary
+     * market, which is how TrialMarket tells the two kinds apart
+     * positions: staker → outcome index → stake
+     * winner: the winning index, once resolved to an outcome
+     */
+    struct Book {
+        string[] labels;
+        uint256[] pools;
+        mapping(address => mapping(uint256 => uint256)) positions;
+        uint256 winner;
+    }
+
+    /**
+     * @notice Record a new market's outcomes, with empty pools.
+     * @param outcomes Between 2 and MAX_OUTCOMES non-empty labels
+     */
+    function open(Book storage book, string[] calldata outcomes) external {
+        require(outcomes.length >= 2 && outcomes.length <= MAX_OUTCOMES, "Need 2-8 outcomes");
+        for (uint256 i = 0; i < outcomes.length; i++) {
+            require(bytes(outcomes[i]).length > 0, "Empty outcome");
+            book.labels.push(outcomes[i]);
+            book.pools.push(0);
+        }
+    }
+
+    /**
+     * @notice Add `amount` to `who`'s stake on one outcome.
+     */
+    function stake(Book storage book, address who, uint256 outcome, uint256 amount) internal {
+        require(outcome < book.labels.length, "Invalid outcome");
+        book.positions[who][outcome] += amount;
+        book.pools[outcome] += amount;
+    }
+
+    /**
+     * @notice Record the trial's winner.
+     * @param outcome The winning index, or INVALID_OUTCOME for a
+     *                question ruled invalid (no winner is recorded)
+     */
+    function resolve(Book storage book, uint256 outcome) internal {
+        require(outcome < book.labels.length || outcome == INVALID_OUTCOME, "Invalid outcome");
+        if (outcome != INVALID_OUTCOME) book.winner = outcome;
+    }
+
+    /**
+     * @notice Zero `who`'s stake on the winning outcome for a payout.
+     * @return position The stake just claimed
+     * @return pool     The winning outcome's whole pool
+     */
+    function claimWinning(Book storage book, address who) internal returns (uint256 position, uint256 pool) {
+        uint256 winner = book.winner;
+        position = book.positions[who][winner];
+        pool = book.pools[winner];
+        book.positions[who][winner] = 0;
+    }
+
+    /**
+     * @notice Zero every one of `who`'s stakes for a refund.
+     * @return total The stakes just cleared, summed across outcomes
+     */
+    function claimRefund(Book storage book, address who) internal returns (uint256 total) {
+        for (uint256 i = 0; i < book.labels.length; i++) {
+            total += book.positions[who][i];
+            book.positions[who][i] = 0;
+        }
+    }
+
+    /* `who`'s stake summed across every outcome */
+    function positionOf(Book storage book, address who) internal view returns (uint256 total) {
+        for (uint256 i = 0; i < book.labels.length; i++) {
+            total += book.positions[who][i];
+        }
+    }
+
+    /* Every stake in the market, summed across outcome pools */
+    function totalStake(Book storage book) internal view returns (uint256 total) {
+        for (uint256 i = 0; i < book.pools.length; i++) {
+            total += book.pools[i];
+        }
+    }
+}
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import {FunctionsRequest} from "@chainlink/contracts/src/v0.8/functions/v1_0_0/libraries/FunctionsRequest.sol";
+
+/**
+ * @title TrialRequest
+ * @notice Builds the CBOR-encoded Chainlink Functions request for a trial.
+ *
+ * An external library, deployed once and linked into TrialMarket.
+ * The CBOR encoder and the string conversions below are several KB of
+ * bytecode; keeping them out of TrialMarket is what keeps it under the
+ * 24KB contract size limit (EIP-170). TrialMarket delegatecalls in,
+ * passing its storage strings by reference, so nothing is copied
+ * twice.
+ */
+library TrialRequest {
+    using FunctionsRequest for FunctionsRequest.Request;
+
+    /**
+     * @notice Encode the request sendTrialRequest() sends to the DON.
+     * @param source         The trial JavaScript (s_functionsSource)
+     * @param ethUsdPrice    Latest Chainlink ETH/USD answer, 8 decimals
+     * @param isAppeal       True for an appeal retrial
+     * @param secretsVersion DON-hosted secrets version; 0 for none
+     */
+    function encode(
+        string storage source,
+        uint256 marketId,
+        string storage question,
+        string storage rubricHash,
+        int256 ethUsdPrice,
+        bool isAppeal,
+        uint8 secretsSlotId,
+        uint64 secretsVersion
+    ) external view returns (bytes memory) {
+        /*
+         * Build the arguments array for the Functions JavaScript.
+         * args[] is an array of strings that the JS source receives
+         * as the `args` parameter. We pass:
+         *   [0] marketId — so the JS knows which market it's resolving
+         *   [1] question — the full question text
+         *   [2] rubricHash — identifier for scoring criteria
+         *   [3] ethUsdPrice — verified Chainlink oracle price
+         *   [4] appeal — "1" for an appeal retrial (stricter threshold), else "0"
+         */
+        string[] memory args = new string[](5);
+        args[0] = _uint256ToString(marketId);
+        args[1] = question;
+        args[2] = rubricHash;
+        args[3] = _int256ToString(ethUsdPrice);
+        args[4] = isAppeal ? "1" : "0";
+
+        /*
+         * initializeRequestForInlineJavaScript sets the source code
+         * to be executed directly (not fetched from a URL).
+         */
+        FunctionsRequest.Request memory req;
+        req.initializeRequestForInlineJavaScript(source);
+        req.setArgs(args);
+
+        if (secretsVersion > 0) {
+            req.addDONHostedSecrets(secretsSlotId, secretsVersion);
+        }
+
+        return req.encodeCBOR();
+    }
+
+    /*
+     * String conversion utilities for building Functions arguments.
+     * Chainlink Functions args[] is string[], so we need to convert
+     * numeric values to strings before passing them.
+     *
+     * Why not use OpenZeppelin Strings? We could, but these are
+     * minimal implementations that avoid an extra import. The
+     * contract already has enough imports.
+     */
+
+    function _uint256ToString(uint256 value) private pure returns (string memory) {
+        if (value == 0) return "0";
+        uint256 temp = value;
+        uint256 digits;
+        while (temp != 0) {
+            digits++;
+            temp /= 10;
+        }
+        bytes memory buffer = new bytes(digits);
+        while (value != 0) {
+            digits -= 1;
+            buffer[digits] = bytes1(uint8(48 + uint256(value % 10)));
+            value /= 10;
+        }
+        return string(buffer);
+    }
+
+    function _int256ToString(int256 value) private pure returns (string memory) {
+        if (value >= 0) {
+            return _uint256ToString(uint256(value));
+        }
+        return string(abi.encodePacked("-", _uint256ToString(uint256(-value))));
+    }
+}
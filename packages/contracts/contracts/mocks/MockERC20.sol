@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @notice Mintable ERC-20 for testing token-collateral markets locally.
+ *
+ * On Sepolia, token markets would be staked in a real stablecoin such
+ * as USDC. On local Hardhat, we need a token anyone can mint, with
+ * configurable decimals so tests can mirror 6-decimal stablecoins as
+ * well as 18-decimal tokens.
+ */
+contract MockERC20 is ERC20 {
+    uint8 private immutable _decimals;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+    }
+
+    /**
+     * @notice Token decimals, set at deployment (USDC uses 6).
+     */
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /**
+     * @notice Mint tokens to any address. Unrestricted — test use only.
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -2,6 +2,8 @@ const marketId = args[0];
 const question = args[1];
 const rubricHash = args[2];
 const ethUsdPrice = args[3];
+const isAppeal = args[4] === "1";
+const confidenceThreshold = isAppeal ? 30 : 20;
 const ethPriceUsd = (parseInt(ethUsdPrice) / 1e8).toFixed(2);
 const questionLower = question.toLowerCase();
 function classifyQuestion(q) {
@@ -331,7 +333,7 @@ const advocateUserPrompt = `Question: ${question}
 Evidence:
 ${evidenceSummary}
 Rubric criteria: Data accuracy (30%), Time period coverage (25%), Source diversity (20%), Logical coherence (25%)
-Confidence threshold: 20 points
+Confidence threshold: ${confidenceThreshold} points${isAppeal ? " (appeal retrial)" : ""}
 Provide your structured argument as JSON.`;
 const [yesResponse, noResponse] = await Promise.all([
   Functions.makeHttpRequest({
@@ -388,9 +390,10 @@ Two advocates have argued opposite sides of a question. You must:
 2. Determine which side presented the stronger case.
 3. Flag any citations that don't match the provided evidence (hallucinations).
 4. Write a brief ruling explaining your decision.
+If the question itself cannot be answered (ambiguous, unresolvable, or malformed), rule "INVALID" instead of picking a side.
 Return ONLY valid JSON:
 {
-  "finalVerdict": "YES" or "NO",
+  "finalVerdict": "YES" or "NO" or "INVALID",
   "scoreYes": <total 0-100>,
   "scoreNo": <total 0-100>,
   "criterionScores": [
@@ -432,13 +435,15 @@ const ruling = JSON.parse(judgeText);
 const scoreYes = Math.round(ruling.scoreYes || 0);
 const scoreNo = Math.round(ruling.scoreNo || 0);
 const margin = Math.abs(scoreYes - scoreNo);
-const confidenceThreshold = 20;
 const hallucinations = ruling.hallucinationsDetected || [];
 let action; 
 let verdict; 
 if (hallucinations.length > 0) {
   action = 2;
   verdict = 0;
+} else if (ruling.finalVerdict === "INVALID") {
+  action = 1;
+  verdict = 3;
 } else if (margin < confidenceThreshold) {
   action = 2;
   verdict = 0;
@@ -450,17 +455,20 @@ const transcript = {
   marketId,
   question,
   category,
+  appeal: isAppeal,
   evidence: evidenceSummary,
   advocateYes: yesArgument,
   advocateNo: noArgument,
   judgeRuling: ruling,
   decision: {
     action: action === 1 ? "RESOLVE" : "ESCALATE",
-    verdict: verdict === 1 ? "YES" : verdict === 2 ? "NO" : null,
+    verdict: verdict === 1 ? "YES" : verdict === 2 ? "NO" : verdict === 3 ? "INVALID" : null,
     scoreYes,
     scoreNo,
     margin,
-    reason: action === 1
+    reason: verdict === 3
+      ? "Judge ruled the question invalid"
+      : action === 1
       ? `Margin of ${margin} exceeds threshold of ${confidenceThreshold}`
       : hallucinations.length > 0
         ? `Hallucinations detected: ${hallucinations.join(", ")}`
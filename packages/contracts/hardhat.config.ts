@@ -1,5 +1,6 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "hardhat-contract-sizer";
 import * as dotenv from "dotenv";
 
 /*
@@ -16,10 +17,13 @@ const config: HardhatUserConfig = {
    * compatible version across all our dependencies.
    *
    * Optimizer enabled with 200 runs to stay under the 24KB contract
-   * size limit (EIP-170). Without the optimizer, TrialMarket exceeds
-   * the limit due to the inline string conversion helpers and
-   * Chainlink library code. 200 runs balances deployment gas savings
+   * size limit (EIP-170). 200 runs balances deployment gas savings
    * with runtime gas efficiency.
+   *
+   * viaIR compiles through the Yul pipeline, whose optimizer shares
+   * code across TrialMarket's many similar entry points; together
+   * with the Chainlink request encoding living in the linked
+   * TrialRequest library, it keeps TrialMarket under the limit.
    */
   solidity: {
     version: "0.8.24",
@@ -28,8 +32,20 @@ const config: HardhatUserConfig = {
         enabled: true,
         runs: 200,
       },
+      viaIR: true,
     },
   },
+  /*
+   * Size check on every compile. strict fails the build (and with it
+   * `hardhat test`) when a contract's runtime bytecode exceeds the
+   * EIP-170 limit, so an oversized TrialMarket is caught here rather
+   * than by a deployment that reverts.
+   */
+  contractSizer: {
+    runOnCompile: true,
+    strict: true,
+    only: ["TrialMarket", "TrialRequest", "CategoricalMarkets"],
+  },
   networks: {
     /*
      * Sepolia testnet configuration.
@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { deployTrialMarketLibraries } from "./libraries";
 
 /**
  * Deploy TrialMarket to the configured network.
@@ -95,9 +96,14 @@ async function main() {
   /*
    * Deploy TrialMarket with the router and price feed addresses.
    * The constructor passes routerAddress to FunctionsClient(router)
-   * and stores priceFeedAddress for Data Feed reads.
+   * and stores priceFeedAddress for Data Feed reads. Its external
+   * libraries are deployed first and linked in.
    */
-  const TrialMarket = await ethers.getContractFactory("TrialMarket");
+  const libraries = await deployTrialMarketLibraries();
+  for (const [name, libraryAddress] of Object.entries(libraries)) {
+    console.log(`  ${name}:`, libraryAddress);
+  }
+  const TrialMarket = await ethers.getContractFactory("TrialMarket", { libraries });
   const market = await TrialMarket.deploy(routerAddress, priceFeedAddress);
   await market.waitForDeployment();
 
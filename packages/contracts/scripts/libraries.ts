@@ -0,0 +1,27 @@
+import { ethers } from "hardhat";
+
+/**
+ * Deploy the external libraries TrialMarket links against.
+ *
+ * TrialMarket keeps some of its code in libraries with external
+ * functions, to stay under the 24KB contract size limit. Those are
+ * separate contracts: each is deployed once and its address is
+ * written into TrialMarket's bytecode at deployment. Every script or
+ * test that deploys TrialMarket goes through here, so a new library
+ * only has to be added in one place.
+ *
+ * Usage:
+ *   const libraries = await deployTrialMarketLibraries();
+ *   const TrialMarket = await ethers.getContractFactory("TrialMarket", { libraries });
+ */
+export async function deployTrialMarketLibraries(): Promise<Record<string, string>> {
+  const libraries: Record<string, string> = {};
+
+  for (const name of ["TrialRequest", "CategoricalMarkets"]) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+  }
+
+  return libraries;
+}
@@ -1,6 +1,7 @@
 import { ethers } from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
+import { deployTrialMarketLibraries } from "./libraries";
 
 /**
  * TrialByFire — Sepolia Full Setup Script
@@ -89,7 +90,11 @@ async function main() {
   console.log(`         Functions Router: ${FUNCTIONS_ROUTER}`);
   console.log(`         ETH/USD Feed:     ${ETH_USD_FEED}`);
 
-  const TrialMarket = await ethers.getContractFactory("TrialMarket");
+  const libraries = await deployTrialMarketLibraries();
+  for (const [name, libraryAddress] of Object.entries(libraries)) {
+    console.log(`         ${name}: ${libraryAddress}`);
+  }
+  const TrialMarket = await ethers.getContractFactory("TrialMarket", { libraries });
   const market = await TrialMarket.deploy(FUNCTIONS_ROUTER, ETH_USD_FEED);
   await market.waitForDeployment();
 
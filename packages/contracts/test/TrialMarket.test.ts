@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { deployTrialMarketLibraries } from "../scripts/libraries";
 
 /**
  * Tests for TrialMarket.sol (with Chainlink integrations)
@@ -24,6 +25,14 @@ describe("TrialMarket", function () {
    */
   const CREATION_DEPOSIT = ethers.parseEther("0.01");
 
+  /* APPEAL_WINDOW, RETRIAL_PERIOD (seconds) and APPEAL_BOND must match TrialMarket.sol */
+  const APPEAL_WINDOW = 2 * 24 * 60 * 60;
+  const RETRIAL_PERIOD = 3 * 24 * 60 * 60;
+  const APPEAL_BOND = ethers.parseEther("0.05");
+
+  /* ARBITRATION_PERIOD (seconds) must match TrialMarket.sol */
+  const ARBITRATION_PERIOD = 3 * 24 * 60 * 60;
+
   // ══════════════════════════════════════════════════════════════
   //  FIXTURES
   // ══════════════════════════════════════════════════════════════
@@ -46,8 +55,10 @@ describe("TrialMarket", function () {
     const MockFeed = await ethers.getContractFactory("MockAggregator");
     const mockFeed = await MockFeed.deploy();
 
-    // Deploy TrialMarket with mock addresses
-    const TrialMarket = await ethers.getContractFactory("TrialMarket");
+    // Deploy TrialMarket with mock addresses, linked to its libraries
+    const TrialMarket = await ethers.getContractFactory("TrialMarket", {
+      libraries: await deployTrialMarketLibraries(),
+    });
     const market = await TrialMarket.deploy(
       await mockRouter.getAddress(),
       await mockFeed.getAddress()
@@ -275,7 +286,7 @@ describe("TrialMarket", function () {
       const { market, marketId } = await loadFixture(settlementReadyFixture);
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
 
-      await expect(market.settle(marketId, 1, 78, 45, hash))
+      await expect(market.settle(marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash))
         .to.emit(market, "MarketResolved")
         .withArgs(marketId, 1, 78, 45, hash);
 
@@ -288,7 +299,7 @@ describe("TrialMarket", function () {
       const { market, marketId } = await loadFixture(settlementReadyFixture);
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
 
-      await market.settle(marketId, 2, 40, 75, hash);
+      await market.settle(marketId, 2, 40, 75, hash, ethers.ZeroHash, ethers.ZeroHash);
       const m = await market.getMarket(marketId);
       expect(m.outcome).to.equal(2); // No
     });
@@ -298,7 +309,7 @@ describe("TrialMarket", function () {
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
 
       await expect(
-        market.connect(alice).settle(marketId, 1, 78, 45, hash)
+        market.connect(alice).settle(marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash)
       ).to.be.revertedWithCustomError(market, "OwnableUnauthorizedAccount");
     });
   });
@@ -312,7 +323,7 @@ describe("TrialMarket", function () {
       const { market, marketId } = await loadFixture(settlementReadyFixture);
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
 
-      await expect(market.escalate(marketId, hash))
+      await expect(market.escalate(marketId, hash, ethers.ZeroHash, ethers.ZeroHash))
         .to.emit(market, "MarketEscalated")
         .withArgs(marketId, hash);
 
@@ -398,6 +409,27 @@ describe("TrialMarket", function () {
       expect(m.status).to.equal(3); // Escalated
     });
 
+    it("resolves market as Invalid via Functions callback (RESOLVE + INVALID)", async function () {
+      const { market, mockRouter, marketId } = await loadFixture(functionsReadyFixture);
+
+      await market.sendTrialRequest(marketId);
+      const requestId = await mockRouter.lastRequestId();
+
+      // action=1 (RESOLVE), verdict=3 (INVALID) — the question can't be answered
+      const response = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint8", "uint8", "uint256", "uint256"],
+        [1, 3, 0, 0]
+      );
+
+      await expect(mockRouter.simulateResponse(requestId, response, "0x"))
+        .to.emit(market, "MarketResolved")
+        .withArgs(marketId, 3, 0, 0, ethers.keccak256(response));
+
+      const m = await market.getMarket(marketId);
+      expect(m.status).to.equal(2); // Resolved
+      expect(m.outcome).to.equal(3); // Invalid
+    });
+
     it("escalates on DON error", async function () {
       const { market, mockRouter, marketId } = await loadFixture(functionsReadyFixture);
 
@@ -414,6 +446,28 @@ describe("TrialMarket", function () {
       expect(m.status).to.equal(3); // Escalated
     });
 
+    it("ignores a late callback after the owner settled the market", async function () {
+      const { market, mockRouter, marketId } = await loadFixture(functionsReadyFixture);
+
+      await market.sendTrialRequest(marketId);
+      const requestId = await mockRouter.lastRequestId();
+
+      // Engine watchdog timed out and settled NO via the owner fallback
+      await market.settle(marketId, 2, 40, 70, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      // The DON finally answers RESOLVE + YES — must not overwrite the result
+      const response = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint8", "uint8", "uint256", "uint256"],
+        [1, 1, 78, 45]
+      );
+      await expect(mockRouter.simulateResponse(requestId, response, "0x"))
+        .to.not.emit(market, "MarketResolved");
+
+      const m = await market.getMarket(marketId);
+      expect(m.status).to.equal(2); // Resolved
+      expect(m.outcome).to.equal(2); // No
+    });
+
     it("emits TrialRequested with request ID", async function () {
       const { market, marketId } = await loadFixture(functionsReadyFixture);
 
@@ -504,7 +558,7 @@ describe("TrialMarket", function () {
       const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.settle(marketId, 1, 78, 45, hash);
+      await market.settle(marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       /*
        * Alice bet 1 ETH YES, Bob bet 0.5 ETH NO.
@@ -525,7 +579,7 @@ describe("TrialMarket", function () {
       const { market, bob, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.settle(marketId, 2, 40, 75, hash);
+      await market.settle(marketId, 2, 40, 75, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       const balanceBefore = await ethers.provider.getBalance(bob.address);
       const tx = await market.connect(bob).claimWinnings(marketId);
@@ -554,7 +608,7 @@ describe("TrialMarket", function () {
       await time.increase(3601);
       await base.market.requestSettlement(base.marketId);
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await base.market.settle(base.marketId, 1, 78, 45, hash);
+      await base.market.settle(base.marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       // Total pool: 4.5 ETH. YES pool: 3 ETH.
       // Alice: (1/3) * 4.5 = 1.5 ETH
@@ -578,7 +632,7 @@ describe("TrialMarket", function () {
       const { market, bob, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.settle(marketId, 1, 78, 45, hash);
+      await market.settle(marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       await expect(
         market.connect(bob).claimWinnings(marketId)
@@ -589,7 +643,7 @@ describe("TrialMarket", function () {
       const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.settle(marketId, 1, 78, 45, hash);
+      await market.settle(marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       await market.connect(alice).claimWinnings(marketId);
 
@@ -599,6 +653,610 @@ describe("TrialMarket", function () {
     });
   });
 
+  // ══════════════════════════════════════════════════════════════
+  //  Protocol fee + creator reward
+  // ══════════════════════════════════════════════════════════════
+
+  describe("fees", function () {
+    /**
+     * Fixture with a 2.5% protocol fee and 1% creator reward, and a
+     * pool whose winners' share doesn't divide evenly: three YES
+     * stakers of 1 ETH and 1 ETH + 2 wei NO. Signers 4–5 are the extra
+     * YES stakers; signer 6 is the treasury.
+     */
+    async function feeFixture() {
+      const base = await marketCreatedFixture();
+      const signers = await ethers.getSigners();
+      const [dave, erin, treasury] = signers.slice(4, 7);
+
+      await base.market.setFees(250, 100);
+      await base.market.setTreasury(treasury.address);
+
+      const one = ethers.parseEther("1.0");
+      for (const s of [base.alice, dave, erin]) {
+        await base.market.connect(s).takePosition(base.marketId, 1, { value: one });
+      }
+      await base.market.connect(base.bob).takePosition(base.marketId, 2, { value: one + 2n });
+
+      await time.increase(3601);
+      await base.market.requestSettlement(base.marketId);
+
+      const pool = 4n * one + 2n;
+      return { ...base, winners: [base.alice, dave, erin], treasury, pool };
+    }
+
+    /* ETH leaving the contract in one call — gas-free, unlike a wallet balance */
+    async function paidOutBy(market: Awaited<ReturnType<typeof feeFixture>>["market"], call: () => Promise<unknown>) {
+      const address = await market.getAddress();
+      const before = await ethers.provider.getBalance(address);
+      await call();
+      return before - (await ethers.provider.getBalance(address));
+    }
+
+    it("accrues the fee and creator reward at resolution", async function () {
+      const { market, owner, marketId, pool } = await loadFixture(feeFixture);
+
+      const fee = (pool * 250n) / 10_000n;
+      const reward = (pool * 100n) / 10_000n;
+
+      await expect(market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash))
+        .to.emit(market, "ProtocolFeeAccrued")
+        .withArgs(marketId, fee)
+        .and.to.emit(market, "CreatorRewardAccrued")
+        .withArgs(marketId, owner.address, reward);
+
+      expect(await market.accruedFees()).to.equal(fee);
+      expect((await market.payouts(marketId)).payoutPool).to.equal(pool - fee - reward);
+    });
+
+    it("pays out exactly the pool, rounding dust included", async function () {
+      const { market, marketId, winners, pool } = await loadFixture(feeFixture);
+      await market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      const paid: bigint[] = [];
+      for (const w of winners) {
+        paid.push(await paidOutBy(market, () => market.connect(w).claimWinnings(marketId)));
+      }
+      const fee = await paidOutBy(market, () => market.withdrawFees());
+      const reward = await paidOutBy(market, () => market.claimCreatorReward(marketId));
+
+      // Equal stakes: the first two get the rounded-down share, the last the remainder
+      expect(paid[1]).to.equal(paid[0]);
+      expect(paid[2]).to.be.greaterThan(paid[0]);
+      expect(paid[0] + paid[1] + paid[2] + fee + reward).to.equal(pool);
+
+      // Only the creator's deposit is left
+      expect(await ethers.provider.getBalance(await market.getAddress())).to.equal(CREATION_DEPOSIT);
+    });
+
+    it("sends withdrawn fees to the treasury", async function () {
+      const { market, marketId, treasury, pool } = await loadFixture(feeFixture);
+      await market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      const fee = (pool * 250n) / 10_000n;
+      const tx = market.withdrawFees();
+      await expect(tx).to.emit(market, "FeesWithdrawn").withArgs(treasury.address, fee);
+      await expect(tx).to.changeEtherBalance(treasury, fee);
+      await expect(market.withdrawFees()).to.be.revertedWith("Nothing to withdraw");
+    });
+
+    it("charges no fees on escalated markets", async function () {
+      const { market, alice, marketId } = await loadFixture(feeFixture);
+      await market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
+
+      await expect(market.connect(alice).claimRefund(marketId))
+        .to.changeEtherBalance(alice, ethers.parseEther("1.0"));
+      expect(await market.accruedFees()).to.equal(0);
+    });
+
+    it("snapshots rates at resolution", async function () {
+      const { market, marketId, pool } = await loadFixture(feeFixture);
+      await market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+      const payoutPool = (await market.payouts(marketId)).payoutPool;
+
+      await market.setFees(0, 0);
+
+      expect((await market.payouts(marketId)).payoutPool).to.equal(payoutPool);
+      expect(payoutPool).to.be.lessThan(pool);
+    });
+
+    it("caps the combined fee and restricts it to the owner", async function () {
+      const { market, alice } = await loadFixture(feeFixture);
+
+      await expect(market.setFees(800, 201)).to.be.revertedWith("Fees too high");
+      await expect(
+        market.connect(alice).setFees(100, 0)
+      ).to.be.revertedWithCustomError(market, "OwnableUnauthorizedAccount");
+    });
+
+    it("only the creator claims the creator reward, once", async function () {
+      const { market, alice, marketId } = await loadFixture(feeFixture);
+      await market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      await expect(
+        market.connect(alice).claimCreatorReward(marketId)
+      ).to.be.revertedWith("Not market creator");
+      await market.claimCreatorReward(marketId);
+      await expect(market.claimCreatorReward(marketId)).to.be.revertedWith("No creator reward");
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════
+  //  ERC-20 collateral
+  // ══════════════════════════════════════════════════════════════
+
+  describe("ERC-20 collateral", function () {
+    /* A 6-decimal stablecoin, like USDC */
+    const usdc = (amount: string) => ethers.parseUnits(amount, 6);
+    const TOKEN_DEPOSIT = usdc("10");
+
+    /**
+     * Fixture with an allowlisted mock stablecoin and a token market.
+     * Alice and Bob hold 1,000 USDC each and have approved the market.
+     */
+    async function tokenMarketFixture() {
+      const base = await deployFixture();
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      const token = await MockToken.deploy("Mock USD Coin", "USDC", 6);
+      const tokenAddress = await token.getAddress();
+      const marketAddress = await base.market.getAddress();
+
+      await base.market.setCollateralToken(tokenAddress, true, TOKEN_DEPOSIT);
+      for (const s of [base.owner, base.alice, base.bob]) {
+        await token.mint(s.address, usdc("1000"));
+        await token.connect(s).approve(marketAddress, ethers.MaxUint256);
+      }
+
+      await base.market.createTokenMarket("Will USDC hold its peg?", "QmRubricHash123", base.deadline, tokenAddress);
+      return { ...base, token, tokenAddress, marketId: 0 };
+    }
+
+    /** Token market with Alice 100 USDC YES, Bob 50 USDC NO, settlement requested */
+    async function tokenSettlementFixture() {
+      const base = await tokenMarketFixture();
+      await base.market.connect(base.alice).takeTokenPosition(base.marketId, 1, usdc("100"));
+      await base.market.connect(base.bob).takeTokenPosition(base.marketId, 2, usdc("50"));
+      await time.increase(3601);
+      await base.market.requestSettlement(base.marketId);
+      return base;
+    }
+
+    it("creates a market with the token's deposit", async function () {
+      const { market, token, tokenAddress, owner, marketId } = await loadFixture(tokenMarketFixture);
+
+      expect(await market.marketTokens(marketId)).to.equal(tokenAddress);
+      expect((await market.getMarket(marketId)).creationDeposit).to.equal(TOKEN_DEPOSIT);
+      expect(await token.balanceOf(owner.address)).to.equal(usdc("1000") - TOKEN_DEPOSIT);
+    });
+
+    it("rejects tokens that are not allowlisted", async function () {
+      const { market, deadline, alice } = await loadFixture(deployFixture);
+
+      await expect(
+        market.createTokenMarket("Question?", "QmRubric", deadline, alice.address)
+      ).to.be.revertedWith("Token not allowed");
+    });
+
+    it("only owner can allowlist tokens", async function () {
+      const { market, tokenAddress, alice } = await loadFixture(tokenMarketFixture);
+
+      await expect(
+        market.connect(alice).setCollateralToken(tokenAddress, true, TOKEN_DEPOSIT)
+      ).to.be.revertedWithCustomError(market, "OwnableUnauthorizedAccount");
+    });
+
+    it("stakes tokens with takeTokenPosition", async function () {
+      const { market, token, alice, marketId } = await loadFixture(tokenMarketFixture);
+
+      await expect(market.connect(alice).takeTokenPosition(marketId, 1, usdc("100")))
+        .to.emit(market, "PositionTaken")
+        .withArgs(marketId, alice.address, 1, usdc("100"));
+
+      expect((await market.getMarket(marketId)).yesPool).to.equal(usdc("100"));
+      expect(await token.balanceOf(await market.getAddress())).to.equal(TOKEN_DEPOSIT + usdc("100"));
+    });
+
+    it("rejects ETH stakes in a token market and vice versa", async function () {
+      const { market, alice, marketId } = await loadFixture(tokenMarketFixture);
+
+      await expect(
+        market.connect(alice).takePosition(marketId, 1, { value: ethers.parseEther("1.0") })
+      ).to.be.revertedWith("Token market");
+
+      await market.createMarket("ETH question?", "QmRubric", (await time.latest()) + 3600, {
+        value: CREATION_DEPOSIT,
+      });
+      await expect(
+        market.connect(alice).takeTokenPosition(1, 1, usdc("100"))
+      ).to.be.revertedWith("Not a token market");
+    });
+
+    it("pays winnings, fees and the creator reward in the token", async function () {
+      const { market, token, tokenAddress, owner, alice, marketId } = await loadFixture(tokenSettlementFixture);
+      await market.setFees(250, 100);
+      await market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      const pool = usdc("150");
+      const fee = (pool * 250n) / 10_000n;
+      const reward = (pool * 100n) / 10_000n;
+
+      await expect(market.connect(alice).claimWinnings(marketId)).to.changeTokenBalance(
+        token,
+        alice,
+        pool - fee - reward
+      );
+      await expect(market.claimCreatorReward(marketId)).to.changeTokenBalance(token, owner, reward);
+
+      expect(await market.accruedFees()).to.equal(0);
+      expect(await market.accruedTokenFees(tokenAddress)).to.equal(fee);
+      await expect(market.withdrawTokenFees(tokenAddress)).to.changeTokenBalance(token, owner, fee);
+    });
+
+    it("refunds stakes and the deposit in the token after escalation", async function () {
+      const { market, token, owner, bob, marketId } = await loadFixture(tokenSettlementFixture);
+      await market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
+
+      await expect(market.connect(bob).claimRefund(marketId)).to.changeTokenBalance(token, bob, usdc("50"));
+      await expect(market.claimCreationDeposit(marketId)).to.changeTokenBalance(token, owner, TOKEN_DEPOSIT);
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════
+  //  Early exit
+  // ══════════════════════════════════════════════════════════════
+
+  describe("early exit", function () {
+    const DAY = 24 * 60 * 60;
+    const one = ethers.parseEther("1.0");
+
+    /**
+     * Fixture with a 30-day market opted in to early exit.
+     * Alice stakes 1 ETH YES, Bob 1 ETH NO.
+     */
+    async function exitFixture() {
+      const base = await deployFixture();
+      const deadline = (await time.latest()) + 30 * DAY;
+      await base.market.createMarket("Will the exit work?", "QmRubricHash123", deadline, {
+        value: CREATION_DEPOSIT,
+      });
+      await base.market.enableEarlyExit(0);
+
+      await base.market.connect(base.alice).takePosition(0, 1, { value: one });
+      await base.market.connect(base.bob).takePosition(0, 2, { value: one });
+
+      return { ...base, deadline, marketId: 0 };
+    }
+
+    /* Mine the next tx `seconds` after the participant's entry time */
+    async function heldFor(market: Awaited<ReturnType<typeof exitFixture>>["market"], who: string, seconds: number) {
+      const entered = await market.entryTimes(0, who, 1);
+      await time.setNextBlockTimestamp(entered + BigInt(seconds));
+    }
+
+    it("only the creator can enable it, and only before any stake", async function () {
+      const { market, alice, marketId } = await loadFixture(exitFixture);
+
+      await expect(market.connect(alice).enableEarlyExit(marketId)).to.be.revertedWith("Not market creator");
+      await expect(market.enableEarlyExit(marketId)).to.be.revertedWith("Market has stakes");
+    });
+
+    it("rejects exits from markets that did not opt in", async function () {
+      const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
+
+      await expect(market.connect(alice).exitPosition(marketId, 1, one)).to.be.revertedWith(
+        "Early exit not enabled"
+      );
+    });
+
+    it("decays the penalty with how long the stake was held", async function () {
+      const { market, alice, marketId } = await loadFixture(exitFixture);
+
+      // Half of EXIT_PENALTY_DECAY: halfway from 20% to 2%
+      await heldFor(market, alice.address, 3.5 * DAY);
+      await expect(market.connect(alice).exitPosition(marketId, 1, ethers.parseEther("0.5")))
+        .to.emit(market, "PositionExited")
+        .withArgs(marketId, alice.address, 1, ethers.parseEther("0.5"), ethers.parseEther("0.055"));
+
+      // Past the decay period: the 2% floor
+      await heldFor(market, alice.address, 10 * DAY);
+      await expect(market.connect(alice).exitPosition(marketId, 1, ethers.parseEther("0.5"))).to.changeEtherBalance(
+        alice,
+        ethers.parseEther("0.49")
+      );
+    });
+
+    it("keeps penalties out of the pools and the implied probability", async function () {
+      const { market, alice, marketId } = await loadFixture(exitFixture);
+
+      await heldFor(market, alice.address, 10 * DAY);
+      await market.connect(alice).exitPosition(marketId, 1, ethers.parseEther("0.5"));
+
+      const m = await market.getMarket(marketId);
+      expect(m.yesPool).to.equal(ethers.parseEther("0.5"));
+      expect(m.noPool).to.equal(one);
+      expect(await market.exitPenalties(marketId)).to.equal(ethers.parseEther("0.01"));
+      expect(await market.yesPositions(marketId, alice.address)).to.equal(ethers.parseEther("0.5"));
+
+      // MarketList shows YES as yesPool / (yesPool + noPool): 1/3, not skewed by the penalty
+      const yesPct = (m.yesPool * 100n) / (m.yesPool + m.noPool);
+      expect(yesPct).to.equal(33n);
+    });
+
+    it("averages the entry time when a position is topped up", async function () {
+      const { market, alice, marketId } = await loadFixture(exitFixture);
+      const entered = await market.entryTimes(marketId, alice.address, 1);
+
+      await time.setNextBlockTimestamp(entered + BigInt(4 * DAY));
+      await market.connect(alice).takePosition(marketId, 1, { value: one });
+
+      expect(await market.entryTimes(marketId, alice.address, 1)).to.equal(entered + BigInt(2 * DAY));
+    });
+
+    it("rejects exits beyond the position or after the deadline", async function () {
+      const { market, alice, deadline, marketId } = await loadFixture(exitFixture);
+
+      await expect(market.connect(alice).exitPosition(marketId, 1, one + 1n)).to.be.revertedWith("Exceeds position");
+      await expect(market.connect(alice).exitPosition(marketId, 2, 1n)).to.be.revertedWith("Exceeds position");
+
+      await time.increaseTo(deadline);
+      await expect(market.connect(alice).exitPosition(marketId, 1, one)).to.be.revertedWith("Past deadline");
+    });
+
+    it("adds penalties to the pool winners split", async function () {
+      const { market, alice, bob, deadline, marketId } = await loadFixture(exitFixture);
+      await heldFor(market, alice.address, 10 * DAY);
+      await market.connect(alice).exitPosition(marketId, 1, ethers.parseEther("0.5"));
+
+      await time.increaseTo(deadline);
+      await market.requestSettlement(marketId);
+      await market.settle(marketId, 2, 40, 80, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      // Bob's 1 ETH + Alice's remaining 0.5 ETH + the 0.01 ETH penalty
+      await expect(market.connect(bob).claimWinnings(marketId)).to.changeEtherBalance(
+        bob,
+        ethers.parseEther("1.51")
+      );
+    });
+
+    it("refunds penalties pro rata on escalation", async function () {
+      const { market, alice, bob, deadline, marketId } = await loadFixture(exitFixture);
+      await heldFor(market, alice.address, 10 * DAY);
+      await market.connect(alice).exitPosition(marketId, 1, ethers.parseEther("0.5"));
+
+      await time.increaseTo(deadline);
+      await market.requestSettlement(marketId);
+      await market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
+
+      // 0.01 ETH of penalties over 1.5 ETH of stakes: Alice gets a third, Bob the rest
+      const aliceShare = ethers.parseEther("0.01") / 3n;
+      await expect(market.connect(alice).claimRefund(marketId))
+        .to.emit(market, "RefundClaimed")
+        .withArgs(marketId, alice.address, ethers.parseEther("0.5") + aliceShare);
+      await expect(market.connect(bob).claimRefund(marketId))
+        .to.emit(market, "RefundClaimed")
+        .withArgs(marketId, bob.address, one + ethers.parseEther("0.01") - aliceShare);
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════
+  //  Invalid outcome & cancelMarket
+  // ══════════════════════════════════════════════════════════════
+
+  describe("invalid outcome", function () {
+    it("refunds every staker in full, with no fees", async function () {
+      const { market, alice, bob, marketId } = await loadFixture(settlementReadyFixture);
+      await market.setFees(250, 100);
+
+      await market.settle(marketId, 3, 0, 0, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      // No appeal window or arbitration wait: the ruling is final
+      await expect(market.connect(alice).claimRefund(marketId)).to.changeEtherBalance(alice, ethers.parseEther("1.0"));
+      await expect(market.connect(bob).claimRefund(marketId)).to.changeEtherBalance(bob, ethers.parseEther("0.5"));
+      expect(await market.accruedFees()).to.equal(0);
+    });
+
+    it("pays no winnings", async function () {
+      const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
+      await market.settle(marketId, 3, 0, 0, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      await expect(market.connect(alice).claimWinnings(marketId)).to.be.revertedWith("Market invalid");
+    });
+
+    it("still refunds the creation deposit", async function () {
+      const { market, owner, marketId } = await loadFixture(settlementReadyFixture);
+      await market.settle(marketId, 3, 0, 0, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      await expect(market.claimCreationDeposit(marketId))
+        .to.emit(market, "DepositRefunded")
+        .withArgs(marketId, owner.address, CREATION_DEPOSIT);
+    });
+
+    it("rejects refunds from markets resolved Yes or No", async function () {
+      const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
+      await market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      await expect(market.connect(alice).claimRefund(marketId)).to.be.revertedWith("Market not escalated");
+    });
+  });
+
+  describe("cancelMarket", function () {
+    it("lets the creator cancel before any stake and returns the deposit", async function () {
+      const { market, owner, marketId } = await loadFixture(marketCreatedFixture);
+
+      const tx = market.cancelMarket(marketId);
+      await expect(tx).to.emit(market, "MarketCancelled").withArgs(marketId);
+      await expect(tx).to.changeEtherBalance(owner, CREATION_DEPOSIT);
+
+      expect((await market.getMarket(marketId)).status).to.equal(5); // Cancelled
+      expect((await market.getMarket(marketId)).creationDeposit).to.equal(0);
+    });
+
+    it("closes the market to new positions", async function () {
+      const { market, alice, marketId } = await loadFixture(marketCreatedFixture);
+      await market.cancelMarket(marketId);
+
+      await expect(
+        market.connect(alice).takePosition(marketId, 1, { value: ethers.parseEther("0.1") })
+      ).to.be.revertedWith("Market not open");
+      await expect(market.claimCreationDeposit(marketId)).to.be.revertedWith("Market not settled");
+    });
+
+    it("only the creator can cancel", async function () {
+      const { market, alice, marketId } = await loadFixture(marketCreatedFixture);
+
+      await expect(market.connect(alice).cancelMarket(marketId)).to.be.revertedWith("Not market creator");
+    });
+
+    it("cannot cancel once a position is taken", async function () {
+      const { market, alice, marketId } = await loadFixture(marketCreatedFixture);
+      await market.connect(alice).takePosition(marketId, 1, { value: ethers.parseEther("0.1") });
+
+      await expect(market.cancelMarket(marketId)).to.be.revertedWith("Market has stakes");
+    });
+  });
+
+  describe("categorical markets", function () {
+    const OUTCOMES = ["Team A", "Team B", "Team C"];
+    const INVALID_OUTCOME = ethers.MaxUint256;
+
+    /* Alice 1 ETH on Team A, Bob 0.5 ETH on Team B, Charlie 0.5 ETH on Team A; settlement requested */
+    async function categoricalFixture() {
+      const base = await deployFixture();
+      await base.market.createCategoricalMarket(
+        "Which team wins the league?",
+        "QmRubricHash123",
+        base.deadline,
+        OUTCOMES,
+        ethers.ZeroAddress,
+        { value: CREATION_DEPOSIT }
+      );
+      const marketId = 0;
+      await base.market.connect(base.alice).takeOutcomePosition(marketId, 0, ethers.parseEther("1.0"), {
+        value: ethers.parseEther("1.0"),
+      });
+      await base.market.connect(base.bob).takeOutcomePosition(marketId, 1, ethers.parseEther("0.5"), {
+        value: ethers.parseEther("0.5"),
+      });
+      await base.market.connect(base.charlie).takeOutcomePosition(marketId, 0, ethers.parseEther("0.5"), {
+        value: ethers.parseEther("0.5"),
+      });
+      await time.increase(3601);
+      await base.market.requestSettlement(marketId);
+      return { ...base, marketId };
+    }
+
+    it("creates a market with named outcomes and per-outcome pools", async function () {
+      const { market, alice, marketId } = await loadFixture(categoricalFixture);
+
+      const [labels, pools] = await market.getOutcomes(marketId);
+      expect(labels).to.deep.equal(OUTCOMES);
+      expect(pools).to.deep.equal([ethers.parseEther("1.5"), ethers.parseEther("0.5"), 0n]);
+      expect(await market.outcomePositions(marketId, alice.address, 0)).to.equal(ethers.parseEther("1.0"));
+
+      const m = await market.getMarket(marketId);
+      expect(m.yesPool + m.noPool).to.equal(0);
+    });
+
+    it("requires 2 to 8 non-empty outcomes", async function () {
+      const { market, deadline } = await loadFixture(deployFixture);
+      const create = (outcomes: string[]) =>
+        market.createCategoricalMarket("Q?", "QmRubric", deadline, outcomes, ethers.ZeroAddress, {
+          value: CREATION_DEPOSIT,
+        });
+
+      await expect(create(["Only"])).to.be.revertedWith("Need 2-8 outcomes");
+      await expect(create(Array.from({ length: 9 }, (_, i) => `O${i}`))).to.be.revertedWith("Need 2-8 outcomes");
+      await expect(create(["A", ""])).to.be.revertedWith("Empty outcome");
+      await expect(create(["A", "B"]))
+        .to.emit(market, "CategoricalMarketCreated")
+        .withArgs(0, ["A", "B"]);
+    });
+
+    it("keeps YES/NO staking and outcome staking apart", async function () {
+      const { market, alice, deadline } = await loadFixture(marketCreatedFixture);
+      await market.createCategoricalMarket("Q?", "QmRubric", deadline, OUTCOMES, ethers.ZeroAddress, {
+        value: CREATION_DEPOSIT,
+      });
+      const stake = ethers.parseEther("0.1");
+
+      await expect(market.connect(alice).takePosition(1, 1, { value: stake })).to.be.revertedWith(
+        "Categorical market"
+      );
+      await expect(market.connect(alice).takeOutcomePosition(0, 0, stake, { value: stake })).to.be.revertedWith(
+        "Not a categorical market"
+      );
+      await expect(market.connect(alice).takeOutcomePosition(1, 3, stake, { value: stake })).to.be.revertedWith(
+        "Invalid outcome"
+      );
+      await expect(
+        market.connect(alice).takeOutcomePosition(1, 0, stake, { value: ethers.parseEther("0.2") })
+      ).to.be.revertedWith("Value must equal amount");
+      await expect(market.enableEarlyExit(1)).to.be.revertedWith("Categorical market");
+    });
+
+    it("pays the winning outcome's stakers pro rata", async function () {
+      const { market, alice, bob, charlie, marketId } = await loadFixture(categoricalFixture);
+
+      await expect(market.settleOutcome(marketId, 0, 75, 30, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash))
+        .to.emit(market, "OutcomeResolved")
+        .withArgs(marketId, 0, 75, 30, ethers.ZeroHash);
+      expect(await market.winningOutcome(marketId)).to.equal(0);
+
+      // Pool of 2 ETH split 1 : 0.5 between the Team A stakers
+      await expect(market.connect(alice).claimWinnings(marketId)).to.changeEtherBalance(
+        alice,
+        ethers.parseEther("2.0") * 2n / 3n
+      );
+      await expect(market.connect(charlie).claimWinnings(marketId)).to.changeEtherBalance(
+        charlie,
+        ethers.parseEther("2.0") - ethers.parseEther("2.0") * 2n / 3n
+      );
+      await expect(market.connect(bob).claimWinnings(marketId)).to.be.revertedWith("No winning position");
+    });
+
+    it("refunds every outcome when ruled invalid", async function () {
+      const { market, alice, bob, marketId } = await loadFixture(categoricalFixture);
+
+      await market.settleOutcome(marketId, INVALID_OUTCOME, 0, 0, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      expect((await market.getMarket(marketId)).outcome).to.equal(3); // Invalid
+      await expect(market.connect(alice).claimWinnings(marketId)).to.be.revertedWith("Market invalid");
+      await expect(market.connect(alice).claimRefund(marketId)).to.changeEtherBalance(alice, ethers.parseEther("1.0"));
+      await expect(market.connect(bob).claimRefund(marketId)).to.changeEtherBalance(bob, ethers.parseEther("0.5"));
+    });
+
+    it("refunds an escalated categorical market without waiting on arbitration", async function () {
+      const { market, owner, alice, marketId } = await loadFixture(categoricalFixture);
+      await market.addArbitrator(owner.address);
+      await market.setArbitrationQuorum(1);
+      await market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
+
+      await expect(market.castArbitrationVote(marketId, 1)).to.be.revertedWith("Categorical market");
+      await expect(market.connect(alice).claimRefund(marketId)).to.changeEtherBalance(alice, ethers.parseEther("1.0"));
+    });
+
+    it("is settled by the owner, not the DON or the binary settle", async function () {
+      const { market, alice, marketId } = await loadFixture(categoricalFixture);
+
+      await expect(market.sendTrialRequest(marketId)).to.be.revertedWith("Categorical market");
+      await expect(
+        market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWith("Categorical market");
+      await expect(
+        market.settleOutcome(marketId, 3, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWith("Invalid outcome");
+      await expect(
+        market
+          .connect(alice)
+          .settleOutcome(marketId, 0, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(market, "OwnableUnauthorizedAccount");
+    });
+  });
+
   // ══════════════════════════════════════════════════════════════
   //  claimRefund (escalated markets)
   // ══════════════════════════════════════════════════════════════
@@ -608,7 +1266,8 @@ describe("TrialMarket", function () {
       const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.escalate(marketId, hash);
+      await market.escalate(marketId, hash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
 
       const balanceBefore = await ethers.provider.getBalance(alice.address);
       const tx = await market.connect(alice).claimRefund(marketId);
@@ -625,7 +1284,8 @@ describe("TrialMarket", function () {
       const { market, bob, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.escalate(marketId, hash);
+      await market.escalate(marketId, hash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
 
       const balanceBefore = await ethers.provider.getBalance(bob.address);
       const tx = await market.connect(bob).claimRefund(marketId);
@@ -642,7 +1302,8 @@ describe("TrialMarket", function () {
       const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.escalate(marketId, hash);
+      await market.escalate(marketId, hash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
 
       await expect(market.connect(alice).claimRefund(marketId))
         .to.emit(market, "RefundClaimed")
@@ -661,7 +1322,8 @@ describe("TrialMarket", function () {
       const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.escalate(marketId, hash);
+      await market.escalate(marketId, hash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
 
       await market.connect(alice).claimRefund(marketId);
 
@@ -669,6 +1331,367 @@ describe("TrialMarket", function () {
         market.connect(alice).claimRefund(marketId)
       ).to.be.revertedWith("No position to refund");
     });
+
+    it("reverts while the appeal window is open", async function () {
+      const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
+
+      const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
+      await market.escalate(marketId, hash, ethers.ZeroHash, ethers.ZeroHash);
+
+      await expect(
+        market.connect(alice).claimRefund(marketId)
+      ).to.be.revertedWith("Appeal window open");
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════
+  //  appeal (retrial of escalated markets)
+  // ══════════════════════════════════════════════════════════════
+
+  describe("appeal", function () {
+    /**
+     * Fixture with the market escalated by a first trial.
+     * Alice (YES) and Bob (NO) are stakers; Charlie is not.
+     */
+    async function escalatedFixture() {
+      const base = await settlementReadyFixture();
+      const hash = ethers.keccak256(ethers.toUtf8Bytes("first trial"));
+      await base.market.escalate(base.marketId, hash, ethers.ZeroHash, ethers.ZeroHash);
+      return base;
+    }
+
+    /** Fixture with Alice's appeal posted. */
+    async function appealedFixture() {
+      const base = await escalatedFixture();
+      await base.market
+        .connect(base.alice)
+        .appeal(base.marketId, { value: APPEAL_BOND });
+      return base;
+    }
+
+    it("moves the market to Appealed and records the bond", async function () {
+      const { market, alice, marketId } = await loadFixture(escalatedFixture);
+
+      await expect(market.connect(alice).appeal(marketId, { value: APPEAL_BOND }))
+        .to.emit(market, "MarketAppealed")
+        .withArgs(marketId, alice.address, APPEAL_BOND);
+
+      const m = await market.getMarket(marketId);
+      expect(m.status).to.equal(4); // Appealed
+
+      const a = await market.appeals(marketId);
+      expect(a.appellant).to.equal(alice.address);
+      expect(a.bond).to.equal(APPEAL_BOND);
+      expect(a.state).to.equal(1); // Pending
+    });
+
+    it("rejects non-stakers and wrong bond amounts", async function () {
+      const { market, alice, charlie, marketId } = await loadFixture(escalatedFixture);
+
+      await expect(
+        market.connect(charlie).appeal(marketId, { value: APPEAL_BOND })
+      ).to.be.revertedWith("Not a staker");
+      await expect(
+        market.connect(alice).appeal(marketId, { value: APPEAL_BOND / 2n })
+      ).to.be.revertedWith("Must post appeal bond");
+    });
+
+    it("rejects an appeal after the window closes", async function () {
+      const { market, alice, marketId } = await loadFixture(escalatedFixture);
+
+      await time.increase(APPEAL_WINDOW);
+
+      await expect(
+        market.connect(alice).appeal(marketId, { value: APPEAL_BOND })
+      ).to.be.revertedWith("Appeal window closed");
+    });
+
+    it("rejects appealing a market that is not escalated", async function () {
+      const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
+
+      await expect(
+        market.connect(alice).appeal(marketId, { value: APPEAL_BOND })
+      ).to.be.revertedWith("Market not escalated");
+    });
+
+    it("allows only one appeal per market", async function () {
+      const { market, bob, marketId } = await loadFixture(appealedFixture);
+
+      // Retrial escalates again — the market is Escalated, but already appealed
+      await market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      await expect(
+        market.connect(bob).appeal(marketId, { value: APPEAL_BOND })
+      ).to.be.revertedWith("Already appealed");
+    });
+
+    it("returns the bond when the retrial resolves the market", async function () {
+      const { market, alice, marketId } = await loadFixture(appealedFixture);
+
+      await expect(
+        market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash)
+      )
+        .to.emit(market, "AppealConcluded")
+        .withArgs(marketId, true);
+
+      const balanceBefore = await ethers.provider.getBalance(alice.address);
+      const tx = await market.connect(alice).claimAppealBond(marketId);
+      const receipt = await tx.wait();
+      const gasUsed = receipt!.gasUsed * receipt!.gasPrice;
+      const balanceAfter = await ethers.provider.getBalance(alice.address);
+
+      expect(balanceAfter - balanceBefore + gasUsed).to.equal(APPEAL_BOND);
+      await expect(
+        market.connect(alice).claimAppealBond(marketId)
+      ).to.be.revertedWith("Bond already claimed");
+    });
+
+    it("slashes the bond and opens refunds when the retrial escalates", async function () {
+      const { market, owner, alice, marketId } = await loadFixture(appealedFixture);
+
+      await expect(
+        market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash)
+      )
+        .to.emit(market, "AppealConcluded")
+        .withArgs(marketId, false);
+
+      expect(await market.slashedBonds()).to.equal(APPEAL_BOND);
+      await expect(
+        market.connect(alice).claimAppealBond(marketId)
+      ).to.be.revertedWith("Appeal not succeeded");
+
+      // No second appeal is possible, so refunds open immediately
+      await expect(market.connect(alice).claimRefund(marketId))
+        .to.emit(market, "RefundClaimed");
+
+      await expect(market.withdrawSlashedBonds(owner.address))
+        .to.changeEtherBalance(owner, APPEAL_BOND);
+    });
+
+    it("expires a retrial that never settles, returning the bond and opening refunds", async function () {
+      const { market, alice, bob, marketId } = await loadFixture(appealedFixture);
+
+      await expect(market.expireAppeal(marketId)).to.be.revertedWith("Retrial still pending");
+      await expect(market.connect(alice).claimRefund(marketId)).to.be.revertedWith("Market not escalated");
+
+      await time.increase(RETRIAL_PERIOD);
+      await expect(market.connect(bob).expireAppeal(marketId))
+        .to.emit(market, "AppealExpired")
+        .withArgs(marketId)
+        .and.to.emit(market, "MarketEscalated");
+
+      expect((await market.getMarket(marketId)).status).to.equal(3); // Escalated
+      expect((await market.appeals(marketId)).state).to.equal(4); // Expired
+      expect(await market.slashedBonds()).to.equal(0);
+
+      // The retrial can no longer settle it
+      await expect(
+        market.settle(marketId, 1, 80, 40, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWith("Settlement not requested");
+
+      await expect(market.connect(alice).claimAppealBond(marketId))
+        .to.changeEtherBalance(alice, APPEAL_BOND);
+      await expect(market.connect(alice).claimRefund(marketId))
+        .to.changeEtherBalance(alice, ethers.parseEther("1.0"));
+      await expect(market.expireAppeal(marketId)).to.be.revertedWith("Market not appealed");
+    });
+
+    it("sends the retrial to the DON and ignores the first request's callback", async function () {
+      const { market, mockRouter, marketId } = await loadFixture(settlementReadyFixture);
+
+      await market.setDonId(ethers.encodeBytes32String("test-don"));
+      await market.setSubscriptionId(1);
+      await market.setFunctionsSource("// mock trial source");
+
+      const encode = (action: number, verdict: number, yes: number, no: number) =>
+        ethers.AbiCoder.defaultAbiCoder().encode(
+          ["uint8", "uint8", "uint256", "uint256"],
+          [action, verdict, yes, no]
+        );
+
+      // First trial: sent, but the watchdog escalates before the DON answers
+      await market.sendTrialRequest(marketId);
+      const firstRequestId = await mockRouter.lastRequestId();
+      await market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      const [, alice] = await ethers.getSigners();
+      await market.connect(alice).appeal(marketId, { value: APPEAL_BOND });
+      await market.sendTrialRequest(marketId);
+      const retrialRequestId = await mockRouter.lastRequestId();
+
+      // The stale answer to the first request is ignored
+      await expect(mockRouter.simulateResponse(firstRequestId, encode(1, 2, 30, 80), "0x"))
+        .to.not.emit(market, "MarketResolved");
+      expect((await market.getMarket(marketId)).status).to.equal(4); // Appealed
+
+      await expect(mockRouter.simulateResponse(retrialRequestId, encode(1, 1, 85, 40), "0x"))
+        .to.emit(market, "MarketResolved");
+
+      const m = await market.getMarket(marketId);
+      expect(m.status).to.equal(2); // Resolved
+      expect(m.outcome).to.equal(1); // Yes
+      expect((await market.appeals(marketId)).state).to.equal(2); // Succeeded
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════
+  //  arbitration (m-of-n committee for escalated markets)
+  // ══════════════════════════════════════════════════════════════
+
+  describe("arbitration", function () {
+    /**
+     * Fixture with a 2-of-3 committee and the market escalated.
+     * Arbitrators are signers 4–6 (none of them stake).
+     */
+    async function arbitrationFixture() {
+      const base = await settlementReadyFixture();
+      const signers = await ethers.getSigners();
+      const arbitrators = signers.slice(4, 7);
+
+      for (const a of arbitrators) {
+        await base.market.addArbitrator(a.address);
+      }
+      await base.market.setArbitrationQuorum(2);
+
+      const hash = ethers.keccak256(ethers.toUtf8Bytes("close call"));
+      await base.market.escalate(base.marketId, hash, ethers.ZeroHash, ethers.ZeroHash);
+
+      return { ...base, arbitrators };
+    }
+
+    it("opens voting only after the appeal window", async function () {
+      const { market, marketId, arbitrators } = await loadFixture(arbitrationFixture);
+
+      await expect(
+        market.connect(arbitrators[0]).castArbitrationVote(marketId, 1)
+      ).to.be.revertedWith("Arbitration not open");
+
+      await time.increase(APPEAL_WINDOW);
+
+      await expect(market.connect(arbitrators[0]).castArbitrationVote(marketId, 1))
+        .to.emit(market, "ArbitrationVoteCast")
+        .withArgs(marketId, arbitrators[0].address, 1);
+    });
+
+    it("resolves the market once a side reaches the quorum", async function () {
+      const { market, alice, marketId, arbitrators } = await loadFixture(arbitrationFixture);
+      await time.increase(APPEAL_WINDOW);
+
+      await market.connect(arbitrators[0]).castArbitrationVote(marketId, 1);
+      await market.connect(arbitrators[1]).castArbitrationVote(marketId, 2);
+      expect((await market.getMarket(marketId)).status).to.equal(3); // still Escalated
+
+      await expect(market.connect(arbitrators[2]).castArbitrationVote(marketId, 1))
+        .to.emit(market, "MarketArbitrated")
+        .withArgs(marketId, 1, 2, 1);
+
+      const m = await market.getMarket(marketId);
+      expect(m.status).to.equal(2); // Resolved
+      expect(m.outcome).to.equal(1); // Yes
+
+      // Alice (YES) wins the whole 1.5 ETH pool
+      await expect(market.connect(alice).claimWinnings(marketId))
+        .to.changeEtherBalance(alice, ethers.parseEther("1.5"));
+    });
+
+    it("rejects non-arbitrators and double votes", async function () {
+      const { market, alice, marketId, arbitrators } = await loadFixture(arbitrationFixture);
+      await time.increase(APPEAL_WINDOW);
+
+      await expect(
+        market.connect(alice).castArbitrationVote(marketId, 1)
+      ).to.be.revertedWith("Not an arbitrator");
+
+      await market.connect(arbitrators[0]).castArbitrationVote(marketId, 2);
+      await expect(
+        market.connect(arbitrators[0]).castArbitrationVote(marketId, 2)
+      ).to.be.revertedWith("Already voted");
+    });
+
+    it("holds refunds until the voting deadline, then falls back to them", async function () {
+      const { market, alice, marketId, arbitrators } = await loadFixture(arbitrationFixture);
+      await time.increase(APPEAL_WINDOW);
+
+      await market.connect(arbitrators[0]).castArbitrationVote(marketId, 1);
+      await expect(
+        market.connect(alice).claimRefund(marketId)
+      ).to.be.revertedWith("Arbitration pending");
+
+      await time.increase(ARBITRATION_PERIOD);
+
+      await expect(
+        market.connect(arbitrators[1]).castArbitrationVote(marketId, 1)
+      ).to.be.revertedWith("Arbitration closed");
+      await expect(market.connect(alice).claimRefund(marketId))
+        .to.emit(market, "RefundClaimed")
+        .withArgs(marketId, alice.address, ethers.parseEther("1.0"));
+    });
+
+    it("opens voting right away after a failed appeal", async function () {
+      const { market, alice, marketId, arbitrators } = await loadFixture(arbitrationFixture);
+
+      await market.connect(alice).appeal(marketId, { value: APPEAL_BOND });
+      await market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+
+      await market.connect(arbitrators[0]).castArbitrationVote(marketId, 2);
+      await expect(market.connect(arbitrators[1]).castArbitrationVote(marketId, 2))
+        .to.emit(market, "MarketResolved");
+    });
+
+    it("holds a market to the quorum it escalated with", async function () {
+      const { market, marketId, arbitrators } = await loadFixture(arbitrationFixture);
+      await time.increase(APPEAL_WINDOW);
+
+      await market.setArbitrationQuorum(3);
+      expect(await market.arbitrationQuorums(marketId)).to.equal(2);
+
+      await market.connect(arbitrators[0]).castArbitrationVote(marketId, 1);
+      await expect(market.connect(arbitrators[1]).castArbitrationVote(marketId, 1))
+        .to.emit(market, "MarketArbitrated")
+        .withArgs(marketId, 1, 2, 0);
+    });
+
+    it("never arbitrates a market that escalated without a committee", async function () {
+      const { market, alice, bob, marketId } = await loadFixture(settlementReadyFixture);
+      const arbitrator = (await ethers.getSigners())[4];
+      await market.addArbitrator(arbitrator.address);
+
+      // Escalates while the quorum is 0, so refunds open with the appeal window
+      await market.escalate(marketId, ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash);
+      await time.increase(APPEAL_WINDOW);
+      await market.connect(alice).claimRefund(marketId);
+
+      // Turning the committee on afterwards doesn't reopen the market
+      await market.setArbitrationQuorum(1);
+      await expect(
+        market.connect(arbitrator).castArbitrationVote(marketId, 1)
+      ).to.be.revertedWith("Arbitration disabled");
+      await expect(market.connect(alice).claimWinnings(marketId)).to.be.revertedWith("Market not resolved");
+
+      // Bob is refunded too, leaving only the creation deposit behind
+      await expect(market.connect(bob).claimRefund(marketId))
+        .to.changeEtherBalance(bob, ethers.parseEther("0.5"));
+      expect(await ethers.provider.getBalance(await market.getAddress())).to.equal(CREATION_DEPOSIT);
+    });
+
+    it("keeps the quorum within the number of arbitrators", async function () {
+      const { market, arbitrators } = await loadFixture(arbitrationFixture);
+
+      await expect(market.setArbitrationQuorum(4)).to.be.revertedWith("Quorum exceeds arbitrators");
+
+      await market.removeArbitrator(arbitrators[2].address);
+      await expect(
+        market.removeArbitrator(arbitrators[1].address)
+      ).to.be.revertedWith("Quorum exceeds arbitrators");
+    });
+
+    it("only the owner manages the committee", async function () {
+      const { market, alice } = await loadFixture(arbitrationFixture);
+
+      await expect(
+        market.connect(alice).addArbitrator(alice.address)
+      ).to.be.revertedWithCustomError(market, "OwnableUnauthorizedAccount");
+    });
   });
 
   // ══════════════════════════════════════════════════════════════
@@ -680,7 +1703,7 @@ describe("TrialMarket", function () {
       const { market, owner, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.settle(marketId, 1, 78, 45, hash);
+      await market.settle(marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       const balanceBefore = await ethers.provider.getBalance(owner.address);
       const tx = await market.claimCreationDeposit(marketId);
@@ -696,7 +1719,7 @@ describe("TrialMarket", function () {
       const { market, owner, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.escalate(marketId, hash);
+      await market.escalate(marketId, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       await expect(market.claimCreationDeposit(marketId))
         .to.emit(market, "DepositRefunded")
@@ -707,7 +1730,7 @@ describe("TrialMarket", function () {
       const { market, alice, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.settle(marketId, 1, 78, 45, hash);
+      await market.settle(marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       await expect(
         market.connect(alice).claimCreationDeposit(marketId)
@@ -726,7 +1749,7 @@ describe("TrialMarket", function () {
       const { market, marketId } = await loadFixture(settlementReadyFixture);
 
       const hash = ethers.keccak256(ethers.toUtf8Bytes("transcript"));
-      await market.settle(marketId, 1, 78, 45, hash);
+      await market.settle(marketId, 1, 78, 45, hash, ethers.ZeroHash, ethers.ZeroHash);
 
       await market.claimCreationDeposit(marketId);
 
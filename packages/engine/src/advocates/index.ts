@@ -2,15 +2,31 @@ import type {
   MarketQuestion,
   EvidenceBundle,
   AdvocateArgument,
+  DebateRound,
+  OutcomeArgument,
   Verdict,
 } from "../types.js";
-import { AdvocateArgumentSchema } from "../types.js";
+import { AdvocateArgumentSchema, OutcomeArgumentSchema } from "../types.js";
 import type { LLMClient } from "../llm/index.js";
+import { callStructured } from "../llm/structured.js";
+import type { StructuredOutputOptions } from "../llm/structured.js";
+import { builtinPrompts, promptVersion } from "../prompts/index.js";
+import type { PromptTemplate } from "../prompts/index.js";
 import {
   buildAdvocateSystemPrompt,
   buildAdvocateUserPrompt,
+  buildOutcomeAdvocateSystemPrompt,
 } from "./prompts.js";
 
+/** Optional inputs to runAdvocate; every field has a default. */
+export interface AdvocateOptions {
+  /* The opponent's previous argument — makes this a rebuttal */
+  opposingArgument?: AdvocateArgument;
+  output?: StructuredOutputOptions;
+  /* An "advocate" template other than the latest */
+  prompt?: PromptTemplate;
+}
+
 /**
  * Runs a single advocate — sends the evidence bundle to an LLM with
  * instructions to argue for one side, then validates the response.
@@ -19,45 +35,46 @@ import {
  * 1. Build system prompt (sets the advocate's assigned side)
  * 2. Build user prompt (serializes question + rubric + evidence)
  * 3. Call the LLM
- * 4. Parse the JSON response
+ * 4. Parse the JSON response (repairing code fences / stray prose)
  * 5. Validate with Zod to ensure it matches our schema
- * 6. Attach the model name for audit trail
+ * 6. Attach the model name and prompt version for audit trail
  *
- * If the LLM returns invalid JSON or fails Zod validation, the error
- * propagates up — the pipeline doesn't silently accept bad data.
+ * Steps 3-5 go through callStructured: if the LLM returns invalid JSON
+ * or fails Zod validation, it is re-prompted with the error, up to
+ * output.maxAttempts calls. Once attempts run out the error propagates
+ * up — the pipeline doesn't silently accept bad data.
+ *
+ * Pass options.opposingArgument to run a rebuttal instead of an
+ * opening argument.
  */
 export async function runAdvocate(
   side: Verdict,
   question: MarketQuestion,
   evidence: EvidenceBundle,
-  llmClient: LLMClient
+  llmClient: LLMClient,
+  options: AdvocateOptions = {}
 ): Promise<AdvocateArgument> {
-  const systemPrompt = buildAdvocateSystemPrompt(side);
-  const userPrompt = buildAdvocateUserPrompt(question, evidence);
-
-  const response = await llmClient.call({
-    systemPrompt,
-    userPrompt,
-    maxTokens: 4096,
-    temperature: 0.3,
-  });
-
-  // Parse the raw JSON string from the LLM
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(response.content);
-  } catch {
-    throw new Error(
-      `Advocate ${side} returned invalid JSON: ${response.content.slice(0, 200)}`
-    );
-  }
+  const { opposingArgument, output, prompt = builtinPrompts().get("advocate") } = options;
+  const systemPrompt = buildAdvocateSystemPrompt(side, prompt);
+  const userPrompt = buildAdvocateUserPrompt(question, evidence, opposingArgument);
 
-  // Validate against our schema — catches missing fields, wrong types, etc.
-  const validated = AdvocateArgumentSchema.parse(parsed);
+  const { value: validated, response } = await callStructured(
+    `Advocate ${side}`,
+    llmClient,
+    {
+      systemPrompt,
+      userPrompt,
+      maxTokens: 4096,
+      temperature: 0.3,
+    },
+    AdvocateArgumentSchema,
+    output
+  );
 
   return {
     ...validated,
     model: response.model,
+    prompt: promptVersion(prompt),
   };
 }
 
@@ -86,3 +103,158 @@ export async function runAdvocatesPairInParallel(
 
   return { yes, no };
 }
+
+/**
+ * Runs one advocate of a categorical market, arguing for `outcome`.
+ *
+ * Same flow as runAdvocate. The outcome on the returned argument is
+ * always the assigned one, whatever label the model echoed back.
+ * options.prompt selects an "outcome-advocate" template other than
+ * the latest.
+ */
+export async function runOutcomeAdvocate(
+  outcome: string,
+  question: MarketQuestion,
+  evidence: EvidenceBundle,
+  llmClient: LLMClient,
+  options: Omit<AdvocateOptions, "opposingArgument"> = {}
+): Promise<OutcomeArgument> {
+  const { output, prompt = builtinPrompts().get("outcome-advocate") } = options;
+  const { value: validated, response } = await callStructured(
+    `Advocate "${outcome}"`,
+    llmClient,
+    {
+      systemPrompt: buildOutcomeAdvocateSystemPrompt(outcome, question.outcomes ?? [], prompt),
+      userPrompt: buildAdvocateUserPrompt(question, evidence),
+      maxTokens: 4096,
+      temperature: 0.3,
+    },
+    OutcomeArgumentSchema,
+    output
+  );
+
+  return {
+    ...validated,
+    outcome,
+    model: response.model,
+    prompt: promptVersion(prompt),
+  };
+}
+
+/** Optional inputs to runOutcomeAdvocates. */
+export interface OutcomeAdvocatesOptions extends Omit<AdvocateOptions, "opposingArgument"> {
+  /* Fires as each advocate finishes */
+  onArgument?: (argument: OutcomeArgument) => void;
+}
+
+/**
+ * Runs one advocate per outcome of a categorical market, all in
+ * parallel, and returns their arguments in outcome order.
+ *
+ * Outcome i is argued by clients[i % clients.length] — with the usual
+ * two advocate clients, neighbouring outcomes alternate between model
+ * families, so no single model's biases argue every case.
+ *
+ * Every advocate uses the same prompt template.
+ */
+export async function runOutcomeAdvocates(
+  question: MarketQuestion,
+  evidence: EvidenceBundle,
+  clients: LLMClient[],
+  options: OutcomeAdvocatesOptions = {}
+): Promise<OutcomeArgument[]> {
+  const { onArgument, ...advocateOptions } = options;
+  const outcomes = question.outcomes ?? [];
+  if (outcomes.length < 2) {
+    throw new Error(`A categorical question needs at least 2 outcomes, got ${outcomes.length}`);
+  }
+  if (clients.length === 0) {
+    throw new Error("At least one advocate client is required");
+  }
+
+  return Promise.all(
+    outcomes.map(async (outcome, i) => {
+      const client = clients[i % clients.length];
+      const argument = await runOutcomeAdvocate(outcome, question, evidence, client, advocateOptions);
+      onArgument?.(argument);
+      return argument;
+    })
+  );
+}
+
+/**
+ * Optional inputs to runDebate: callbacks fired while the debate runs,
+ * and the output options and prompt every argument uses.
+ */
+export interface DebateOptions extends Omit<AdvocateOptions, "opposingArgument"> {
+  onArgument?: (round: number, argument: AdvocateArgument) => void;
+  onRound?: (round: DebateRound) => void;
+}
+
+/**
+ * Runs a multi-round debate.
+ *
+ * Round 1 is the usual parallel opening exchange. In every later round
+ * both advocates run in parallel again, each given the opponent's
+ * argument from the round before, and write a rebuttal. Rounds
+ * themselves are sequential — round N needs round N-1's output.
+ *
+ * With rounds = 1 this is exactly runAdvocatesPairInParallel.
+ *
+ * options.onArgument fires as soon as each advocate finishes (so a
+ * live view can show one side before the other is done);
+ * options.onRound fires once both sides of a round are in. Every
+ * argument uses the same advocate prompt template.
+ */
+export async function runDebate(
+  question: MarketQuestion,
+  evidence: EvidenceBundle,
+  yesClient: LLMClient,
+  noClient: LLMClient,
+  rounds: number,
+  options: DebateOptions = {}
+): Promise<DebateRound[]> {
+  const { onArgument, onRound, output, prompt } = options;
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw new Error(`Debate rounds must be a positive integer, got ${rounds}`);
+  }
+
+  const history: DebateRound[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    const previous = history[history.length - 1];
+    const roundOutput: StructuredOutputOptions | undefined =
+      output && rounds > 1
+        ? {
+            ...output,
+            onCall: (log) =>
+              output.onCall?.({ ...log, label: `${log.label} (round ${round})` }),
+          }
+        : output;
+
+    const argue = async (
+      side: Verdict,
+      client: LLMClient,
+      opposing: AdvocateArgument | undefined
+    ) => {
+      const argument = await runAdvocate(side, question, evidence, client, {
+        opposingArgument: opposing,
+        output: roundOutput,
+        prompt,
+      });
+      onArgument?.(round, argument);
+      return argument;
+    };
+
+    const [yes, no] = await Promise.all([
+      argue("YES", yesClient, previous?.no),
+      argue("NO", noClient, previous?.yes),
+    ]);
+
+    const completed = { round, yes, no };
+    history.push(completed);
+    onRound?.(completed);
+  }
+
+  return history;
+}
@@ -1,4 +1,11 @@
-import type { Verdict, MarketQuestion, EvidenceBundle } from "../types.js";
+import type {
+  Verdict,
+  MarketQuestion,
+  EvidenceBundle,
+  AdvocateArgument,
+} from "../types.js";
+import { builtinPrompts, renderPrompt } from "../prompts/index.js";
+import type { PromptTemplate } from "../prompts/index.js";
 
 /**
  * Builds the system prompt for an advocate.
@@ -11,37 +18,40 @@ import type { Verdict, MarketQuestion, EvidenceBundle } from "../types.js";
  * The "only cite provided evidence" constraint is critical — it prevents
  * hallucinated citations and makes the judge's hallucination detection
  * meaningful (any citation not in the bundle is verifiably fake).
+ *
+ * The text is the "advocate" template from the prompt registry (see
+ * prompts/index.ts) — the latest built-in version unless one is given.
  */
-export function buildAdvocateSystemPrompt(side: Verdict): string {
-  return `You are an expert advocate in a structured adversarial debate protocol. Your assigned position is: ${side}.
-
-ROLE:
-You MUST argue that the answer to the question is ${side}. Build the strongest possible case for your position, regardless of your personal assessment.
-
-RULES:
-1. You may ONLY cite evidence from the evidence bundle provided in the user message. Do not reference external sources or prior knowledge.
-2. Every claim must be backed by at least one citation from the evidence bundle (reference items by their exact title).
-3. You must address EVERY criterion in the resolution rubric.
-4. Assess the strength of each argument honestly (0-100) — overstating weakens your credibility with the judge.
-5. Identify weaknesses in what the opposing side is likely to argue.
-
-OUTPUT FORMAT:
-Respond with a single JSON object matching this exact schema:
-{
-  "side": "${side}",
-  "confidence": <number 0-100>,
-  "arguments": [
-    {
-      "criterion": "<rubric criterion name>",
-      "claim": "<your argument for this criterion>",
-      "evidenceCitations": ["<exact title of evidence item>", ...],
-      "strength": <number 0-100>
-    }
-  ],
-  "weaknessesInOpposingCase": ["<weakness 1>", "<weakness 2>", ...]
+export function buildAdvocateSystemPrompt(
+  side: Verdict,
+  template: PromptTemplate = builtinPrompts().get("advocate")
+): string {
+  return renderPrompt(template, { side });
 }
 
-IMPORTANT: Return ONLY valid JSON. No markdown, no explanation, no preamble.`;
+/**
+ * Builds the system prompt for an advocate in a categorical market.
+ *
+ * Same rules as the YES/NO advocate, but the mandate is one named
+ * outcome out of several: the advocate must show that this outcome,
+ * rather than any of the others, is the answer. Listing the rival
+ * outcomes lets it anticipate their cases in weaknessesInOpposingCase.
+ *
+ * The text is the "outcome-advocate" template from the prompt registry.
+ */
+export function buildOutcomeAdvocateSystemPrompt(
+  outcome: string,
+  outcomes: string[],
+  template: PromptTemplate = builtinPrompts().get("outcome-advocate")
+): string {
+  const quoted = (list: string[]) => list.map((o) => `"${o}"`);
+
+  return renderPrompt(template, {
+    outcomeCount: String(outcomes.length),
+    outcomes: quoted(outcomes).join(", "),
+    outcome,
+    rivals: quoted(outcomes.filter((o) => o !== outcome)).join(" or "),
+  });
 }
 
 /**
@@ -50,10 +60,15 @@ IMPORTANT: Return ONLY valid JSON. No markdown, no explanation, no preamble.`;
  * The evidence bundle is serialized with clear item boundaries and titles
  * so the advocate can cite them accurately. The rubric criteria are listed
  * with their weights so the advocate knows what the judge prioritizes.
+ *
+ * In rebuttal rounds, opposingArgument is the other side's argument from
+ * the previous round. The advocate then writes weaknessesInOpposingCase
+ * against what the opponent actually said, instead of guessing.
  */
 export function buildAdvocateUserPrompt(
   question: MarketQuestion,
-  evidence: EvidenceBundle
+  evidence: EvidenceBundle,
+  opposingArgument?: AdvocateArgument
 ): string {
   const rubricSection = question.rubric.criteria
     .map(
@@ -73,14 +88,34 @@ ${item.url ? `URL: ${item.url}` : ""}`
     )
     .join("\n\n");
 
-  return `MARKET QUESTION:
+  const base = `MARKET QUESTION:
 ${question.question}
 
 RESOLUTION RUBRIC:
 ${rubricSection}
 
 EVIDENCE BUNDLE (${evidence.items.length} items):
-${evidenceSection}
+${evidenceSection}`;
+
+  if (!opposingArgument) {
+    return `${base}
 
 Build your case now. Address every rubric criterion. Cite evidence by exact title.`;
+  }
+
+  const opposingClaims = opposingArgument.arguments
+    .map(
+      (a) =>
+        `  Criterion: ${a.criterion}
+  Claim: ${a.claim}
+  Citations: ${a.evidenceCitations.join(", ")}`
+    )
+    .join("\n\n");
+
+  return `${base}
+
+OPPOSING ADVOCATE'S PREVIOUS ARGUMENT (${opposingArgument.side}, confidence ${opposingArgument.confidence}/100):
+${opposingClaims}
+
+This is a rebuttal round. Restate your case for every rubric criterion, strengthened where the opposing argument exposed a gap. In "weaknessesInOpposingCase", rebut the specific claims above — point to misread or missing evidence rather than generic objections. Cite evidence by exact title.`;
 }
@@ -6,33 +6,81 @@
  * This server does TWO things:
  *
  * 1. HTTP API — Exposes endpoints for the frontend to trigger trials manually
- * 2. Automation Loop — Polls the contract every 30s, automatically:
+ * 2. Automation Loop — Every 30s, indexes new contract logs and automatically:
  *    - Detects markets past deadline with status Open → calls requestSettlement
  *    - Detects markets with status SettlementRequested → runs trial → settles onchain
+ *    - Detects markets with status Appealed → runs the stricter retrial the same way
+ *    - Categorical markets are always tried here and settled with settleOutcome
  *
  * The automation loop is the local equivalent of Chainlink Automation + Functions.
  * On the DON, Chainlink keepers call checkUpkeep/performUpkeep automatically.
  * Here, we do the same thing from this server using the deployer key.
  *
  * Endpoints:
- *   GET  /api/health  — Server health check
- *   POST /api/trial   — Run adversarial trial (manual trigger)
- *   POST /api/settle  — Settle market onchain (manual trigger)
+ *   GET  /api/health                       — Server health check
+ *   GET  /api/transcript/:marketId         — Latest trial transcript for a market
+ *   GET  /api/transcript/:marketId/history — Every trial (retrials included)
+ *   GET  /api/trial/:marketId/events       — Live trial progress (Server-Sent Events)
+ *   POST /api/rubrics                      — Publish a market's full rubric JSON
+ *   GET  /api/rubrics/:rubricHash          — Fetch a published rubric
+ *   POST /api/questions/lint               — Pre-screen a draft question's resolvability
+ *   POST /api/trial                        — Queue an adversarial trial (202 + job)
+ *   GET  /api/jobs/:jobId                  — Job status, progress, error and transcript
+ *   GET  /api/don-requests                 — DON trial requests awaiting fulfillment
+ *   POST /api/settle                       — Settle market onchain (manual trigger)
+ *
+ * Trials run on an in-process job queue (TRIAL_CONCURRENCY at a time,
+ * default 1), so POST /api/trial answers immediately with a job ID to
+ * poll. Job records are persisted to JOB_STORE_DIR (default ./data/jobs).
+ *
+ * Market state comes from an event indexer (MarketCreated, CategoricalMarketCreated,
+ * SettlementRequested, TrialRequested, MarketResolved, MarketEscalated) checkpointed to
+ * INDEXER_STORE_DIR (default ./data/indexer). Set INDEXER_START_BLOCK to
+ * the deployment block and INDEXER_CONFIRMATIONS to lag behind the head.
+ * A DON request unfulfilled after DON_FULFILLMENT_TIMEOUT_MS (default
+ * 5 minutes) is tried locally instead.
+ *
+ * Transcripts are persisted to TRANSCRIPT_STORE_DIR (default ./data/transcripts)
+ * and reloaded on startup, so a restart doesn't lose trial results.
+ *
+ * Trials use the rubric the market creator actually chose: the frontend
+ * publishes it to the rubric registry (RUBRIC_STORE_DIR, default
+ * ./data/rubrics) and the engine verifies it against the onchain
+ * rubricHash before trying the market. Markets whose rubric is missing
+ * or doesn't match are refused and escalated without a trial.
  */
 
 import dotenv from "dotenv";
 dotenv.config({ path: "../../.env" });
 import http from "node:http";
+import path from "node:path";
 import { ethers } from "ethers";
 import { runTrial } from "./pipeline/index.js";
+import { runCategoricalTrial } from "./pipeline/categorical.js";
 import type { PipelineConfig } from "./pipeline/index.js";
-import { createLLMClient } from "./llm/index.js";
+import { createLLMClient, parseProviderList } from "./llm/index.js";
+import type { LLMClientOptions, LLMProvider } from "./llm/index.js";
+import { addTrialUsage, emptyUsageAggregate, parseTrialBudget } from "./usage/index.js";
+import type { UsageAggregate } from "./usage/index.js";
 import { MockEvidenceSource } from "./evidence/mock.js";
 import { DeFiLlamaSource } from "./evidence/sources/defilama.js";
 import { TreasurySource } from "./evidence/sources/treasury.js";
 import { DynamicEvidenceSource } from "./evidence/sources/dynamic.js";
-import { createOnchainSettler } from "./settlement/onchain.js";
-import type { MarketQuestion, TrialTranscript } from "./types.js";
+import { createOnchainSettler, settleDecision } from "./settlement/onchain.js";
+import { FileTranscriptRepository } from "./store/index.js";
+import type { TranscriptRecord, TranscriptRepository } from "./store/index.js";
+import { RubricDocumentSchema, resolveRubric } from "./rubric/index.js";
+import type { RubricRegistry, RubricResolution } from "./rubric/index.js";
+import { FileRubricRegistry } from "./rubric/file.js";
+import { TrialEventHub } from "./events/index.js";
+import { FileJobStore, TrialJobQueue } from "./jobs/index.js";
+import type { TrialJob, TrialJobRunner } from "./jobs/index.js";
+import { EthersChainReader, FileIndexerStore, MarketIndexer } from "./indexer/index.js";
+import { FulfillmentWatchdog } from "./watchdog/index.js";
+import { lintQuestion } from "./lint/index.js";
+import { loadPromptRegistry, parsePromptSelection, PROMPT_STAGES, promptId } from "./prompts/index.js";
+import { decidedOutcome } from "./types.js";
+import type { CategoricalTranscript, MarketQuestion, TrialEvent, TrialTranscript } from "./types.js";
 import type { EvidenceSource } from "./evidence/index.js";
 
 const PORT = parseInt(process.env.API_PORT || "3001", 10);
@@ -41,23 +89,28 @@ const useMocks = process.env.USE_MOCKS === "true";
 const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
 const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS || "";
 const PRIVATE_KEY = process.env.PRIVATE_KEY || "";
+const TRANSCRIPT_STORE_DIR = process.env.TRANSCRIPT_STORE_DIR || "data/transcripts";
+const RUBRIC_STORE_DIR = process.env.RUBRIC_STORE_DIR || "data/rubrics";
+const JOB_STORE_DIR = process.env.JOB_STORE_DIR || "data/jobs";
+const TRIAL_CONCURRENCY = parseInt(process.env.TRIAL_CONCURRENCY || "1", 10);
+const INDEXER_STORE_DIR = process.env.INDEXER_STORE_DIR || "data/indexer";
+const INDEXER_START_BLOCK = parseInt(process.env.INDEXER_START_BLOCK || "0", 10);
+const INDEXER_CONFIRMATIONS = parseInt(process.env.INDEXER_CONFIRMATIONS || "0", 10);
+const DON_FULFILLMENT_TIMEOUT_MS = parseInt(process.env.DON_FULFILLMENT_TIMEOUT_MS || "300000", 10);
 
 /* Automation polling interval (30 seconds) */
 const POLL_INTERVAL = 30_000;
 
 /* ── Contract ABI (for reading market state + triggering Chainlink) ── */
 const CONTRACT_ABI = [
-  "function getMarket(uint256 marketId) view returns (tuple(string question, string rubricHash, uint256 deadline, uint8 status, uint8 outcome, uint256 yesPool, uint256 noPool, bytes32 transcriptHash, address creator, uint256 creationDeposit))",
-  "function nextMarketId() view returns (uint256)",
+  "function getMarket(uint256 marketId) view returns (tuple(string question, string rubricHash, uint256 deadline, uint8 status, uint8 outcome, uint256 yesPool, uint256 noPool, bytes32 transcriptHash, bytes32 transcriptCidA, bytes32 transcriptCidB, address creator, uint256 creationDeposit))",
+  "function getOutcomes(uint256 marketId) view returns (string[] labels, uint256[] pools)",
   "function requestSettlement(uint256 marketId)",
   "function sendTrialRequest(uint256 marketId) returns (bytes32)",
   "function settle(uint256 marketId, uint8 outcome, uint256 scoreYes, uint256 scoreNo, bytes32 transcriptHash)",
   "function escalate(uint256 marketId, bytes32 transcriptHash)",
 ];
 
-/* Market status enum matching the contract */
-const STATUS = { Open: 0, SettlementRequested: 1, Resolved: 2, Escalated: 3 };
-
 /* ── Helpers ── */
 
 function parseBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
@@ -85,8 +138,26 @@ function sendJson(res: http.ServerResponse, status: number, data: unknown) {
   res.end(JSON.stringify(data));
 }
 
+/* One SSE message per event; the event type travels inside the JSON */
+function sendEvent(res: http.ServerResponse, event: TrialEvent) {
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
 /* ── Pipeline Config ── */
 
+/*
+ * Resilience for live LLM calls: per-attempt timeout, retries with
+ * backoff on 429/5xx, and optional failover providers, e.g.
+ * LLM_FAILOVER=openai. Mocks don't need any of it.
+ */
+const llmOptions: LLMClientOptions = useMocks
+  ? {}
+  : {
+      timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || "60000", 10),
+      maxRetries: parseInt(process.env.LLM_MAX_RETRIES || "3", 10),
+      failover: parseProviderList(process.env.LLM_FAILOVER),
+    };
+
 /*
  * Evidence sources: Dynamic routing replaces hardcoded sources.
  *
@@ -101,34 +172,169 @@ function sendJson(res: http.ServerResponse, status: number, data: unknown) {
  * This is the local equivalent of what trial-source.js does on
  * the Chainlink DON — both dynamically select APIs based on the question.
  */
-const dynamicLLMClient = createLLMClient(useMocks ? "mock" : "anthropic");
+const dynamicLLMClient = createLLMClient(useMocks ? "mock" : "anthropic", llmOptions);
 const evidenceSources: EvidenceSource[] = useMocks
   ? [new MockEvidenceSource()]
   : [new DynamicEvidenceSource(dynamicLLMClient), new DeFiLlamaSource(), new TreasurySource()];
 
-function buildPipelineConfig(): PipelineConfig {
+/*
+ * Optional judge panel, e.g. JUDGE_PANEL=anthropic,openai,anthropic.
+ * Empty → single judge. In mock mode every panel seat is a mock client.
+ */
+const judgePanelProviders = parseProviderList(process.env.JUDGE_PANEL);
+/*
+ * Appeal retrials (a staker bonded an appeal of an escalation) must
+ * clear a higher bar than the first trial: the rubric's threshold is
+ * raised by APPEAL_THRESHOLD_INCREASE, matching trial-source.js on the
+ * DON, and APPEAL_JUDGE_PANEL, if set, seats a larger panel.
+ */
+const APPEAL_THRESHOLD_INCREASE = parseInt(process.env.APPEAL_THRESHOLD_INCREASE || "10", 10);
+const appealJudgePanelProviders = parseProviderList(process.env.APPEAL_JUDGE_PANEL);
+
+const judgeAggregation = process.env.JUDGE_AGGREGATION === "trimmed-mean" ? "trimmed-mean" : "median";
+
+/* Question linting reviews drafts with its own client, outside any trial */
+const lintLLMClient = createLLMClient(useMocks ? "mock" : "anthropic", llmOptions);
+
+/* Debate rounds — 1 is a single opening exchange, 2+ adds rebuttals */
+const debateRounds = parseInt(process.env.DEBATE_ROUNDS || "1", 10);
+
+/* LLM calls allowed per advocate/judge output (repair + re-prompt) */
+const maxOutputAttempts = parseInt(process.env.LLM_OUTPUT_ATTEMPTS || "3", 10);
+
+/* Optional per-trial spending cap (TRIAL_BUDGET_USD / TRIAL_BUDGET_TOKENS) */
+const trialBudget = parseTrialBudget(process.env);
+
+/* Prompt template versions (PROMPT_ADVOCATE_VERSION / PROMPT_JUDGE_VERSION); PROMPT_DIR adds templates */
+const promptRegistry = loadPromptRegistry(process.env.PROMPT_DIR || undefined);
+const promptSelection = parsePromptSelection(process.env);
+
+/* Token and cost totals across every trial since the server started */
+let usageTotals: UsageAggregate = emptyUsageAggregate();
+
+/*
+ * Live trial progress, keyed by market — the pipeline publishes every
+ * event here and GET /api/trial/:marketId/events streams them out.
+ */
+const trialEvents = new TrialEventHub();
+
+/* SSE comment line sent periodically so proxies don't drop idle streams */
+const SSE_HEARTBEAT_INTERVAL = 15_000;
+
+/* The judge panel a trial seats — APPEAL_JUDGE_PANEL, if set, for retrials */
+function judgePanelFor(appeal: boolean): LLMProvider[] {
+  return appeal && appealJudgePanelProviders.length > 0 ? appealJudgePanelProviders : judgePanelProviders;
+}
+
+function buildPipelineConfig(marketId: number, appeal = false): PipelineConfig {
+  const panel = judgePanelFor(appeal);
   return {
     evidenceSources,
-    advocateYesClient: createLLMClient(useMocks ? "mock" : "anthropic"),
-    advocateNoClient: createLLMClient(useMocks ? "mock" : "anthropic"),
-    judgeClient: createLLMClient(useMocks ? "mock" : "anthropic"),
+    advocateYesClient: createLLMClient(useMocks ? "mock" : "anthropic", llmOptions),
+    advocateNoClient: createLLMClient(useMocks ? "mock" : "anthropic", llmOptions),
+    judgeClient: createLLMClient(useMocks ? "mock" : "anthropic", llmOptions),
+    judgePanelClients: panel.map((p) => createLLMClient(useMocks ? "mock" : p, llmOptions)),
+    judgeAggregation,
+    rounds: debateRounds,
+    maxOutputAttempts,
+    budget: trialBudget,
+    prompts: promptSelection,
+    promptRegistry,
     onProgress: (stage, detail) => {
       console.log(`  [${stage.toUpperCase()}] ${detail}`);
     },
+    onEvent: (event) => {
+      // Failed trials count too — an aborted trial still spent its tokens
+      if (event.type === "trial-completed") {
+        usageTotals = addTrialUsage(usageTotals, event.transcript.usage);
+      } else if (event.type === "trial-failed") {
+        usageTotals = addTrialUsage(usageTotals, event.usage);
+      }
+      trialEvents.publish(marketId, event);
+    },
+  };
+}
+
+/*
+ * Transcript store — every trial (and its hash, IPFS CID and settlement
+ * tx hash) is persisted to disk and reloaded when the server starts.
+ */
+const transcripts: TranscriptRepository = new FileTranscriptRepository(TRANSCRIPT_STORE_DIR);
+
+/* Rubric registry — full rubric JSON keyed by the onchain rubricHash */
+const rubrics: RubricRegistry = new FileRubricRegistry(RUBRIC_STORE_DIR);
+
+/*
+ * Rubric used only in local dev without a contract, when the caller
+ * doesn't name a rubricHash. Markets read from the chain always go
+ * through the registry.
+ */
+const DEV_DEFAULT_RUBRIC = {
+  criteria: [
+    { name: "Data accuracy", description: "Are the cited numbers verifiable?", weight: 30 },
+    { name: "Time period coverage", description: "Does evidence cover the full period?", weight: 25 },
+    { name: "Source diversity", description: "Are multiple independent sources used?", weight: 20 },
+    { name: "Logical coherence", description: "Is the argument internally consistent?", weight: 25 },
+  ],
+  evidenceSources: ["defilama", "treasury"],
+  confidenceThreshold: 20,
+};
+
+async function resolveMarketRubric(rubricHash: string | undefined): Promise<RubricResolution> {
+  if (rubricHash) {
+    return resolveRubric(rubrics, rubricHash, DEV_DEFAULT_RUBRIC.evidenceSources);
+  }
+  if (!CONTRACT_ADDRESS) {
+    console.warn("  [RUBRIC] No rubricHash and no contract — using the dev default rubric.");
+    return { ok: true, rubric: DEV_DEFAULT_RUBRIC };
+  }
+  return { ok: false, reason: "Market has no rubricHash" };
+}
+
+/* MarketStatus.Appealed in TrialMarket.sol */
+const STATUS_APPEALED = 4;
+
+/* Read a market's question, rubricHash, outcomes and appeal state straight from the contract */
+async function readMarket(
+  marketId: number
+): Promise<{ question: string; rubricHash: string; outcomes?: string[]; appeal: boolean }> {
+  const provider = new ethers.JsonRpcProvider(RPC_URL);
+  const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+  const [raw, [labels]] = await Promise.all([contract.getMarket(marketId), contract.getOutcomes(marketId)]);
+  return {
+    question: raw.question,
+    rubricHash: raw.rubricHash,
+    ...(labels.length > 0 && { outcomes: [...labels] }),
+    appeal: Number(raw.status) === STATUS_APPEALED,
   };
 }
 
-/* Transcript store (in-memory) */
-const transcriptStore = new Map<number, TrialTranscript>();
+/* Shape returned to the frontend: the transcript plus its settlement metadata */
+function toTranscriptResponse(record: TranscriptRecord) {
+  return {
+    transcript: record.transcript,
+    trial: record.trial,
+    transcriptHash: record.transcriptHash,
+    cid: record.cid,
+    txHash: record.txHash,
+    storedAt: record.storedAt,
+  };
+}
 
-/* IPFS CID store — maps marketId to Pinata CID */
-const cidStore = new Map<number, string>();
+/* Shape returned for a job: its record plus, once it succeeded, the transcript */
+async function toJobResponse(job: TrialJob) {
+  const record =
+    job.trial !== null
+      ? (await transcripts.history(job.request.marketId)).find((r) => r.trial === job.trial)
+      : undefined;
+  return { ...job, transcript: record ? toTranscriptResponse(record) : null };
+}
 
 /**
  * Upload transcript JSON to Pinata IPFS.
  * Returns the CID string on success, null on failure.
  */
-async function uploadToIpfs(transcript: TrialTranscript, marketId: number): Promise<string | null> {
+async function uploadToIpfs(transcript: TrialTranscript | CategoricalTranscript, marketId: number): Promise<string | null> {
   const jwt = process.env.PINATA_JWT;
   if (!jwt) return null;
 
@@ -155,83 +361,143 @@ async function uploadToIpfs(transcript: TrialTranscript, marketId: number): Prom
   return null;
 }
 
-/* Track which markets are currently being processed to prevent double-runs */
-const processingMarkets = new Set<number>();
-
 /* ── Core: Run trial + settle for a market ── */
 
-async function runTrialAndSettle(marketId: number, questionText: string): Promise<void> {
-  if (processingMarkets.has(marketId)) {
-    console.log(`  [AUTO] Market #${marketId} already being processed, skipping.`);
-    return;
+/*
+ * Categorical trials support neither judge panels nor multi-round
+ * debates yet, and runCategoricalTrial rejects a config asking for
+ * either rather than quietly trying the market some other way. This
+ * says up front why a categorical market can't be tried with the
+ * server's configuration (null if it can), so POST /api/trial can
+ * answer 400 and the automation loop can leave the market alone.
+ */
+function categoricalUnsupported(appeal: boolean): string | null {
+  if (judgePanelFor(appeal).length > 0) {
+    return `Judge panels are not supported for categorical markets (unset ${appeal ? "APPEAL_JUDGE_PANEL and " : ""}JUDGE_PANEL)`;
   }
+  if (debateRounds > 1) {
+    return "Multi-round debates are not supported for categorical markets (set DEBATE_ROUNDS=1)";
+  }
+  return null;
+}
 
-  processingMarkets.add(marketId);
+/*
+ * Only ever called by the job queue, which guarantees one trial per
+ * market at a time. Errors propagate so the job records them; a refused
+ * market is escalated onchain and then fails its job with the reason.
+ * A market with outcomes is categorical: it's tried with
+ * runCategoricalTrial and settled with settleOutcome().
+ */
+async function runTrialAndSettle(
+  marketId: number,
+  questionText: string,
+  rubricHash?: string,
+  appeal = false,
+  outcomes?: string[]
+): Promise<TranscriptRecord> {
+  console.log(`\n${"=".repeat(60)}`);
+  console.log(`  Running ${appeal ? "appeal retrial" : "trial"} for market #${marketId}`);
+  console.log(`  Question: ${questionText}`);
+  console.log(`${"=".repeat(60)}`);
 
-  try {
-    console.log(`\n${"=".repeat(60)}`);
-    console.log(`  Running trial for market #${marketId}`);
-    console.log(`  Question: ${questionText}`);
-    console.log(`${"=".repeat(60)}`);
-
-    const question: MarketQuestion = {
-      id: `market-${marketId}`,
-      question: questionText,
-      rubric: {
-        criteria: [
-          { name: "Data accuracy", description: "Are the cited numbers verifiable?", weight: 30 },
-          { name: "Time period coverage", description: "Does evidence cover the full period?", weight: 25 },
-          { name: "Source diversity", description: "Are multiple independent sources used?", weight: 20 },
-          { name: "Logical coherence", description: "Is the argument internally consistent?", weight: 25 },
-        ],
-        evidenceSources: ["defilama", "treasury"],
-        confidenceThreshold: 20,
-      },
-      settlementDeadline: new Date(),
-    };
+  /*
+   * Honor the creator's rubric. If it can't be fetched or its hash
+   * doesn't match the chain, refuse to try the market with a
+   * substitute rubric — escalate so stakers get refunds.
+   */
+  const resolution = await resolveMarketRubric(rubricHash);
+  if (!resolution.ok) {
+    console.error(`  [RUBRIC] Refusing market #${marketId}: ${resolution.reason}`);
 
-    const config = buildPipelineConfig();
-    const transcript = await runTrial(question, config);
+    if (CONTRACT_ADDRESS && PRIVATE_KEY) {
+      const settler = createOnchainSettler(RPC_URL, CONTRACT_ADDRESS, PRIVATE_KEY);
+      const txHash = await settler.refuse(marketId, resolution.reason);
+      console.log(`  Escalated (refused)! TX: ${txHash}`);
+    }
+    throw new Error(`Market refused: ${resolution.reason}`);
+  }
 
-    transcriptStore.set(marketId, transcript);
+  const rubric = appeal
+    ? {
+        ...resolution.rubric,
+        confidenceThreshold: resolution.rubric.confidenceThreshold + APPEAL_THRESHOLD_INCREASE,
+      }
+    : resolution.rubric;
+
+  const question: MarketQuestion = {
+    id: `market-${marketId}`,
+    question: questionText,
+    rubric,
+    settlementDeadline: new Date(),
+    ...(outcomes && { outcomes }),
+    ...(appeal && { metadata: { appeal: "true" } }),
+  };
 
-    console.log(`\n  Trial complete: ${transcript.decision.action}`);
-    if (transcript.decision.verdict) {
-      console.log(`  Verdict: ${transcript.decision.verdict}`);
-    }
+  const config = buildPipelineConfig(marketId, appeal);
+  const transcript = outcomes
+    ? await runCategoricalTrial(question, config)
+    : await runTrial(question, config);
 
-    /* Upload transcript to IPFS for persistence */
-    const cid = await uploadToIpfs(transcript, marketId);
-    if (cid) {
-      console.log(`  [IPFS] Transcript pinned: ${cid}`);
-      cidStore.set(marketId, cid);
-    }
+  const record = await transcripts.append(marketId, transcript);
 
-    /* Auto-settle onchain */
-    if (CONTRACT_ADDRESS && PRIVATE_KEY) {
-      console.log(`  Settling market #${marketId} onchain...`);
-      const settler = createOnchainSettler(RPC_URL, CONTRACT_ADDRESS, PRIVATE_KEY);
-      let txHash: string;
+  console.log(`\n  Trial complete: ${transcript.decision.action}`);
+  const decided = decidedOutcome(transcript);
+  if (decided) {
+    console.log(`  ${outcomes ? "Outcome" : "Verdict"}: ${decided}`);
+  }
 
-      if (transcript.decision.action === "RESOLVE") {
-        txHash = await settler.settle(marketId, transcript, cid || undefined);
-        console.log(`  Settled! TX: ${txHash}`);
-      } else {
-        txHash = await settler.escalate(marketId, transcript, cid || undefined);
-        console.log(`  Escalated! TX: ${txHash}`);
-      }
+  /* Upload transcript to IPFS for persistence */
+  const cid = await uploadToIpfs(transcript, marketId);
+  if (cid) {
+    console.log(`  [IPFS] Transcript pinned: ${cid}`);
+    await transcripts.update(marketId, record.trial, { cid });
+  }
 
-      /* Store txHash in transcript for frontend to pick up */
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (transcript as any).txHash = txHash;
-    }
+  /* Auto-settle onchain */
+  if (CONTRACT_ADDRESS && PRIVATE_KEY) {
+    console.log(`  Settling market #${marketId} onchain...`);
+    const settler = createOnchainSettler(RPC_URL, CONTRACT_ADDRESS, PRIVATE_KEY);
+    const txHash = await settleDecision(settler, marketId, transcript, cid || undefined);
+    console.log(`  ${transcript.decision.action === "RESOLVE" ? "Settled" : "Escalated"}! TX: ${txHash}`);
+
+    /* Store txHash alongside the transcript for the frontend to pick up */
+    await transcripts.update(marketId, record.trial, { txHash });
+  }
+
+  return record;
+}
+
+/*
+ * ── Trial job queue ──
+ *
+ * Every trial — manual or from the automation loop — runs as a job.
+ * The runner mirrors the market's live events into the job's progress
+ * so GET /api/jobs/:jobId can report the current stage.
+ */
+const runTrialJob: TrialJobRunner = async (job, onProgress) => {
+  const { marketId, question, rubricHash, appeal, outcomes } = job.request;
+  const unsubscribe = trialEvents.subscribe(marketId, (event) =>
+    onProgress({ stage: event.stage, message: event.message, elapsedMs: event.elapsedMs })
+  );
+
+  try {
+    const record = await runTrialAndSettle(marketId, question, rubricHash, appeal, outcomes);
+    return record.trial;
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
-    console.error(`  [AUTO] Trial/settlement failed for market #${marketId}: ${msg}`);
+    console.error(`  [JOBS] Trial/settlement failed for market #${marketId}: ${msg}`);
+    throw err;
   } finally {
-    processingMarkets.delete(marketId);
+    unsubscribe();
   }
-}
+};
+
+const jobStore = new FileJobStore(JOB_STORE_DIR);
+const jobs = new TrialJobQueue(jobStore, runTrialJob, TRIAL_CONCURRENCY);
+
+/* Watches DON trial requests; the indexer it reads is set up by the automation loop */
+const watchdog = new FulfillmentWatchdog(DON_FULFILLMENT_TIMEOUT_MS);
+let marketIndexer: MarketIndexer | null = null;
 
 /*
  * ── Automation Loop ──
@@ -239,14 +505,25 @@ async function runTrialAndSettle(marketId: number, questionText: string): Promis
  * This loop bridges deadlines to Chainlink Functions.
  * It does NOT run the trial locally — it triggers the DON.
  *
+ * Each tick first syncs the market indexer — one getLogs call per
+ * batch of new blocks instead of a getMarket() call per market — then
+ * acts only on markets the local table says are due.
+ *
  * Flow:
  *   1. Detect markets past deadline with status Open
  *      → call requestSettlement() to transition to SettlementRequested
- *   2. Detect markets with status SettlementRequested
+ *   2. Detect markets with status SettlementRequested (or Appealed, after
+ *      a staker bonded an appeal of an escalation)
  *      → call sendTrialRequest() to trigger Chainlink Functions on the DON
  *   3. The DON executes trial-source.js (evidence + advocates + judge)
  *   4. DON nodes reach consensus and call _fulfillRequest() on the contract
  *   5. The contract auto-resolves or escalates — fully decentralized
+ *   6. If the DON hasn't called back within DON_FULFILLMENT_TIMEOUT_MS,
+ *      the watchdog runs the trial locally and settles it from here
+ *
+ * Categorical markets skip steps 2-6: the contract only sends binary
+ * trials to the DON, so they're tried locally (runCategoricalTrial)
+ * and settled from here with settleOutcome() or escalate().
  *
  * In production, Chainlink Automation keepers handle step 1 via
  * checkUpkeep()/performUpkeep(). This loop is a backup that also
@@ -262,34 +539,86 @@ async function automationLoop() {
   const signer = new ethers.Wallet(PRIVATE_KEY, provider);
   const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
 
+  const indexer = new MarketIndexer(
+    new EthersChainReader(provider, CONTRACT_ADDRESS),
+    new FileIndexerStore(path.join(INDEXER_STORE_DIR, `${CONTRACT_ADDRESS.toLowerCase()}.json`)),
+    { startBlock: INDEXER_START_BLOCK, confirmations: INDEXER_CONFIRMATIONS }
+  );
+  await indexer.load();
+  marketIndexer = indexer;
+
+  /*
+   * Markets whose sendTrialRequest() went through but whose
+   * TrialRequested log isn't indexed yet (INDEXER_CONFIRMATIONS > 0) —
+   * don't send a second request for them in the meantime.
+   */
+  const trialRequestsSent = new Set<number>();
+
+  /* Categorical markets this configuration can't try, already warned about */
+  const categoricalSkipped = new Set<number>();
+
   console.log("  [AUTO] Automation loop started (polling every 30s)...");
   console.log("  [AUTO] Mode: DECENTRALIZED — triggering Chainlink Functions DON\n");
 
   const poll = async () => {
     try {
-      const count = Number(await contract.nextMarketId());
+      const sync = await indexer.sync();
+      if (sync.reorg) {
+        console.log(`  [INDEXER] Reorg detected — market table rebuilt from block ${INDEXER_START_BLOCK}`);
+      }
+      if (sync.logs > 0) {
+        console.log(`  [INDEXER] Blocks ${sync.fromBlock}-${sync.toBlock}: ${sync.logs} market event(s)`);
+      }
+
       const now = Math.floor(Date.now() / 1000);
 
-      for (let i = 0; i < count; i++) {
-        if (processingMarkets.has(i)) continue;
-
-        const raw = await contract.getMarket(i);
-        const status = Number(raw.status);
-        const deadline = Number(raw.deadline);
-
-        /* OPEN + past deadline → request settlement */
-        if (status === STATUS.Open && now >= deadline) {
-          console.log(`  [AUTO] Market #${i} deadline passed — requesting settlement...`);
-          try {
-            const tx = await contract.requestSettlement(i);
-            await tx.wait();
-            console.log(`  [AUTO] Market #${i} settlement requested.`);
-          } catch (err) {
-            const msg = err instanceof Error ? err.message : String(err);
-            if (!msg.includes("Market not open")) {
-              console.error(`  [AUTO] requestSettlement failed for #${i}: ${msg}`);
+      /* OPEN + past deadline → request settlement */
+      for (const market of indexer.dueForSettlement(now)) {
+        const i = market.marketId;
+        if (jobs.activeJob(i)) continue;
+
+        console.log(`  [AUTO] Market #${i} deadline passed — requesting settlement...`);
+        try {
+          const tx = await contract.requestSettlement(i);
+          await tx.wait();
+          console.log(`  [AUTO] Market #${i} settlement requested.`);
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          if (!msg.includes("Market not open")) {
+            console.error(`  [AUTO] requestSettlement failed for #${i}: ${msg}`);
+          }
+        }
+      }
+
+      const awaitingTrial = indexer.awaitingTrial();
+      for (const id of trialRequestsSent) {
+        if (!awaitingTrial.some((m) => m.marketId === id)) trialRequestsSent.delete(id);
+      }
+
+      for (const market of awaitingTrial) {
+        const i = market.marketId;
+        if (jobs.activeJob(i) || trialRequestsSent.has(i)) continue;
+
+        /* Categorical → always a local trial; sendTrialRequest() would revert */
+        if (market.outcomes) {
+          const kind = market.status === "Appealed" ? "appeal retrial" : "trial";
+          const unsupported = categoricalUnsupported(market.status === "Appealed");
+          if (unsupported) {
+            if (!categoricalSkipped.has(i)) {
+              console.warn(`  [AUTO] Categorical market #${i} awaiting ${kind} — not tried: ${unsupported}`);
+              categoricalSkipped.add(i);
             }
+            continue;
           }
+          console.log(`  [AUTO] Categorical market #${i} awaiting ${kind} — running it locally...`);
+          await jobs.enqueue({
+            marketId: i,
+            question: market.question,
+            rubricHash: market.rubricHash,
+            appeal: market.status === "Appealed",
+            outcomes: market.outcomes,
+          });
+          continue;
         }
 
         /*
@@ -305,22 +634,52 @@ async function automationLoop() {
          *
          * The trial runs entirely on the DON — not on this server.
          */
-        if (status === STATUS.SettlementRequested) {
-          try {
-            console.log(`  [AUTO] Market #${i} awaiting trial — triggering DON...`);
-            const tx = await contract.sendTrialRequest(i);
-            console.log(`  [AUTO] sendTrialRequest TX: ${tx.hash}`);
-            await tx.wait();
-            console.log(`  [AUTO] DON trial triggered for market #${i}!`);
-          } catch (err) {
-            const msg = err instanceof Error ? err.message : String(err);
-            console.error(`  [AUTO] sendTrialRequest failed for #${i}: ${msg}`);
-            /* Fallback: run trial locally if DON fails */
-            console.log(`  [AUTO] Falling back to local trial for #${i}...`);
-            runTrialAndSettle(i, raw.question);
-          }
+        try {
+          const kind = market.status === "Appealed" ? "appeal retrial" : "trial";
+          console.log(`  [AUTO] Market #${i} awaiting ${kind} — triggering DON...`);
+          const tx = await contract.sendTrialRequest(i);
+          console.log(`  [AUTO] sendTrialRequest TX: ${tx.hash}`);
+          await tx.wait();
+          trialRequestsSent.add(i);
+          console.log(`  [AUTO] DON trial triggered for market #${i}!`);
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          console.error(`  [AUTO] sendTrialRequest failed for #${i}: ${msg}`);
+          /* Fallback: run trial locally if DON fails */
+          console.log(`  [AUTO] Falling back to local trial for #${i}...`);
+          await jobs.enqueue({
+            marketId: i,
+            question: market.question,
+            rubricHash: market.rubricHash,
+            appeal: market.status === "Appealed",
+          });
         }
       }
+
+      /*
+       * TRIAL REQUESTED + no DON callback within the timeout → local trial.
+       * A request keeps its fallback job; only a failed one is retried.
+       */
+      for (const request of watchdog.pending(indexer.all())) {
+        const i = request.marketId;
+        if (!request.overdue || jobs.activeJob(i)) continue;
+        if (request.fallbackJobId && (await jobs.get(request.fallbackJobId))?.status !== "failed") {
+          continue;
+        }
+
+        console.log(
+          `  [WATCHDOG] DON request ${request.requestId} for market #${i} unfulfilled since ${request.requestedAt.toISOString()} — running trial locally...`
+        );
+        const market = indexer.get(i)!;
+        const { job } = await jobs.enqueue({
+          marketId: i,
+          question: market.question,
+          rubricHash: market.rubricHash,
+          appeal: market.status === "Appealed",
+          outcomes: market.outcomes,
+        });
+        watchdog.recordFallback(request.requestId, job.id);
+      }
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
       console.error(`  [AUTO] Poll error: ${msg}`);
@@ -350,6 +709,11 @@ const server = http.createServer(async (req, res) => {
         mode: useMocks ? "mock" : "live",
         automation: "enabled",
         contractAddress: CONTRACT_ADDRESS || "not set",
+        usage: {
+          ...usageTotals,
+          avgCostUsdPerTrial: usageTotals.trials > 0 ? usageTotals.total.costUsd / usageTotals.trials : 0,
+          budget: trialBudget ?? null,
+        },
       });
       return;
     }
@@ -358,33 +722,162 @@ const server = http.createServer(async (req, res) => {
     const transcriptMatch = method === "GET" && url?.match(/^\/api\/transcript\/(\d+)$/);
     if (transcriptMatch) {
       const marketId = parseInt(transcriptMatch[1], 10);
-      const transcript = transcriptStore.get(marketId);
-      if (transcript) {
-        sendJson(res, 200, { transcript });
+      const record = await transcripts.latest(marketId);
+      if (record) {
+        sendJson(res, 200, toTranscriptResponse(record));
       } else {
         sendJson(res, 404, { error: "No transcript found for this market" });
       }
       return;
     }
 
-    /* ── POST /api/trial ── (manual trigger, also used by frontend) */
+    /* ── GET /api/transcript/:marketId/history ── (all trials, oldest first) */
+    const historyMatch = method === "GET" && url?.match(/^\/api\/transcript\/(\d+)\/history$/);
+    if (historyMatch) {
+      const marketId = parseInt(historyMatch[1], 10);
+      const records = await transcripts.history(marketId);
+      sendJson(res, 200, { trials: records.map(toTranscriptResponse) });
+      return;
+    }
+
+    /*
+     * ── GET /api/trial/:marketId/events ── (live trial progress over SSE)
+     *
+     * Events of a trial already in progress are replayed first, then new
+     * ones stream as the pipeline emits them. The stream stays open
+     * across trials (a retrial streams too) until the client disconnects.
+     */
+    const eventsMatch = method === "GET" && url?.match(/^\/api\/trial\/(\d+)\/events$/);
+    if (eventsMatch) {
+      const marketId = parseInt(eventsMatch[1], 10);
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "Access-Control-Allow-Origin": "*",
+      });
+      res.write(": connected\n\n");
+
+      const unsubscribe = trialEvents.subscribe(marketId, (event) => sendEvent(res, event));
+      const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), SSE_HEARTBEAT_INTERVAL);
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+      return;
+    }
+
+    /* ── GET /api/don-requests ── (outstanding Chainlink Functions requests) */
+    if (method === "GET" && url === "/api/don-requests") {
+      sendJson(res, 200, {
+        timeoutMs: watchdog.timeoutMs,
+        requests: marketIndexer ? watchdog.pending(marketIndexer.all()) : [],
+      });
+      return;
+    }
+
+    /* ── POST /api/rubrics ── (frontend publishes the full rubric at market creation) */
+    if (method === "POST" && url === "/api/rubrics") {
+      const body = await parseBody(req);
+      const parsed = RubricDocumentSchema.safeParse(body);
+
+      if (!parsed.success) {
+        sendJson(res, 400, {
+          error: `Invalid rubric: ${parsed.error.issues.map((i) => i.message).join("; ")}`,
+        });
+        return;
+      }
+
+      const rubricHash = await rubrics.publish(parsed.data);
+      sendJson(res, 201, { rubricHash });
+      return;
+    }
+
+    /* ── GET /api/rubrics/:rubricHash ── */
+    const rubricMatch = method === "GET" && url?.match(/^\/api\/rubrics\/(0x[0-9a-fA-F]{64})$/);
+    if (rubricMatch) {
+      const rubric = await rubrics.get(rubricMatch[1]);
+      if (rubric) {
+        sendJson(res, 200, { rubric });
+      } else {
+        sendJson(res, 404, { error: "Rubric not published" });
+      }
+      return;
+    }
+
+    /*
+     * ── POST /api/questions/lint ── (CreateMarket pre-screens a draft before the deposit)
+     *
+     * Body: { question, deadline? } with deadline in unix seconds.
+     */
+    if (method === "POST" && url === "/api/questions/lint") {
+      const body = await parseBody(req);
+      const question = body.question;
+      const deadline = body.deadline;
+
+      if (typeof question !== "string" || !question.trim()) {
+        sendJson(res, 400, { error: "Missing question" });
+        return;
+      }
+      if (deadline !== undefined && typeof deadline !== "number") {
+        sendJson(res, 400, { error: "deadline must be unix seconds" });
+        return;
+      }
+
+      const result = await lintQuestion(
+        { question, deadline: deadline !== undefined ? new Date(deadline * 1000) : undefined },
+        lintLLMClient,
+        { maxAttempts: maxOutputAttempts }
+      );
+      sendJson(res, 200, result);
+      return;
+    }
+
+    /* ── POST /api/trial ── (manual trigger, also used by frontend; poll the returned job) */
     if (method === "POST" && url === "/api/trial") {
       const body = await parseBody(req);
       const marketId = body.marketId as number;
-      const questionText = body.question as string;
+      let questionText = body.question as string;
+      let rubricHash = body.rubricHash as string | undefined;
+      let outcomes: string[] | undefined;
+      let appeal = false;
 
       if (marketId === undefined || !questionText) {
         sendJson(res, 400, { error: "Missing marketId or question" });
         return;
       }
 
-      await runTrialAndSettle(marketId, questionText);
+      /* The chain is the source of truth for the rubric when a contract is configured */
+      if (CONTRACT_ADDRESS) {
+        ({ question: questionText, rubricHash, outcomes, appeal } = await readMarket(marketId));
+      }
+
+      const unsupported = outcomes ? categoricalUnsupported(appeal) : null;
+      if (unsupported) {
+        sendJson(res, 400, { error: unsupported });
+        return;
+      }
+
+      /* A market with a trial already queued or running gets that job back */
+      const { job, created } = await jobs.enqueue({ marketId, question: questionText, rubricHash, appeal, outcomes });
+      sendJson(res, 202, {
+        jobId: job.id,
+        status: job.status,
+        created,
+        statusUrl: `/api/jobs/${job.id}`,
+        eventsUrl: `/api/trial/${marketId}/events`,
+      });
+      return;
+    }
 
-      const transcript = transcriptStore.get(marketId);
-      if (transcript) {
-        sendJson(res, 200, { transcript });
+    /* ── GET /api/jobs/:jobId ── */
+    const jobMatch = method === "GET" && url?.match(/^\/api\/jobs\/([\w-]+)$/);
+    if (jobMatch) {
+      const job = await jobs.get(jobMatch[1]);
+      if (job) {
+        sendJson(res, 200, await toJobResponse(job));
       } else {
-        sendJson(res, 500, { error: "Trial completed but transcript not available" });
+        sendJson(res, 404, { error: "Job not found" });
       }
       return;
     }
@@ -399,25 +892,24 @@ const server = http.createServer(async (req, res) => {
         return;
       }
 
-      const transcript = transcriptStore.get(marketId);
-      if (!transcript) {
+      const record = await transcripts.latest(marketId);
+      if (!record) {
         /* Market may have been auto-settled already */
         sendJson(res, 200, {
-          txHash: (transcript as unknown as Record<string, unknown>)?.txHash || null,
+          txHash: null,
           action: "AUTO_SETTLED",
           verdict: null,
         });
         return;
       }
+      const { transcript } = record;
 
       /* If already settled by automation, just return the hash */
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const existingHash = (transcript as any).txHash;
-      if (existingHash) {
+      if (record.txHash) {
         sendJson(res, 200, {
-          txHash: existingHash,
+          txHash: record.txHash,
           action: transcript.decision.action,
-          verdict: transcript.decision.verdict,
+          verdict: decidedOutcome(transcript),
         });
         return;
       }
@@ -430,20 +922,14 @@ const server = http.createServer(async (req, res) => {
 
       console.log(`\n  Settling market #${marketId} onchain...`);
       const settler = createOnchainSettler(RPC_URL, CONTRACT_ADDRESS, PRIVATE_KEY);
-      let txHash: string;
-
-      if (transcript.decision.action === "RESOLVE") {
-        txHash = await settler.settle(marketId, transcript);
-        console.log(`  Settled! TX: ${txHash}`);
-      } else {
-        txHash = await settler.escalate(marketId, transcript);
-        console.log(`  Escalated! TX: ${txHash}`);
-      }
+      const txHash = await settleDecision(settler, marketId, transcript, record.cid || undefined);
+      console.log(`  ${transcript.decision.action === "RESOLVE" ? "Settled" : "Escalated"}! TX: ${txHash}`);
+      await transcripts.update(marketId, record.trial, { txHash });
 
       sendJson(res, 200, {
         txHash,
         action: transcript.decision.action,
-        verdict: transcript.decision.verdict,
+        verdict: decidedOutcome(transcript),
       });
       return;
     }
@@ -456,6 +942,11 @@ const server = http.createServer(async (req, res) => {
   }
 });
 
+/* Load persisted transcripts, rubrics and jobs before accepting requests */
+await transcripts.load();
+await rubrics.load();
+await jobStore.load();
+
 server.listen(PORT, () => {
   console.log(`\n${"=".repeat(60)}`);
   console.log("  TRIALBYFIRE — API Server + Automation");
@@ -464,11 +955,22 @@ server.listen(PORT, () => {
   console.log(`  Mode:       ${useMocks ? "MOCK (no API keys)" : "LIVE (real APIs)"}`);
   console.log(`  RPC:        ${RPC_URL}`);
   console.log(`  Contract:   ${CONTRACT_ADDRESS || "(not set)"}`);
+  console.log(`  Transcripts: ${TRANSCRIPT_STORE_DIR}`);
+  console.log(`  Rubrics:    ${RUBRIC_STORE_DIR}`);
+  console.log(`  Jobs:       ${JOB_STORE_DIR} (concurrency ${TRIAL_CONCURRENCY})`);
+  console.log(`  Prompts:    ${PROMPT_STAGES.map((s) => promptId(promptRegistry.get(s, promptSelection[s]))).join(", ")}`);
   console.log(`  Automation: Enabled (polling every ${POLL_INTERVAL / 1000}s)`);
   console.log(`\n  Endpoints:`);
   console.log(`    GET  /api/health            — Server status`);
   console.log(`    GET  /api/transcript/:id    — Fetch trial results`);
-  console.log(`    POST /api/trial             — Run adversarial trial (manual)`);
+  console.log(`    GET  /api/transcript/:id/history — All trials for a market`);
+  console.log(`    GET  /api/trial/:id/events  — Live trial progress (SSE)`);
+  console.log(`    POST /api/rubrics           — Publish a market rubric`);
+  console.log(`    GET  /api/rubrics/:hash     — Fetch a published rubric`);
+  console.log(`    POST /api/questions/lint    — Pre-screen a draft question`);
+  console.log(`    POST /api/trial             — Queue adversarial trial (manual)`);
+  console.log(`    GET  /api/jobs/:id          — Trial job status`);
+  console.log(`    GET  /api/don-requests      — Pending DON trial requests`);
   console.log(`    POST /api/settle            — Settle market onchain (manual)`);
   console.log(`${"=".repeat(60)}\n`);
 
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+/**
+ * Arbitration CLI — review an escalated market and cast a committee vote.
+ *
+ * Usage:
+ *   npm run arbitrate -- <marketId>          # show status + transcript CID
+ *   npm run arbitrate -- <marketId> yes|no   # cast your vote
+ *
+ * Signs with ARBITRATOR_PRIVATE_KEY, which must belong to an arbitrator
+ * registered on the contract (addArbitrator). RPC_URL and
+ * CONTRACT_ADDRESS select the deployment, as for the API server.
+ *
+ * Read the transcript before voting — the CID printed here points at
+ * the full debate, judge ruling and evidence on IPFS.
+ */
+
+import "dotenv/config";
+import { createArbitrationClient, parseArbitrationArgs, voteBlocker } from "./settlement/arbitration.js";
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS || "";
+const ARBITRATOR_PRIVATE_KEY = process.env.ARBITRATOR_PRIVATE_KEY || "";
+
+async function main() {
+  const { marketId, vote } = parseArbitrationArgs(process.argv.slice(2));
+  if (!CONTRACT_ADDRESS || !ARBITRATOR_PRIVATE_KEY) {
+    throw new Error("CONTRACT_ADDRESS and ARBITRATOR_PRIVATE_KEY must be set");
+  }
+
+  const client = createArbitrationClient(RPC_URL, CONTRACT_ADDRESS, ARBITRATOR_PRIVATE_KEY);
+  const status = await client.status(marketId);
+
+  console.log(`Market #${marketId}: ${status.question}`);
+  console.log(`Escalated: ${status.escalated ? "yes" : "no"}`);
+  console.log(
+    `Transcript: ${status.transcriptCid ? `https://gateway.pinata.cloud/ipfs/${status.transcriptCid}` : "(no CID onchain)"}`
+  );
+  console.log(`Voting window: ${status.opensAt.toISOString()} → ${status.closesAt.toISOString()}`);
+  console.log(`Votes: YES ${status.yesVotes} / NO ${status.noVotes} (quorum ${status.quorum})`);
+  console.log(`Your vote: ${status.myVote ?? "none"}`);
+
+  if (!vote) return;
+
+  const blocker = voteBlocker(status);
+  if (blocker) {
+    throw new Error(blocker);
+  }
+
+  console.log(`\nVoting ${vote} on market #${marketId}...`);
+  const txHash = await client.vote(marketId, vote);
+  console.log(`Vote cast! TX: ${txHash}`);
+}
+
+main().catch((error) => {
+  console.error(`\nArbitration failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -15,7 +15,10 @@
 import "dotenv/config";
 import { runTrial } from "./pipeline/index.js";
 import type { PipelineConfig } from "./pipeline/index.js";
-import { createLLMClient } from "./llm/index.js";
+import { createLLMClient, parseProviderList } from "./llm/index.js";
+import type { LLMClientOptions } from "./llm/index.js";
+import { parseTrialBudget, USAGE_STAGES } from "./usage/index.js";
+import { loadPromptRegistry, parsePromptSelection } from "./prompts/index.js";
 import { MockEvidenceSource } from "./evidence/mock.js";
 import { DeFiLlamaSource } from "./evidence/sources/defilama.js";
 import { NewsAPISource } from "./evidence/sources/news.js";
@@ -72,7 +75,18 @@ const question: MarketQuestion = {
 
 // ── Configure the pipeline ───────────────────────────────────────
 
-const dynamicLLMClient = createLLMClient(useMocks ? "mock" : "anthropic");
+// Timeout / retry / failover for live LLM calls, e.g. LLM_FAILOVER=openai
+// LLM_RECORD_DIR=tests/fixtures/llm records every response as a test fixture
+const llmOptions: LLMClientOptions = {
+  ...(!useMocks && {
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || "60000", 10),
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || "3", 10),
+    failover: parseProviderList(process.env.LLM_FAILOVER),
+  }),
+  recordDir: process.env.LLM_RECORD_DIR || undefined,
+};
+
+const dynamicLLMClient = createLLMClient(useMocks ? "mock" : "anthropic", llmOptions);
 const evidenceSources: EvidenceSource[] = useMocks
   ? [new MockEvidenceSource()]
   : [new DynamicEvidenceSource(dynamicLLMClient), new DeFiLlamaSource(), new TreasurySource(), new NewsAPISource()];
@@ -80,9 +94,29 @@ const evidenceSources: EvidenceSource[] = useMocks
 const config: PipelineConfig = {
   evidenceSources,
   // All roles use Anthropic (Claude) for now
-  advocateYesClient: createLLMClient(useMocks ? "mock" : "anthropic"),
-  advocateNoClient: createLLMClient(useMocks ? "mock" : "anthropic"),
-  judgeClient: createLLMClient(useMocks ? "mock" : "anthropic"),
+  advocateYesClient: createLLMClient(useMocks ? "mock" : "anthropic", llmOptions),
+  advocateNoClient: createLLMClient(useMocks ? "mock" : "anthropic", llmOptions),
+  judgeClient: createLLMClient(useMocks ? "mock" : "anthropic", llmOptions),
+
+  // Optional judge panel, e.g. JUDGE_PANEL=anthropic,openai,anthropic
+  judgePanelClients: parseProviderList(process.env.JUDGE_PANEL).map((p) =>
+    createLLMClient(useMocks ? "mock" : p, llmOptions)
+  ),
+  judgeAggregation:
+    process.env.JUDGE_AGGREGATION === "trimmed-mean" ? "trimmed-mean" : "median",
+
+  // Debate rounds — 2+ adds rebuttal rounds, e.g. DEBATE_ROUNDS=2
+  rounds: parseInt(process.env.DEBATE_ROUNDS || "1", 10),
+
+  // LLM calls allowed per advocate/judge output before the trial fails
+  maxOutputAttempts: parseInt(process.env.LLM_OUTPUT_ATTEMPTS || "3", 10),
+
+  // Optional spending cap, e.g. TRIAL_BUDGET_USD=0.50
+  budget: parseTrialBudget(process.env),
+
+  // Prompt template versions, e.g. PROMPT_JUDGE_VERSION=v2; PROMPT_DIR adds templates
+  prompts: parsePromptSelection(process.env),
+  promptRegistry: loadPromptRegistry(process.env.PROMPT_DIR || undefined),
 
   // Progress callback — prints stage updates to terminal
   onProgress: (stage, detail) => {
@@ -153,6 +187,19 @@ runTrial(question, config)
       console.log(`    Strength: ${arg.strength}/100`);
     }
 
+    // Rebuttal rounds (multi-round debates only)
+    if (transcript.debateRounds) {
+      for (const round of transcript.debateRounds.slice(1)) {
+        console.log(`\n--- REBUTTALS, ROUND ${round.round} ---`);
+        for (const arg of [round.yes, round.no]) {
+          console.log(`  ${arg.side} (confidence ${arg.confidence}/100):`);
+          for (const w of arg.weaknessesInOpposingCase) {
+            console.log(`    - ${w}`);
+          }
+        }
+      }
+    }
+
     // Judge ruling
     console.log(
       `\n--- JUDGE RULING (${transcript.judgeRuling.model}) ---`
@@ -171,12 +218,36 @@ runTrial(question, config)
     }
     console.log(`\nRuling: ${transcript.judgeRuling.rulingText}`);
 
+    // Judge panel breakdown
+    if (transcript.judgePanel) {
+      console.log(
+        `\nJudge panel (${transcript.judgePanel.aggregation}, ${transcript.judgePanel.verdictsAgree ? "unanimous" : "SPLIT"}):`
+      );
+      transcript.judgePanel.rulings.forEach((r, i) => {
+        console.log(
+          `  Judge ${i + 1} (${r.model}): ${r.finalVerdict} — YES ${r.scoreYes} / NO ${r.scoreNo}`
+        );
+      });
+    }
+
     if (transcript.judgeRuling.hallucinationsDetected.length > 0) {
       console.log(
         `\nHallucinations detected: ${transcript.judgeRuling.hallucinationsDetected.join("; ")}`
       );
     }
 
+    // Deterministic citation check
+    const { citationReport } = transcript;
+    const unmatched = [...citationReport.yes, ...citationReport.no].length;
+    console.log(
+      `\nCitation check: ${citationReport.totalCitations - unmatched}/${citationReport.totalCitations} citations found in the evidence bundle`
+    );
+    for (const [side, list] of [["YES", citationReport.yes], ["NO", citationReport.no]] as const) {
+      for (const c of list) {
+        console.log(`  ${side} [${c.criterion}] not found: ${c.citation}`);
+      }
+    }
+
     // Settlement decision
     console.log("\n--- SETTLEMENT DECISION ---");
     console.log(`Action: ${transcript.decision.action}`);
@@ -184,6 +255,26 @@ runTrial(question, config)
       console.log(`Verdict: ${transcript.decision.verdict}`);
     }
     console.log(`Reason: ${transcript.decision.reason}`);
+    // Token usage and cost
+    const { usage } = transcript;
+    console.log("\n--- USAGE ---");
+    for (const stage of USAGE_STAGES) {
+      const s = usage.byStage[stage];
+      if (s.calls === 0) continue;
+      console.log(
+        `  ${stage.padEnd(13)} ${s.calls} call(s)  in ${s.inputTokens}  out ${s.outputTokens}  $${s.costUsd.toFixed(4)}`
+      );
+    }
+    console.log(
+      `  ${"total".padEnd(13)} ${usage.total.calls} call(s)  in ${usage.total.inputTokens}  out ${usage.total.outputTokens}  $${usage.total.costUsd.toFixed(4)}`
+    );
+    if (usage.unpricedModels.length > 0) {
+      console.log(`  No price for: ${usage.unpricedModels.join(", ")} (costed at $0)`);
+    }
+    if (usage.budget?.exceeded) {
+      console.log("  BUDGET EXCEEDED");
+    }
+
     console.log(`\nTrial duration: ${transcript.durationMs}ms`);
     console.log("=".repeat(70));
   })
@@ -0,0 +1,94 @@
+import { access, readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { RubricDocumentSchema } from "../rubric/index.js";
+import { FileEvidenceSource } from "../evidence/sources/file.js";
+import type { EvalCase, EvalDataset } from "./index.js";
+
+/**
+ * Eval dataset files.
+ *
+ *   {
+ *     "name": "defi-2025",
+ *     "evidenceDir": "evidence",            // relative to this file
+ *     "rubric": { "criteria": [...], "confidenceThreshold": 20 },
+ *     "cases": [
+ *       { "id": "eth-staking-jan-2026", "question": "...", "expected": "YES",
+ *         "settlementDeadline": "2026-02-01T00:00:00Z" }
+ *     ]
+ *   }
+ *
+ * Each case's evidence is read from <evidenceDir>/<id>.json by a
+ * FileEvidenceSource. A case may bring its own rubric; otherwise the
+ * dataset's applies.
+ */
+
+export const EvalDatasetSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  evidenceDir: z.string().default("evidence"),
+  rubric: RubricDocumentSchema,
+  cases: z
+    .array(
+      z.object({
+        id: z.string().regex(/^[\w.-]+$/, "Case ids must be usable as file names"),
+        question: z.string().min(1),
+        expected: z.enum(["YES", "NO", "INVALID"]),
+        settlementDeadline: z.coerce.date(),
+        rubric: RubricDocumentSchema.optional(),
+        notes: z.string().optional(),
+      })
+    )
+    .min(1),
+});
+
+/**
+ * Reads and validates a dataset. Every case must have its evidence
+ * file — a dataset with gaps is rejected up front rather than
+ * half-run.
+ */
+export async function loadEvalDataset(file: string): Promise<EvalDataset> {
+  const parsed = EvalDatasetSchema.safeParse(JSON.parse(await readFile(file, "utf-8")));
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid eval dataset ${file}: ${parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ")}`
+    );
+  }
+  const doc = parsed.data;
+
+  const ids = new Set<string>();
+  for (const c of doc.cases) {
+    if (ids.has(c.id)) throw new Error(`Duplicate eval case id "${c.id}"`);
+    ids.add(c.id);
+  }
+
+  const evidenceDir = path.resolve(path.dirname(file), doc.evidenceDir);
+  const evidence = new FileEvidenceSource(evidenceDir);
+  const missing: string[] = [];
+  for (const c of doc.cases) {
+    await access(evidence.pathFor(c)).catch(() => missing.push(c.id));
+  }
+  if (missing.length > 0) {
+    throw new Error(`No evidence file in ${evidenceDir} for: ${missing.join(", ")}`);
+  }
+
+  const cases: EvalCase[] = doc.cases.map((c) => {
+    const rubric = c.rubric ?? doc.rubric;
+    return {
+      question: {
+        id: c.id,
+        question: c.question,
+        rubric: {
+          criteria: rubric.criteria,
+          evidenceSources: rubric.evidenceSources ?? ["file"],
+          confidenceThreshold: rubric.confidenceThreshold,
+        },
+        settlementDeadline: c.settlementDeadline,
+      },
+      expected: c.expected,
+      ...(c.notes && { notes: c.notes }),
+    };
+  });
+
+  return { name: doc.name, evidenceDir, cases };
+}
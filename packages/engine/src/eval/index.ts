@@ -0,0 +1,239 @@
+import { runTrial } from "../pipeline/index.js";
+import type { PipelineConfig } from "../pipeline/index.js";
+import { parseProviderList } from "../llm/index.js";
+import type { LLMProvider } from "../llm/index.js";
+import { FileEvidenceSource } from "../evidence/sources/file.js";
+import type { MarketQuestion, RulingVerdict, SettlementAction, TrialTranscript } from "../types.js";
+
+/**
+ * Offline evaluation — how often does the pipeline get it right?
+ *
+ * runEval tries every case of a labelled dataset (questions whose
+ * outcome is already known) under one or more model configurations,
+ * with evidence read from local fixtures so runs are comparable. Per
+ * configuration it reports:
+ *
+ * - accuracy — the judge's verdict matches the known outcome, over
+ *   every completed trial, escalated or not;
+ * - resolved accuracy — of the trials that would have auto-resolved,
+ *   how many resolved correctly (the number that costs stakers money);
+ * - escalation rate — trials sent to human review;
+ * - margin calibration — accuracy per margin band, which shows whether
+ *   a larger margin really means a safer call and where the
+ *   confidence threshold should sit;
+ * - hallucination rate — trials with a hallucinated citation, flagged
+ *   by the judge or by the deterministic citation check.
+ *
+ * A trial that throws counts as failed and is left out of the rates.
+ * Cases run one at a time, so provider rate limits aren't an issue.
+ */
+
+export interface EvalCase {
+  question: MarketQuestion;
+  expected: RulingVerdict; // the known outcome
+  notes?: string;
+}
+
+export interface EvalDataset {
+  name: string;
+  evidenceDir: string; // <evidenceDir>/<case id>.json per case
+  cases: EvalCase[];
+}
+
+/** A named pipeline setup to evaluate, e.g. "anthropic/openai/anthropic". */
+export interface EvalModelConfig {
+  name: string;
+  pipeline: Omit<PipelineConfig, "evidenceSources" | "onProgress" | "onEvent">;
+}
+
+/** Providers per role, as parsed from EVAL_CONFIGS. */
+export interface EvalProviderSpec {
+  name: string;
+  yes: LLMProvider;
+  no: LLMProvider;
+  judge: LLMProvider;
+}
+
+/**
+ * Parses EVAL_CONFIGS: comma-separated configurations, each either one
+ * provider for every role or "yes/no/judge" providers, e.g.
+ * "anthropic,anthropic/openai/openai".
+ */
+export function parseEvalConfigs(value: string): EvalProviderSpec[] {
+  const specs = value
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0)
+    .map((name) => {
+      const roles = name.split("/").flatMap((p) => parseProviderList(p));
+      if (roles.length !== 1 && roles.length !== 3) {
+        throw new Error(`Eval config "${name}" must name one provider or three (yes/no/judge)`);
+      }
+      const [yes, no = yes, judge = yes] = roles;
+      return { name, yes, no, judge };
+    });
+  if (specs.length === 0) {
+    throw new Error("No eval configurations given");
+  }
+  return specs;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  expected: RulingVerdict;
+  verdict: RulingVerdict | null; // the judge's finalVerdict; null if the trial failed
+  action: SettlementAction | null;
+  margin: number | null;
+  correct: boolean | null; // verdict === expected
+  hallucinated: boolean | null;
+  costUsd: number;
+  durationMs: number;
+  error?: string; // why the trial failed
+}
+
+/** Accuracy within one band of decision margins. */
+export interface CalibrationBucket {
+  minMargin: number;
+  maxMargin: number | null; // exclusive; null for the open top band
+  trials: number;
+  correct: number;
+  accuracy: number | null; // null for an empty band
+}
+
+export interface EvalMetrics {
+  cases: number;
+  completed: number;
+  failed: number;
+  accuracy: number | null; // all rates are 0-1, null with no completed trials
+  resolvedAccuracy: number | null; // null when nothing resolved
+  escalationRate: number | null;
+  hallucinationRate: number | null;
+  calibration: CalibrationBucket[];
+  totalCostUsd: number;
+}
+
+export interface EvalConfigReport {
+  config: string;
+  prompts: string[]; // prompt versions the trials used, e.g. "judge@v2"
+  metrics: EvalMetrics;
+  results: EvalCaseResult[];
+}
+
+export interface EvalReport {
+  dataset: string;
+  generatedAt: string; // ISO timestamp
+  configs: EvalConfigReport[];
+}
+
+/* Lower bounds of the margin bands used for calibration */
+export const CALIBRATION_BANDS = [0, 10, 20, 30, 50];
+
+export interface EvalOptions {
+  /** Called after each case, e.g. to print progress */
+  onCase?: (config: string, result: EvalCaseResult) => void;
+}
+
+/**
+ * Runs every case under every configuration and builds the report.
+ */
+export async function runEval(
+  dataset: EvalDataset,
+  configs: EvalModelConfig[],
+  options: EvalOptions = {}
+): Promise<EvalReport> {
+  if (configs.length === 0) {
+    throw new Error("At least one model configuration is required");
+  }
+  const evidenceSources = [new FileEvidenceSource(dataset.evidenceDir)];
+
+  const reports: EvalConfigReport[] = [];
+  for (const { name, pipeline } of configs) {
+    const results: EvalCaseResult[] = [];
+    const prompts = new Set<string>();
+
+    for (const evalCase of dataset.cases) {
+      const start = Date.now();
+      let result: EvalCaseResult;
+      try {
+        const transcript = await runTrial(evalCase.question, { ...pipeline, evidenceSources });
+        for (const p of [transcript.advocateYes.prompt, transcript.judgeRuling.prompt]) {
+          if (p) prompts.add(p.id);
+        }
+        result = scoreCase(evalCase, transcript);
+      } catch (err) {
+        result = {
+          caseId: evalCase.question.id,
+          expected: evalCase.expected,
+          verdict: null,
+          action: null,
+          margin: null,
+          correct: null,
+          hallucinated: null,
+          costUsd: 0,
+          durationMs: Date.now() - start,
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+      results.push(result);
+      options.onCase?.(name, result);
+    }
+
+    reports.push({ config: name, prompts: [...prompts].sort(), metrics: summarizeEval(results), results });
+  }
+
+  return { dataset: dataset.name, generatedAt: new Date().toISOString(), configs: reports };
+}
+
+/** Grades one completed trial against its case. */
+export function scoreCase(evalCase: EvalCase, transcript: TrialTranscript): EvalCaseResult {
+  const { citationReport } = transcript;
+  const verdict = transcript.judgeRuling.finalVerdict;
+
+  return {
+    caseId: evalCase.question.id,
+    expected: evalCase.expected,
+    verdict,
+    action: transcript.decision.action,
+    margin: transcript.decision.margin,
+    correct: verdict === evalCase.expected,
+    hallucinated:
+      transcript.judgeRuling.hallucinationsDetected.length > 0 ||
+      citationReport.yes.length + citationReport.no.length > 0,
+    costUsd: transcript.usage.total.costUsd,
+    durationMs: transcript.durationMs,
+  };
+}
+
+/**
+ * Aggregates case results into the report's metrics. Pure — exported
+ * so reports can be recomputed from stored results.
+ */
+export function summarizeEval(results: EvalCaseResult[]): EvalMetrics {
+  const completed = results.filter((r) => r.error === undefined);
+  const resolved = completed.filter((r) => r.action === "RESOLVE");
+  const rate = (count: number, total: number) => (total > 0 ? count / total : null);
+
+  const calibration = CALIBRATION_BANDS.map((minMargin, i): CalibrationBucket => {
+    const maxMargin = CALIBRATION_BANDS[i + 1] ?? null;
+    const inBand = completed.filter(
+      (r) => r.margin! >= minMargin && (maxMargin === null || r.margin! < maxMargin)
+    );
+    const correct = inBand.filter((r) => r.correct).length;
+    return { minMargin, maxMargin, trials: inBand.length, correct, accuracy: rate(correct, inBand.length) };
+  });
+
+  return {
+    cases: results.length,
+    completed: completed.length,
+    failed: results.length - completed.length,
+    accuracy: rate(completed.filter((r) => r.correct).length, completed.length),
+    resolvedAccuracy: rate(resolved.filter((r) => r.correct).length, resolved.length),
+    escalationRate: rate(completed.filter((r) => r.action === "ESCALATE").length, completed.length),
+    hallucinationRate: rate(completed.filter((r) => r.hallucinated).length, completed.length),
+    calibration,
+    totalCostUsd: results.reduce((sum, r) => sum + r.costUsd, 0),
+  };
+}
+
+export { loadEvalDataset, EvalDatasetSchema } from "./dataset.js";
+export { formatEvalMarkdown } from "./report.js";
@@ -0,0 +1,48 @@
+import type { CalibrationBucket, EvalReport } from "./index.js";
+
+/**
+ * Markdown rendering of an EvalReport — a summary table to compare
+ * configurations at a glance, then margin calibration and per-case
+ * results for each. The JSON report carries the same data.
+ */
+
+const pct = (rate: number | null) => (rate === null ? "—" : `${(rate * 100).toFixed(1)}%`);
+
+const band = (b: CalibrationBucket) => (b.maxMargin === null ? `${b.minMargin}+` : `${b.minMargin}–${b.maxMargin}`);
+
+export function formatEvalMarkdown(report: EvalReport): string {
+  const lines: string[] = [
+    `# Eval report: ${report.dataset}`,
+    "",
+    `Generated ${report.generatedAt}.`,
+    "",
+    "| Config | Prompts | Accuracy | Resolved accuracy | Escalation rate | Hallucination rate | Failed | Cost |",
+    "|---|---|---|---|---|---|---|---|",
+  ];
+
+  for (const { config, prompts, metrics: m } of report.configs) {
+    lines.push(
+      `| ${config} | ${prompts.join(", ") || "—"} | ${pct(m.accuracy)} | ${pct(m.resolvedAccuracy)} | ${pct(m.escalationRate)} | ${pct(m.hallucinationRate)} | ${m.failed}/${m.cases} | $${m.totalCostUsd.toFixed(4)} |`
+    );
+  }
+
+  for (const { config, metrics, results } of report.configs) {
+    lines.push("", `## ${config}`, "", "### Margin calibration", "", "| Margin | Trials | Correct | Accuracy |", "|---|---|---|---|");
+    for (const b of metrics.calibration) {
+      lines.push(`| ${band(b)} | ${b.trials} | ${b.correct} | ${pct(b.accuracy)} |`);
+    }
+
+    lines.push("", "### Cases", "", "| Case | Expected | Verdict | Decision | Margin | Hallucination |", "|---|---|---|---|---|---|");
+    for (const r of results) {
+      if (r.error !== undefined) {
+        lines.push(`| ${r.caseId} | ${r.expected} | FAILED: ${r.error.replace(/\|/g, "\\|")} | — | — | — |`);
+        continue;
+      }
+      lines.push(
+        `| ${r.caseId} | ${r.expected} | ${r.verdict} ${r.correct ? "✓" : "✗"} | ${r.action} | ${r.margin} | ${r.hallucinated ? "yes" : "no"} |`
+      );
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
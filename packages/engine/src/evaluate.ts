@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+
+/**
+ * Eval CLI — measure the pipeline against a labelled dataset.
+ *
+ * Usage:
+ *   USE_MOCKS=true npm run eval -- eval/sample/dataset.json
+ *   EVAL_CONFIGS=anthropic,anthropic/openai/openai npm run eval -- <dataset.json> reports/
+ *
+ * Every case is tried under every configuration in EVAL_CONFIGS (one
+ * provider for all roles, or yes/no/judge providers), with evidence
+ * read from the dataset's fixture files. The Markdown report is
+ * printed; with an output directory, report.json and report.md are
+ * written there too, for comparing runs across prompt or model changes.
+ *
+ * DEBATE_ROUNDS, LLM_OUTPUT_ATTEMPTS and the PROMPT_* variables apply
+ * as for a normal trial.
+ */
+
+import "dotenv/config";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { formatEvalMarkdown, loadEvalDataset, parseEvalConfigs, runEval } from "./eval/index.js";
+import type { EvalModelConfig } from "./eval/index.js";
+import { createLLMClient, parseProviderList } from "./llm/index.js";
+import type { LLMClientOptions } from "./llm/index.js";
+import { loadPromptRegistry, parsePromptSelection } from "./prompts/index.js";
+
+const useMocks = process.env.USE_MOCKS === "true";
+
+const llmOptions: LLMClientOptions = useMocks
+  ? {}
+  : {
+      timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || "60000", 10),
+      maxRetries: parseInt(process.env.LLM_MAX_RETRIES || "3", 10),
+      failover: parseProviderList(process.env.LLM_FAILOVER),
+    };
+
+async function main() {
+  const [datasetFile, outDir] = process.argv.slice(2);
+  if (!datasetFile) {
+    throw new Error("Usage: eval <dataset.json> [outDir]");
+  }
+
+  const dataset = await loadEvalDataset(datasetFile);
+  const promptRegistry = loadPromptRegistry(process.env.PROMPT_DIR || undefined);
+  const prompts = parsePromptSelection(process.env);
+
+  const configs: EvalModelConfig[] = parseEvalConfigs(process.env.EVAL_CONFIGS || (useMocks ? "mock" : "anthropic")).map(
+    (spec) => ({
+      name: spec.name,
+      pipeline: {
+        advocateYesClient: createLLMClient(spec.yes, llmOptions),
+        advocateNoClient: createLLMClient(spec.no, llmOptions),
+        judgeClient: createLLMClient(spec.judge, llmOptions),
+        rounds: parseInt(process.env.DEBATE_ROUNDS || "1", 10),
+        maxOutputAttempts: parseInt(process.env.LLM_OUTPUT_ATTEMPTS || "3", 10),
+        prompts,
+        promptRegistry,
+      },
+    })
+  );
+
+  console.log(`Evaluating ${dataset.cases.length} case(s) from "${dataset.name}" under ${configs.length} config(s)...`);
+  const report = await runEval(dataset, configs, {
+    onCase: (config, r) => {
+      const outcome = r.error !== undefined ? `FAILED: ${r.error}` : `${r.verdict} (${r.correct ? "correct" : "wrong"}), ${r.action}`;
+      console.log(`  [${config}] ${r.caseId}: ${outcome}`);
+    },
+  });
+
+  const markdown = formatEvalMarkdown(report);
+  console.log(`\n${markdown}`);
+
+  if (outDir) {
+    await mkdir(outDir, { recursive: true });
+    await writeFile(path.join(outDir, "report.json"), JSON.stringify(report, null, 2));
+    await writeFile(path.join(outDir, "report.md"), markdown);
+    console.log(`Report written to ${outDir}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\nEval failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
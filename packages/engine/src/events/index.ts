@@ -0,0 +1,56 @@
+import type { TrialEvent } from "../types.js";
+
+export type TrialEventListener = (event: TrialEvent) => void;
+
+/**
+ * Fans trial progress events out to live subscribers, per market.
+ *
+ * The events of a trial that is still running are buffered and
+ * replayed to anyone who subscribes mid-trial, so a client that opens
+ * its stream a moment after the trial started (or reconnects) still
+ * sees the whole trial from "trial-started". Once the trial completes
+ * or fails, the buffer is dropped — finished trials are served from
+ * the transcript store, not from here.
+ */
+export class TrialEventHub {
+  private running = new Map<number, TrialEvent[]>();
+  private listeners = new Map<number, Set<TrialEventListener>>();
+
+  publish(marketId: number, event: TrialEvent): void {
+    if (event.type === "trial-started") {
+      this.running.set(marketId, []);
+    }
+    this.running.get(marketId)?.push(event);
+
+    for (const listener of this.listeners.get(marketId) ?? []) {
+      listener(event);
+    }
+
+    if (event.type === "trial-completed" || event.type === "trial-failed") {
+      this.running.delete(marketId);
+    }
+  }
+
+  /** Replays the running trial's events, then streams new ones. Returns an unsubscribe function. */
+  subscribe(marketId: number, listener: TrialEventListener): () => void {
+    for (const event of this.running.get(marketId) ?? []) {
+      listener(event);
+    }
+
+    let set = this.listeners.get(marketId);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(marketId, set);
+    }
+    set.add(listener);
+
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) this.listeners.delete(marketId);
+    };
+  }
+
+  isRunning(marketId: number): boolean {
+    return this.running.has(marketId);
+  }
+}
@@ -1,4 +1,15 @@
 import type { MarketQuestion, EvidenceBundle, EvidenceItem } from "../types.js";
+import type { LLMResponse } from "../llm/index.js";
+import { snapshotEvidence } from "./snapshot.js";
+
+/**
+ * Per-trial context handed to every source. Sources that call an LLM
+ * (the dynamic router) report each response through onLLMResponse so
+ * the pipeline can account for its tokens.
+ */
+export interface EvidenceContext {
+  onLLMResponse?: (response: LLMResponse) => void;
+}
 
 /**
  * Interface for evidence sources. Each source knows how to fetch
@@ -9,7 +20,7 @@ import type { MarketQuestion, EvidenceBundle, EvidenceItem } from "../types.js";
  */
 export interface EvidenceSource {
   name: string;
-  fetch(question: MarketQuestion): Promise<EvidenceItem[]>;
+  fetch(question: MarketQuestion, context?: EvidenceContext): Promise<EvidenceItem[]>;
 }
 
 /**
@@ -19,13 +30,17 @@ export interface EvidenceSource {
  * fails (e.g., API key missing, rate limited), the others still
  * contribute their data. Failed sources are logged but don't
  * crash the pipeline.
+ *
+ * The bundle comes back snapshotted: every item carries its contentHash
+ * and the bundle a Merkle root over them (see snapshot.ts).
  */
 export async function gatherEvidence(
   question: MarketQuestion,
-  sources: EvidenceSource[]
+  sources: EvidenceSource[],
+  context?: EvidenceContext
 ): Promise<EvidenceBundle> {
   const results = await Promise.allSettled(
-    sources.map((source) => source.fetch(question))
+    sources.map((source) => source.fetch(question, context))
   );
 
   const items: EvidenceItem[] = [];
@@ -41,16 +56,27 @@ export async function gatherEvidence(
     }
   });
 
-  return {
+  return snapshotEvidence({
     questionId: question.id,
     items,
     gatheredAt: new Date(),
-  };
+  });
 }
 
+export {
+  fetchSnapshot,
+  evidenceMerkleRoot,
+  hashEvidenceContent,
+  hashEvidenceItem,
+  snapshotEvidence,
+  verifyEvidenceBundle,
+} from "./snapshot.js";
+export type { EvidenceVerification, FetchSnapshot } from "./snapshot.js";
+
 // Re-export source implementations for convenience
 export { MockEvidenceSource } from "./mock.js";
 export { DeFiLlamaSource } from "./sources/defilama.js";
 export { NewsAPISource } from "./sources/news.js";
 export { TreasurySource } from "./sources/treasury.js";
 export { DynamicEvidenceSource } from "./sources/dynamic.js";
+export { FileEvidenceSource } from "./sources/file.js";
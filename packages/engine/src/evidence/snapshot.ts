@@ -0,0 +1,144 @@
+import { ethers } from "ethers";
+import type { EvidenceBundle, EvidenceItem, EvidenceResponseMeta } from "../types.js";
+
+/**
+ * Evidence snapshotting — makes what the sources returned provable.
+ *
+ * An EvidenceItem's `content` is a summary the source wrote from an API
+ * response. On its own nobody can later show that DeFiLlama or Treasury
+ * really returned those numbers at trial time. So:
+ *
+ * - Sources fetch through fetchSnapshot(), which records the HTTP
+ *   status, a subset of headers (date, etag, ...), the body's byte
+ *   length and its keccak256 hash alongside the item.
+ * - gatherEvidence stamps every item with a contentHash (keccak256 of
+ *   its content) and the bundle with a Merkle root over all items.
+ * - hashTranscript folds that root into the transcriptHash settled
+ *   onchain.
+ *
+ * Anyone holding the transcript (IPFS or the API) can then recompute
+ * the root with verifyEvidenceBundle and the transcriptHash with
+ * hashTranscript, and check both against the chain.
+ */
+
+/* Response headers worth keeping: they date and version the response */
+const SNAPSHOT_HEADERS = ["content-type", "content-length", "date", "etag", "last-modified", "cache-control", "age"];
+
+export interface FetchSnapshot {
+  ok: boolean;
+  body: string;
+  response: EvidenceResponseMeta;
+}
+
+/**
+ * fetch() that also snapshots the response. The body is read once as
+ * bytes — hashed as received — and returned as text for the source to
+ * parse.
+ */
+export async function fetchSnapshot(url: string, init?: RequestInit): Promise<FetchSnapshot> {
+  const res = await fetch(url, init);
+  const bytes = new Uint8Array(await res.arrayBuffer());
+
+  const headers: Record<string, string> = {};
+  for (const name of SNAPSHOT_HEADERS) {
+    const value = res.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+
+  return {
+    ok: res.ok,
+    body: new TextDecoder().decode(bytes),
+    response: {
+      status: res.status,
+      headers,
+      byteLength: bytes.length,
+      bodyHash: ethers.keccak256(bytes),
+    },
+  };
+}
+
+/** keccak256 of an item's content, as UTF-8. */
+export function hashEvidenceContent(content: string): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(content));
+}
+
+/**
+ * The Merkle leaf for one item: keccak256 of its fields in a fixed
+ * order. retrievedAt may be a Date or, in a transcript read back from
+ * JSON, its ISO string — both hash the same.
+ */
+export function hashEvidenceItem(item: EvidenceItem): string {
+  const canonical = {
+    source: item.source,
+    title: item.title,
+    contentHash: hashEvidenceContent(item.content),
+    url: item.url ?? null,
+    retrievedAt: new Date(item.retrievedAt).toISOString(),
+    response: item.response
+      ? {
+          status: item.response.status,
+          headers: item.response.headers,
+          byteLength: item.response.byteLength,
+          bodyHash: item.response.bodyHash,
+        }
+      : null,
+  };
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(canonical)));
+}
+
+/**
+ * Merkle root over the items' leaves, in bundle order. Pairs are
+ * hashed sorted (as OpenZeppelin's MerkleProof expects) and an odd
+ * node is carried up unchanged. An empty bundle's root is zero.
+ */
+export function evidenceMerkleRoot(items: EvidenceItem[]): string {
+  if (items.length === 0) return ethers.ZeroHash;
+
+  let level = items.map(hashEvidenceItem);
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+        continue;
+      }
+      const [a, b] = [level[i], level[i + 1]].sort();
+      next.push(ethers.keccak256(ethers.concat([a, b])));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/**
+ * Stamps every item with its contentHash and the bundle with its
+ * Merkle root. Returns a new bundle; the input is left untouched.
+ */
+export function snapshotEvidence(bundle: EvidenceBundle): EvidenceBundle {
+  const items = bundle.items.map((item) => ({ ...item, contentHash: hashEvidenceContent(item.content) }));
+  return { ...bundle, items, merkleRoot: evidenceMerkleRoot(items) };
+}
+
+export interface EvidenceVerification {
+  valid: boolean;
+  merkleRoot: string; // recomputed from the items
+  mismatchedItems: number[]; // indexes whose contentHash doesn't match their content
+}
+
+/**
+ * Re-verifies a bundle, e.g. from a transcript fetched off IPFS: every
+ * contentHash must match its content and the recomputed root must match
+ * the bundle's merkleRoot.
+ */
+export function verifyEvidenceBundle(bundle: EvidenceBundle): EvidenceVerification {
+  const mismatchedItems = bundle.items
+    .map((item, i) => (item.contentHash === hashEvidenceContent(item.content) ? -1 : i))
+    .filter((i) => i >= 0);
+  const merkleRoot = evidenceMerkleRoot(bundle.items);
+
+  return {
+    valid: mismatchedItems.length === 0 && merkleRoot === bundle.merkleRoot,
+    merkleRoot,
+    mismatchedItems,
+  };
+}
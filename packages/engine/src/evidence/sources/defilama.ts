@@ -1,5 +1,6 @@
 import type { EvidenceItem, MarketQuestion } from "../../types.js";
 import type { EvidenceSource } from "../index.js";
+import { fetchSnapshot } from "../snapshot.js";
 
 /**
  * DeFiLlama evidence source — fetches DeFi yield and TVL data.
@@ -21,12 +22,12 @@ export class DeFiLlamaSource implements EvidenceSource {
 
     try {
       // Fetch ETH staking pool yields
-      const poolsRes = await fetch(
+      const poolsRes = await fetchSnapshot(
         "https://yields.llama.fi/pools"
       );
 
       if (poolsRes.ok) {
-        const poolsData = await poolsRes.json();
+        const poolsData = JSON.parse(poolsRes.body);
 
         // Filter for ETH staking pools (Lido, Rocket Pool, Coinbase)
         const ethStakingPools = poolsData.data
@@ -52,6 +53,7 @@ export class DeFiLlamaSource implements EvidenceSource {
             content: `Current ETH staking yields from DeFiLlama: average APY across ${ethStakingPools.length} major pools is ${avgApy.toFixed(2)}%. Individual pools: ${ethStakingPools.map((p: { project: string; apy: number }) => `${p.project}: ${p.apy?.toFixed(2)}%`).join(", ")}.`,
             url: "https://defillama.com/yields?project=lido",
             retrievedAt: now,
+            response: poolsRes.response,
           });
         }
       }
@@ -61,12 +63,12 @@ export class DeFiLlamaSource implements EvidenceSource {
 
     try {
       // Fetch Lido protocol data for TVL context
-      const lidoRes = await fetch(
+      const lidoRes = await fetchSnapshot(
         "https://api.llama.fi/protocol/lido"
       );
 
       if (lidoRes.ok) {
-        const lidoData = await lidoRes.json();
+        const lidoData = JSON.parse(lidoRes.body);
         const currentTvl = lidoData.currentChainTvls?.Ethereum;
 
         if (currentTvl) {
@@ -76,6 +78,7 @@ export class DeFiLlamaSource implements EvidenceSource {
             content: `Lido (largest ETH staking provider) currently has $${(currentTvl / 1e9).toFixed(2)}B TVL on Ethereum. This represents the largest share of staked ETH.`,
             url: "https://defillama.com/protocol/lido",
             retrievedAt: now,
+            response: lidoRes.response,
           });
         }
       }
@@ -1,6 +1,7 @@
 import type { EvidenceItem, MarketQuestion } from "../../types.js";
-import type { EvidenceSource } from "../index.js";
+import type { EvidenceContext, EvidenceSource } from "../index.js";
 import type { LLMClient } from "../../llm/index.js";
+import { fetchSnapshot } from "../snapshot.js";
 
 /**
  * DynamicEvidenceSource — AI-powered evidence router.
@@ -86,7 +87,7 @@ export class DynamicEvidenceSource implements EvidenceSource {
     this.llmClient = llmClient;
   }
 
-  async fetch(question: MarketQuestion): Promise<EvidenceItem[]> {
+  async fetch(question: MarketQuestion, context?: EvidenceContext): Promise<EvidenceItem[]> {
     const items: EvidenceItem[] = [];
     const now = new Date();
 
@@ -99,6 +100,7 @@ export class DynamicEvidenceSource implements EvidenceSource {
         maxTokens: 1024,
         temperature: 0.1,
       });
+      context?.onLLMResponse?.(llmResult);
 
       routerResponse = parseRouterResponse(llmResult.content);
       console.log(
@@ -116,16 +118,16 @@ export class DynamicEvidenceSource implements EvidenceSource {
         const timeout = setTimeout(() => controller.abort(), 10_000);
 
         try {
-          const response = await fetch(apiCall.url, {
+          const response = await fetchSnapshot(apiCall.url, {
             signal: controller.signal,
             headers: { Accept: "application/json" },
           });
 
           if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`);
+            throw new Error(`HTTP ${response.response.status}`);
           }
 
-          const data = await response.json();
+          const data = JSON.parse(response.body);
           const content = extractRelevantData(data, apiCall);
 
           return {
@@ -134,6 +136,7 @@ export class DynamicEvidenceSource implements EvidenceSource {
             content,
             url: apiCall.url.split("?")[0], // Clean URL without params
             retrievedAt: now,
+            response: response.response,
           } as EvidenceItem;
         } finally {
           clearTimeout(timeout);
@@ -0,0 +1,43 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { EvidenceBundle, EvidenceItem, MarketQuestion } from "../../types.js";
+import type { EvidenceSource } from "../index.js";
+
+/**
+ * File-backed evidence source — serves evidence from local fixture
+ * files instead of live APIs, so a trial can be re-run offline against
+ * exactly the data it saw (see eval/index.ts).
+ *
+ * Each question's evidence lives in <dir>/<question id>.json, either as
+ * an array of EvidenceItems or as a whole EvidenceBundle — the
+ * `evidence` of a stored transcript can be dropped in unchanged.
+ *
+ * Unlike the live sources, a missing or malformed file throws: an eval
+ * case silently running without evidence would skew the results.
+ */
+export class FileEvidenceSource implements EvidenceSource {
+  name = "file";
+
+  constructor(private dir: string) {}
+
+  /** Where the evidence for a question is expected. */
+  pathFor(question: Pick<MarketQuestion, "id">): string {
+    return path.join(this.dir, `${question.id}.json`);
+  }
+
+  async fetch(question: MarketQuestion): Promise<EvidenceItem[]> {
+    const file = this.pathFor(question);
+    const json = JSON.parse(await readFile(file, "utf-8")) as EvidenceItem[] | EvidenceBundle;
+    const items = Array.isArray(json) ? json : json.items;
+
+    if (!Array.isArray(items) || items.some((i) => !i.title || !i.content)) {
+      throw new Error(`${file} is not a list of evidence items`);
+    }
+
+    return items.map((item) => ({
+      ...item,
+      source: item.source ?? "file",
+      retrievedAt: new Date(item.retrievedAt ?? 0), // fixed when absent, so the Merkle root is stable
+    }));
+  }
+}
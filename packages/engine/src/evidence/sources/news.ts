@@ -1,5 +1,6 @@
 import type { EvidenceItem, MarketQuestion } from "../../types.js";
 import type { EvidenceSource } from "../index.js";
+import { fetchSnapshot } from "../snapshot.js";
 
 /**
  * NewsAPI evidence source — fetches relevant news articles.
@@ -41,10 +42,10 @@ export class NewsAPISource implements EvidenceSource {
         `&language=en` +
         `&apiKey=${this.apiKey}`;
 
-      const response = await fetch(url);
+      const response = await fetchSnapshot(url);
 
       if (response.ok) {
-        const data = await response.json();
+        const data = JSON.parse(response.body);
 
         if (data.articles?.length > 0) {
           for (const article of data.articles) {
@@ -57,6 +58,7 @@ export class NewsAPISource implements EvidenceSource {
                 "No content available",
               url: article.url,
               retrievedAt: now,
+              response: response.response,
             });
           }
         }
@@ -1,5 +1,6 @@
 import type { EvidenceItem, MarketQuestion } from "../../types.js";
 import type { EvidenceSource } from "../index.js";
+import { fetchSnapshot } from "../snapshot.js";
 
 /**
  * US Treasury evidence source — fetches interest rate data from
@@ -28,10 +29,10 @@ export class TreasurySource implements EvidenceSource {
         "?sort=-record_date&page[size]=10" +
         "&fields=record_date,security_desc,avg_interest_rate_amt";
 
-      const response = await fetch(url);
+      const response = await fetchSnapshot(url);
 
       if (response.ok) {
-        const data = await response.json();
+        const data = JSON.parse(response.body);
         const records = data.data;
 
         if (records?.length > 0) {
@@ -60,6 +61,7 @@ export class TreasurySource implements EvidenceSource {
               content: `Recent average interest rates on US Treasury securities: ${summary}`,
               url: "https://fiscaldata.treasury.gov/datasets/average-interest-rates-treasury-securities",
               retrievedAt: now,
+              response: response.response,
             });
           }
         }
@@ -0,0 +1,115 @@
+import { ethers } from "ethers";
+import type { ChainReader, MarketLog } from "./index.js";
+
+/* ABI subset — the lifecycle events, plus getMarket for the rubricHash */
+const INDEXER_ABI = [
+  "event MarketCreated(uint256 indexed marketId, address indexed creator, string question, uint256 deadline)",
+  "event CategoricalMarketCreated(uint256 indexed marketId, string[] outcomes)",
+  "event SettlementRequested(uint256 indexed marketId, uint256 timestamp)",
+  "event TrialRequested(uint256 indexed marketId, bytes32 indexed requestId)",
+  "event MarketResolved(uint256 indexed marketId, uint8 outcome, uint256 scoreYes, uint256 scoreNo, bytes32 transcriptHash)",
+  "event MarketEscalated(uint256 indexed marketId, bytes32 transcriptHash)",
+  "event MarketAppealed(uint256 indexed marketId, address indexed appellant, uint256 bond)",
+  "event MarketCancelled(uint256 indexed marketId)",
+  "function getMarket(uint256 marketId) view returns (tuple(string question, string rubricHash, uint256 deadline, uint8 status, uint8 outcome, uint256 yesPool, uint256 noPool, bytes32 transcriptHash, bytes32 transcriptCidA, bytes32 transcriptCidB, address creator, uint256 creationDeposit))",
+];
+
+const EVENTS = [
+  "MarketCreated",
+  "CategoricalMarketCreated",
+  "SettlementRequested",
+  "TrialRequested",
+  "MarketResolved",
+  "MarketEscalated",
+  "MarketAppealed",
+  "MarketCancelled",
+] as const;
+
+/**
+ * ChainReader over an ethers provider. All eight events are fetched with
+ * a single getLogs call per block range (topic0 OR-filter).
+ *
+ * MarketCreated doesn't carry the rubricHash, so each new market costs
+ * one getMarket() call — once per market, not once per tick. Likewise
+ * each TrialRequested costs one getBlock() for its timestamp, which the
+ * fulfillment watchdog measures its timeout from.
+ */
+export class EthersChainReader implements ChainReader {
+  private iface = new ethers.Interface(INDEXER_ABI);
+  private contract: ethers.Contract;
+
+  constructor(
+    private provider: ethers.Provider,
+    private address: string
+  ) {
+    this.contract = new ethers.Contract(address, INDEXER_ABI, provider);
+  }
+
+  getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    const block = await this.provider.getBlock(blockNumber);
+    return block?.hash ?? null;
+  }
+
+  async getMarketLogs(fromBlock: number, toBlock: number): Promise<MarketLog[]> {
+    const raw = await this.provider.getLogs({
+      address: this.address,
+      fromBlock,
+      toBlock,
+      topics: [EVENTS.map((name) => this.iface.getEvent(name)!.topicHash)],
+    });
+
+    raw.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const logs: MarketLog[] = [];
+    for (const log of raw) {
+      const parsed = this.iface.parseLog(log);
+      if (!parsed) continue;
+
+      const base = {
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        marketId: Number(parsed.args.marketId),
+      };
+
+      switch (parsed.name) {
+        case "MarketCreated": {
+          const market = await this.contract.getMarket(base.marketId);
+          logs.push({
+            ...base,
+            event: "MarketCreated",
+            question: parsed.args.question,
+            rubricHash: market.rubricHash,
+            deadline: Number(parsed.args.deadline),
+          });
+          break;
+        }
+        case "CategoricalMarketCreated":
+          logs.push({ ...base, event: "CategoricalMarketCreated", outcomes: [...parsed.args.outcomes] });
+          break;
+        case "TrialRequested": {
+          const block = await log.getBlock();
+          logs.push({
+            ...base,
+            event: "TrialRequested",
+            requestId: parsed.args.requestId,
+            timestamp: block.timestamp,
+          });
+          break;
+        }
+        case "SettlementRequested":
+        case "MarketResolved":
+        case "MarketEscalated":
+        case "MarketAppealed":
+        case "MarketCancelled":
+          logs.push({ ...base, event: parsed.name });
+          break;
+      }
+    }
+
+    return logs;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Market indexer — a local table of every market's state, built from
+ * contract logs instead of re-reading each market on every tick.
+ *
+ * Each sync() fetches only the logs since the last processed block
+ * (the checkpoint) and applies them in chain order. The checkpoint and
+ * table are saved after every batch, so a restart resumes where it
+ * stopped rather than rescanning from the deployment block.
+ *
+ * Reorgs: the checkpoint stores the hash of its block. Before syncing,
+ * that hash is compared with the block now at the same height; if it
+ * changed, some processed logs may no longer exist, so the table is
+ * dropped and rebuilt from startBlock. Rebuilding is cheap next to the
+ * cost of acting on a market state that never happened. Setting
+ * `confirmations` keeps the indexer that many blocks behind the head,
+ * which makes such rebuilds rare on public networks.
+ *
+ * A saved table from an older indexer version (one that didn't record
+ * a field the engine now relies on, such as a categorical market's
+ * outcomes) is discarded on load and rebuilt the same way.
+ */
+
+/* Bump whenever IndexedMarket gains a field that older tables lack */
+const STATE_VERSION = 2;
+
+export type IndexedMarketStatus =
+  | "Open"
+  | "SettlementRequested"
+  | "Resolved"
+  | "Escalated"
+  | "Appealed"
+  | "Cancelled";
+
+export interface IndexedMarket {
+  marketId: number;
+  question: string;
+  rubricHash: string;
+  /** Named outcomes of a categorical market; absent for a YES/NO market */
+  outcomes?: string[];
+  /** Unix seconds */
+  deadline: number;
+  status: IndexedMarketStatus;
+  /** Chainlink Functions request ID of the current trial, once a TrialRequested log was seen */
+  trialRequestId: string | null;
+  /** Block timestamp (unix seconds) of that TrialRequested log */
+  trialRequestedAt: number | null;
+  /** Block of the last log applied to this market */
+  updatedAtBlock: number;
+}
+
+export interface IndexerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+/** Everything the indexer persists. */
+export interface IndexerState {
+  /** Absent in tables saved before versioning — treated as outdated */
+  version?: number;
+  checkpoint: IndexerCheckpoint | null;
+  markets: IndexedMarket[];
+}
+
+/** A decoded contract log, in the fields the indexer needs. */
+export type MarketLog = { blockNumber: number; logIndex: number; marketId: number } & (
+  | { event: "MarketCreated"; question: string; rubricHash: string; deadline: number }
+  | { event: "CategoricalMarketCreated"; outcomes: string[] }
+  | { event: "SettlementRequested" }
+  | { event: "TrialRequested"; requestId: string; timestamp: number }
+  | { event: "MarketResolved" }
+  | { event: "MarketEscalated" }
+  | { event: "MarketAppealed" }
+  | { event: "MarketCancelled" }
+);
+
+/**
+ * The chain access the indexer needs. EthersChainReader is the real
+ * implementation; tests script a fake chain.
+ */
+export interface ChainReader {
+  getBlockNumber(): Promise<number>;
+
+  /** Hash of the canonical block at this height, or null if there is none. */
+  getBlockHash(blockNumber: number): Promise<string | null>;
+
+  /** Decoded market logs in [fromBlock, toBlock], in chain order. */
+  getMarketLogs(fromBlock: number, toBlock: number): Promise<MarketLog[]>;
+}
+
+/** Persists the indexer's state between restarts. */
+export interface IndexerStore {
+  load(): Promise<IndexerState | null>;
+  save(state: IndexerState): Promise<void>;
+}
+
+export interface MarketIndexerOptions {
+  /** First block to scan — the contract's deployment block (default 0) */
+  startBlock?: number;
+  /** Blocks to stay behind the chain head (default 0) */
+  confirmations?: number;
+  /** Maximum block range per getLogs call (default 2000) */
+  batchSize?: number;
+}
+
+export interface SyncResult {
+  /** Blocks scanned this sync, or null if already up to date */
+  fromBlock: number | null;
+  toBlock: number | null;
+  logs: number;
+  /** True if a reorg was detected and the table rebuilt */
+  reorg: boolean;
+}
+
+export class MarketIndexer {
+  private markets = new Map<number, IndexedMarket>();
+  private checkpoint: IndexerCheckpoint | null = null;
+  private startBlock: number;
+  private confirmations: number;
+  private batchSize: number;
+
+  constructor(
+    private chain: ChainReader,
+    private store: IndexerStore,
+    options: MarketIndexerOptions = {}
+  ) {
+    this.startBlock = options.startBlock ?? 0;
+    this.confirmations = options.confirmations ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+  }
+
+  /** Restore the table and checkpoint saved by a previous run. */
+  async load(): Promise<void> {
+    const state = await this.store.load();
+    if (!state || state.version !== STATE_VERSION) return;
+
+    this.checkpoint = state.checkpoint;
+    this.markets = new Map(state.markets.map((m) => [m.marketId, m]));
+  }
+
+  /** Bring the table up to date with the chain (minus confirmations). */
+  async sync(): Promise<SyncResult> {
+    let reorg = false;
+
+    if (this.checkpoint) {
+      const hash = await this.chain.getBlockHash(this.checkpoint.blockNumber);
+      if (hash !== this.checkpoint.blockHash) {
+        reorg = true;
+        this.checkpoint = null;
+        this.markets.clear();
+      }
+    }
+
+    const head = (await this.chain.getBlockNumber()) - this.confirmations;
+    const fromBlock = this.checkpoint ? this.checkpoint.blockNumber + 1 : this.startBlock;
+    if (fromBlock > head) {
+      if (reorg) await this.save();
+      return { fromBlock: null, toBlock: null, logs: 0, reorg };
+    }
+
+    let logs = 0;
+    for (let from = fromBlock; from <= head; from += this.batchSize) {
+      const to = Math.min(head, from + this.batchSize - 1);
+
+      /*
+       * Read the batch's end hash BEFORE its logs. If the chain reorgs
+       * in between, the stored hash won't match on the next sync and
+       * the batch is rebuilt — never the other way round.
+       */
+      const blockHash = await this.chain.getBlockHash(to);
+      if (blockHash === null) {
+        throw new Error(`Block ${to} not found while indexing`);
+      }
+
+      const batch = await this.chain.getMarketLogs(from, to);
+      for (const log of batch) {
+        this.apply(log);
+      }
+      logs += batch.length;
+
+      this.checkpoint = { blockNumber: to, blockHash };
+      await this.save();
+    }
+
+    return { fromBlock, toBlock: head, logs, reorg };
+  }
+
+  get(marketId: number): IndexedMarket | null {
+    return this.markets.get(marketId) ?? null;
+  }
+
+  /** Every indexed market, by ID. */
+  all(): IndexedMarket[] {
+    return [...this.markets.values()].sort((a, b) => a.marketId - b.marketId);
+  }
+
+  /** Open markets whose deadline has passed — ready for requestSettlement(). */
+  dueForSettlement(nowSeconds: number): IndexedMarket[] {
+    return this.all().filter((m) => m.status === "Open" && m.deadline <= nowSeconds);
+  }
+
+  /**
+   * Markets waiting for a trial (SettlementRequested, or Appealed for
+   * the retrial) with no Chainlink Functions request yet.
+   */
+  awaitingTrial(): IndexedMarket[] {
+    return this.all().filter((m) => isAwaitingVerdict(m.status) && m.trialRequestId === null);
+  }
+
+  private apply(log: MarketLog): void {
+    if (log.event === "MarketCreated") {
+      this.markets.set(log.marketId, {
+        marketId: log.marketId,
+        question: log.question,
+        rubricHash: log.rubricHash,
+        deadline: log.deadline,
+        status: "Open",
+        trialRequestId: null,
+        trialRequestedAt: null,
+        updatedAtBlock: log.blockNumber,
+      });
+      return;
+    }
+
+    /* Markets created before startBlock are unknown — nothing to update */
+    const market = this.markets.get(log.marketId);
+    if (!market) return;
+
+    switch (log.event) {
+      case "CategoricalMarketCreated":
+        /* Emitted right after MarketCreated, in the same transaction */
+        market.outcomes = log.outcomes;
+        break;
+      case "SettlementRequested":
+        market.status = "SettlementRequested";
+        break;
+      case "TrialRequested":
+        market.trialRequestId = log.requestId;
+        market.trialRequestedAt = log.timestamp;
+        break;
+      case "MarketResolved":
+        market.status = "Resolved";
+        break;
+      case "MarketEscalated":
+        market.status = "Escalated";
+        break;
+      case "MarketAppealed":
+        /* The retrial is a new trial — the first request no longer counts */
+        market.status = "Appealed";
+        market.trialRequestId = null;
+        market.trialRequestedAt = null;
+        break;
+      case "MarketCancelled":
+        market.status = "Cancelled";
+        break;
+    }
+    market.updatedAtBlock = log.blockNumber;
+  }
+
+  private async save(): Promise<void> {
+    await this.store.save({ version: STATE_VERSION, checkpoint: this.checkpoint, markets: this.all() });
+  }
+}
+
+/** True for the statuses in which a market waits for a trial verdict. */
+export function isAwaitingVerdict(status: IndexedMarketStatus): boolean {
+  return status === "SettlementRequested" || status === "Appealed";
+}
+
+export { InMemoryIndexerStore, FileIndexerStore } from "./store.js";
+export { EthersChainReader } from "./ethers.js";
@@ -0,0 +1,41 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { IndexerState, IndexerStore } from "./index.js";
+
+/** Keeps the indexer state in memory only. Used in tests. */
+export class InMemoryIndexerStore implements IndexerStore {
+  private state: IndexerState | null = null;
+
+  async load(): Promise<IndexerState | null> {
+    return this.state && structuredClone(this.state);
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Stores the indexer state as one JSON file, written atomically
+ * (write to .tmp, then rename) so a crash mid-write keeps the previous
+ * checkpoint. Use one file per contract — a checkpoint from another
+ * deployment would skip that contract's early blocks.
+ */
+export class FileIndexerStore implements IndexerStore {
+  constructor(private file: string) {}
+
+  async load(): Promise<IndexerState | null> {
+    try {
+      return JSON.parse(await readFile(this.file, "utf-8")) as IndexerState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    await mkdir(path.dirname(this.file), { recursive: true });
+    await writeFile(`${this.file}.tmp`, JSON.stringify(state, null, 2));
+    await rename(`${this.file}.tmp`, this.file);
+  }
+}
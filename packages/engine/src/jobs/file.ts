@@ -0,0 +1,77 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { TrialJob } from "./index.js";
+import { InMemoryJobStore } from "./memory.js";
+
+/**
+ * File-backed job store — one job-<id>.json file per job, written
+ * atomically (write to .tmp, then rename). Writes to one job are
+ * chained, so a status change saved right after another always lands
+ * last.
+ *
+ * A job that was queued or running when the server stopped can't be
+ * resumed: its in-flight LLM calls are gone. load() marks such jobs
+ * failed so clients polling them get a definite answer; the automation
+ * loop (or the caller) can enqueue the market again.
+ */
+export class FileJobStore extends InMemoryJobStore {
+  private dir: string;
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(dir: string) {
+    super();
+    this.dir = dir;
+  }
+
+  async load(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const files = (await readdir(this.dir)).filter((f) =>
+      /^job-[\w-]+\.json$/.test(f)
+    );
+
+    for (const file of files) {
+      const raw = await readFile(path.join(this.dir, file), "utf-8");
+      const job = reviveJob(JSON.parse(raw) as TrialJob);
+      this.jobs.set(job.id, job);
+
+      if (job.status === "queued" || job.status === "running") {
+        await this.save({
+          ...job,
+          status: "failed",
+          error: "Interrupted by server restart",
+          finishedAt: new Date(),
+        });
+      }
+    }
+  }
+
+  protected persist(id: string): Promise<void> {
+    const previous = this.writes.get(id) ?? Promise.resolve();
+    const write = previous.catch(() => {}).then(() => this.write(id));
+    this.writes.set(id, write);
+    return write;
+  }
+
+  private async write(id: string): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const target = path.join(this.dir, `job-${id}.json`);
+    const tmp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(tmp, JSON.stringify(this.jobs.get(id), null, 2));
+    await rename(tmp, target);
+  }
+}
+
+/* JSON has no Date type — turn the ISO strings back into Dates */
+function reviveJob(job: TrialJob): TrialJob {
+  const date = (value: Date | null) => (value ? new Date(value) : null);
+
+  return {
+    ...job,
+    createdAt: new Date(job.createdAt),
+    startedAt: date(job.startedAt),
+    finishedAt: date(job.finishedAt),
+  };
+}
@@ -0,0 +1,63 @@
+import type { TrialStage } from "../types.js";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/** What a trial job was asked to do — the body of POST /api/trial. */
+export interface TrialJobRequest {
+  marketId: number;
+  question: string;
+  rubricHash?: string;
+  /** Appeal retrial of an escalated market — stricter threshold, appeal judge panel */
+  appeal?: boolean;
+  /** Named outcomes — set for a categorical market, which is tried with runCategoricalTrial */
+  outcomes?: string[];
+}
+
+/** Latest progress event seen for a running job. */
+export interface JobProgress {
+  stage: TrialStage;
+  message: string;
+  elapsedMs: number;
+}
+
+/**
+ * One queued trial and everything known about it.
+ *
+ * A job moves queued → running → succeeded | failed and never goes
+ * back. On success, trial is the number of the TranscriptRecord it
+ * produced, so the transcript itself is read from the transcript store
+ * rather than duplicated here.
+ */
+export interface TrialJob {
+  id: string;
+  request: TrialJobRequest;
+  status: JobStatus;
+  progress: JobProgress | null;
+  error: string | null;
+  trial: number | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+/**
+ * Storage abstraction for job records, shaped like TranscriptRepository:
+ * reads come from memory, writes go through persist().
+ */
+export interface JobStore {
+  /** Load previously persisted jobs. Called once at server start. */
+  load(): Promise<void>;
+
+  /** Insert or replace a job record. */
+  save(job: TrialJob): Promise<void>;
+
+  get(id: string): Promise<TrialJob | null>;
+
+  /** Every job, oldest first. */
+  list(): Promise<TrialJob[]>;
+}
+
+export { InMemoryJobStore } from "./memory.js";
+export { FileJobStore } from "./file.js";
+export { TrialJobQueue } from "./queue.js";
+export type { TrialJobRunner } from "./queue.js";
@@ -0,0 +1,35 @@
+import type { JobStore, TrialJob } from "./index.js";
+
+/**
+ * In-memory job store. Used directly in tests and as the base for
+ * persistent implementations, which only need to override persist()
+ * and load().
+ */
+export class InMemoryJobStore implements JobStore {
+  protected jobs = new Map<string, TrialJob>();
+
+  async load(): Promise<void> {
+    // Nothing to load — memory starts empty
+  }
+
+  async save(job: TrialJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+    await this.persist(job.id);
+  }
+
+  async get(id: string): Promise<TrialJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async list(): Promise<TrialJob[]> {
+    return [...this.jobs.values()]
+      .map((job) => ({ ...job }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /** Hook for subclasses — write one job to durable storage. */
+  protected async persist(_id: string): Promise<void> {
+    // Memory-only
+  }
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from "node:crypto";
+import type { JobProgress, JobStore, TrialJob, TrialJobRequest } from "./index.js";
+
+/**
+ * Runs one job to completion and returns the number of the transcript
+ * record it stored. Throwing fails the job with the error's message.
+ * onProgress may be called any number of times while the job runs.
+ */
+export type TrialJobRunner = (
+  job: TrialJob,
+  onProgress: (progress: JobProgress) => void
+) => Promise<number>;
+
+/**
+ * In-process trial job queue.
+ *
+ * Jobs run in FIFO order, at most `concurrency` at a time. A market has
+ * at most one active (queued or running) job: enqueueing a market that
+ * already has one returns the existing job instead of starting a second
+ * trial, which is what keeps the HTTP trigger and the automation loop
+ * from trying the same market twice.
+ *
+ * Every state transition is saved to the JobStore. Progress updates are
+ * kept in memory only — they change several times a second during a
+ * trial and are worthless after a restart.
+ */
+export class TrialJobQueue {
+  private pending: TrialJob[] = [];
+  private active = new Map<number, TrialJob>();
+  private running = 0;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(
+    private store: JobStore,
+    private runner: TrialJobRunner,
+    private concurrency = 1
+  ) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`concurrency must be a positive integer, got ${concurrency}`);
+    }
+  }
+
+  /** Queue a trial. `created` is false when the market already had an active job. */
+  async enqueue(request: TrialJobRequest): Promise<{ job: TrialJob; created: boolean }> {
+    const existing = this.active.get(request.marketId);
+    if (existing) {
+      return { job: { ...existing }, created: false };
+    }
+
+    const job: TrialJob = {
+      id: randomUUID(),
+      request,
+      status: "queued",
+      progress: null,
+      error: null,
+      trial: null,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    this.active.set(request.marketId, job);
+    this.pending.push(job);
+    await this.store.save(job);
+    this.drain();
+
+    return { job: { ...job }, created: true };
+  }
+
+  /** Current state of a job, including live progress while it runs. */
+  async get(id: string): Promise<TrialJob | null> {
+    for (const job of this.active.values()) {
+      if (job.id === id) return { ...job };
+    }
+    return this.store.get(id);
+  }
+
+  /** The market's queued or running job, if any. */
+  activeJob(marketId: number): TrialJob | null {
+    const job = this.active.get(marketId);
+    return job ? { ...job } : null;
+  }
+
+  /** Resolves once nothing is queued or running. */
+  idle(): Promise<void> {
+    if (this.running === 0 && this.pending.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.running++;
+      void this.execute(job).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+
+    if (this.running === 0 && this.pending.length === 0) {
+      for (const resolve of this.idleWaiters.splice(0)) resolve();
+    }
+  }
+
+  private async execute(job: TrialJob): Promise<void> {
+    try {
+      job.status = "running";
+      job.startedAt = new Date();
+      await this.store.save(job);
+
+      job.trial = await this.runner({ ...job }, (progress) => {
+        job.progress = progress;
+      });
+      job.status = "succeeded";
+    } catch (error) {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : String(error);
+    }
+
+    job.finishedAt = new Date();
+    try {
+      await this.store.save(job);
+    } catch (error) {
+      console.error(`  [JOBS] Could not save job ${job.id}: ${(error as Error).message}`);
+    } finally {
+      this.active.delete(job.request.marketId);
+    }
+  }
+}
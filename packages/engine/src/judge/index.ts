@@ -2,11 +2,34 @@ import type {
   MarketQuestion,
   EvidenceBundle,
   AdvocateArgument,
+  DebateRound,
   JudgeRuling,
+  CategoricalRuling,
+  OutcomeArgument,
 } from "../types.js";
-import { JudgeRulingSchema } from "../types.js";
+import { JudgeRulingSchema, categoricalRulingSchema } from "../types.js";
 import type { LLMClient } from "../llm/index.js";
-import { buildJudgeSystemPrompt, buildJudgeUserPrompt } from "./prompts.js";
+import { callStructured } from "../llm/structured.js";
+import type { StructuredOutputOptions } from "../llm/structured.js";
+import { builtinPrompts, promptVersion } from "../prompts/index.js";
+import type { PromptTemplate } from "../prompts/index.js";
+import {
+  buildJudgeSystemPrompt,
+  buildJudgeUserPrompt,
+  buildCategoricalJudgeSystemPrompt,
+  buildCategoricalJudgeUserPrompt,
+} from "./prompts.js";
+
+/** Optional inputs to runJudge; every field has a default. */
+export interface JudgeOptions {
+  /* Every round of a multi-round debate, for the judge to read in full */
+  debateRounds?: DebateRound[];
+  output?: StructuredOutputOptions;
+  /* Names the call in the transcript's llmCalls, e.g. "Judge 2/3" (default "Judge") */
+  label?: string;
+  /* A "judge" template other than the latest */
+  prompt?: PromptTemplate;
+}
 
 /**
  * Runs the judge — the third and final LLM call in the trial.
@@ -17,8 +40,9 @@ import { buildJudgeSystemPrompt, buildJudgeUserPrompt } from "./prompts.js";
  * 1. Build system prompt (neutral adjudicator instructions)
  * 2. Build user prompt (question + rubric + evidence + both arguments)
  * 3. Call the LLM (ideally a different model than either advocate)
- * 4. Parse and validate the JSON response with Zod
- * 5. Attach the model name for the audit trail
+ * 4. Parse and validate the JSON response with Zod, re-prompting
+ *    on malformed output (see callStructured)
+ * 5. Attach the model name and prompt version for the audit trail
  *
  * The judge's response includes:
  * - Per-criterion scores for both sides
@@ -29,44 +53,83 @@ import { buildJudgeSystemPrompt, buildJudgeUserPrompt } from "./prompts.js";
  * The hallucination list is consumed by the confidence checker —
  * if any hallucinations are detected, the market gets escalated
  * rather than auto-resolved, adding a safety layer.
+ *
+ * For multi-round debates, pass options.debateRounds so the judge
+ * reads the full exchange; advocateYes/advocateNo are then the final
+ * round.
  */
 export async function runJudge(
   question: MarketQuestion,
   evidence: EvidenceBundle,
   advocateYes: AdvocateArgument,
   advocateNo: AdvocateArgument,
-  llmClient: LLMClient
+  llmClient: LLMClient,
+  options: JudgeOptions = {}
 ): Promise<JudgeRuling> {
-  const systemPrompt = buildJudgeSystemPrompt();
+  const { debateRounds, output, label = "Judge", prompt = builtinPrompts().get("judge") } = options;
+
+  const systemPrompt = buildJudgeSystemPrompt(prompt);
   const userPrompt = buildJudgeUserPrompt(
     question,
     evidence,
     advocateYes,
-    advocateNo
+    advocateNo,
+    debateRounds
   );
 
-  const response = await llmClient.call({
-    systemPrompt,
-    userPrompt,
-    maxTokens: 4096,
-    temperature: 0.2, // Lower temp for the judge = more deterministic scoring
-  });
+  const { value: validated, response } = await callStructured(
+    label,
+    llmClient,
+    {
+      systemPrompt,
+      userPrompt,
+      maxTokens: 4096,
+      temperature: 0.2, // Lower temp for the judge = more deterministic scoring
+    },
+    JudgeRulingSchema,
+    output
+  );
+
+  return {
+    ...validated,
+    model: response.model,
+    prompt: promptVersion(prompt),
+  };
+}
 
-  // Parse the raw JSON
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(response.content);
-  } catch {
-    throw new Error(
-      `Judge returned invalid JSON: ${response.content.slice(0, 200)}`
-    );
-  }
+/**
+ * Runs the judge of a categorical market over every outcome advocate's
+ * argument. Same flow as runJudge; the ruling is validated against
+ * the market's own outcomes (see categoricalRulingSchema).
+ * options.prompt selects a "categorical-judge" template other than
+ * the latest.
+ */
+export async function runCategoricalJudge(
+  question: MarketQuestion,
+  evidence: EvidenceBundle,
+  advocates: OutcomeArgument[],
+  llmClient: LLMClient,
+  options: Pick<JudgeOptions, "output" | "prompt"> = {}
+): Promise<CategoricalRuling> {
+  const { output, prompt = builtinPrompts().get("categorical-judge") } = options;
+  const outcomes = question.outcomes ?? [];
 
-  // Validate against our schema
-  const validated = JudgeRulingSchema.parse(parsed);
+  const { value: validated, response } = await callStructured(
+    "Judge",
+    llmClient,
+    {
+      systemPrompt: buildCategoricalJudgeSystemPrompt(outcomes, prompt),
+      userPrompt: buildCategoricalJudgeUserPrompt(question, evidence, advocates),
+      maxTokens: 4096,
+      temperature: 0.2,
+    },
+    categoricalRulingSchema(outcomes),
+    output
+  );
 
   return {
     ...validated,
     model: response.model,
+    prompt: promptVersion(prompt),
   };
 }
@@ -0,0 +1,147 @@
+import type {
+  MarketQuestion,
+  EvidenceBundle,
+  AdvocateArgument,
+  JudgeRuling,
+  CriterionScore,
+  JudgePanelResult,
+  PanelAggregation,
+} from "../types.js";
+import type { LLMClient } from "../llm/index.js";
+import { runJudge } from "./index.js";
+import type { JudgeOptions } from "./index.js";
+
+/**
+ * Optional inputs to runJudgePanel: runJudge's options for every judge
+ * (each is labeled by its seat), plus how their scores are combined.
+ */
+export interface JudgePanelOptions extends Omit<JudgeOptions, "label"> {
+  aggregation?: PanelAggregation; // default "median"
+}
+
+/**
+ * Runs a panel of independent judges and combines their rulings.
+ *
+ * A single judge means a single model's bias (or a single bad sample)
+ * decides the market. With a panel, each judge scores the same debate
+ * without seeing the others, and the composite is built from robust
+ * statistics so one outlier can't swing the result:
+ *
+ * - Per-criterion and aggregate scores → median or trimmed mean
+ * - Hallucination lists → union (any judge's catch counts)
+ * - Final verdict → whichever side has the higher composite score, or
+ *   INVALID if every judge ruled the question invalid
+ *
+ * All judges run in parallel. If any judge fails, the panel fails —
+ * silently dropping a judge would change the panel's composition.
+ */
+export async function runJudgePanel(
+  question: MarketQuestion,
+  evidence: EvidenceBundle,
+  advocateYes: AdvocateArgument,
+  advocateNo: AdvocateArgument,
+  judgeClients: LLMClient[],
+  options: JudgePanelOptions = {}
+): Promise<{ ruling: JudgeRuling; panel: JudgePanelResult }> {
+  if (judgeClients.length === 0) {
+    throw new Error("Judge panel needs at least one judge");
+  }
+
+  const { aggregation = "median", ...judgeOptions } = options;
+  const rulings = await Promise.all(
+    judgeClients.map((client, i) =>
+      runJudge(question, evidence, advocateYes, advocateNo, client, {
+        ...judgeOptions,
+        label: `Judge ${i + 1}/${judgeClients.length}`,
+      })
+    )
+  );
+
+  return {
+    ruling: aggregateRulings(rulings, aggregation),
+    panel: {
+      aggregation,
+      rulings,
+      verdictsAgree: rulings.every(
+        (r) => r.finalVerdict === rulings[0].finalVerdict
+      ),
+    },
+  };
+}
+
+/**
+ * Combines independent judge rulings into one composite ruling.
+ *
+ * Pure function — exported for testing. Criteria are matched by name;
+ * a criterion only some judges scored is aggregated over those judges.
+ * The composite keeps the judges' prompt version when they all share it.
+ */
+export function aggregateRulings(
+  rulings: JudgeRuling[],
+  aggregation: PanelAggregation
+): JudgeRuling {
+  const combine = aggregation === "median" ? median : trimmedMean;
+
+  const criterionNames = [
+    ...new Set(rulings.flatMap((r) => r.criterionScores.map((c) => c.criterion))),
+  ];
+
+  const criterionScores: CriterionScore[] = criterionNames.map((name) => {
+    const scores = rulings
+      .map((r) => ({ model: r.model, score: r.criterionScores.find((c) => c.criterion === name) }))
+      .filter((s): s is { model: string; score: CriterionScore } => s.score !== undefined);
+
+    return {
+      criterion: name,
+      scoreYes: round(combine(scores.map((s) => s.score.scoreYes))),
+      scoreNo: round(combine(scores.map((s) => s.score.scoreNo))),
+      reasoning: scores
+        .map((s, i) => `Judge ${i + 1} (${s.model}): ${s.score.reasoning}`)
+        .join(" | "),
+    };
+  });
+
+  const scoreYes = round(combine(rulings.map((r) => r.scoreYes)));
+  const scoreNo = round(combine(rulings.map((r) => r.scoreNo)));
+
+  return {
+    /* INVALID needs every judge; a partial INVALID is a split panel */
+    finalVerdict: rulings.every((r) => r.finalVerdict === "INVALID")
+      ? "INVALID"
+      : scoreYes >= scoreNo
+        ? "YES"
+        : "NO",
+    scoreYes,
+    scoreNo,
+    criterionScores,
+    rulingText: rulings
+      .map((r, i) => `Judge ${i + 1} (${r.model}, ${r.finalVerdict}): ${r.rulingText}`)
+      .join("\n\n"),
+    hallucinationsDetected: [
+      ...new Set(rulings.flatMap((r) => r.hallucinationsDetected)),
+    ],
+    model: `panel(${aggregation}): ${rulings.map((r) => r.model).join(", ")}`,
+    ...(rulings.every((r) => r.prompt && r.prompt.hash === rulings[0].prompt?.hash) && {
+      prompt: rulings[0].prompt,
+    }),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1] + sorted[mid]) / 2
+    : sorted[mid];
+}
+
+function trimmedMean(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const kept = sorted.length >= 3 ? sorted.slice(1, -1) : sorted;
+  return kept.reduce((sum, v) => sum + v, 0) / kept.length;
+}
+
+/* Keep composite scores to one decimal so transcripts stay readable */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
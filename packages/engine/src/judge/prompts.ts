@@ -2,7 +2,11 @@ import type {
   MarketQuestion,
   EvidenceBundle,
   AdvocateArgument,
+  DebateRound,
+  OutcomeArgument,
 } from "../types.js";
+import { builtinPrompts, renderPrompt } from "../prompts/index.js";
+import type { PromptTemplate } from "../prompts/index.js";
 
 /**
  * Builds the system prompt for the judge.
@@ -15,41 +19,14 @@ import type {
  * The hallucination detection instruction is key — it makes the
  * judge cross-reference every advocate citation against the actual
  * evidence bundle, catching fabricated references.
+ *
+ * The text is the "judge" template from the prompt registry (see
+ * prompts/index.ts) — the latest built-in version unless one is given.
  */
-export function buildJudgeSystemPrompt(): string {
-  return `You are a neutral adjudicator in a structured adversarial debate protocol. Two advocates have argued opposing positions on a question, citing evidence from a shared evidence bundle.
-
-YOUR TASK:
-1. Score each advocate's arguments against every rubric criterion (0-100 per side per criterion).
-2. Determine which advocate's overall case is stronger based on evidence quality and logical coherence.
-3. HALLUCINATION CHECK: For each evidence citation made by either advocate, verify it exists in the evidence bundle. List any citations that reference evidence NOT present in the bundle.
-4. Write a concise ruling explaining your verdict.
-
-SCORING GUIDELINES:
-- Score arguments SOLELY on evidence quality and rubric alignment, not on your own beliefs about the question.
-- A higher score means the argument is better supported by evidence from the bundle.
-- Weighted aggregate: multiply each criterion score by its weight, sum, and divide by total weight.
-- If hallucinations are detected, note them but still score the valid portions of the argument.
-
-OUTPUT FORMAT:
-Respond with a single JSON object matching this exact schema:
-{
-  "finalVerdict": "YES" | "NO",
-  "scoreYes": <weighted aggregate 0-100>,
-  "scoreNo": <weighted aggregate 0-100>,
-  "criterionScores": [
-    {
-      "criterion": "<criterion name>",
-      "scoreYes": <0-100>,
-      "scoreNo": <0-100>,
-      "reasoning": "<why these scores>"
-    }
-  ],
-  "rulingText": "<2-4 sentence explanation of the verdict>",
-  "hallucinationsDetected": ["<citation not found in evidence bundle>", ...]
-}
-
-IMPORTANT: Return ONLY valid JSON. No markdown, no explanation, no preamble.`;
+export function buildJudgeSystemPrompt(
+  template: PromptTemplate = builtinPrompts().get("judge")
+): string {
+  return renderPrompt(template);
 }
 
 /**
@@ -60,12 +37,17 @@ IMPORTANT: Return ONLY valid JSON. No markdown, no explanation, no preamble.`;
  *
  * The evidence bundle is included so the judge can verify citations.
  * Both arguments are labeled clearly so the judge can distinguish them.
+ *
+ * For multi-round debates the judge sees the whole exchange round by
+ * round, so it can tell which rebuttals actually landed. The final
+ * round is each side's closing position.
  */
 export function buildJudgeUserPrompt(
   question: MarketQuestion,
   evidence: EvidenceBundle,
   advocateYes: AdvocateArgument,
-  advocateNo: AdvocateArgument
+  advocateNo: AdvocateArgument,
+  debateRounds?: DebateRound[]
 ): string {
   const rubricSection = question.rubric.criteria
     .map(
@@ -111,6 +93,38 @@ Identified weaknesses in opposing case:
 ${weaknesses}`;
   };
 
+  const argumentsSection =
+    debateRounds && debateRounds.length > 1
+      ? debateRounds
+          .map((r) => {
+            const label =
+              r.round === 1
+                ? "OPENING"
+                : r.round === debateRounds.length
+                  ? "FINAL REBUTTAL"
+                  : "REBUTTAL";
+            return `========================================
+ROUND ${r.round} of ${debateRounds.length} (${label}) — ADVOCATE YES:
+${formatArgument(r.yes)}
+
+========================================
+ROUND ${r.round} of ${debateRounds.length} (${label}) — ADVOCATE NO:
+${formatArgument(r.no)}`;
+          })
+          .join("\n\n")
+      : `========================================
+ADVOCATE YES ARGUMENT:
+${formatArgument(advocateYes)}
+
+========================================
+ADVOCATE NO ARGUMENT:
+${formatArgument(advocateNo)}`;
+
+  const closingInstruction =
+    debateRounds && debateRounds.length > 1
+      ? "Score each side's final-round position against every rubric criterion, taking into account which rebuttals held up across the exchange. Flag any citations (from any round) not found in the evidence bundle titles above. Return your verdict as JSON."
+      : "Score both arguments against every rubric criterion. Flag any citations not found in the evidence bundle titles above. Return your verdict as JSON.";
+
   return `MARKET QUESTION:
 ${question.question}
 
@@ -123,14 +137,100 @@ ${evidenceTitles}
 EVIDENCE BUNDLE — FULL CONTENT:
 ${evidenceDetails}
 
-========================================
-ADVOCATE YES ARGUMENT:
-${formatArgument(advocateYes)}
+${argumentsSection}
 
 ========================================
-ADVOCATE NO ARGUMENT:
-${formatArgument(advocateNo)}
+${closingInstruction}`;
+}
+
+/**
+ * Builds the system prompt for the judge of a categorical market.
+ *
+ * The binary judge scores two sides; this one scores every outcome
+ * against every criterion, one advocate per outcome. The anti-bias,
+ * hallucination and validity instructions are the same. Outcomes are
+ * spelled out so the judge returns them verbatim — the ruling schema
+ * rejects any label that isn't one of them.
+ *
+ * The text is the "categorical-judge" template from the prompt registry.
+ */
+export function buildCategoricalJudgeSystemPrompt(
+  outcomes: string[],
+  template: PromptTemplate = builtinPrompts().get("categorical-judge")
+): string {
+  const labels = outcomes.map((o) => `"${o}"`);
+
+  return renderPrompt(template, {
+    outcomeCount: String(outcomes.length),
+    outcomes: labels.join(", "),
+    outcomeChoices: labels.join(" | "),
+  });
+}
+
+/**
+ * Builds the user prompt for the judge of a categorical market: the
+ * question, rubric, evidence bundle and every outcome advocate's
+ * argument, labeled by outcome.
+ */
+export function buildCategoricalJudgeUserPrompt(
+  question: MarketQuestion,
+  evidence: EvidenceBundle,
+  advocates: OutcomeArgument[]
+): string {
+  const rubricSection = question.rubric.criteria
+    .map((c) => `- ${c.name} (weight: ${c.weight}/100): ${c.description}`)
+    .join("\n");
+
+  const evidenceTitles = evidence.items
+    .map((item, i) => `  ${i + 1}. [${item.source}] ${item.title}`)
+    .join("\n");
+
+  const evidenceDetails = evidence.items
+    .map(
+      (item, i) =>
+        `--- Evidence Item ${i + 1} ---
+Title: ${item.title}
+Source: ${item.source}
+Content: ${item.content}`
+    )
+    .join("\n\n");
+
+  const argumentsSection = advocates
+    .map((arg) => {
+      const claims = arg.arguments
+        .map(
+          (a) =>
+            `  Criterion: ${a.criterion}
+  Claim: ${a.claim}
+  Citations: ${a.evidenceCitations.join(", ")}
+  Self-assessed strength: ${a.strength}/100`
+        )
+        .join("\n\n");
+      const weaknesses = arg.weaknessesInOpposingCase.map((w) => `  - ${w}`).join("\n");
+
+      return `========================================
+ADVOCATE FOR "${arg.outcome}" (confidence ${arg.confidence}/100):
+Arguments:
+${claims}
+Identified weaknesses in the other outcomes' cases:
+${weaknesses}`;
+    })
+    .join("\n\n");
+
+  return `MARKET QUESTION:
+${question.question}
+
+RESOLUTION RUBRIC:
+${rubricSection}
+
+EVIDENCE BUNDLE — TITLES (use for hallucination checking):
+${evidenceTitles}
+
+EVIDENCE BUNDLE — FULL CONTENT:
+${evidenceDetails}
+
+${argumentsSection}
 
 ========================================
-Score both arguments against every rubric criterion. Flag any citations not found in the evidence bundle titles above. Return your verdict as JSON.`;
+Score every outcome against every rubric criterion. Flag any citations not found in the evidence bundle titles above. Return your verdict as JSON.`;
 }
@@ -0,0 +1,192 @@
+import type { LintIssue, QuestionLintInput } from "./index.js";
+
+/**
+ * Deterministic question checks — cheap, instant and free, so they run
+ * on every lint even when no LLM is available. They are deliberately
+ * conservative pattern matches: they catch the common ways a question
+ * goes wrong, and the LLM reviewer refines them.
+ */
+
+/**
+ * What the dynamic evidence router can reach (see the known APIs in
+ * evidence/sources/dynamic.ts). A question that mentions none of these
+ * topics likely has nothing for the advocates to cite.
+ */
+export const EVIDENCE_TOPICS: { name: string; description: string; keywords: string[] }[] = [
+  {
+    name: "crypto",
+    description: "coin prices, market caps and price history (CoinGecko)",
+    keywords: ["bitcoin", "btc", "ethereum", "eth", "ether", "solana", "crypto", "token", "coin", "stablecoin", "market cap"],
+  },
+  {
+    name: "defi",
+    description: "protocol TVL, pool yields and staking rates (DeFiLlama)",
+    keywords: ["defi", "tvl", "yield", "apy", "apr", "staking", "protocol", "lido", "aave", "uniswap", "liquidity"],
+  },
+  {
+    name: "economics",
+    description: "US Treasury average interest rates (Treasury Fiscal Data)",
+    keywords: ["treasury", "t-bill", "bond", "interest rate", "rates", "inflation", "fed", "federal reserve"],
+  },
+  {
+    name: "fx",
+    description: "currency exchange rates (open.er-api.com)",
+    keywords: ["exchange rate", "usd", "eur", "gbp", "jpy", "currency", "dollar", "euro"],
+  },
+  {
+    name: "weather",
+    description: "daily temperature forecasts and history (Open-Meteo)",
+    keywords: ["weather", "temperature", "rain", "snow", "heatwave", "degrees"],
+  },
+  {
+    name: "sports",
+    description: "NBA games and seasons (balldontlie)",
+    keywords: ["nba", "basketball", "game", "match", "season", "playoffs", "championship", "finals"],
+  },
+  {
+    name: "countries",
+    description: "country facts such as population and capital (REST Countries)",
+    keywords: ["country", "population", "capital", "gdp"],
+  },
+  {
+    name: "technology",
+    description: "GitHub repositories and stars (GitHub search)",
+    keywords: ["github", "repository", "repo", "stars", "open source", "open-source"],
+  },
+];
+
+/* Timing that can't be pinned to a date */
+const VAGUE_TIME_PHRASES = [
+  "soon",
+  "eventually",
+  "someday",
+  "at some point",
+  "in the future",
+  "in the near future",
+  "in the long term",
+  "in the long run",
+  "long-term",
+  "recently",
+  "lately",
+  "any time",
+  "anytime",
+];
+
+/*
+ * An explicit time anchor: a year, a full date, a quarter, a month
+ * name or a relative period. "May" and "March" only count next to a
+ * number or a preposition, since both are also common words.
+ */
+const TIME_ANCHOR =
+  /\b(19|20)\d{2}\b|\b\d{4}-\d{2}-\d{2}\b|\bq[1-4]\b|\b(jan(uary)?|feb(ruary)?|apr(il)?|june?|july?|aug(ust)?|sept?(ember)?|oct(ober)?|nov(ember)?|dec(ember)?)\b|\b(may|march)\s+\d|\b(in|by|during|before|after|until|end of) (may|march)\b|\b(today|tomorrow|this (week|month|quarter|year)|next (week|month|quarter|year)|the deadline|\d+ (days?|weeks?|months?|years?))\b/i;
+
+/* Years and dates — stripped before looking for numeric thresholds */
+const DATES = /\b(19|20)\d{2}\b|\b\d{4}-\d{2}-\d{2}\b/g;
+
+/* Something objective decides the answer: a number, a comparison or a discrete event */
+const MEASURABLE =
+  /\d|%|\$|\b(above|below|over|under|more than|less than|at least|at most|higher than|lower than|greater than|fewer than|exceeds?|exceeded|surpass(es|ed)?|reach(es|ed)?|wins?|won|loses?|lost|beats?|announces?|announced|launch(es|ed)?|approves?|approved|pass(es|ed)?|elected|releases?|released)\b/i;
+
+/* Subjective words whose reading decides the outcome */
+const UNDEFINED_TERMS = [
+  "consistently",
+  "significantly",
+  "substantially",
+  "meaningfully",
+  "considerably",
+  "sustained",
+  "major",
+  "massive",
+  "successful",
+  "successfully",
+  "popular",
+  "widely",
+  "mainstream",
+  "dominant",
+  "strong",
+  "strongly",
+  "good",
+  "better",
+  "rapidly",
+  "largely",
+  "mostly",
+];
+
+/* Score cost of each heuristic finding */
+const ERROR_PENALTY = 25;
+const WARNING_PENALTY = 10;
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return new RegExp(`\\b${phrase.replace(/[-\s]/g, "[-\\s]")}\\b`, "i").test(text);
+}
+
+/**
+ * Runs every heuristic check on a draft question.
+ */
+export function lintQuestionHeuristics(input: QuestionLintInput): LintIssue[] {
+  const text = input.question;
+  const issues: LintIssue[] = [];
+
+  const vague = VAGUE_TIME_PHRASES.find((phrase) => containsPhrase(text, phrase));
+  if (vague) {
+    issues.push({
+      kind: "vague-time-window",
+      severity: "error",
+      source: "heuristic",
+      message: `"${vague}" can't be pinned to a date — name the period the question covers.`,
+      excerpt: vague,
+    });
+  } else if (!TIME_ANCHOR.test(text)) {
+    issues.push({
+      kind: "vague-time-window",
+      severity: "warning",
+      source: "heuristic",
+      message: "The question names no period or date — say when the outcome is measured.",
+    });
+  }
+
+  if (!MEASURABLE.test(text.replace(DATES, ""))) {
+    issues.push({
+      kind: "missing-resolution-criteria",
+      severity: "warning",
+      source: "heuristic",
+      message: "Nothing objective decides YES vs NO — add a threshold, event or measurable comparison.",
+    });
+  }
+
+  for (const term of UNDEFINED_TERMS) {
+    if (containsPhrase(text, term)) {
+      issues.push({
+        kind: "undefined-term",
+        severity: "warning",
+        source: "heuristic",
+        message: `"${term}" has no agreed definition — state what counts.`,
+        excerpt: term,
+      });
+    }
+  }
+
+  const covered = EVIDENCE_TOPICS.some((topic) => topic.keywords.some((k) => containsPhrase(text, k)));
+  if (!covered) {
+    issues.push({
+      kind: "no-evidence-source",
+      severity: "warning",
+      source: "heuristic",
+      message: "None of the engine's evidence sources obviously covers this question — advocates may have nothing to cite.",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Resolvability score implied by heuristic findings alone: 100 minus
+ * a fixed penalty per error and per warning, floored at 0.
+ */
+export function heuristicScore(issues: LintIssue[]): number {
+  const penalty = issues.reduce(
+    (sum, issue) => sum + (issue.severity === "error" ? ERROR_PENALTY : WARNING_PENALTY),
+    0
+  );
+  return Math.max(0, 100 - penalty);
+}
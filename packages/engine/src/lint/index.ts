@@ -0,0 +1,146 @@
+import { z } from "zod";
+import type { LLMClient } from "../llm/index.js";
+import { callStructured } from "../llm/structured.js";
+import type { StructuredOutputOptions } from "../llm/structured.js";
+import { heuristicScore, lintQuestionHeuristics } from "./heuristics.js";
+import { buildQuestionReviewSystemPrompt, buildQuestionReviewUserPrompt } from "./prompts.js";
+
+/**
+ * Question linting — a pre-screen run before a market is created.
+ *
+ * Nothing onchain checks that a question can actually be resolved, so a
+ * creator can pay the deposit for "Will ETH do well soon?" and every
+ * staker finds out at trial time, when the judge escalates. The linter
+ * catches that up front:
+ *
+ * 1. Heuristics (always) — vague time windows, missing resolution
+ *    criteria, undefined subjective terms, and topics none of the
+ *    evidence sources cover.
+ * 2. LLM review (when a client is given) — confirms and refines those
+ *    findings, scores resolvability and suggests rewrites.
+ *
+ * The result is advisory: the frontend shows it before submitting, but
+ * nothing stops a creator from going ahead.
+ */
+
+export const LINT_ISSUE_KINDS = [
+  "vague-time-window",
+  "missing-resolution-criteria",
+  "undefined-term",
+  "no-evidence-source",
+] as const;
+
+export type LintIssueKind = (typeof LINT_ISSUE_KINDS)[number];
+
+export interface LintIssue {
+  kind: LintIssueKind;
+  severity: "error" | "warning"; // error: unresolvable as written; warning: invites disputes
+  source: "heuristic" | "llm";
+  message: string;
+  excerpt?: string; // the offending words, e.g. "consistently"
+}
+
+export interface QuestionLintInput {
+  question: string;
+  deadline?: Date;
+}
+
+export interface QuestionLintResult {
+  question: string;
+  resolvabilityScore: number; // 0-100; below 50 shouldn't be created as written
+  issues: LintIssue[];
+  suggestedRewrites: string[]; // LLM review only — empty without one
+  model: string | null; // null when the LLM review didn't run
+}
+
+/** The JSON the LLM reviewer must return. */
+export const QuestionReviewSchema = z.object({
+  resolvabilityScore: z.number().min(0).max(100),
+  issues: z.array(
+    z.object({
+      kind: z.enum(LINT_ISSUE_KINDS),
+      severity: z.enum(["error", "warning"]),
+      message: z.string().min(1),
+      excerpt: z.string().optional(),
+    })
+  ),
+  suggestedRewrites: z.array(z.string().min(1)).max(3),
+  evidenceAvailable: z.boolean(),
+});
+
+/**
+ * Lints a draft market question.
+ *
+ * The score is the lower of the heuristic and LLM scores — a question
+ * is only as resolvable as its weakest check says. LLM issues that
+ * repeat a heuristic finding (same kind and excerpt) are dropped. If
+ * the reviewer says no evidence is available, that's reported as an
+ * error even when the heuristics found a matching topic.
+ *
+ * A failed LLM review doesn't fail the lint: the heuristic result is
+ * returned with model null.
+ */
+export async function lintQuestion(
+  input: QuestionLintInput,
+  llmClient?: LLMClient,
+  output?: StructuredOutputOptions
+): Promise<QuestionLintResult> {
+  const question = input.question.trim();
+  if (!question) {
+    throw new Error("Question must not be empty");
+  }
+
+  const issues = lintQuestionHeuristics({ ...input, question });
+  const result: QuestionLintResult = {
+    question,
+    resolvabilityScore: heuristicScore(issues),
+    issues,
+    suggestedRewrites: [],
+    model: null,
+  };
+  if (!llmClient) return result;
+
+  try {
+    const { value: review, response } = await callStructured(
+      "Question reviewer",
+      llmClient,
+      {
+        systemPrompt: buildQuestionReviewSystemPrompt(),
+        userPrompt: buildQuestionReviewUserPrompt({ ...input, question }, issues),
+        maxTokens: 1024,
+        temperature: 0.2,
+      },
+      QuestionReviewSchema,
+      output
+    );
+
+    const key = (i: { kind: string; excerpt?: string }) => `${i.kind}:${i.excerpt?.toLowerCase() ?? ""}`;
+    const seen = new Set(issues.map(key));
+    for (const issue of review.issues) {
+      if (seen.has(key(issue))) continue;
+      seen.add(key(issue));
+      issues.push({ ...issue, source: "llm" });
+    }
+    if (!review.evidenceAvailable && !issues.some((i) => i.kind === "no-evidence-source" && i.severity === "error")) {
+      issues.push({
+        kind: "no-evidence-source",
+        severity: "error",
+        source: "llm",
+        message: "The reviewer found no public data the engine can fetch that would settle this question.",
+      });
+    }
+
+    return {
+      question,
+      resolvabilityScore: Math.min(result.resolvabilityScore, review.resolvabilityScore),
+      issues,
+      suggestedRewrites: review.suggestedRewrites,
+      model: response.model,
+    };
+  } catch (err) {
+    console.warn(`[lint] LLM review failed, returning heuristics only: ${err}`);
+    return result;
+  }
+}
+
+export { EVIDENCE_TOPICS, heuristicScore, lintQuestionHeuristics } from "./heuristics.js";
@@ -0,0 +1,74 @@
+import type { LintIssue, QuestionLintInput } from "./index.js";
+import { EVIDENCE_TOPICS } from "./heuristics.js";
+
+/**
+ * Builds the system prompt for the question reviewer.
+ *
+ * The reviewer reads a draft market question before anyone pays the
+ * creation deposit and judges whether a trial could ever resolve it:
+ * a clear time window, an objective resolution criterion, defined
+ * terms, and evidence the engine can actually fetch. The list of
+ * evidence topics mirrors what the dynamic evidence router can reach,
+ * so "no evidence" means no evidence for *this* engine.
+ */
+export function buildQuestionReviewSystemPrompt(): string {
+  const topics = EVIDENCE_TOPICS.map((t) => `- ${t.name}: ${t.description}`).join("\n");
+
+  return `You are a question reviewer for a prediction market resolved by an adversarial AI trial. Advocates argue YES and NO from evidence fetched from free public APIs, and a judge scores them against a rubric. A question that can't be resolved wastes everyone's stake.
+
+YOUR TASK:
+Review a draft market question BEFORE it is created and flag anything that would make it unresolvable or disputable:
+1. "vague-time-window" — no explicit period or date, or vague timing ("soon", "recently", "in the long term").
+2. "missing-resolution-criteria" — nothing objective decides YES vs NO (no threshold, event or measurable comparison).
+3. "undefined-term" — subjective words whose meaning decides the outcome ("consistently", "significantly", "major"). Quote the word as the excerpt.
+4. "no-evidence-source" — no public data the engine can fetch would settle the question.
+
+EVIDENCE THE ENGINE CAN FETCH:
+${topics}
+
+SCORING:
+- resolvabilityScore is 0-100: 100 means any two honest reviewers would settle it the same way from the available evidence; below 50 means the market should not be created as written.
+- Use severity "error" for problems that make the question unresolvable, "warning" for ones that invite disputes.
+
+REWRITES:
+Suggest 1-3 rewrites that fix every issue while keeping the question's intent. Each rewrite must name a concrete period, a measurable criterion and a data source the engine can fetch.
+
+OUTPUT FORMAT:
+Respond with a single JSON object matching this exact schema:
+{
+  "resolvabilityScore": <number 0-100>,
+  "issues": [
+    {
+      "kind": "vague-time-window" | "missing-resolution-criteria" | "undefined-term" | "no-evidence-source",
+      "severity": "error" | "warning",
+      "message": "<one sentence explaining the problem>",
+      "excerpt": "<the offending words, if any>"
+    }
+  ],
+  "suggestedRewrites": ["<rewritten question>"],
+  "evidenceAvailable": <true if the engine's sources could settle the question>
+}
+
+Do not include any text outside the JSON object.`;
+}
+
+/**
+ * Builds the user prompt: the draft question, its deadline and the
+ * issues the heuristics already found, so the reviewer confirms or
+ * refines them rather than starting from nothing.
+ */
+export function buildQuestionReviewUserPrompt(input: QuestionLintInput, heuristicIssues: LintIssue[]): string {
+  const deadline = input.deadline ? input.deadline.toISOString() : "not set";
+  const found =
+    heuristicIssues.length > 0
+      ? heuristicIssues.map((i) => `- [${i.severity}] ${i.kind}: ${i.message}`).join("\n")
+      : "- none";
+
+  return `DRAFT QUESTION: "${input.question}"
+SETTLEMENT DEADLINE: ${deadline}
+
+ISSUES FLAGGED BY AUTOMATED CHECKS:
+${found}
+
+Review the question and return your assessment as JSON.`;
+}
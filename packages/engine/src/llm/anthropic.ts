@@ -1,4 +1,5 @@
 import type { LLMClient, LLMRequest, LLMResponse } from "./index.js";
+import { LLMHttpError, parseRetryAfter } from "./errors.js";
 
 /**
  * Anthropic Claude API adapter.
@@ -11,16 +12,20 @@ import type { LLMClient, LLMRequest, LLMResponse } from "./index.js";
  * - System prompt is a top-level field, NOT a message role
  * - Requires "anthropic-version" header for API versioning
  * - Response body nests text inside a content[] array of typed blocks
+ *
+ * A single call, no retries — wrap it with the decorators in
+ * resilient.ts (or build it via createLLMClient) for timeouts,
+ * backoff and failover.
  */
 export class AnthropicClient implements LLMClient {
   private apiKey: string;
   private baseUrl: string;
 
-  constructor() {
+  constructor(options: { apiKey?: string; baseUrl?: string } = {}) {
     // Read key from environment — will be empty string if not set,
     // and we throw a clear error in call() rather than silently failing
-    this.apiKey = process.env.ANTHROPIC_API_KEY || "";
-    this.baseUrl = "https://api.anthropic.com/v1/messages";
+    this.apiKey = options.apiKey ?? (process.env.ANTHROPIC_API_KEY || "");
+    this.baseUrl = options.baseUrl ?? "https://api.anthropic.com/v1/messages";
   }
 
   async call(request: LLMRequest): Promise<LLMResponse> {
@@ -46,12 +51,16 @@ export class AnthropicClient implements LLMClient {
         max_tokens: request.maxTokens || 4096,
         temperature: request.temperature ?? 0.3,
       }),
+      signal: request.signal,
     });
 
     if (!response.ok) {
       const errorBody = await response.text();
-      throw new Error(
-        `Anthropic API error ${response.status}: ${errorBody}`
+      throw new LLMHttpError(
+        "Anthropic",
+        response.status,
+        errorBody,
+        parseRetryAfter(response.headers.get("retry-after"))
       );
     }
 
@@ -67,6 +76,8 @@ export class AnthropicClient implements LLMClient {
       model: data.model || model,
       tokensUsed:
         (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
+      inputTokens: data.usage?.input_tokens || 0,
+      outputTokens: data.usage?.output_tokens || 0,
     };
   }
 }
@@ -0,0 +1,57 @@
+/**
+ * Errors raised by LLM adapters and decorators.
+ *
+ * The resilience decorators (see resilient.ts) decide whether to retry
+ * based on these types, so adapters must throw LLMHttpError for non-2xx
+ * responses rather than a plain Error.
+ */
+
+/** Non-2xx response from a provider API. */
+export class LLMHttpError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly status: number,
+    body: string,
+    /** Parsed Retry-After header, in ms (undefined if absent) */
+    readonly retryAfterMs?: number
+  ) {
+    super(`${provider} API error ${status}: ${body}`);
+    this.name = "LLMHttpError";
+  }
+}
+
+/** The call didn't finish within TimeoutLLMClient's limit. */
+export class LLMTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/** PlaybackLLMClient has no recorded response for this prompt. */
+export class LLMFixtureMissError extends Error {
+  constructor(
+    readonly key: string,
+    readonly fixtureDir: string
+  ) {
+    super(`No LLM fixture ${key} in ${fixtureDir} — record it with RecordingLLMClient first`);
+    this.name = "LLMFixtureMissError";
+  }
+}
+
+/**
+ * Parses a Retry-After header — either delay-seconds ("30") or an
+ * HTTP date. Returns milliseconds to wait, or undefined if absent or
+ * unparseable.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
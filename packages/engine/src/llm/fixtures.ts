@@ -0,0 +1,95 @@
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { LLMClient, LLMRequest, LLMResponse } from "./index.js";
+import { LLMFixtureMissError } from "./errors.js";
+
+/**
+ * Record-and-playback LLM clients, for tests that cover real trials
+ * without network access.
+ *
+ * RecordingLLMClient wraps a real client and writes every
+ * request/response pair to a fixtures directory, one <key>.json file
+ * per prompt. PlaybackLLMClient serves those files back offline. The
+ * key is a hash of the system and user prompt, so a fixture is found
+ * exactly when the pipeline sends the same prompt again — change a
+ * prompt builder and the affected fixtures miss, loudly, until they're
+ * re-recorded.
+ *
+ * Identical prompts share a fixture: a panel of same-provider judges
+ * all replay the ruling recorded last.
+ */
+
+export interface LLMFixture {
+  key: string;
+  request: Omit<LLMRequest, "signal">;
+  response: LLMResponse;
+  recordedAt: string; // ISO timestamp
+}
+
+/** sha256 of the system and user prompt — a fixture's file name. */
+export function fixtureKey(request: Pick<LLMRequest, "systemPrompt" | "userPrompt">): string {
+  return createHash("sha256")
+    .update(request.systemPrompt)
+    .update("\0")
+    .update(request.userPrompt)
+    .digest("hex");
+}
+
+/**
+ * Forwards every call to the wrapped client and records the pair.
+ * Failed calls aren't recorded — the error propagates as usual.
+ */
+export class RecordingLLMClient implements LLMClient {
+  constructor(
+    private inner: LLMClient,
+    private dir: string
+  ) {}
+
+  async call(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.call(request);
+
+    const { signal: _signal, ...recorded } = request;
+    const fixture: LLMFixture = {
+      key: fixtureKey(request),
+      request: recorded,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+
+    await mkdir(this.dir, { recursive: true });
+    // Identical prompts can be recorded concurrently (e.g. a panel of
+    // same-provider judges) — each write gets its own temp file so the
+    // renames never trip over each other.
+    const target = path.join(this.dir, `${fixture.key}.json`);
+    const tmp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(tmp, JSON.stringify(fixture, null, 2));
+    await rename(tmp, target);
+
+    return response;
+  }
+}
+
+/**
+ * Serves recorded responses from a fixtures directory. A prompt with
+ * no fixture throws LLMFixtureMissError — never a made-up answer, and
+ * never a fallback to the network.
+ */
+export class PlaybackLLMClient implements LLMClient {
+  constructor(private dir: string) {}
+
+  async call(request: LLMRequest): Promise<LLMResponse> {
+    const key = fixtureKey(request);
+
+    let raw: string;
+    try {
+      raw = await readFile(path.join(this.dir, `${key}.json`), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new LLMFixtureMissError(key, this.dir);
+      }
+      throw err;
+    }
+    return (JSON.parse(raw) as LLMFixture).response;
+  }
+}
@@ -1,6 +1,12 @@
 import { OpenAIClient } from "./openai.js";
 import { AnthropicClient } from "./anthropic.js";
 import { MockLLMClient } from "./mock.js";
+import {
+  TimeoutLLMClient,
+  RetryingLLMClient,
+  FailoverLLMClient,
+} from "./resilient.js";
+import { RecordingLLMClient, PlaybackLLMClient } from "./fixtures.js";
 
 export interface LLMRequest {
   systemPrompt: string;
@@ -8,12 +14,17 @@ export interface LLMRequest {
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  /** Cancels the underlying HTTP request (set by TimeoutLLMClient) */
+  signal?: AbortSignal;
 }
 
 export interface LLMResponse {
   content: string;
   model: string;
   tokensUsed: number;
+  /** Prompt / completion split, when the provider reports it */
+  inputTokens?: number;
+  outputTokens?: number;
 }
 
 export interface LLMClient {
@@ -21,10 +32,83 @@ export interface LLMClient {
 }
 
 export { OpenAIClient, AnthropicClient, MockLLMClient };
+export { TimeoutLLMClient, RetryingLLMClient, FailoverLLMClient };
+export { RecordingLLMClient, PlaybackLLMClient };
+export { fixtureKey } from "./fixtures.js";
+export type { LLMFixture } from "./fixtures.js";
+export { LLMHttpError, LLMTimeoutError, LLMFixtureMissError } from "./errors.js";
 
+export type LLMProvider = "openai" | "anthropic" | "mock";
+
+const PROVIDERS: LLMProvider[] = ["openai", "anthropic", "mock"];
+
+/**
+ * Parses a comma-separated provider list from config,
+ * e.g. JUDGE_PANEL="anthropic,openai,anthropic".
+ * Empty input yields an empty list; unknown names throw.
+ */
+export function parseProviderList(value: string | undefined): LLMProvider[] {
+  return (value ?? "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0)
+    .map((p) => {
+      if (!PROVIDERS.includes(p as LLMProvider)) {
+        throw new Error(`Unknown LLM provider "${p}" (expected one of ${PROVIDERS.join(", ")})`);
+      }
+      return p as LLMProvider;
+    });
+}
+
+/**
+ * Resilience settings for createLLMClient. Omit everything to get the
+ * bare adapter (a single fetch, no timeout, no retry).
+ */
+export interface LLMClientOptions {
+  /** Per-attempt timeout in ms */
+  timeoutMs?: number;
+  /** Retries on timeout / network error / 408 / 429 / 5xx */
+  maxRetries?: number;
+  /** Providers to try in order once the primary gives up */
+  failover?: LLMProvider[];
+  /** Record every response to this fixtures directory (see fixtures.ts) */
+  recordDir?: string;
+}
+
+/**
+ * Builds an LLM client for a provider, wrapped in the resilience stack
+ * described by options:
+ *
+ *   Failover([
+ *     Retrying(Timeout(primary)),
+ *     Retrying(Timeout(failover[0])),
+ *     ...
+ *   ])
+ *
+ * With recordDir, a RecordingLLMClient wraps the whole stack, so what's
+ * recorded is the response the pipeline actually received. Each layer
+ * is only added when configured.
+ */
 export function createLLMClient(
-  provider: "openai" | "anthropic" | "mock"
+  provider: LLMProvider,
+  options: LLMClientOptions = {}
 ): LLMClient {
+  const chain = [provider, ...(options.failover ?? [])].map((p) => {
+    let client = createProviderClient(p);
+    if (options.timeoutMs) {
+      client = new TimeoutLLMClient(client, options.timeoutMs);
+    }
+    if (options.maxRetries) {
+      client = new RetryingLLMClient(client, { maxRetries: options.maxRetries });
+    }
+    return client;
+  });
+
+  const client = chain.length > 1 ? new FailoverLLMClient(chain) : chain[0];
+  return options.recordDir ? new RecordingLLMClient(client, options.recordDir) : client;
+}
+
+function createProviderClient(provider: LLMProvider): LLMClient {
   switch (provider) {
     case "openai":
       return new OpenAIClient();
@@ -3,15 +3,17 @@ import type { LLMClient, LLMRequest, LLMResponse } from "./index.js";
 /**
  * Mock LLM client that returns pre-built responses for development and demos.
  *
- * Detects what type of call is being made (advocate YES, advocate NO, or judge)
- * by inspecting keywords in the system prompt, then returns the appropriate
- * fixture data. Supports two scenarios:
+ * Detects what type of call is being made (advocate YES, advocate NO, judge,
+ * or question review) by inspecting keywords in the system prompt, then
+ * returns the appropriate fixture data. Supports two scenarios:
  *
  *   "clear" — Strong YES verdict (78 vs 45), triggers RESOLVE
  *   "close" — Narrow margin (52 vs 48), triggers ESCALATE
  *
  * All fixture data matches the Zod schemas in types.ts exactly, so pipeline
- * validation passes without modification.
+ * validation passes without modification. To test against real model
+ * output instead, record it with RecordingLLMClient and serve it with
+ * PlaybackLLMClient (see fixtures.ts).
  */
 
 // ── Clear-win scenario fixtures ──────────────────────────────────
@@ -238,6 +240,25 @@ const MOCK_JUDGE_RULING_CLOSE = JSON.stringify({
   hallucinationsDetected: [],
 });
 
+// ── Question review fixture (both scenarios) ─────────────────────
+
+const MOCK_QUESTION_REVIEW = JSON.stringify({
+  resolvabilityScore: 62,
+  issues: [
+    {
+      kind: "undefined-term",
+      severity: "warning",
+      message:
+        "\"Consistently\" could mean every day, most days or on average — advocates will argue over the definition instead of the data.",
+      excerpt: "consistently",
+    },
+  ],
+  suggestedRewrites: [
+    "Will the average ETH staking APR reported by DeFiLlama exceed the average 10-year US Treasury rate on at least 25 of the 31 days of January 2026?",
+  ],
+  evidenceAvailable: true,
+});
+
 // ── Mock client implementation ───────────────────────────────────
 
 export class MockLLMClient implements LLMClient {
@@ -262,10 +283,13 @@ export class MockLLMClient implements LLMClient {
     const prompt = request.systemPrompt.toLowerCase();
     const isAdvocate = prompt.includes("your assigned position is:");
     const isYes = prompt.includes("position is: yes");
+    const isQuestionReview = prompt.includes("you are a question reviewer");
 
     let content: string;
 
-    if (isAdvocate && isYes) {
+    if (isQuestionReview) {
+      content = MOCK_QUESTION_REVIEW;
+    } else if (isAdvocate && isYes) {
       content =
         this.scenario === "close"
           ? MOCK_ADVOCATE_YES_CLOSE
@@ -283,10 +307,19 @@ export class MockLLMClient implements LLMClient {
           : MOCK_JUDGE_RULING;
     }
 
+    // Rough token estimate (~4 chars/token) so usage accounting has
+    // realistic numbers to show in mock mode. mock-model is priced at $0.
+    const inputTokens = Math.ceil(
+      (request.systemPrompt.length + request.userPrompt.length) / 4
+    );
+    const outputTokens = Math.ceil(content.length / 4);
+
     return {
       content,
       model: "mock-model",
-      tokensUsed: 0,
+      tokensUsed: inputTokens + outputTokens,
+      inputTokens,
+      outputTokens,
     };
   }
 }
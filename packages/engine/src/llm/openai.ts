@@ -1,12 +1,13 @@
 import type { LLMClient, LLMRequest, LLMResponse } from "./index.js";
+import { LLMHttpError, parseRetryAfter } from "./errors.js";
 
 export class OpenAIClient implements LLMClient {
   private apiKey: string;
   private baseUrl: string;
 
-  constructor() {
-    this.apiKey = process.env.OPENAI_API_KEY || "";
-    this.baseUrl = "https://api.openai.com/v1/chat/completions";
+  constructor(options: { apiKey?: string; baseUrl?: string } = {}) {
+    this.apiKey = options.apiKey ?? (process.env.OPENAI_API_KEY || "");
+    this.baseUrl = options.baseUrl ?? "https://api.openai.com/v1/chat/completions";
   }
 
   async call(request: LLMRequest): Promise<LLMResponse> {
@@ -32,12 +33,16 @@ export class OpenAIClient implements LLMClient {
         temperature: request.temperature ?? 0.3,
         response_format: { type: "json_object" },
       }),
+      signal: request.signal,
     });
 
     if (!response.ok) {
       const errorBody = await response.text();
-      throw new Error(
-        `OpenAI API error ${response.status}: ${errorBody}`
+      throw new LLMHttpError(
+        "OpenAI",
+        response.status,
+        errorBody,
+        parseRetryAfter(response.headers.get("retry-after"))
       );
     }
 
@@ -48,6 +53,8 @@ export class OpenAIClient implements LLMClient {
       content: choice?.message?.content || "",
       model: data.model || model,
       tokensUsed: data.usage?.total_tokens || 0,
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0,
     };
   }
 }
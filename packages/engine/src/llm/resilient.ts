@@ -0,0 +1,173 @@
+import type { LLMClient, LLMRequest, LLMResponse } from "./index.js";
+import { LLMHttpError, LLMTimeoutError } from "./errors.js";
+
+/**
+ * Resilience decorators for LLMClient.
+ *
+ * Each decorator wraps another LLMClient and is itself an LLMClient,
+ * so they compose into a stack. The usual order, innermost first:
+ *
+ *   provider adapter → TimeoutLLMClient → RetryingLLMClient
+ *
+ * and, to fall back to other providers, several such stacks inside a
+ * FailoverLLMClient. createLLMClient builds these stacks from config.
+ *
+ * The timeout sits inside the retry so each attempt gets its own
+ * deadline — a hung request is abandoned and retried, not waited on.
+ */
+
+/**
+ * Aborts a call that takes longer than timeoutMs.
+ *
+ * The adapter's fetch is cancelled through an AbortSignal. The call
+ * also races a timer, so clients that ignore the signal (mocks, custom
+ * wrappers) still can't hang the trial.
+ */
+export class TimeoutLLMClient implements LLMClient {
+  constructor(
+    private inner: LLMClient,
+    private timeoutMs: number
+  ) {}
+
+  async call(request: LLMRequest): Promise<LLMResponse> {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(request.signal?.reason);
+    request.signal?.addEventListener("abort", forwardAbort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMTimeoutError(this.timeoutMs));
+      }, this.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        this.inner.call({ ...request, signal: controller.signal }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener("abort", forwardAbort);
+    }
+  }
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** First backoff delay; doubles on each retry (default 500ms) */
+  baseDelayMs?: number;
+  /** Upper bound for any single wait (default 30s) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Retries transient failures with exponential backoff.
+ *
+ * Retried: timeouts, network errors, 408, 429 and 5xx. Anything else
+ * (400 bad request, 401 bad key) fails immediately — retrying won't
+ * change the answer.
+ *
+ * A Retry-After header overrides the computed backoff. If the server
+ * asks for a longer wait than maxDelayMs, the error is thrown instead
+ * of blocking the trial, so a FailoverLLMClient above can move on to
+ * the next provider.
+ */
+export class RetryingLLMClient implements LLMClient {
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+
+  constructor(
+    private inner: LLMClient,
+    options: RetryOptions = {}
+  ) {
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30_000;
+  }
+
+  async call(request: LLMRequest): Promise<LLMResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.inner.call(request);
+      } catch (error) {
+        if (
+          attempt >= this.maxRetries ||
+          request.signal?.aborted ||
+          !isRetryable(error)
+        ) {
+          throw error;
+        }
+
+        const retryAfterMs =
+          error instanceof LLMHttpError ? error.retryAfterMs : undefined;
+        if (retryAfterMs !== undefined && retryAfterMs > this.maxDelayMs) {
+          throw error;
+        }
+
+        const delay =
+          retryAfterMs ??
+          Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+        await sleep(delay, request.signal);
+      }
+    }
+  }
+}
+
+/**
+ * Tries each client in order and returns the first success.
+ *
+ * Typically each entry is a full timeout + retry stack for one
+ * provider, so a provider is only abandoned after its own retries are
+ * exhausted. If every provider fails, the error lists each failure.
+ */
+export class FailoverLLMClient implements LLMClient {
+  constructor(private clients: LLMClient[]) {
+    if (clients.length === 0) {
+      throw new Error("FailoverLLMClient needs at least one client");
+    }
+  }
+
+  async call(request: LLMRequest): Promise<LLMResponse> {
+    const failures: string[] = [];
+
+    for (const client of this.clients) {
+      try {
+        return await client.call(request);
+      } catch (error) {
+        if (request.signal?.aborted) throw error;
+        failures.push((error as Error).message);
+      }
+    }
+
+    throw new Error(
+      `All ${this.clients.length} LLM providers failed: ${failures.join(" | ")}`
+    );
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) return true;
+  if (error instanceof LLMHttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  // fetch() rejects with a TypeError on network failure (ECONNREFUSED, reset)
+  return error instanceof TypeError;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,179 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import type { LLMCallAttempt, LLMCallLog } from "../types.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "./index.js";
+
+/**
+ * Structured output layer — turns an LLM's text response into a
+ * schema-validated object, repairing and retrying instead of failing
+ * the whole trial on the first malformed response.
+ *
+ * Each attempt goes through:
+ * 1. Parse the raw content as JSON
+ * 2. If that fails, repair it: strip markdown code fences and extract
+ *    the first balanced JSON object from any surrounding prose
+ * 3. Validate with the Zod schema
+ *
+ * If parsing or validation still fails, the model is re-prompted with
+ * the original request plus the exact error (JSON syntax error or Zod
+ * issues) and its previous output, up to maxAttempts calls in total.
+ *
+ * Every attempt is recorded — successful or not — and reported through
+ * onCall so the pipeline can store it in the transcript for auditing.
+ */
+
+export interface StructuredOutputOptions {
+  /** Total LLM calls allowed, including the first (default 3) */
+  maxAttempts?: number;
+
+  /** Receives the attempt log once the call succeeds or gives up */
+  onCall?: (log: LLMCallLog) => void;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/* How much of a rejected response is echoed back in the retry prompt */
+const MAX_ECHOED_CHARS = 2000;
+
+export async function callStructured<T>(
+  label: string,
+  llmClient: LLMClient,
+  request: LLMRequest,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredOutputOptions = {}
+): Promise<{ value: T; response: LLMResponse }> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error(`maxAttempts must be a positive integer, got ${maxAttempts}`);
+  }
+
+  const attempts: LLMCallAttempt[] = [];
+  let retryNote = "";
+
+  try {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const response = await llmClient.call(
+        retryNote
+          ? { ...request, userPrompt: `${request.userPrompt}\n\n${retryNote}` }
+          : request
+      );
+
+      const parsed = parseJsonContent(response.content);
+      if (!parsed.ok) {
+        attempts.push({
+          attempt,
+          model: response.model,
+          outcome: "invalid-json",
+          error: parsed.error,
+          rawContent: response.content,
+        });
+        retryNote = buildRetryNote(`Your response was not valid JSON: ${parsed.error}`, response.content);
+        continue;
+      }
+
+      const validated = schema.safeParse(parsed.value);
+      if (!validated.success) {
+        const error = validated.error.issues
+          .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+          .join("; ");
+        attempts.push({
+          attempt,
+          model: response.model,
+          outcome: "schema-error",
+          error,
+          rawContent: response.content,
+        });
+        retryNote = buildRetryNote(`Your JSON did not match the required schema: ${error}`, response.content);
+        continue;
+      }
+
+      attempts.push({
+        attempt,
+        model: response.model,
+        outcome: parsed.repaired ? "repaired" : "ok",
+      });
+      return { value: validated.data, response };
+    }
+  } finally {
+    options.onCall?.({ label, attempts });
+  }
+
+  const last = attempts[attempts.length - 1];
+  throw new Error(
+    `${label} returned unusable output after ${attempts.length} attempt(s): ${last.error}. Last response: ${last.rawContent?.slice(0, 200)}`
+  );
+}
+
+type JsonParseResult =
+  | { ok: true; value: unknown; repaired: boolean }
+  | { ok: false; error: string };
+
+/**
+ * Parses LLM output as JSON, falling back to repair (code fences,
+ * surrounding prose) when the raw text isn't valid JSON.
+ *
+ * Exported for testing.
+ */
+export function parseJsonContent(content: string): JsonParseResult {
+  try {
+    return { ok: true, value: JSON.parse(content), repaired: false };
+  } catch (error) {
+    const candidate = extractFirstJsonObject(stripCodeFences(content));
+    if (candidate !== null) {
+      try {
+        return { ok: true, value: JSON.parse(candidate), repaired: true };
+      } catch {
+        // Fall through and report the original parse error
+      }
+    }
+    return { ok: false, error: (error as Error).message };
+  }
+}
+
+/* ```json ... ``` → contents of the first fenced block */
+function stripCodeFences(content: string): string {
+  const fenced = content.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)```/);
+  return fenced ? fenced[1] : content;
+}
+
+/*
+ * Returns the first balanced {...} in the text, or null. Tracks string
+ * literals so braces inside strings ("{not a brace}") don't count.
+ */
+function extractFirstJsonObject(text: string): string | null {
+  const start = text.indexOf("{");
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') inString = true;
+    else if (ch === "{") depth++;
+    else if (ch === "}") {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+
+  return null;
+}
+
+function buildRetryNote(problem: string, previousContent: string): string {
+  return `PREVIOUS ATTEMPT REJECTED:
+${problem}
+
+Your previous response was:
+${previousContent.slice(0, MAX_ECHOED_CHARS)}
+
+Return ONLY a single valid JSON object matching the schema in your instructions. No markdown, no explanation, no preamble.`;
+}
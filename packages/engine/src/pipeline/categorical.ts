@@ -0,0 +1,209 @@
+import type {
+  CategoricalRuling,
+  CategoricalTranscript,
+  LLMCallLog,
+  MarketQuestion,
+} from "../types.js";
+import type { StructuredOutputOptions } from "../llm/structured.js";
+import { gatherEvidence } from "../evidence/index.js";
+import { runOutcomeAdvocates } from "../advocates/index.js";
+import { runCategoricalJudge } from "../judge/index.js";
+import { evaluateCategoricalConfidence } from "./confidence.js";
+import { verifyOutcomeCitations } from "./citations.js";
+import { MeteredLLMClient } from "../usage/index.js";
+import type { UsageTracker } from "../usage/index.js";
+import { builtinPrompts } from "../prompts/index.js";
+import { usageReport, withTrialEvents } from "./index.js";
+import type { Emit, PipelineConfig } from "./index.js";
+
+/**
+ * Runs an adversarial trial for a categorical market — a question with
+ * N named outcomes (question.outcomes) rather than YES/NO.
+ *
+ * The stages mirror runTrial:
+ *
+ * Stage 1: EVIDENCE GATHERING — unchanged.
+ *
+ * Stage 2: ADVOCATES
+ *   One advocate per outcome, all in parallel, each arguing that its
+ *   outcome is the answer. Outcomes alternate between the YES and NO
+ *   advocate clients (and are metered under those stages), so two
+ *   model families share the work as in a binary trial.
+ *
+ * Stage 3: ADJUDICATION
+ *   The judge scores every outcome against the rubric.
+ *
+ * Stage 4: CONFIDENCE CHECK
+ *   evaluateCategoricalConfidence: the top outcome must lead the
+ *   runner-up by the rubric's threshold, with the same hallucination
+ *   and citation checks as a binary trial.
+ *
+ * Budgets, output retries and progress reporting work as in runTrial.
+ * onEvent gets the same lifecycle events ("trial-started" listing the
+ * outcomes, stage starts, evidence, retries, "trial-completed" or
+ * "trial-failed"), with outcome-argued, outcomes-ruled and
+ * outcome-decided in place of the YES/NO artifacts. The system prompts
+ * are the "outcome-advocate" and "categorical-judge" templates,
+ * selected through config.prompts like runTrial's. Multi-round
+ * debates and judge panels aren't supported yet and are rejected
+ * rather than silently ignored.
+ */
+export async function runCategoricalTrial(
+  question: MarketQuestion,
+  config: PipelineConfig
+): Promise<CategoricalTranscript> {
+  const outcomes = question.outcomes ?? [];
+  if (outcomes.length < 2) {
+    throw new Error(`Categorical trial for ${question.id} needs at least 2 outcomes, got ${outcomes.length}`);
+  }
+  if ((config.rounds ?? 1) > 1) {
+    throw new Error("Multi-round debates are not supported for categorical markets");
+  }
+  if (config.judgePanelClients && config.judgePanelClients.length > 0) {
+    throw new Error("Judge panels are not supported for categorical markets");
+  }
+
+  return withTrialEvents(question, config, (emit, usage, start) =>
+    conductCategoricalTrial(question, outcomes, config, emit, usage, start)
+  );
+}
+
+/* The four stages of runCategoricalTrial, reporting through emit */
+async function conductCategoricalTrial(
+  question: MarketQuestion,
+  outcomes: string[],
+  config: PipelineConfig,
+  emit: Emit,
+  usage: UsageTracker,
+  start: number
+): Promise<CategoricalTranscript> {
+  // Prompt templates — resolved up front so an unknown version fails fast
+  const promptRegistry = config.promptRegistry ?? builtinPrompts();
+  const advocatePrompt = promptRegistry.get("outcome-advocate", config.prompts?.["outcome-advocate"]);
+  const judgePrompt = promptRegistry.get("categorical-judge", config.prompts?.["categorical-judge"]);
+
+  const advocateClients = [
+    new MeteredLLMClient(config.advocateYesClient, usage, "advocate-yes"),
+    new MeteredLLMClient(config.advocateNoClient, usage, "advocate-no"),
+  ];
+  const judgeClient = new MeteredLLMClient(config.judgeClient, usage, "judge");
+  const checkBudget = (stage: string) => {
+    if (config.budget?.onExceeded !== "abort") return;
+    const overBy = usage.overBudget(config.budget);
+    if (overBy) {
+      throw new Error(`Trial aborted after ${stage}: ${overBy}`);
+    }
+  };
+
+  const llmCalls: LLMCallLog[] = [];
+  const output: StructuredOutputOptions = {
+    maxAttempts: config.maxOutputAttempts,
+    onCall: (log) => {
+      llmCalls.push(log);
+      if (log.attempts.length > 1) {
+        emit(
+          log.label.startsWith("Judge") ? "judge" : "advocates",
+          `${log.label} needed ${log.attempts.length} attempts (${log.attempts.map((a) => a.outcome).join(" → ")})`,
+          { type: "llm-retry", log }
+        );
+      }
+    },
+  };
+
+  // Stage 1: Evidence Gathering
+  emit(
+    "evidence",
+    `Gathering evidence from ${config.evidenceSources.length} source(s)...`,
+    { type: "stage-started" }
+  );
+  const evidence = await gatherEvidence(question, config.evidenceSources, {
+    onLLMResponse: (response) => usage.record("router", response),
+  });
+  emit(
+    "evidence",
+    `Gathered ${evidence.items.length} evidence items.`,
+    { type: "evidence-gathered", evidence }
+  );
+  checkBudget("evidence gathering");
+
+  // Stage 2: One advocate per outcome (parallel)
+  emit(
+    "advocates",
+    `Running ${outcomes.length} outcome advocates in parallel...`,
+    { type: "stage-started" }
+  );
+  const advocates = await runOutcomeAdvocates(question, evidence, advocateClients, {
+    onArgument: (argument) =>
+      emit(
+        "advocates",
+        `Advocate "${argument.outcome}" done. Confidence: ${argument.confidence}`,
+        { type: "outcome-argued", argument }
+      ),
+    output,
+    prompt: advocatePrompt,
+  });
+  checkBudget("advocates");
+
+  // Stage 3: Adjudication
+  emit(
+    "judge",
+    `Judge is scoring ${outcomes.length} outcomes against the rubric...`,
+    { type: "stage-started" }
+  );
+  const ruling: CategoricalRuling = await runCategoricalJudge(question, evidence, advocates, judgeClient, {
+    output,
+    prompt: judgePrompt,
+  });
+  emit(
+    "judge",
+    `Judge verdict: ${ruling.finalOutcome} (${ruling.outcomeScores.map((s) => `${s.outcome}: ${s.score}`).join(", ")})`,
+    { type: "outcomes-ruled", ruling }
+  );
+  checkBudget("adjudication");
+
+  // Stage 4: Confidence Check
+  emit(
+    "decision",
+    "Evaluating confidence threshold...",
+    { type: "stage-started" }
+  );
+  const citationReport = verifyOutcomeCitations(evidence, advocates);
+  let decision = evaluateCategoricalConfidence(ruling, question.rubric, citationReport);
+
+  // A trial that blew its budget is never auto-resolved
+  const overBudget = config.budget ? usage.overBudget(config.budget) : null;
+  if (overBudget) {
+    decision = {
+      action: "ESCALATE",
+      outcome: null,
+      margin: decision.margin,
+      reason: `Trial exceeded its budget (${overBudget}). Escalating for human review.`,
+    };
+  }
+  emit(
+    "decision",
+    `Decision: ${decision.action}${decision.outcome ? ` — ${decision.outcome}` : ""} | ${decision.reason}`,
+    { type: "outcome-decided", decision }
+  );
+
+  const transcript: CategoricalTranscript = {
+    question,
+    evidence,
+    advocates,
+    judgeRuling: ruling,
+    citationReport,
+    llmCalls,
+    usage: usageReport(usage, config.budget),
+    decision,
+    executedAt: new Date(),
+    durationMs: Date.now() - start,
+  };
+
+  emit(
+    "complete",
+    `Trial complete in ${transcript.durationMs}ms — ${decision.action}`,
+    { type: "trial-completed", transcript }
+  );
+
+  return transcript;
+}
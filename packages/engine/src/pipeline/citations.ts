@@ -0,0 +1,155 @@
+import type {
+  AdvocateArgument,
+  CategoricalCitationReport,
+  CitationReport,
+  DebateRound,
+  EvidenceBundle,
+  OutcomeArgument,
+  UnmatchedCitation,
+} from "../types.js";
+
+/**
+ * Deterministic citation check — the non-LLM half of hallucination
+ * detection.
+ *
+ * The judge is asked to flag citations that aren't in the evidence
+ * bundle, but it's an LLM: it can miss one, especially in a long
+ * transcript. This function checks every evidenceCitations entry
+ * against the bundle directly, so a fabricated citation is caught
+ * even when the judge lets it through.
+ *
+ * Matching is forgiving about formatting, strict about content. After
+ * normalizing case, punctuation, quotes and whitespace, a citation
+ * matches an evidence item when:
+ *
+ * 1. It contains the item's title as a whole phrase — exact, or with
+ *    the item's source or a label around it ("[treasury] <title>",
+ *    "<title> (newsapi)", "Evidence Item 3: <title>")
+ * 2. It is a truncation of the title that is still specific
+ *    (at least MIN_PARTIAL_TOKENS words)
+ * 3. Its word set overlaps the title's by at least TOKEN_SIMILARITY
+ *    (Dice coefficient) — tolerates small rewordings, not a
+ *    different document
+ *
+ * Pure function — no side effects, fully testable.
+ */
+export function verifyCitations(
+  evidence: EvidenceBundle,
+  advocateYes: AdvocateArgument,
+  advocateNo: AdvocateArgument,
+  debateRounds?: DebateRound[]
+): CitationReport {
+  const rounds =
+    debateRounds && debateRounds.length > 0
+      ? debateRounds
+      : [{ round: 1, yes: advocateYes, no: advocateNo }];
+
+  const titles = evidence.items.map((item) => normalize(item.title));
+  const multiRound = rounds.length > 1;
+
+  let totalCitations = 0;
+  const check = (argument: AdvocateArgument, round: number) => {
+    const unmatched: UnmatchedCitation[] = [];
+    for (const arg of argument.arguments) {
+      for (const citation of arg.evidenceCitations) {
+        totalCitations++;
+        const normalized = normalize(citation);
+        if (!titles.some((title) => citationMatches(normalized, title))) {
+          unmatched.push({
+            criterion: arg.criterion,
+            citation,
+            ...(multiRound && { round }),
+          });
+        }
+      }
+    }
+    return unmatched;
+  };
+
+  const yes = rounds.flatMap((r) => check(r.yes, r.round));
+  const no = rounds.flatMap((r) => check(r.no, r.round));
+
+  return { totalCitations, yes, no };
+}
+
+/**
+ * The same check for a categorical trial: every outcome advocate's
+ * citations, reported per outcome.
+ */
+export function verifyOutcomeCitations(
+  evidence: EvidenceBundle,
+  advocates: OutcomeArgument[]
+): CategoricalCitationReport {
+  const titles = evidence.items.map((item) => normalize(item.title));
+
+  let totalCitations = 0;
+  const byOutcome: Record<string, UnmatchedCitation[]> = {};
+  for (const advocate of advocates) {
+    const unmatched: UnmatchedCitation[] = [];
+    for (const arg of advocate.arguments) {
+      for (const citation of arg.evidenceCitations) {
+        totalCitations++;
+        const normalized = normalize(citation);
+        if (!titles.some((title) => citationMatches(normalized, title))) {
+          unmatched.push({ criterion: arg.criterion, citation });
+        }
+      }
+    }
+    byOutcome[advocate.outcome] = unmatched;
+  }
+
+  return { totalCitations, byOutcome };
+}
+
+/** Citations that are a prefix/substring of a title need this many words */
+const MIN_PARTIAL_TOKENS = 3;
+
+/** Minimum Dice coefficient between citation and title word sets */
+const TOKEN_SIMILARITY = 0.85;
+
+function citationMatches(citation: string, title: string): boolean {
+  if (citation.length === 0 || title.length === 0) return false;
+  if (citation === title) return true;
+
+  // "[treasury] US Treasury: Daily Yield Curve Rates", "Evidence Item 3: ..."
+  if (containsPhrase(citation, title)) return true;
+
+  // Truncated but still specific: "DeFiLlama ETH Staking APR"
+  if (
+    citation.split(" ").length >= MIN_PARTIAL_TOKENS &&
+    containsPhrase(title, citation)
+  ) {
+    return true;
+  }
+
+  return diceCoefficient(citation, title) >= TOKEN_SIMILARITY;
+}
+
+/* Whole-word containment, so "rates" doesn't match inside "ratesheet" */
+function containsPhrase(haystack: string, needle: string): boolean {
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+function diceCoefficient(a: string, b: string): number {
+  const tokensA = new Set(a.split(" "));
+  const tokensB = new Set(b.split(" "));
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/*
+ * Lowercase, strip accents, quotes and punctuation, and collapse
+ * whitespace. "CoinDesk: ETH Staking vs. Treasury Yields" and
+ * "coindesk – eth staking vs treasury yields" normalize identically.
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
@@ -1,4 +1,9 @@
 import type {
+  CategoricalCitationReport,
+  CategoricalDecision,
+  CategoricalRuling,
+  CitationReport,
+  JudgePanelResult,
   JudgeRuling,
   ResolutionRubric,
   SettlementDecision,
@@ -16,12 +21,29 @@ import type {
  *    If either advocate fabricated citations, the debate integrity is
  *    compromised. Escalate for human review regardless of margin.
  *
- * 2. MARGIN BELOW THRESHOLD → ESCALATE
+ * 2. UNMATCHED CITATIONS → ESCALATE
+ *    The deterministic citation check (see citations.ts) is an
+ *    independent signal: a citation that matches nothing in the
+ *    evidence bundle escalates even if the judge missed it.
+ *
+ * 3. JUDGE PANEL SPLIT → ESCALATE
+ *    When a panel of judges is used and they don't all reach the same
+ *    verdict, the composite score alone can hide a genuine dispute.
+ *    A split panel is not a confident ruling.
+ *
+ * 4. QUESTION RULED INVALID → RESOLVE as INVALID
+ *    The judge found the question ambiguous, unresolvable or malformed.
+ *    That isn't a close call — no amount of human review picks a side
+ *    — so it resolves straight away and every staker is refunded. The
+ *    margin is meaningless here and isn't checked. Checks 1–3 still
+ *    come first: a compromised or split trial can't invalidate a market.
+ *
+ * 5. MARGIN BELOW THRESHOLD → ESCALATE
  *    If |scoreYes - scoreNo| < threshold, the result is too close for
  *    confident automated resolution. The full transcript is available
  *    for human review.
  *
- * 3. CLEAR WINNER → RESOLVE
+ * 6. CLEAR WINNER → RESOLVE
  *    If margin exceeds threshold and no hallucinations, auto-settle
  *    the market with the winning verdict.
  *
@@ -31,7 +53,9 @@ import type {
  */
 export function evaluateConfidence(
   ruling: JudgeRuling,
-  rubric: ResolutionRubric
+  rubric: ResolutionRubric,
+  panel?: JudgePanelResult,
+  citations?: CitationReport
 ): SettlementDecision {
   const margin = Math.abs(ruling.scoreYes - ruling.scoreNo);
   const hasHallucinations = ruling.hallucinationsDetected.length > 0;
@@ -46,7 +70,49 @@ export function evaluateConfidence(
     };
   }
 
-  // Priority 2: Margin too narrow for confident auto-resolution
+  // Priority 2: Citations that don't exist in the evidence bundle
+  const unmatched = citations
+    ? [
+        ...citations.yes.map((c) => ({ side: "YES", ...c })),
+        ...citations.no.map((c) => ({ side: "NO", ...c })),
+      ]
+    : [];
+  if (unmatched.length > 0) {
+    const listed = unmatched
+      .map((c) => `${c.side} advocate cited "${c.citation}" (${c.criterion})`)
+      .join("; ");
+    return {
+      action: "ESCALATE",
+      verdict: null,
+      margin,
+      reason: `Citation check found ${unmatched.length} citation(s) not in the evidence bundle: ${listed}. Escalating for human review.`,
+    };
+  }
+
+  // Priority 3: Judges on the panel disagree on the verdict
+  if (panel && !panel.verdictsAgree) {
+    const verdicts = panel.rulings
+      .map((r) => `${r.model}: ${r.finalVerdict}`)
+      .join(", ");
+    return {
+      action: "ESCALATE",
+      verdict: null,
+      margin,
+      reason: `Judge panel split on the verdict (${verdicts}). Escalating for human review.`,
+    };
+  }
+
+  // Priority 4: The question itself can't be answered
+  if (ruling.finalVerdict === "INVALID") {
+    return {
+      action: "RESOLVE",
+      verdict: "INVALID",
+      margin,
+      reason: `Judge ruled the question invalid: ${ruling.rulingText} Resolving as INVALID — all stakes refunded.`,
+    };
+  }
+
+  // Priority 5: Margin too narrow for confident auto-resolution
   if (margin < rubric.confidenceThreshold) {
     return {
       action: "ESCALATE",
@@ -64,3 +130,93 @@ export function evaluateConfidence(
     reason: `Margin ${margin} exceeds threshold ${rubric.confidenceThreshold}. Resolving as ${ruling.finalVerdict}.`,
   };
 }
+
+/**
+ * The confidence check for a categorical market. Same shape as
+ * evaluateConfidence, with the margin taken between the top-scored
+ * outcome and the runner-up — a clear favourite among several
+ * outcomes is what a binary clear winner is between two.
+ *
+ * Decision logic (checked in priority order):
+ *
+ * 1. HALLUCINATIONS DETECTED → ESCALATE
+ * 2. UNMATCHED CITATIONS (any outcome's advocate) → ESCALATE
+ * 3. QUESTION RULED INVALID → RESOLVE as INVALID
+ * 4. MARGIN (top − runner-up) BELOW THRESHOLD → ESCALATE
+ * 5. JUDGE'S finalOutcome ISN'T ITS TOP-SCORED OUTCOME → ESCALATE
+ *    The ruling contradicts its own scores; neither can be trusted.
+ * 6. CLEAR FAVOURITE → RESOLVE with the top outcome
+ */
+export function evaluateCategoricalConfidence(
+  ruling: CategoricalRuling,
+  rubric: ResolutionRubric,
+  citations?: CategoricalCitationReport
+): CategoricalDecision {
+  const ranked = [...ruling.outcomeScores].sort((a, b) => b.score - a.score);
+  const [top, runnerUp] = ranked;
+  const margin = top && runnerUp ? top.score - runnerUp.score : 0;
+
+  // Priority 1: Hallucinations compromise debate integrity
+  if (ruling.hallucinationsDetected.length > 0) {
+    return {
+      action: "ESCALATE",
+      outcome: null,
+      margin,
+      reason: `Hallucinations detected: ${ruling.hallucinationsDetected.join("; ")}. Escalating for human review.`,
+    };
+  }
+
+  // Priority 2: Citations that don't exist in the evidence bundle
+  const unmatched = Object.entries(citations?.byOutcome ?? {}).flatMap(([outcome, list]) =>
+    list.map((c) => ({ outcome, ...c }))
+  );
+  if (unmatched.length > 0) {
+    const listed = unmatched
+      .map((c) => `"${c.outcome}" advocate cited "${c.citation}" (${c.criterion})`)
+      .join("; ");
+    return {
+      action: "ESCALATE",
+      outcome: null,
+      margin,
+      reason: `Citation check found ${unmatched.length} citation(s) not in the evidence bundle: ${listed}. Escalating for human review.`,
+    };
+  }
+
+  // Priority 3: The question itself can't be answered
+  if (ruling.finalOutcome === "INVALID") {
+    return {
+      action: "RESOLVE",
+      outcome: "INVALID",
+      margin,
+      reason: `Judge ruled the question invalid: ${ruling.rulingText} Resolving as INVALID — all stakes refunded.`,
+    };
+  }
+
+  // Priority 4: Top outcome not far enough ahead of the runner-up
+  if (!top || margin < rubric.confidenceThreshold) {
+    return {
+      action: "ESCALATE",
+      outcome: null,
+      margin,
+      reason: `Margin ${margin} between "${top?.outcome}" and "${runnerUp?.outcome}" is below threshold ${rubric.confidenceThreshold}. Too close to auto-resolve.`,
+    };
+  }
+
+  // Priority 5: The verdict disagrees with the judge's own scores
+  if (ruling.finalOutcome !== top.outcome) {
+    return {
+      action: "ESCALATE",
+      outcome: null,
+      margin,
+      reason: `Judge ruled "${ruling.finalOutcome}" but scored "${top.outcome}" highest. Escalating for human review.`,
+    };
+  }
+
+  // Clear favourite — auto-resolve
+  return {
+    action: "RESOLVE",
+    outcome: top.outcome,
+    margin,
+    reason: `Margin ${margin} over runner-up "${runnerUp.outcome}" exceeds threshold ${rubric.confidenceThreshold}. Resolving as "${top.outcome}".`,
+  };
+}
@@ -1,10 +1,28 @@
-import type { MarketQuestion, TrialTranscript } from "../types.js";
+import type {
+  DebateRound,
+  JudgePanelResult,
+  LLMCallLog,
+  JudgeRuling,
+  MarketQuestion,
+  PanelAggregation,
+  TrialBudget,
+  TrialEvent,
+  TrialStage,
+  TrialTranscript,
+  TrialUsage,
+} from "../types.js";
 import type { LLMClient } from "../llm/index.js";
+import type { StructuredOutputOptions } from "../llm/structured.js";
 import type { EvidenceSource } from "../evidence/index.js";
 import { gatherEvidence } from "../evidence/index.js";
-import { runAdvocatesPairInParallel } from "../advocates/index.js";
+import { runDebate } from "../advocates/index.js";
 import { runJudge } from "../judge/index.js";
+import { runJudgePanel } from "../judge/panel.js";
 import { evaluateConfidence } from "./confidence.js";
+import { verifyCitations } from "./citations.js";
+import { MeteredLLMClient, UsageTracker } from "../usage/index.js";
+import { builtinPrompts } from "../prompts/index.js";
+import type { PromptRegistry, PromptSelection } from "../prompts/index.js";
 
 /**
  * Configuration for the trial pipeline.
@@ -29,14 +47,65 @@ export interface PipelineConfig {
   /** LLM client for the judge (ideally a different model than advocates) */
   judgeClient: LLMClient;
 
+  /**
+   * Optional judge panel. When set, these clients replace judgeClient:
+   * each judges independently and the composite ruling is built with
+   * judgeAggregation (default "median").
+   */
+  judgePanelClients?: LLMClient[];
+  judgeAggregation?: PanelAggregation;
+
+  /**
+   * Number of debate rounds (default 1). With rounds > 1, each advocate
+   * reads the opponent's previous argument and writes a rebuttal, and
+   * the judge scores the full round-by-round exchange.
+   */
+  rounds?: number;
+
+  /**
+   * Max LLM calls per advocate/judge output (default 3). Malformed JSON
+   * or schema violations are repaired or re-prompted up to this limit;
+   * every attempt is logged in the transcript's llmCalls.
+   */
+  maxOutputAttempts?: number;
+
+  /**
+   * Prompt template version per stage, e.g. { judge: "v2" }. Stages
+   * left out use their template's latest version. Templates come from
+   * promptRegistry (default: the built-in ones in packages/engine/prompts);
+   * every argument and ruling records the version it was produced with.
+   */
+  prompts?: PromptSelection;
+  promptRegistry?: PromptRegistry;
+
+  /**
+   * Optional spending cap. Usage (tokens + USD per stage) is always
+   * recorded in the transcript; the budget decides whether to abort
+   * the trial or force an escalation once it's exceeded.
+   */
+  budget?: TrialBudget;
+
   /**
    * Optional progress callback — called at each stage so the CLI
    * or frontend can show real-time updates. The pipeline itself
    * is UI-agnostic; all display logic lives in the callback.
    */
   onProgress?: (stage: string, detail: string) => void;
+
+  /**
+   * Optional typed event stream — the structured counterpart of
+   * onProgress, carrying timestamps and each artifact (evidence,
+   * arguments, ruling, decision) as soon as it exists. Used by the
+   * API server to stream trials to the frontend over SSE.
+   */
+  onEvent?: (event: TrialEvent) => void;
 }
 
+/* A TrialEvent minus the fields emit() fills in */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type EventPayload = DistributiveOmit<TrialEvent, "stage" | "message" | "timestamp" | "elapsedMs">;
+export type Emit = (stage: TrialStage, message: string, payload: EventPayload) => void;
+
 /**
  * Runs a complete adversarial trial for a market question.
  *
@@ -51,14 +120,27 @@ export interface PipelineConfig {
  *   Two LLM advocates argue YES and NO simultaneously (Promise.all).
  *   Each receives the same evidence but opposite mandates.
  *   Using different models ensures genuine diversity of perspective.
+ *   With config.rounds > 1, further rounds follow in which each side
+ *   rebuts the other's previous argument.
  *
  * Stage 3: ADJUDICATION
  *   A third LLM (the judge) receives both arguments and scores them
  *   against the rubric. This is sequential — it needs both arguments.
+ *   With a judge panel, several judges score in parallel and their
+ *   rulings are combined into a composite.
  *
  * Stage 4: CONFIDENCE CHECK
  *   Pure logic: margin > threshold → RESOLVE, otherwise → ESCALATE.
- *   Hallucinations also trigger escalation.
+ *   Hallucinations also trigger escalation — both those the judge
+ *   flags and those the deterministic citation check finds.
+ *
+ * Token usage and cost are metered per stage throughout. With a budget
+ * set, it's checked at every stage boundary: "abort" fails the trial
+ * there, "escalate" lets it finish but forces an ESCALATE decision.
+ *
+ * Every step is reported twice: as free text through onProgress and as
+ * a typed TrialEvent through onEvent. A failure emits "trial-failed",
+ * with the usage spent up to that point, before the error propagates.
  *
  * Returns a complete TrialTranscript containing all inputs, outputs,
  * and the final decision — suitable for onchain storage or display.
@@ -67,61 +149,228 @@ export async function runTrial(
   question: MarketQuestion,
   config: PipelineConfig
 ): Promise<TrialTranscript> {
+  if (question.outcomes) {
+    throw new Error(`${question.id} is a categorical market — run it with runCategoricalTrial`);
+  }
+  return withTrialEvents(question, config, (emit, usage, start) =>
+    conductTrial(question, config, emit, start, usage)
+  );
+}
+
+/**
+ * The event lifecycle shared by runTrial and runCategoricalTrial:
+ * emits "trial-started" (with the outcomes of a categorical market),
+ * hands conduct() the emit function, a fresh usage tracker and the
+ * start time, and on failure emits "trial-failed" with the usage spent
+ * so far before rethrowing.
+ */
+export async function withTrialEvents<T>(
+  question: MarketQuestion,
+  config: PipelineConfig,
+  conduct: (emit: Emit, usage: UsageTracker, start: number) => Promise<T>
+): Promise<T> {
   const start = Date.now();
+  let currentStage: TrialStage = "evidence";
+  const usage = new UsageTracker();
+
+  const emit: Emit = (stage, message, payload) => {
+    currentStage = stage;
+    const timestamp = Date.now();
+    config.onEvent?.({
+      ...payload,
+      stage,
+      message,
+      timestamp,
+      elapsedMs: timestamp - start,
+    } as TrialEvent);
+    config.onProgress?.(stage, message);
+  };
+
+  emit("evidence", `Trial started for ${question.id}`, {
+    type: "trial-started",
+    questionId: question.id,
+    ...(question.outcomes && { outcomes: question.outcomes }),
+  });
+
+  try {
+    return await conduct(emit, usage, start);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    emit(currentStage, `Trial failed: ${message}`, {
+      type: "trial-failed",
+      error: message,
+      usage: usageReport(usage, config.budget),
+    });
+    throw error;
+  }
+}
+
+/* The four stages of runTrial, reporting through emit */
+async function conductTrial(
+  question: MarketQuestion,
+  config: PipelineConfig,
+  emit: Emit,
+  start: number,
+  usage: UsageTracker
+): Promise<TrialTranscript> {
+  // Prompt templates — resolved up front so an unknown version fails fast
+  const promptRegistry = config.promptRegistry ?? builtinPrompts();
+  const advocatePrompt = promptRegistry.get("advocate", config.prompts?.advocate);
+  const judgePrompt = promptRegistry.get("judge", config.prompts?.judge);
+
+  // Usage accounting — every client is metered under its stage
+  const advocateYesClient = new MeteredLLMClient(config.advocateYesClient, usage, "advocate-yes");
+  const advocateNoClient = new MeteredLLMClient(config.advocateNoClient, usage, "advocate-no");
+  const judgeClient = new MeteredLLMClient(config.judgeClient, usage, "judge");
+  const checkBudget = (stage: string) => {
+    if (config.budget?.onExceeded !== "abort") return;
+    const overBy = usage.overBudget(config.budget);
+    if (overBy) {
+      throw new Error(`Trial aborted after ${stage}: ${overBy}`);
+    }
+  };
+
+  // Audit log of every structured LLM call, in completion order
+  const llmCalls: LLMCallLog[] = [];
+  const output: StructuredOutputOptions = {
+    maxAttempts: config.maxOutputAttempts,
+    onCall: (log) => {
+      llmCalls.push(log);
+      if (log.attempts.length > 1) {
+        emit(
+          log.label.startsWith("Judge") ? "judge" : "advocates",
+          `${log.label} needed ${log.attempts.length} attempts (${log.attempts.map((a) => a.outcome).join(" → ")})`,
+          { type: "llm-retry", log }
+        );
+      }
+    },
+  };
 
   // Stage 1: Evidence Gathering
-  config.onProgress?.(
+  emit(
     "evidence",
-    `Gathering evidence from ${config.evidenceSources.length} source(s)...`
+    `Gathering evidence from ${config.evidenceSources.length} source(s)...`,
+    { type: "stage-started" }
   );
-  const evidence = await gatherEvidence(question, config.evidenceSources);
-  config.onProgress?.(
+  const evidence = await gatherEvidence(question, config.evidenceSources, {
+    onLLMResponse: (response) => usage.record("router", response),
+  });
+  emit(
     "evidence",
-    `Gathered ${evidence.items.length} evidence items.`
+    `Gathered ${evidence.items.length} evidence items.`,
+    { type: "evidence-gathered", evidence }
   );
+  checkBudget("evidence gathering");
 
-  // Stage 2: Adversarial Debate (parallel)
-  config.onProgress?.(
+  // Stage 2: Adversarial Debate (parallel within each round)
+  const rounds = config.rounds ?? 1;
+  emit(
     "advocates",
-    "Running adversarial debate — YES vs NO in parallel..."
+    rounds > 1
+      ? `Running ${rounds}-round adversarial debate — YES vs NO in parallel...`
+      : "Running adversarial debate — YES vs NO in parallel...",
+    { type: "stage-started" }
   );
-  const { yes, no } = await runAdvocatesPairInParallel(
+  const debateRounds: DebateRound[] = await runDebate(
     question,
     evidence,
-    config.advocateYesClient,
-    config.advocateNoClient
-  );
-  config.onProgress?.(
-    "advocates",
-    `Advocates done. YES confidence: ${yes.confidence}, NO confidence: ${no.confidence}`
+    advocateYesClient,
+    advocateNoClient,
+    rounds,
+    {
+      onArgument: (round, argument) => {
+        emit(
+          "advocates",
+          `Advocate ${argument.side}${rounds > 1 ? ` (round ${round})` : ""} done. Confidence: ${argument.confidence}`,
+          { type: "advocate-argued", round, argument }
+        );
+      },
+      onRound: (r) => {
+        checkBudget(`debate round ${r.round}`);
+        emit(
+          "advocates",
+          `${rounds > 1 ? `Round ${r.round}/${rounds}` : "Advocates"} done. YES confidence: ${r.yes.confidence}, NO confidence: ${r.no.confidence}`,
+          { type: "round-completed", round: r }
+        );
+      },
+      output,
+      prompt: advocatePrompt,
+    }
   );
+  const { yes, no } = debateRounds[debateRounds.length - 1];
+  const multiRound = debateRounds.length > 1;
 
   // Stage 3: Adjudication (sequential — needs both arguments)
-  config.onProgress?.(
+  const panelClients = (config.judgePanelClients ?? []).map(
+    (client) => new MeteredLLMClient(client, usage, "judge")
+  );
+  let ruling: JudgeRuling;
+  let judgePanel: JudgePanelResult | undefined;
+
+  if (panelClients.length > 0) {
+    emit(
+      "judge",
+      `Panel of ${panelClients.length} judges is scoring both arguments against the rubric...`,
+      { type: "stage-started" }
+    );
+    ({ ruling, panel: judgePanel } = await runJudgePanel(question, evidence, yes, no, panelClients, {
+      aggregation: config.judgeAggregation,
+      debateRounds: multiRound ? debateRounds : undefined,
+      output,
+      prompt: judgePrompt,
+    }));
+  } else {
+    emit(
+      "judge",
+      "Judge is scoring both arguments against the rubric...",
+      { type: "stage-started" }
+    );
+    ruling = await runJudge(question, evidence, yes, no, judgeClient, {
+      debateRounds: multiRound ? debateRounds : undefined,
+      output,
+      prompt: judgePrompt,
+    });
+  }
+  emit(
     "judge",
-    "Judge is scoring both arguments against the rubric..."
+    `Judge verdict: ${ruling.finalVerdict} (YES: ${ruling.scoreYes}, NO: ${ruling.scoreNo})`,
+    { type: "judge-ruled", ruling, ...(judgePanel && { judgePanel }) }
   );
-  const ruling = await runJudge(
-    question,
+  checkBudget("adjudication");
+
+  // Stage 4: Confidence Check
+  emit(
+    "decision",
+    "Evaluating confidence threshold...",
+    { type: "stage-started" }
+  );
+  const citationReport = verifyCitations(
     evidence,
     yes,
     no,
-    config.judgeClient
+    multiRound ? debateRounds : undefined
   );
-  config.onProgress?.(
-    "judge",
-    `Judge verdict: ${ruling.finalVerdict} (YES: ${ruling.scoreYes}, NO: ${ruling.scoreNo})`
+  let decision = evaluateConfidence(
+    ruling,
+    question.rubric,
+    judgePanel,
+    citationReport
   );
 
-  // Stage 4: Confidence Check
-  config.onProgress?.(
-    "decision",
-    "Evaluating confidence threshold..."
-  );
-  const decision = evaluateConfidence(ruling, question.rubric);
-  config.onProgress?.(
+  // A trial that blew its budget is never auto-resolved
+  const overBudget = config.budget ? usage.overBudget(config.budget) : null;
+  if (overBudget) {
+    decision = {
+      action: "ESCALATE",
+      verdict: null,
+      margin: decision.margin,
+      reason: `Trial exceeded its budget (${overBudget}). Escalating for human review.`,
+    };
+  }
+  emit(
     "decision",
-    `Decision: ${decision.action}${decision.verdict ? ` — ${decision.verdict}` : ""} | ${decision.reason}`
+    `Decision: ${decision.action}${decision.verdict ? ` — ${decision.verdict}` : ""} | ${decision.reason}`,
+    { type: "decision-made", decision }
   );
 
   // Assemble the complete trial transcript
@@ -130,16 +379,36 @@ export async function runTrial(
     evidence,
     advocateYes: yes,
     advocateNo: no,
+    ...(multiRound && { debateRounds }),
     judgeRuling: ruling,
+    ...(judgePanel && { judgePanel }),
+    citationReport,
+    llmCalls,
+    usage: usageReport(usage, config.budget),
     decision,
     executedAt: new Date(),
     durationMs: Date.now() - start,
   };
 
-  config.onProgress?.(
+  emit(
     "complete",
-    `Trial complete in ${transcript.durationMs}ms — ${decision.action}`
+    `Trial complete in ${transcript.durationMs}ms — ${decision.action}`,
+    { type: "trial-completed", transcript }
   );
 
   return transcript;
 }
+
+/* The tracker's totals plus, with a budget set, whether it was exceeded */
+export function usageReport(usage: UsageTracker, budget: TrialBudget | undefined): TrialUsage {
+  return {
+    ...usage.snapshot(),
+    ...(budget && {
+      budget: {
+        maxUsd: budget.maxUsd,
+        maxTokens: budget.maxTokens,
+        exceeded: usage.overBudget(budget) !== null,
+      },
+    }),
+  };
+}
@@ -0,0 +1,224 @@
+import { readFile } from "node:fs/promises";
+import { runTrial } from "./index.js";
+import type { PipelineConfig } from "./index.js";
+import type { EvidenceSource } from "../evidence/index.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "../llm/index.js";
+import { reviveTranscript } from "../store/file.js";
+import { builtinPrompts } from "../prompts/index.js";
+import type { PromptRegistry, PromptSelection, PromptStage } from "../prompts/index.js";
+import type { AdvocateArgument, JudgeRuling, PromptVersion, TrialTranscript } from "../types.js";
+
+/**
+ * Deterministic replay — re-runs a past trial from its transcript.
+ *
+ * A transcript records everything a trial saw and said: the evidence
+ * bundle, every advocate argument (per round) and every judge ruling.
+ * replayTrial feeds those back into runTrial:
+ *
+ * - the evidence bundle through an EvidenceSource that returns the
+ *   stored items, so the replayed bundle has the same Merkle root;
+ * - each role's recorded outputs through a RecordedResponseClient,
+ *   which serves them in call order instead of calling a model.
+ *
+ * Everything after the LLM calls — citation check, panel aggregation,
+ * confidence threshold — runs for real, and the new decision is diffed
+ * against the stored one. With every role played back, a difference
+ * means the deterministic code changed. Swap in a live client for a
+ * role (e.g. options.judgeClient) to see whether a prompt change would
+ * have ruled differently on a historical market.
+ *
+ * Tokens aren't recorded per call, so a decision that was forced to
+ * ESCALATE by an exceeded budget replays as the unforced decision and
+ * shows up in the diff.
+ */
+
+/** Default gateway for transcripts given as an IPFS CID. */
+export const DEFAULT_IPFS_GATEWAY = "https://gateway.pinata.cloud/ipfs/";
+
+/**
+ * Serves recorded LLM responses in the order they're requested, one
+ * per call. Running out means the replayed trial made more calls than
+ * the original did — that throws rather than inventing an answer.
+ */
+export class RecordedResponseClient implements LLMClient {
+  private queue: LLMResponse[];
+
+  constructor(private label: string, responses: LLMResponse[]) {
+    this.queue = [...responses];
+  }
+
+  async call(_req: LLMRequest): Promise<LLMResponse> {
+    const next = this.queue.shift();
+    if (!next) {
+      throw new Error(`${this.label}: no recorded response left to replay`);
+    }
+    return next;
+  }
+
+  /** Recorded responses that were never requested */
+  get remaining(): number {
+    return this.queue.length;
+  }
+}
+
+/** Evidence source that returns a stored bundle's items unchanged. */
+export class RecordedEvidenceSource implements EvidenceSource {
+  name = "recorded";
+
+  constructor(private transcript: TrialTranscript) {}
+
+  async fetch() {
+    return this.transcript.evidence.items;
+  }
+}
+
+/* A stored output as the response the model originally returned */
+function recorded(output: AdvocateArgument | JudgeRuling): LLMResponse {
+  const { model, ...content } = output;
+  return { content: JSON.stringify(content), model, tokensUsed: 0 };
+}
+
+export interface ReplayOptions {
+  /** Live clients to use instead of playback, per role */
+  advocateYesClient?: LLMClient;
+  advocateNoClient?: LLMClient;
+  judgeClient?: LLMClient; // a single judge, or every seat of a stored panel
+
+  /**
+   * LLM calls per output (default 1). Recorded outputs passed
+   * validation when they were stored, so a retry would only run off
+   * the end of the recording — raise it when replaying with live
+   * clients.
+   */
+  maxOutputAttempts?: number;
+
+  /**
+   * Prompt versions per stage. Stages left out use the version the
+   * stored trial recorded, if the registry still has it, else the latest.
+   */
+  prompts?: PromptSelection;
+  promptRegistry?: PromptRegistry;
+  onProgress?: PipelineConfig["onProgress"];
+}
+
+export interface ReplayDifference {
+  field: string; // e.g. "decision.action", "judgeRuling.scoreYes"
+  stored: unknown;
+  replayed: unknown;
+}
+
+export interface ReplayResult {
+  stored: TrialTranscript;
+  replayed: TrialTranscript;
+  differences: ReplayDifference[]; // empty when the replay reproduced the decision
+  matches: boolean;
+}
+
+/**
+ * Replays a stored trial and diffs the outcome. The question, rubric,
+ * number of debate rounds and panel aggregation all come from the
+ * transcript.
+ */
+export async function replayTrial(
+  stored: TrialTranscript,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const rounds = stored.debateRounds ?? [{ round: 1, yes: stored.advocateYes, no: stored.advocateNo }];
+  const panel = stored.judgePanel?.rulings ?? [];
+  const promptRegistry = options.promptRegistry ?? builtinPrompts();
+
+  const replayed = await runTrial(stored.question, {
+    evidenceSources: [new RecordedEvidenceSource(stored)],
+    advocateYesClient:
+      options.advocateYesClient ?? new RecordedResponseClient("Advocate YES", rounds.map((r) => recorded(r.yes))),
+    advocateNoClient:
+      options.advocateNoClient ?? new RecordedResponseClient("Advocate NO", rounds.map((r) => recorded(r.no))),
+    judgeClient: options.judgeClient ?? new RecordedResponseClient("Judge", [recorded(stored.judgeRuling)]),
+    judgePanelClients: panel.map(
+      (ruling, i) => options.judgeClient ?? new RecordedResponseClient(`Judge ${i + 1}/${panel.length}`, [recorded(ruling)])
+    ),
+    judgeAggregation: stored.judgePanel?.aggregation,
+    rounds: rounds.length,
+    maxOutputAttempts: options.maxOutputAttempts ?? 1,
+    prompts: { ...recordedPrompts(stored, promptRegistry), ...options.prompts },
+    promptRegistry,
+    onProgress: options.onProgress,
+  });
+
+  const differences = diffTranscripts(stored, replayed);
+  return { stored, replayed, differences, matches: differences.length === 0 };
+}
+
+/* The prompt versions a stored trial recorded, where the registry still has them */
+function recordedPrompts(stored: TrialTranscript, registry: PromptRegistry): PromptSelection {
+  const recorded: [PromptStage, PromptVersion | undefined][] = [
+    ["advocate", stored.advocateYes.prompt],
+    ["judge", (stored.judgePanel?.rulings[0] ?? stored.judgeRuling).prompt],
+  ];
+
+  const selection: PromptSelection = {};
+  for (const [stage, prompt] of recorded) {
+    const version = prompt?.id.split("@")[1];
+    if (version && registry.versions(stage).includes(version)) selection[stage] = version;
+  }
+  return selection;
+}
+
+/**
+ * Fields of two transcripts that decide the outcome, and where they
+ * differ: the decision itself, the (composite) ruling behind it and the
+ * evidence root.
+ */
+export function diffTranscripts(stored: TrialTranscript, replayed: TrialTranscript): ReplayDifference[] {
+  const fields: [string, (t: TrialTranscript) => unknown][] = [
+    ["decision.action", (t) => t.decision.action],
+    ["decision.verdict", (t) => t.decision.verdict],
+    ["decision.margin", (t) => t.decision.margin],
+    ["decision.reason", (t) => t.decision.reason],
+    ["judgeRuling.finalVerdict", (t) => t.judgeRuling.finalVerdict],
+    ["judgeRuling.scoreYes", (t) => t.judgeRuling.scoreYes],
+    ["judgeRuling.scoreNo", (t) => t.judgeRuling.scoreNo],
+    ["evidence.merkleRoot", (t) => t.evidence.merkleRoot],
+  ];
+
+  return fields
+    .map(([field, get]) => ({ field, stored: get(stored), replayed: get(replayed) }))
+    .filter((d) => d.stored !== d.replayed);
+}
+
+/**
+ * Loads a transcript to replay from a file path, an ipfs:// URI or a
+ * bare CID (fetched through the gateway). Accepts a plain transcript or
+ * a TranscriptRecord as the API's store writes them.
+ */
+export async function loadTranscript(
+  source: string,
+  gateway: string = DEFAULT_IPFS_GATEWAY
+): Promise<TrialTranscript> {
+  const cid = source.startsWith("ipfs://") ? source.slice("ipfs://".length) : isCid(source) ? source : null;
+
+  let json: unknown;
+  if (cid) {
+    const res = await fetch(`${gateway.replace(/\/?$/, "/")}${cid}`);
+    if (!res.ok) {
+      throw new Error(`Could not fetch transcript ${cid} from IPFS: HTTP ${res.status}`);
+    }
+    json = await res.json();
+  } else {
+    json = JSON.parse(await readFile(source, "utf-8"));
+  }
+
+  const transcript = (json as { transcript?: TrialTranscript }).transcript ?? (json as TrialTranscript);
+  if (!transcript?.question || !transcript.evidence || !transcript.judgeRuling || !transcript.decision) {
+    throw new Error(`${source} is not a trial transcript`);
+  }
+  if (transcript.question.outcomes) {
+    throw new Error(`${source} is a categorical trial — replay supports binary trials only`);
+  }
+  return reviveTranscript(transcript);
+}
+
+/* CIDv0 (Qm…) or base32 CIDv1 (b…) */
+function isCid(value: string): boolean {
+  return /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(value) || /^b[a-z2-7]{58,}$/.test(value);
+}
@@ -0,0 +1,184 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { ethers } from "ethers";
+import { z } from "zod";
+import type { PromptVersion } from "../types.js";
+
+/**
+ * Prompt registry — named, versioned prompt templates.
+ *
+ * The advocate and judge system prompts used to be hardcoded strings,
+ * so a transcript couldn't say which wording produced it. They now
+ * live as JSON files in packages/engine/prompts, one per version:
+ *
+ *   prompts/<name>.<version>.json
+ *   { "name": "judge", "version": "v2", "variables": [...], "template": [...] }
+ *
+ * `template` is the prompt text as an array of lines (or one string),
+ * with {{variable}} placeholders filled in at render time. Every
+ * AdvocateArgument and JudgeRuling records the PromptVersion it was
+ * produced with — the template's id and a keccak256 hash of its text,
+ * so an edited-in-place template is caught even if its version wasn't
+ * bumped.
+ *
+ * Files are read synchronously, once: they're small, and the prompt
+ * builders that use them are synchronous.
+ */
+
+/**
+ * Pipeline stages whose system prompt comes from the registry: the
+ * YES/NO advocate and judge, and their categorical-market counterparts.
+ */
+export const PROMPT_STAGES = ["advocate", "judge", "outcome-advocate", "categorical-judge"] as const;
+export type PromptStage = (typeof PROMPT_STAGES)[number];
+
+/** Template version to use per stage; unset stages use the latest. */
+export type PromptSelection = Partial<Record<PromptStage, string>>;
+
+export const PromptTemplateSchema = z
+  .object({
+    name: z.string().regex(/^[a-z][a-z0-9-]*$/),
+    version: z.string().regex(/^v\d+[a-z0-9.-]*$/),
+    description: z.string().optional(),
+    variables: z.array(z.string().regex(/^\w+$/)).default([]),
+    template: z.union([z.string(), z.array(z.string())]).transform((t) => (Array.isArray(t) ? t.join("\n") : t)),
+  })
+  .superRefine((doc, ctx) => {
+    for (const name of placeholders(doc.template)) {
+      if (!doc.variables.includes(name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Placeholder {{${name}}} is not a declared variable` });
+      }
+    }
+  });
+
+export type PromptTemplate = z.output<typeof PromptTemplateSchema>;
+
+/* Directory holding the built-in templates, from src/prompts or dist/prompts */
+export const BUILTIN_PROMPT_DIR = fileURLToPath(new URL("../../prompts/", import.meta.url));
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+function placeholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER)].map((m) => m[1]);
+}
+
+/** "<name>@<version>", e.g. "judge@v2". */
+export function promptId(template: Pick<PromptTemplate, "name" | "version">): string {
+  return `${template.name}@${template.version}`;
+}
+
+/** What a transcript records about the template behind an output. */
+export function promptVersion(template: PromptTemplate): PromptVersion {
+  return {
+    id: promptId(template),
+    hash: ethers.keccak256(ethers.toUtf8Bytes(template.template)),
+  };
+}
+
+/**
+ * Fills in a template's {{variables}}. Every declared variable must be
+ * given; an unknown one is an error too, so a typo doesn't silently
+ * render an empty string.
+ */
+export function renderPrompt(template: PromptTemplate, vars: Record<string, string> = {}): string {
+  for (const name of template.variables) {
+    if (vars[name] === undefined) {
+      throw new Error(`Prompt ${promptId(template)} needs variable "${name}"`);
+    }
+  }
+  for (const name of Object.keys(vars)) {
+    if (!template.variables.includes(name)) {
+      throw new Error(`Prompt ${promptId(template)} has no variable "${name}"`);
+    }
+  }
+  return template.template.replace(PLACEHOLDER, (_, name: string) => vars[name]);
+}
+
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate>();
+
+  /**
+   * Adds a template. Re-adding an identical one is a no-op; a
+   * different template under an existing id throws — versions are
+   * immutable once published.
+   */
+  register(template: PromptTemplate): void {
+    const id = promptId(template);
+    const existing = this.templates.get(id);
+    if (existing && existing.template !== template.template) {
+      throw new Error(`Prompt ${id} is already registered with different text — publish a new version instead`);
+    }
+    this.templates.set(id, template);
+  }
+
+  /** Registered versions of a template, oldest first. */
+  versions(name: string): string[] {
+    return [...this.templates.values()]
+      .filter((t) => t.name === name)
+      .map((t) => t.version)
+      .sort((a, b) => a.localeCompare(b, "en", { numeric: true }));
+  }
+
+  /** A template by name and version — the latest version if none is given. */
+  get(name: string, version?: string): PromptTemplate {
+    const versions = this.versions(name);
+    if (versions.length === 0) {
+      throw new Error(`No prompt template named "${name}"`);
+    }
+    const wanted = version ?? versions[versions.length - 1];
+    const template = this.templates.get(`${name}@${wanted}`);
+    if (!template) {
+      throw new Error(`Prompt "${name}" has no version ${wanted} (available: ${versions.join(", ")})`);
+    }
+    return template;
+  }
+
+  /** Registers every <name>.<version>.json file in dir. */
+  loadDirectory(dir: string): this {
+    const files = readdirSync(dir).filter((f) => f.endsWith(".json")).sort();
+
+    for (const file of files) {
+      const parsed = PromptTemplateSchema.safeParse(JSON.parse(readFileSync(path.join(dir, file), "utf-8")));
+      if (!parsed.success) {
+        throw new Error(`Invalid prompt template ${file}: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+      }
+      if (file !== `${parsed.data.name}.${parsed.data.version}.json`) {
+        throw new Error(`Prompt template ${file} should be named ${parsed.data.name}.${parsed.data.version}.json`);
+      }
+      this.register(parsed.data);
+    }
+    return this;
+  }
+}
+
+let builtins: PromptRegistry | undefined;
+
+/** The templates shipped in packages/engine/prompts, loaded on first use. */
+export function builtinPrompts(): PromptRegistry {
+  builtins ??= new PromptRegistry().loadDirectory(BUILTIN_PROMPT_DIR);
+  return builtins;
+}
+
+/**
+ * The built-in templates plus any in extraDir (e.g. PROMPT_DIR), for
+ * trying new prompt versions without touching the package.
+ */
+export function loadPromptRegistry(extraDir?: string): PromptRegistry {
+  const registry = new PromptRegistry().loadDirectory(BUILTIN_PROMPT_DIR);
+  return extraDir ? registry.loadDirectory(extraDir) : registry;
+}
+
+/**
+ * Reads PROMPT_ADVOCATE_VERSION / PROMPT_JUDGE_VERSION /
+ * PROMPT_OUTCOME_ADVOCATE_VERSION / PROMPT_CATEGORICAL_JUDGE_VERSION
+ * from the environment. Unset or empty means the latest version.
+ */
+export function parsePromptSelection(env: Record<string, string | undefined>): PromptSelection {
+  const selection: PromptSelection = {};
+  for (const stage of PROMPT_STAGES) {
+    const version = env[`PROMPT_${stage.toUpperCase().replace(/-/g, "_")}_VERSION`]?.trim();
+    if (version) selection[stage] = version;
+  }
+  return selection;
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Replay CLI — re-run a past trial from its transcript and diff the decision.
+ *
+ * Usage:
+ *   npm run replay -- transcripts/market-3.json   # a stored record or transcript
+ *   npm run replay -- <CID>                       # or ipfs://<CID>
+ *   REPLAY_JUDGE=openai npm run replay -- <CID>   # judge live, advocates played back
+ *
+ * By default every LLM output is played back from the transcript, so
+ * the replay checks the deterministic stages. REPLAY_JUDGE puts a live
+ * judge (or judge panel) in the seat instead — the way to try a prompt
+ * change against historical markets, e.g. with PROMPT_JUDGE_VERSION=v2
+ * (and PROMPT_DIR for templates not yet in the package). Unselected
+ * stages use the prompt versions the stored trial recorded.
+ * IPFS_GATEWAY overrides the gateway CIDs are fetched through.
+ *
+ * Exits with status 1 when the replayed decision differs from the
+ * stored one.
+ */
+
+import "dotenv/config";
+import { DEFAULT_IPFS_GATEWAY, loadTranscript, replayTrial } from "./pipeline/replay.js";
+import { createLLMClient, parseProviderList } from "./llm/index.js";
+import { loadPromptRegistry, parsePromptSelection } from "./prompts/index.js";
+
+async function main() {
+  const source = process.argv[2];
+  if (!source) {
+    throw new Error("Usage: replay <transcript.json | CID | ipfs://CID>");
+  }
+
+  const [liveJudge] = parseProviderList(process.env.REPLAY_JUDGE);
+  const stored = await loadTranscript(source, process.env.IPFS_GATEWAY || DEFAULT_IPFS_GATEWAY);
+
+  console.log(`Replaying ${stored.question.id}: ${stored.question.question}`);
+  console.log(`Stored: ${stored.decision.action}${stored.decision.verdict ? ` — ${stored.decision.verdict}` : ""} (${stored.executedAt.toISOString()})`);
+  console.log(`Judge: ${liveJudge ? `LIVE (${liveJudge})` : "played back"}`);
+
+  const result = await replayTrial(stored, {
+    prompts: parsePromptSelection(process.env),
+    promptRegistry: loadPromptRegistry(process.env.PROMPT_DIR || undefined),
+    ...(liveJudge && {
+      judgeClient: createLLMClient(liveJudge),
+      maxOutputAttempts: parseInt(process.env.LLM_OUTPUT_ATTEMPTS || "3", 10),
+    }),
+  });
+  const { decision } = result.replayed;
+  console.log(`Replayed: ${decision.action}${decision.verdict ? ` — ${decision.verdict}` : ""} | ${decision.reason}`);
+
+  if (result.matches) {
+    console.log("\nDecision reproduced.");
+    return;
+  }
+
+  console.log(`\n${result.differences.length} difference(s):`);
+  for (const d of result.differences) {
+    console.log(`  ${d.field}: ${JSON.stringify(d.stored)} → ${JSON.stringify(d.replayed)}`);
+  }
+  process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(`\nReplay failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { RubricDocument } from "./index.js";
+import { InMemoryRubricRegistry } from "./index.js";
+
+/**
+ * File-backed rubric registry — one <rubricHash>.json file per rubric.
+ *
+ * Rubrics are immutable once published (the hash pins their content),
+ * so there is never a second write to the same file.
+ */
+export class FileRubricRegistry extends InMemoryRubricRegistry {
+  private dir: string;
+
+  constructor(dir: string) {
+    super();
+    this.dir = dir;
+  }
+
+  async load(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const files = (await readdir(this.dir)).filter((f) =>
+      /^0x[0-9a-f]{64}\.json$/.test(f)
+    );
+
+    for (const file of files) {
+      const raw = await readFile(path.join(this.dir, file), "utf-8");
+      this.rubrics.set(file.replace(/\.json$/, ""), JSON.parse(raw) as RubricDocument);
+    }
+  }
+
+  protected async persist(rubricHash: string): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const target = path.join(this.dir, `${rubricHash}.json`);
+    await writeFile(`${target}.tmp`, JSON.stringify(this.rubrics.get(rubricHash), null, 2));
+    await rename(`${target}.tmp`, target);
+  }
+}
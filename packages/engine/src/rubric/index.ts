@@ -0,0 +1,156 @@
+import { ethers } from "ethers";
+import { z } from "zod";
+import type { ResolutionRubric } from "../types.js";
+
+/**
+ * Rubric registry — maps onchain rubricHash values to full rubrics.
+ *
+ * The contract only stores a keccak256 hash of the rubric (storing the
+ * full text onchain would cost ~500k gas). The frontend publishes the
+ * full rubric JSON here when a market is created, and the engine looks
+ * it up by hash before running a trial.
+ *
+ * Because the hash is recomputed from the published document, the
+ * registry can't be used to swap in a different rubric: a tampered
+ * document simply won't match the hash stored onchain.
+ */
+
+/** The rubric JSON the frontend publishes alongside a new market. */
+export const RubricDocumentSchema = z
+  .object({
+    criteria: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          description: z.string(),
+          weight: z.number().int().min(0).max(100),
+        })
+      )
+      .min(1),
+    confidenceThreshold: z.number().min(1).max(100),
+    evidenceSources: z.array(z.string()).optional(),
+  })
+  .refine(
+    (doc) => doc.criteria.reduce((sum, c) => sum + c.weight, 0) === 100,
+    { message: "Criteria weights must sum to 100" }
+  );
+
+export type RubricDocument = z.infer<typeof RubricDocumentSchema>;
+
+/**
+ * Computes the rubricHash exactly as CreateMarket.tsx does.
+ *
+ * Everything the trial reads is hashed: criterion names, descriptions
+ * (the judges score against them) and weights, the confidence
+ * threshold, and evidenceSources when the document has them. Two
+ * documents that would be tried differently never share a hash. Key
+ * order matters here: it must match the frontend's JSON.stringify call.
+ */
+export function hashRubric(doc: RubricDocument): string {
+  const hashed = {
+    criteria: doc.criteria.map((c) => ({ name: c.name, description: c.description, weight: c.weight })),
+    confidenceThreshold: doc.confidenceThreshold,
+    evidenceSources: doc.evidenceSources, // dropped by JSON.stringify when absent
+  };
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(hashed)));
+}
+
+/** Storage for published rubrics, keyed by rubricHash. */
+export interface RubricRegistry {
+  /** Load previously published rubrics. Called once at server start. */
+  load(): Promise<void>;
+
+  /**
+   * Store a rubric and return its hash. The hash covers the whole
+   * document, so publishing the same hash twice means publishing the
+   * same rubric twice — the second call is a no-op.
+   */
+  publish(doc: RubricDocument): Promise<string>;
+
+  /** Look up a rubric by hash, or null if it was never published. */
+  get(rubricHash: string): Promise<RubricDocument | null>;
+}
+
+/**
+ * Outcome of resolving a market's rubric. When it fails, the market
+ * must not be tried with a substitute rubric — the caller refuses it.
+ */
+export type RubricResolution =
+  | { ok: true; rubric: ResolutionRubric }
+  | { ok: false; reason: string };
+
+/**
+ * Fetches the rubric for an onchain rubricHash, re-verifies the hash,
+ * and converts it into the ResolutionRubric the pipeline consumes.
+ *
+ * The hash check is repeated here (not only at publish time) so a
+ * corrupted or hand-edited registry file can't slip a different rubric
+ * into a trial.
+ */
+export async function resolveRubric(
+  registry: RubricRegistry,
+  rubricHash: string,
+  defaultEvidenceSources: string[] = []
+): Promise<RubricResolution> {
+  const doc = await registry.get(rubricHash);
+  if (!doc) {
+    return { ok: false, reason: `Rubric ${rubricHash} was never published to the registry` };
+  }
+
+  const parsed = RubricDocumentSchema.safeParse(doc);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      reason: `Rubric ${rubricHash} is malformed: ${parsed.error.issues.map((i) => i.message).join("; ")}`,
+    };
+  }
+
+  const actualHash = hashRubric(parsed.data);
+  if (actualHash.toLowerCase() !== rubricHash.toLowerCase()) {
+    return {
+      ok: false,
+      reason: `Rubric hash mismatch: onchain ${rubricHash}, registry document hashes to ${actualHash}`,
+    };
+  }
+
+  return {
+    ok: true,
+    rubric: {
+      criteria: parsed.data.criteria,
+      evidenceSources: parsed.data.evidenceSources ?? defaultEvidenceSources,
+      confidenceThreshold: parsed.data.confidenceThreshold,
+    },
+  };
+}
+
+/**
+ * In-memory registry. Used in tests and as the base for the file-backed
+ * registry, which only overrides load() and persist().
+ */
+export class InMemoryRubricRegistry implements RubricRegistry {
+  protected rubrics = new Map<string, RubricDocument>();
+
+  async load(): Promise<void> {
+    // Nothing to load — memory starts empty
+  }
+
+  async publish(doc: RubricDocument): Promise<string> {
+    const validated = RubricDocumentSchema.parse(doc);
+    const rubricHash = hashRubric(validated);
+
+    if (!this.rubrics.has(rubricHash)) {
+      this.rubrics.set(rubricHash, validated);
+      await this.persist(rubricHash);
+    }
+    return rubricHash;
+  }
+
+  async get(rubricHash: string): Promise<RubricDocument | null> {
+    return this.rubrics.get(rubricHash.toLowerCase()) ?? null;
+  }
+
+  /** Hook for subclasses — write one rubric to durable storage. */
+  protected async persist(_rubricHash: string): Promise<void> {
+    // Memory-only
+  }
+}
@@ -0,0 +1,135 @@
+import { ethers } from "ethers";
+import type { Verdict } from "../types.js";
+
+/**
+ * Where an escalated market stands with the arbitration committee.
+ * Times come from the contract's arbitrationWindow(): voting opens
+ * once the escalation can no longer be appealed.
+ */
+export interface ArbitrationStatus {
+  marketId: number;
+  question: string;
+  escalated: boolean; // only escalated markets can be voted on
+  transcriptCid: string; // IPFS CID of the transcript to review ("" if none)
+  opensAt: Date;
+  closesAt: Date;
+  quorum: number; // votes one side needs, fixed when the market escalated (0 = no arbitration)
+  refundsStarted: boolean; // an escalation refund was paid; no more votes
+  yesVotes: number;
+  noVotes: number;
+  /** This signer's vote so far, null if it hasn't voted */
+  myVote: Verdict | null;
+  isArbitrator: boolean;
+}
+
+/**
+ * ArbitrationClient — what an arbitrator does onchain: read a market's
+ * arbitration status, then vote. Kept apart from OnchainSettler, which
+ * holds the owner key; each arbitrator signs with their own.
+ */
+export interface ArbitrationClient {
+  status(marketId: number): Promise<ArbitrationStatus>;
+
+  /** Call castArbitrationVote(). Returns the transaction hash. */
+  vote(marketId: number, vote: Verdict): Promise<string>;
+}
+
+const ARBITRATION_ABI = [
+  "function getMarket(uint256 marketId) view returns (tuple(string question, string rubricHash, uint256 deadline, uint8 status, uint8 outcome, uint256 yesPool, uint256 noPool, bytes32 transcriptHash, bytes32 transcriptCidA, bytes32 transcriptCidB, address creator, uint256 creationDeposit))",
+  "function getTranscriptCid(uint256 marketId) view returns (string)",
+  "function arbitrationWindow(uint256 marketId) view returns (uint256 opensAt, uint256 closesAt)",
+  "function arbitrationTallies(uint256 marketId) view returns (uint256 yesVotes, uint256 noVotes)",
+  "function arbitrationVotes(uint256 marketId, address arbitrator) view returns (uint8)",
+  "function arbitrationQuorums(uint256 marketId) view returns (uint256)",
+  "function refundsStarted(uint256 marketId) view returns (bool)",
+  "function isArbitrator(address account) view returns (bool)",
+  "function castArbitrationVote(uint256 marketId, uint8 vote)",
+];
+
+/* MarketStatus.Escalated and the Verdict enum in TrialMarket.sol */
+const STATUS_ESCALATED = 3;
+const VERDICT_TO_ENUM: Record<Verdict, number> = { YES: 1, NO: 2 };
+const ENUM_TO_VERDICT: Record<number, Verdict> = { 1: "YES", 2: "NO" };
+
+export function createArbitrationClient(
+  rpcUrl: string,
+  contractAddress: string,
+  privateKey: string
+): ArbitrationClient {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const signer = new ethers.Wallet(privateKey, provider);
+  const contract = new ethers.Contract(contractAddress, ARBITRATION_ABI, signer);
+
+  return {
+    async status(marketId: number): Promise<ArbitrationStatus> {
+      const [market, cid, window, tally, myVote, quorum, refundsStarted, isArbitrator] = await Promise.all([
+        contract.getMarket(marketId),
+        contract.getTranscriptCid(marketId),
+        contract.arbitrationWindow(marketId),
+        contract.arbitrationTallies(marketId),
+        contract.arbitrationVotes(marketId, signer.address),
+        contract.arbitrationQuorums(marketId),
+        contract.refundsStarted(marketId),
+        contract.isArbitrator(signer.address),
+      ]);
+
+      return {
+        marketId,
+        question: market.question,
+        escalated: Number(market.status) === STATUS_ESCALATED,
+        transcriptCid: cid,
+        opensAt: new Date(Number(window.opensAt) * 1000),
+        closesAt: new Date(Number(window.closesAt) * 1000),
+        quorum: Number(quorum),
+        refundsStarted,
+        yesVotes: Number(tally.yesVotes),
+        noVotes: Number(tally.noVotes),
+        myVote: ENUM_TO_VERDICT[Number(myVote)] ?? null,
+        isArbitrator,
+      };
+    },
+
+    async vote(marketId: number, vote: Verdict): Promise<string> {
+      const tx = await contract.castArbitrationVote(marketId, VERDICT_TO_ENUM[vote]);
+      const receipt = await tx.wait();
+      return receipt.hash;
+    },
+  };
+}
+
+/**
+ * Parse `arbitrate <marketId> [yes|no]`. Without a vote the CLI only
+ * prints the market's arbitration status.
+ */
+export function parseArbitrationArgs(args: string[]): { marketId: number; vote: Verdict | null } {
+  const [idArg, voteArg] = args;
+  const marketId = Number(idArg);
+  if (idArg === undefined || !Number.isInteger(marketId) || marketId < 0) {
+    throw new Error("Usage: arbitrate <marketId> [yes|no]");
+  }
+  if (voteArg === undefined) {
+    return { marketId, vote: null };
+  }
+
+  const vote = voteArg.toUpperCase();
+  if (vote !== "YES" && vote !== "NO") {
+    throw new Error(`Vote must be "yes" or "no", got "${voteArg}"`);
+  }
+  return { marketId, vote };
+}
+
+/**
+ * Why a vote can't be cast right now, or null if it can. Mirrors the
+ * contract's checks so the CLI can explain instead of sending a
+ * transaction that reverts.
+ */
+export function voteBlocker(status: ArbitrationStatus, now: Date = new Date()): string | null {
+  if (!status.isArbitrator) return "This key is not a registered arbitrator";
+  if (!status.escalated) return `Market #${status.marketId} is not escalated`;
+  if (status.quorum === 0) return "Arbitration was disabled (quorum 0) when this market escalated";
+  if (status.refundsStarted) return "Refunds have already been paid";
+  if (status.myVote) return `Already voted ${status.myVote}`;
+  if (now < status.opensAt) return `Voting opens ${status.opensAt.toISOString()} (appeal window still open)`;
+  if (now >= status.closesAt) return `Voting closed ${status.closesAt.toISOString()}`;
+  return null;
+}
@@ -1,5 +1,6 @@
 import { ethers } from "ethers";
-import type { TrialTranscript } from "../types.js";
+import { isCategoricalTranscript } from "../types.js";
+import type { CategoricalTranscript, RulingVerdict, TrialTranscript } from "../types.js";
 
 /**
  * OnchainSettler interface — abstracts the contract interaction
@@ -9,19 +10,41 @@ export interface OnchainSettler {
   /** Call settle() on the contract. Returns the transaction hash. */
   settle(marketId: number, transcript: TrialTranscript, ipfsCid?: string): Promise<string>;
 
+  /**
+   * Call settleOutcome() on the contract for a resolved categorical
+   * market. Returns the transaction hash.
+   */
+  settleOutcome(marketId: number, transcript: CategoricalTranscript, ipfsCid?: string): Promise<string>;
+
   /** Call escalate() on the contract. Returns the transaction hash. */
-  escalate(marketId: number, transcript: TrialTranscript, ipfsCid?: string): Promise<string>;
+  escalate(marketId: number, transcript: AnyTranscript, ipfsCid?: string): Promise<string>;
+
+  /**
+   * Escalate a market that was refused before any trial ran (e.g. its
+   * rubric is missing or doesn't match the onchain hash). The reason
+   * string is hashed in place of a transcript. Returns the transaction hash.
+   */
+  refuse(marketId: number, reason: string): Promise<string>;
 }
 
+type AnyTranscript = TrialTranscript | CategoricalTranscript;
+
 /*
  * ABI subset — only the functions we call.
  * settle/escalate now include cidA/cidB for IPFS transcript storage.
  */
 const TRIAL_MARKET_ABI = [
   "function settle(uint256 marketId, uint8 outcome, uint256 scoreYes, uint256 scoreNo, bytes32 transcriptHash, bytes32 cidA, bytes32 cidB) external",
+  "function settleOutcome(uint256 marketId, uint256 outcome, uint256 topScore, uint256 runnerUpScore, bytes32 transcriptHash, bytes32 cidA, bytes32 cidB) external",
   "function escalate(uint256 marketId, bytes32 transcriptHash, bytes32 cidA, bytes32 cidB) external",
 ];
 
+/* Contract Verdict enum: None = 0, Yes = 1, No = 2, Invalid = 3 */
+const VERDICT_ENUM: Record<RulingVerdict, number> = { YES: 1, NO: 2, INVALID: 3 };
+
+/* settleOutcome() takes an outcome index; this one means INVALID */
+const INVALID_OUTCOME = ethers.MaxUint256;
+
 /**
  * Encode an IPFS CID string into two bytes32 values.
  * CIDv0 is 46 ASCII chars — first 32 go into cidA, remaining into cidB.
@@ -39,6 +62,41 @@ function cidToBytes32Pair(cid: string | undefined): [string, string] {
   ];
 }
 
+/**
+ * The transcriptHash anchored onchain. Anyone holding the transcript
+ * (from IPFS or the API) can recompute it.
+ *
+ * With an evidence Merkle root it is
+ * keccak256(keccak256(transcript JSON) ‖ merkleRoot), so the settled
+ * hash commits to the evidence root explicitly; verifyEvidenceBundle
+ * checks the items against that root. Transcripts from before evidence
+ * snapshotting have no root and keep the plain keccak256 of the JSON.
+ */
+export function hashTranscript(transcript: AnyTranscript): string {
+  const jsonHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(transcript)));
+  const root = transcript.evidence.merkleRoot;
+  return root ? ethers.keccak256(ethers.concat([jsonHash, root])) : jsonHash;
+}
+
+/**
+ * Carries out a transcript's decision: settle() a resolved binary
+ * market, settleOutcome() a resolved categorical one, escalate() either
+ * kind otherwise. Returns the transaction hash.
+ */
+export function settleDecision(
+  settler: OnchainSettler,
+  marketId: number,
+  transcript: AnyTranscript,
+  ipfsCid?: string
+): Promise<string> {
+  if (transcript.decision.action !== "RESOLVE") {
+    return settler.escalate(marketId, transcript, ipfsCid);
+  }
+  return isCategoricalTranscript(transcript)
+    ? settler.settleOutcome(marketId, transcript, ipfsCid)
+    : settler.settle(marketId, transcript, ipfsCid);
+}
+
 /**
  * Creates an OnchainSettler that uses ethers.js to interact with
  * the TrialMarket contract on a given network.
@@ -54,11 +112,9 @@ export function createOnchainSettler(
 
   return {
     async settle(marketId: number, transcript: TrialTranscript, ipfsCid?: string): Promise<string> {
-      const transcriptHash = ethers.keccak256(
-        ethers.toUtf8Bytes(JSON.stringify(transcript))
-      );
+      const transcriptHash = hashTranscript(transcript);
 
-      const verdictEnum = transcript.decision.verdict === "YES" ? 1 : 2;
+      const verdictEnum = VERDICT_ENUM[transcript.decision.verdict ?? "NO"];
       const [cidA, cidB] = cidToBytes32Pair(ipfsCid);
 
       const tx = await contract.settle(
@@ -75,16 +131,53 @@ export function createOnchainSettler(
       return receipt.hash;
     },
 
-    async escalate(marketId: number, transcript: TrialTranscript, ipfsCid?: string): Promise<string> {
-      const transcriptHash = ethers.keccak256(
-        ethers.toUtf8Bytes(JSON.stringify(transcript))
+    async settleOutcome(marketId: number, transcript: CategoricalTranscript, ipfsCid?: string): Promise<string> {
+      const { decision, judgeRuling, question } = transcript;
+      if (decision.action !== "RESOLVE" || decision.outcome === null) {
+        throw new Error(`Market ${marketId} was not resolved — escalate it instead`);
+      }
+      const index =
+        decision.outcome === "INVALID"
+          ? INVALID_OUTCOME
+          : (question.outcomes ?? []).indexOf(decision.outcome);
+      if (index === -1) {
+        throw new Error(`"${decision.outcome}" is not an outcome of market ${marketId}`);
+      }
+
+      const [top, runnerUp] = [...judgeRuling.outcomeScores].sort((a, b) => b.score - a.score);
+      const [cidA, cidB] = cidToBytes32Pair(ipfsCid);
+
+      const tx = await contract.settleOutcome(
+        marketId,
+        index,
+        Math.round(top?.score ?? 0),
+        Math.round(runnerUp?.score ?? 0),
+        hashTranscript(transcript),
+        cidA,
+        cidB
       );
 
+      const receipt = await tx.wait();
+      return receipt.hash;
+    },
+
+    async escalate(marketId: number, transcript: AnyTranscript, ipfsCid?: string): Promise<string> {
+      const transcriptHash = hashTranscript(transcript);
+
       const [cidA, cidB] = cidToBytes32Pair(ipfsCid);
 
       const tx = await contract.escalate(marketId, transcriptHash, cidA, cidB);
       const receipt = await tx.wait();
       return receipt.hash;
     },
+
+    async refuse(marketId: number, reason: string): Promise<string> {
+      const reasonHash = ethers.keccak256(ethers.toUtf8Bytes(reason));
+      const [cidA, cidB] = cidToBytes32Pair(undefined);
+
+      const tx = await contract.escalate(marketId, reasonHash, cidA, cidB);
+      const receipt = await tx.wait();
+      return receipt.hash;
+    },
   };
 }
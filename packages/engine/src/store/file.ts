@@ -0,0 +1,101 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CategoricalTranscript, TrialTranscript } from "../types.js";
+import type { TranscriptRecord } from "./index.js";
+import { InMemoryTranscriptRepository } from "./memory.js";
+
+/**
+ * File-backed transcript repository.
+ *
+ * Each market gets its own JSON file (market-<id>.json) holding every
+ * trial record for that market. Files are written atomically
+ * (write to .tmp, then rename) so a crash mid-write never leaves a
+ * half-written transcript behind. Writes to one market are chained so
+ * they land in order: concurrent appends (a trial finishing while an
+ * earlier one's CID is recorded) can't overwrite each other's file.
+ *
+ * Reads are served from the in-memory cache populated by load(), so
+ * the HTTP handlers never touch the disk.
+ */
+export class FileTranscriptRepository extends InMemoryTranscriptRepository {
+  private dir: string;
+  private writes = new Map<number, Promise<void>>();
+
+  constructor(dir: string) {
+    super();
+    this.dir = dir;
+  }
+
+  async load(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const files = (await readdir(this.dir)).filter((f) =>
+      /^market-\d+\.json$/.test(f)
+    );
+
+    for (const file of files) {
+      const raw = await readFile(path.join(this.dir, file), "utf-8");
+      const records = (JSON.parse(raw) as TranscriptRecord[]).map(reviveRecord);
+      if (records.length > 0) {
+        this.records.set(records[0].marketId, records);
+      }
+    }
+  }
+
+  protected persist(marketId: number): Promise<void> {
+    // Each write serializes the records as they are when it runs, so
+    // the last one in the chain always carries every update
+    const previous = this.writes.get(marketId) ?? Promise.resolve();
+    const write = previous.catch(() => {}).then(() => this.write(marketId));
+    this.writes.set(marketId, write);
+    return write;
+  }
+
+  private async write(marketId: number): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const target = path.join(this.dir, `market-${marketId}.json`);
+    const tmp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+    const records = this.records.get(marketId) ?? [];
+
+    await writeFile(tmp, JSON.stringify(records, null, 2));
+    await rename(tmp, target);
+  }
+}
+
+/**
+ * JSON has no Date type — turn the ISO strings back into Dates so
+ * reloaded transcripts match the TrialTranscript type (and hash the
+ * same way, since Date.toJSON() yields the original ISO string).
+ */
+function reviveRecord(record: TranscriptRecord): TranscriptRecord {
+  return {
+    ...record,
+    storedAt: new Date(record.storedAt),
+    transcript: reviveTranscript(record.transcript),
+  };
+}
+
+/**
+ * The transcript half of reviveRecord — also used for transcripts read
+ * from elsewhere, e.g. fetched off IPFS for a replay.
+ */
+export function reviveTranscript<T extends TrialTranscript | CategoricalTranscript>(t: T): T {
+  return {
+    ...t,
+    question: {
+      ...t.question,
+      settlementDeadline: new Date(t.question.settlementDeadline),
+    },
+    evidence: {
+      ...t.evidence,
+      gatheredAt: new Date(t.evidence.gatheredAt),
+      items: t.evidence.items.map((item) => ({
+        ...item,
+        retrievedAt: new Date(item.retrievedAt),
+      })),
+    },
+    executedAt: new Date(t.executedAt),
+  };
+}
@@ -0,0 +1,54 @@
+import type { CategoricalTranscript, TrialTranscript } from "../types.js";
+
+/**
+ * One stored trial for a market.
+ *
+ * A market can be tried more than once (DON failure → local fallback,
+ * manual re-runs from the frontend), so records are numbered per market
+ * starting at 1. The latest record is what the frontend displays; older
+ * ones are kept for auditing. Categorical markets store a
+ * CategoricalTranscript (it has `advocates` in place of the YES/NO pair).
+ */
+export interface TranscriptRecord {
+  marketId: number;
+  trial: number;
+  transcript: TrialTranscript | CategoricalTranscript;
+  /** keccak256 of the transcript JSON — the value passed to settle()/escalate() */
+  transcriptHash: string;
+  /** IPFS CID once the transcript has been pinned */
+  cid: string | null;
+  /** Settlement transaction hash once settled or escalated onchain */
+  txHash: string | null;
+  storedAt: Date;
+}
+
+/**
+ * Storage abstraction for trial transcripts.
+ *
+ * The API server only talks to this interface, so the backing store
+ * can be swapped (JSON files today, a database later) without touching
+ * the settlement flow.
+ */
+export interface TranscriptRepository {
+  /** Load previously persisted records. Called once at server start. */
+  load(): Promise<void>;
+
+  /** Store a new trial for a market. Returns the created record. */
+  append(marketId: number, transcript: TrialTranscript | CategoricalTranscript): Promise<TranscriptRecord>;
+
+  /** Attach the IPFS CID and/or settlement tx hash to an existing record. */
+  update(
+    marketId: number,
+    trial: number,
+    patch: Partial<Pick<TranscriptRecord, "cid" | "txHash">>
+  ): Promise<TranscriptRecord>;
+
+  /** Most recent trial for a market, or null if it was never tried. */
+  latest(marketId: number): Promise<TranscriptRecord | null>;
+
+  /** Every trial for a market, oldest first. */
+  history(marketId: number): Promise<TranscriptRecord[]>;
+}
+
+export { InMemoryTranscriptRepository } from "./memory.js";
+export { FileTranscriptRepository } from "./file.js";
@@ -0,0 +1,65 @@
+import type { CategoricalTranscript, TrialTranscript } from "../types.js";
+import { hashTranscript } from "../settlement/onchain.js";
+import type { TranscriptRecord, TranscriptRepository } from "./index.js";
+
+/**
+ * In-memory repository. Used directly in tests and as the base for
+ * persistent implementations, which only need to override persist()
+ * and load().
+ */
+export class InMemoryTranscriptRepository implements TranscriptRepository {
+  protected records = new Map<number, TranscriptRecord[]>();
+
+  async load(): Promise<void> {
+    // Nothing to load — memory starts empty
+  }
+
+  async append(
+    marketId: number,
+    transcript: TrialTranscript | CategoricalTranscript
+  ): Promise<TranscriptRecord> {
+    const trials = this.records.get(marketId) ?? [];
+    const record: TranscriptRecord = {
+      marketId,
+      trial: trials.length + 1,
+      transcript,
+      transcriptHash: hashTranscript(transcript),
+      cid: null,
+      txHash: null,
+      storedAt: new Date(),
+    };
+
+    this.records.set(marketId, [...trials, record]);
+    await this.persist(marketId);
+    return record;
+  }
+
+  async update(
+    marketId: number,
+    trial: number,
+    patch: Partial<Pick<TranscriptRecord, "cid" | "txHash">>
+  ): Promise<TranscriptRecord> {
+    const record = this.records.get(marketId)?.find((r) => r.trial === trial);
+    if (!record) {
+      throw new Error(`No transcript record for market #${marketId} trial ${trial}`);
+    }
+
+    Object.assign(record, patch);
+    await this.persist(marketId);
+    return record;
+  }
+
+  async latest(marketId: number): Promise<TranscriptRecord | null> {
+    const trials = this.records.get(marketId);
+    return trials && trials.length > 0 ? trials[trials.length - 1] : null;
+  }
+
+  async history(marketId: number): Promise<TranscriptRecord[]> {
+    return [...(this.records.get(marketId) ?? [])];
+  }
+
+  /** Hook for subclasses — write one market's records to durable storage. */
+  protected async persist(_marketId: number): Promise<void> {
+    // Memory-only
+  }
+}
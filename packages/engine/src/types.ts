@@ -20,22 +20,47 @@ export interface MarketQuestion {
   rubric: ResolutionRubric;
   settlementDeadline: Date;
   metadata?: Record<string, string>;
+  /**
+   * Named outcomes of a categorical market ("which of these will
+   * happen"), in their onchain index order. Absent for a binary YES/NO
+   * question. Categorical questions are tried with runCategoricalTrial.
+   */
+  outcomes?: string[];
 }
 
 // ── Evidence ─────────────────────────────────────────────────────
 
+/* What the HTTP response behind an item looked like (see evidence/snapshot.ts) */
+export interface EvidenceResponseMeta {
+  status: number;
+  headers: Record<string, string>; // content-type, date, etag, last-modified, ...
+  byteLength: number;
+  bodyHash: string; // keccak256 of the raw body
+}
+
 export interface EvidenceItem {
   source: string;
   title: string;
   content: string;
   url?: string;
   retrievedAt: Date;
+  contentHash?: string; // keccak256 of content, stamped by gatherEvidence
+  response?: EvidenceResponseMeta; // absent for items not fetched over HTTP
 }
 
 export interface EvidenceBundle {
   questionId: string;
   items: EvidenceItem[];
   gatheredAt: Date;
+  merkleRoot?: string; // over every item; folded into the transcriptHash
+}
+
+// ── Prompts ──────────────────────────────────────────────────────
+
+/* Which prompt template produced an LLM output (see prompts/index.ts) */
+export interface PromptVersion {
+  id: string; // "<name>@<version>", e.g. "judge@v2"
+  hash: string; // keccak256 of the template text
 }
 
 // ── Advocate ─────────────────────────────────────────────────────
@@ -55,6 +80,27 @@ export interface AdvocateArgument {
   arguments: CriterionArgument[];
   weaknessesInOpposingCase: string[];
   model: string;
+  prompt?: PromptVersion; // absent in transcripts from before prompt versioning
+}
+
+/**
+ * An advocate in a categorical trial argues that one named outcome is
+ * the answer — the same shape as AdvocateArgument, with the outcome
+ * in place of a YES/NO side.
+ */
+export interface OutcomeArgument extends Omit<AdvocateArgument, "side"> {
+  outcome: string;
+}
+
+/**
+ * One round of a multi-round debate. Round 1 is the opening exchange;
+ * in later rounds each side has read the other's previous argument
+ * and writes a rebuttal.
+ */
+export interface DebateRound {
+  round: number; // 1-based
+  yes: AdvocateArgument;
+  no: AdvocateArgument;
 }
 
 // ── Judge ────────────────────────────────────────────────────────
@@ -66,14 +112,134 @@ export interface CriterionScore {
   reasoning: string;
 }
 
+/**
+ * What a judge can rule: one side wins, or the question itself is
+ * INVALID — ambiguous, unresolvable or malformed. That differs from a
+ * close call (which escalates): an INVALID market resolves with full
+ * refunds.
+ */
+export type RulingVerdict = Verdict | "INVALID";
+
 export interface JudgeRuling {
-  finalVerdict: Verdict;
+  finalVerdict: RulingVerdict;
   scoreYes: number; // aggregate 0-100
   scoreNo: number; // aggregate 0-100
   criterionScores: CriterionScore[];
   rulingText: string;
   hallucinationsDetected: string[];
   model: string;
+  prompt?: PromptVersion; // absent in transcripts from before prompt versioning
+}
+
+/** A judge's score (0-100) for one outcome of a categorical market. */
+export interface OutcomeScore {
+  outcome: string;
+  score: number;
+}
+
+/**
+ * The judge's ruling on a categorical market: every outcome scored
+ * against every criterion, then aggregated. finalOutcome is one of
+ * the market's outcomes, or INVALID as for binary markets.
+ */
+export interface CategoricalRuling {
+  finalOutcome: string;
+  outcomeScores: OutcomeScore[]; // aggregate 0-100, one per outcome
+  criterionScores: { criterion: string; scores: OutcomeScore[]; reasoning: string }[];
+  rulingText: string;
+  hallucinationsDetected: string[];
+  model: string;
+  prompt?: PromptVersion; // absent in transcripts from before prompt versioning
+}
+
+// ── Judge Panel ──────────────────────────────────────────────────
+
+/**
+ * How per-judge scores are combined into the composite ruling.
+ *   "median"       — middle value (mean of the two middle values for even N)
+ *   "trimmed-mean" — mean after dropping the single highest and lowest
+ *                    score (plain mean for panels smaller than 3)
+ */
+export type PanelAggregation = "median" | "trimmed-mean";
+
+export interface JudgePanelResult {
+  aggregation: PanelAggregation;
+  rulings: JudgeRuling[]; // one independent ruling per judge, in panel order
+  verdictsAgree: boolean; // true when every judge reached the same finalVerdict
+}
+
+// ── Citation Check ───────────────────────────────────────────────
+
+export interface UnmatchedCitation {
+  criterion: string;
+  citation: string; // as the advocate wrote it
+  round?: number; // set for multi-round debates
+}
+
+/** Citations that matched no evidence item, per advocate. */
+export interface CitationReport {
+  totalCitations: number; // every citation checked, both sides, all rounds
+  yes: UnmatchedCitation[];
+  no: UnmatchedCitation[];
+}
+
+/** Citations that matched no evidence item, per outcome advocate. */
+export interface CategoricalCitationReport {
+  totalCitations: number;
+  byOutcome: Record<string, UnmatchedCitation[]>;
+}
+
+// ── LLM Call Audit ───────────────────────────────────────────────
+
+/**
+ * One attempt at getting schema-valid JSON out of an LLM.
+ *   "ok"           — valid as returned
+ *   "repaired"     — valid after stripping code fences / surrounding prose
+ *   "invalid-json" — not parseable even after repair; model re-prompted
+ *   "schema-error" — parsed but failed Zod validation; model re-prompted
+ */
+export interface LLMCallAttempt {
+  attempt: number; // 1-based
+  model: string;
+  outcome: "ok" | "repaired" | "invalid-json" | "schema-error";
+  error?: string; // parse error or Zod issues, for failed attempts
+  rawContent?: string; // the rejected response, for failed attempts
+}
+
+export interface LLMCallLog {
+  label: string; // e.g. "Advocate YES", "Judge 2/3"
+  attempts: LLMCallAttempt[];
+}
+
+// ── Usage & Cost ─────────────────────────────────────────────────
+
+/** Pipeline stages that call an LLM. "router" is the dynamic evidence router. */
+export type UsageStage = "router" | "advocate-yes" | "advocate-no" | "judge";
+
+export interface StageUsage {
+  calls: number; // LLM calls, retries and re-prompts included
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Spending cap for one trial. Whichever limit is set is enforced;
+ * onExceeded picks what happens:
+ *   "abort"    — stop at the next stage boundary and fail the trial
+ *   "escalate" — finish the trial but never auto-resolve it
+ */
+export interface TrialBudget {
+  maxUsd?: number;
+  maxTokens?: number; // input + output
+  onExceeded: "abort" | "escalate";
+}
+
+export interface TrialUsage {
+  byStage: Record<UsageStage, StageUsage>;
+  total: StageUsage;
+  unpricedModels: string[]; // models costed at $0 for lack of a price
+  budget?: { maxUsd?: number; maxTokens?: number; exceeded: boolean };
 }
 
 // ── Pipeline Output ──────────────────────────────────────────────
@@ -82,7 +248,18 @@ export type SettlementAction = "RESOLVE" | "ESCALATE";
 
 export interface SettlementDecision {
   action: SettlementAction;
-  verdict: Verdict | null; // null when escalated
+  verdict: RulingVerdict | null; // null when escalated
+  margin: number;
+  reason: string;
+}
+
+/**
+ * Settlement decision for a categorical market. margin is the gap
+ * between the top-scored outcome and the runner-up.
+ */
+export interface CategoricalDecision {
+  action: SettlementAction;
+  outcome: string | null; // winning outcome or "INVALID"; null when escalated
   margin: number;
   reason: string;
 }
@@ -90,14 +267,48 @@ export interface SettlementDecision {
 export interface TrialTranscript {
   question: MarketQuestion;
   evidence: EvidenceBundle;
-  advocateYes: AdvocateArgument;
-  advocateNo: AdvocateArgument;
-  judgeRuling: JudgeRuling;
+  advocateYes: AdvocateArgument; // final-round argument
+  advocateNo: AdvocateArgument; // final-round argument
+  debateRounds?: DebateRound[]; // every round, in order (multi-round debates only)
+  judgeRuling: JudgeRuling; // composite ruling when a judge panel is used
+  judgePanel?: JudgePanelResult; // per-judge breakdown (panel mode only)
+  citationReport: CitationReport; // deterministic citation check
+  llmCalls: LLMCallLog[]; // every structured LLM call and its attempts
+  usage: TrialUsage; // tokens and USD cost per stage
   decision: SettlementDecision;
   executedAt: Date;
   durationMs: number;
 }
 
+/**
+ * Transcript of a categorical trial: one advocate per outcome, in the
+ * question's outcome order.
+ */
+export interface CategoricalTranscript {
+  question: MarketQuestion;
+  evidence: EvidenceBundle;
+  advocates: OutcomeArgument[];
+  judgeRuling: CategoricalRuling;
+  citationReport: CategoricalCitationReport;
+  llmCalls: LLMCallLog[];
+  usage: TrialUsage;
+  decision: CategoricalDecision;
+  executedAt: Date;
+  durationMs: number;
+}
+
+/** Tells a stored categorical transcript from a binary one. */
+export function isCategoricalTranscript(
+  transcript: TrialTranscript | CategoricalTranscript
+): transcript is CategoricalTranscript {
+  return "advocates" in transcript;
+}
+
+/** The decided verdict (binary) or outcome (categorical); null when escalated. */
+export function decidedOutcome(transcript: TrialTranscript | CategoricalTranscript): string | null {
+  return isCategoricalTranscript(transcript) ? transcript.decision.outcome : transcript.decision.verdict;
+}
+
 // ── Zod Schemas (runtime validation of LLM JSON output) ─────────
 
 export const AdvocateArgumentSchema = z.object({
@@ -115,7 +326,7 @@ export const AdvocateArgumentSchema = z.object({
 });
 
 export const JudgeRulingSchema = z.object({
-  finalVerdict: z.enum(["YES", "NO"]),
+  finalVerdict: z.enum(["YES", "NO", "INVALID"]),
   scoreYes: z.number().min(0).max(100),
   scoreNo: z.number().min(0).max(100),
   criterionScores: z.array(
@@ -129,3 +340,72 @@ export const JudgeRulingSchema = z.object({
   rulingText: z.string(),
   hallucinationsDetected: z.array(z.string()),
 });
+
+export const OutcomeArgumentSchema = AdvocateArgumentSchema.omit({ side: true }).extend({
+  outcome: z.string(),
+});
+
+/**
+ * The categorical ruling schema depends on the market: finalOutcome
+ * must name one of its outcomes (or INVALID) and every outcome needs
+ * an aggregate score, so a judge that drops or renames one is
+ * re-prompted.
+ */
+export function categoricalRulingSchema(outcomes: string[]) {
+  const outcome = z.enum(outcomes as [string, ...string[]]);
+  const scores = z.array(z.object({ outcome, score: z.number().min(0).max(100) }));
+  return z.object({
+    finalOutcome: z.union([outcome, z.literal("INVALID")]),
+    outcomeScores: scores.refine(
+      (list) => outcomes.every((o) => list.some((s) => s.outcome === o)),
+      { message: "must score every outcome" }
+    ),
+    criterionScores: z.array(
+      z.object({
+        criterion: z.string(),
+        scores,
+        reasoning: z.string(),
+      })
+    ),
+    rulingText: z.string(),
+    hallucinationsDetected: z.array(z.string()),
+  });
+}
+
+// ── Progress Events ─────────────────────────────────────────────
+
+export type TrialStage = "evidence" | "advocates" | "judge" | "decision" | "complete";
+
+/** Fields every progress event carries. */
+interface TrialEventBase {
+  stage: TrialStage;
+  message: string; // human-readable, same text onProgress receives
+  timestamp: number; // epoch ms
+  elapsedMs: number; // since the trial started
+}
+
+/**
+ * Typed progress events emitted by runTrial as each artifact becomes
+ * available — the evidence bundle, each advocate argument (per round,
+ * as soon as that advocate finishes), the ruling and the decision.
+ * A consumer that applies them in order can render the trial live.
+ * runCategoricalTrial emits the same lifecycle, with per-outcome
+ * artifacts in place of the YES/NO ones.
+ */
+export type TrialEvent = TrialEventBase &
+  (
+    | { type: "trial-started"; questionId: string; outcomes?: string[] } // outcomes: categorical markets only
+    | { type: "stage-started" }
+    | { type: "evidence-gathered"; evidence: EvidenceBundle }
+    | { type: "advocate-argued"; round: number; argument: AdvocateArgument }
+    | { type: "round-completed"; round: DebateRound }
+    | { type: "llm-retry"; log: LLMCallLog }
+    | { type: "judge-ruled"; ruling: JudgeRuling; judgePanel?: JudgePanelResult }
+    | { type: "decision-made"; decision: SettlementDecision }
+    // Categorical trials emit these in place of the three above
+    | { type: "outcome-argued"; argument: OutcomeArgument }
+    | { type: "outcomes-ruled"; ruling: CategoricalRuling }
+    | { type: "outcome-decided"; decision: CategoricalDecision }
+    | { type: "trial-completed"; transcript: TrialTranscript | CategoricalTranscript }
+    | { type: "trial-failed"; error: string; usage: TrialUsage } // spent before the failure
+  );
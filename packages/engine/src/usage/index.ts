@@ -0,0 +1,166 @@
+import type {
+  StageUsage,
+  TrialBudget,
+  TrialUsage,
+  UsageStage,
+} from "../types.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "../llm/index.js";
+import { MODEL_PRICING, priceFor } from "./pricing.js";
+import type { ModelPrice } from "./pricing.js";
+
+/**
+ * Token and cost accounting for a trial.
+ *
+ * Every LLMResponse carries token counts, but the pipeline stages only
+ * care about content. Rather than thread counts through every stage's
+ * return value, the pipeline wraps each client in a MeteredLLMClient
+ * tagged with its stage; the meter reports every call (retries and
+ * re-prompts included) to one UsageTracker per trial.
+ *
+ * Responses without an input/output split (custom clients) count all
+ * of tokensUsed as output — the pricier side, so budgets err toward
+ * stopping early rather than overspending.
+ */
+
+export { MODEL_PRICING, priceFor };
+export type { ModelPrice };
+
+export const USAGE_STAGES: UsageStage[] = ["router", "advocate-yes", "advocate-no", "judge"];
+
+export class UsageTracker {
+  private byStage = emptyStages();
+  private unpriced = new Set<string>();
+
+  constructor(private pricing: Record<string, ModelPrice> = MODEL_PRICING) {}
+
+  record(stage: UsageStage, response: LLMResponse): void {
+    const split = response.inputTokens !== undefined || response.outputTokens !== undefined;
+    const inputTokens = split ? response.inputTokens ?? 0 : 0;
+    const outputTokens = split ? response.outputTokens ?? 0 : response.tokensUsed;
+
+    const price = priceFor(response.model, this.pricing);
+    if (!price) this.unpriced.add(response.model);
+
+    const entry = this.byStage[stage];
+    entry.calls++;
+    entry.inputTokens += inputTokens;
+    entry.outputTokens += outputTokens;
+    entry.costUsd +=
+      price
+        ? (inputTokens * price.inputPerMTok + outputTokens * price.outputPerMTok) / 1_000_000
+        : 0;
+  }
+
+  snapshot(): TrialUsage {
+    const byStage = Object.fromEntries(
+      USAGE_STAGES.map((stage) => [stage, { ...this.byStage[stage] }])
+    ) as Record<UsageStage, StageUsage>;
+
+    return {
+      byStage,
+      total: sumStages(Object.values(byStage)),
+      unpricedModels: [...this.unpriced],
+    };
+  }
+
+  /** Why the budget is exceeded, or null if it isn't. */
+  overBudget(budget: TrialBudget): string | null {
+    const { total } = this.snapshot();
+    const tokens = total.inputTokens + total.outputTokens;
+
+    if (budget.maxUsd !== undefined && total.costUsd > budget.maxUsd) {
+      return `cost $${total.costUsd.toFixed(4)} exceeds budget $${budget.maxUsd}`;
+    }
+    if (budget.maxTokens !== undefined && tokens > budget.maxTokens) {
+      return `${tokens} tokens exceed budget of ${budget.maxTokens}`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Reads a trial budget from environment variables:
+ *   TRIAL_BUDGET_USD, TRIAL_BUDGET_TOKENS — limits (either or both)
+ *   TRIAL_BUDGET_ON_EXCEEDED — "escalate" (default) or "abort"
+ * Returns undefined when neither limit is set.
+ */
+export function parseTrialBudget(
+  env: Record<string, string | undefined>
+): TrialBudget | undefined {
+  const maxUsd = env.TRIAL_BUDGET_USD ? parseFloat(env.TRIAL_BUDGET_USD) : undefined;
+  const maxTokens = env.TRIAL_BUDGET_TOKENS ? parseInt(env.TRIAL_BUDGET_TOKENS, 10) : undefined;
+  if (maxUsd === undefined && maxTokens === undefined) return undefined;
+
+  const mode = env.TRIAL_BUDGET_ON_EXCEEDED || "escalate";
+  if (mode !== "abort" && mode !== "escalate") {
+    throw new Error(`TRIAL_BUDGET_ON_EXCEEDED must be "abort" or "escalate", got "${mode}"`);
+  }
+
+  return { maxUsd, maxTokens, onExceeded: mode };
+}
+
+/** LLMClient decorator that reports every response to a UsageTracker. */
+export class MeteredLLMClient implements LLMClient {
+  constructor(
+    private inner: LLMClient,
+    private tracker: UsageTracker,
+    private stage: UsageStage
+  ) {}
+
+  async call(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.call(request);
+    this.tracker.record(this.stage, response);
+    return response;
+  }
+}
+
+/** Running totals across many trials — backs GET /api/health. */
+export interface UsageAggregate {
+  trials: number; // finished or failed
+  byStage: Record<UsageStage, StageUsage>;
+  total: StageUsage;
+  budgetExceeded: number; // trials that went over their budget
+}
+
+export function emptyUsageAggregate(): UsageAggregate {
+  return { trials: 0, byStage: emptyStages(), total: emptyStage(), budgetExceeded: 0 };
+}
+
+/** Pure — returns a new aggregate with the trial's usage added. */
+export function addTrialUsage(aggregate: UsageAggregate, usage: TrialUsage): UsageAggregate {
+  const byStage = Object.fromEntries(
+    USAGE_STAGES.map((stage) => [
+      stage,
+      sumStages([aggregate.byStage[stage], usage.byStage[stage]]),
+    ])
+  ) as Record<UsageStage, StageUsage>;
+
+  return {
+    trials: aggregate.trials + 1,
+    byStage,
+    total: sumStages([aggregate.total, usage.total]),
+    budgetExceeded: aggregate.budgetExceeded + (usage.budget?.exceeded ? 1 : 0),
+  };
+}
+
+function emptyStage(): StageUsage {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function emptyStages(): Record<UsageStage, StageUsage> {
+  return Object.fromEntries(
+    USAGE_STAGES.map((stage) => [stage, emptyStage()])
+  ) as Record<UsageStage, StageUsage>;
+}
+
+function sumStages(stages: StageUsage[]): StageUsage {
+  return stages.reduce(
+    (sum, s) => ({
+      calls: sum.calls + s.calls,
+      inputTokens: sum.inputTokens + s.inputTokens,
+      outputTokens: sum.outputTokens + s.outputTokens,
+      costUsd: sum.costUsd + s.costUsd,
+    }),
+    emptyStage()
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Model pricing in USD per million tokens.
+ *
+ * Providers return dated model ids ("claude-sonnet-4-20250514",
+ * "gpt-4o-2024-08-06"), so entries are matched by prefix and the
+ * longest matching prefix wins — "gpt-4o-mini" is not priced as
+ * "gpt-4o".
+ *
+ * Prices change; this table is a best-effort estimate for budgeting
+ * and reporting, not billing. Models missing from it are costed at $0
+ * and listed in TrialUsage.unpricedModels so the gap is visible.
+ */
+export interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  "claude-opus-4": { inputPerMTok: 15, outputPerMTok: 75 },
+  "claude-sonnet-4": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-3-7-sonnet": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-3-5-sonnet": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-3-5-haiku": { inputPerMTok: 0.8, outputPerMTok: 4 },
+  "gpt-4o": { inputPerMTok: 2.5, outputPerMTok: 10 },
+  "gpt-4o-mini": { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  "gpt-4.1": { inputPerMTok: 2, outputPerMTok: 8 },
+  "gpt-4.1-mini": { inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  "mock-model": { inputPerMTok: 0, outputPerMTok: 0 },
+};
+
+/** Price for a model id, or null if no table entry matches. */
+export function priceFor(
+  model: string,
+  pricing: Record<string, ModelPrice> = MODEL_PRICING
+): ModelPrice | null {
+  const match = Object.keys(pricing)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? pricing[match] : null;
+}
@@ -0,0 +1,72 @@
+import { isAwaitingVerdict } from "../indexer/index.js";
+import type { IndexedMarket } from "../indexer/index.js";
+
+/**
+ * A Chainlink Functions trial request the DON hasn't fulfilled yet —
+ * the market emitted TrialRequested but is still SettlementRequested
+ * (or Appealed, for an appeal retrial).
+ */
+export interface PendingTrialRequest {
+  marketId: number;
+  requestId: string;
+  requestedAt: Date;
+  /** When the watchdog gives up on the DON and tries the market locally */
+  expiresAt: Date;
+  overdue: boolean;
+  /** Local trial job started after the timeout, if any */
+  fallbackJobId: string | null;
+}
+
+/**
+ * DON fulfillment watchdog.
+ *
+ * sendTrialRequest() only hands the trial to the DON; if the DON never
+ * calls back (subscription out of LINK, callback gas too low, DON
+ * outage) the market would sit in SettlementRequested forever. The
+ * watchdog derives the outstanding requests from the market indexer,
+ * times them from the TrialRequested block timestamp, and reports the
+ * ones past timeoutMs so the automation loop can run the trial locally.
+ *
+ * The contract ignores a DON callback that arrives after the market was
+ * settled another way, so a late fulfillment can't overwrite the local
+ * result.
+ */
+export class FulfillmentWatchdog {
+  /* requestId → local fallback job ID */
+  private fallbacks = new Map<string, string>();
+
+  constructor(readonly timeoutMs: number) {
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(`DON fulfillment timeout must be positive, got ${timeoutMs}`);
+    }
+  }
+
+  /** Outstanding DON requests, oldest first. */
+  pending(markets: IndexedMarket[], now: Date = new Date()): PendingTrialRequest[] {
+    return markets
+      .filter(
+        (m): m is IndexedMarket & { trialRequestId: string; trialRequestedAt: number } =>
+          isAwaitingVerdict(m.status) &&
+          m.trialRequestId !== null &&
+          m.trialRequestedAt !== null
+      )
+      .map((m) => {
+        const requestedAt = new Date(m.trialRequestedAt * 1000);
+        const expiresAt = new Date(requestedAt.getTime() + this.timeoutMs);
+        return {
+          marketId: m.marketId,
+          requestId: m.trialRequestId,
+          requestedAt,
+          expiresAt,
+          overdue: now >= expiresAt,
+          fallbackJobId: this.fallbacks.get(m.trialRequestId) ?? null,
+        };
+      })
+      .sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime());
+  }
+
+  /** Remember the local job started for a timed-out request. */
+  recordFallback(requestId: string, jobId: string): void {
+    this.fallbacks.set(requestId, jobId);
+  }
+}
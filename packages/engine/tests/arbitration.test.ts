@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { parseArbitrationArgs, voteBlocker } from "../src/settlement/arbitration.js";
+import type { ArbitrationStatus } from "../src/settlement/arbitration.js";
+
+/**
+ * Tests for the arbitration CLI helpers — argument parsing and the
+ * pre-flight checks that mirror castArbitrationVote()'s requires.
+ */
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+function status(overrides: Partial<ArbitrationStatus> = {}): ArbitrationStatus {
+  return {
+    marketId: 3,
+    question: "Close call?",
+    escalated: true,
+    transcriptCid: "QmTranscript",
+    opensAt: at(1_000),
+    closesAt: at(2_000),
+    quorum: 2,
+    refundsStarted: false,
+    yesVotes: 1,
+    noVotes: 0,
+    myVote: null,
+    isArbitrator: true,
+    ...overrides,
+  };
+}
+
+describe("parseArbitrationArgs", () => {
+  it("reads a market ID and an optional vote", () => {
+    expect(parseArbitrationArgs(["3"])).toEqual({ marketId: 3, vote: null });
+    expect(parseArbitrationArgs(["3", "no"])).toEqual({ marketId: 3, vote: "NO" });
+  });
+
+  it("rejects a missing or malformed market ID and unknown votes", () => {
+    expect(() => parseArbitrationArgs([])).toThrow("Usage");
+    expect(() => parseArbitrationArgs(["-1"])).toThrow("Usage");
+    expect(() => parseArbitrationArgs(["3", "maybe"])).toThrow('"yes" or "no"');
+  });
+});
+
+describe("voteBlocker", () => {
+  it("allows a vote inside the window", () => {
+    expect(voteBlocker(status(), at(1_500))).toBeNull();
+  });
+
+  it("explains why a vote would revert", () => {
+    expect(voteBlocker(status({ isArbitrator: false }), at(1_500))).toMatch("not a registered arbitrator");
+    expect(voteBlocker(status({ myVote: "YES" }), at(1_500))).toBe("Already voted YES");
+    expect(voteBlocker(status({ quorum: 0 }), at(1_500))).toMatch("disabled (quorum 0) when this market escalated");
+    expect(voteBlocker(status({ refundsStarted: true }), at(1_500))).toBe("Refunds have already been paid");
+    expect(voteBlocker(status(), at(999))).toMatch("Voting opens");
+    expect(voteBlocker(status(), at(2_000))).toMatch("Voting closed");
+  });
+});
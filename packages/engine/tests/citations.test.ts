@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { verifyCitations, verifyOutcomeCitations } from "../src/pipeline/citations.js";
+import type {
+  AdvocateArgument,
+  EvidenceBundle,
+  Verdict,
+} from "../src/types.js";
+
+/**
+ * Tests for the deterministic citation verifier.
+ */
+
+const evidence: EvidenceBundle = {
+  questionId: "citations-001",
+  items: [
+    {
+      source: "treasury",
+      title: "US Treasury: Daily Yield Curve Rates",
+      content: "...",
+      retrievedAt: new Date(),
+    },
+    {
+      source: "newsapi",
+      title: "CoinDesk: ETH Staking vs. Treasury Yields Analysis",
+      content: "...",
+      retrievedAt: new Date(),
+    },
+  ],
+  gatheredAt: new Date(),
+};
+
+function makeArgument(side: Verdict, citations: string[]): AdvocateArgument {
+  return {
+    side,
+    confidence: 60,
+    arguments: [
+      { criterion: "Data accuracy", claim: "...", evidenceCitations: citations, strength: 60 },
+    ],
+    weaknessesInOpposingCase: [],
+    model: "test",
+  };
+}
+
+describe("verifyCitations", () => {
+  it("accepts exact titles and formatting variants", () => {
+    const report = verifyCitations(
+      evidence,
+      makeArgument("YES", [
+        "US Treasury: Daily Yield Curve Rates",
+        "us treasury — daily yield curve rates",
+        "[treasury] US Treasury: Daily Yield Curve Rates",
+        "Evidence Item 2: CoinDesk ETH Staking vs Treasury Yields Analysis",
+      ]),
+      makeArgument("NO", ["CoinDesk: ETH Staking vs Treasury Yields"])
+    );
+
+    expect(report.totalCitations).toBe(5);
+    expect(report.yes).toEqual([]);
+    expect(report.no).toEqual([]);
+  });
+
+  it("reports fabricated citations per advocate", () => {
+    const report = verifyCitations(
+      evidence,
+      makeArgument("YES", ["US Treasury: Daily Yield Curve Rates"]),
+      makeArgument("NO", ["Beacon Chain: Validator Penalty Statistics"])
+    );
+
+    expect(report.yes).toEqual([]);
+    expect(report.no).toEqual([
+      { criterion: "Data accuracy", citation: "Beacon Chain: Validator Penalty Statistics" },
+    ]);
+  });
+
+  it("rejects vague fragments and look-alike titles", () => {
+    const report = verifyCitations(
+      evidence,
+      makeArgument("YES", ["Treasury", "US Treasury: Monthly Yield Curve Forecast"]),
+      makeArgument("NO", [])
+    );
+
+    expect(report.yes.map((c) => c.citation)).toEqual([
+      "Treasury",
+      "US Treasury: Monthly Yield Curve Forecast",
+    ]);
+  });
+
+  it("checks every round of a multi-round debate", () => {
+    const opening = {
+      round: 1,
+      yes: makeArgument("YES", ["US Treasury: Daily Yield Curve Rates"]),
+      no: makeArgument("NO", ["Made-up Report"]),
+    };
+    const rebuttal = {
+      round: 2,
+      yes: makeArgument("YES", ["US Treasury: Daily Yield Curve Rates"]),
+      no: makeArgument("NO", ["CoinDesk: ETH Staking vs. Treasury Yields Analysis"]),
+    };
+
+    const report = verifyCitations(evidence, rebuttal.yes, rebuttal.no, [opening, rebuttal]);
+
+    expect(report.totalCitations).toBe(4);
+    expect(report.no).toEqual([
+      { criterion: "Data accuracy", citation: "Made-up Report", round: 1 },
+    ]);
+  });
+
+  it("reports unmatched citations per outcome in a categorical trial", () => {
+    const { side: _a, ...teamA } = makeArgument("YES", ["US Treasury: Daily Yield Curve Rates"]);
+    const { side: _b, ...teamB } = makeArgument("NO", ["Made-up Report"]);
+
+    const report = verifyOutcomeCitations(evidence, [
+      { ...teamA, outcome: "Team A" },
+      { ...teamB, outcome: "Team B" },
+    ]);
+
+    expect(report.totalCitations).toBe(2);
+    expect(report.byOutcome).toEqual({
+      "Team A": [],
+      "Team B": [{ criterion: "Data accuracy", citation: "Made-up Report" }],
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { evaluateConfidence } from "../src/pipeline/confidence.js";
-import type { JudgeRuling, ResolutionRubric } from "../src/types.js";
+import { evaluateCategoricalConfidence, evaluateConfidence } from "../src/pipeline/confidence.js";
+import type { CategoricalRuling, JudgeRuling, ResolutionRubric } from "../src/types.js";
 
 /**
  * Tests for the confidence checker — the pure logic that decides
@@ -92,6 +92,61 @@ describe("evaluateConfidence", () => {
     expect(result2.action).toBe("ESCALATE");
   });
 
+  it("escalates on unmatched citations even when the judge found none", () => {
+    const citations = {
+      totalCitations: 4,
+      yes: [],
+      no: [{ criterion: "Test criterion", citation: "Fabricated Report" }],
+    };
+    const result = evaluateConfidence(makeRuling(), baseRubric, undefined, citations);
+
+    expect(result.action).toBe("ESCALATE");
+    expect(result.verdict).toBeNull();
+    expect(result.reason).toContain('NO advocate cited "Fabricated Report"');
+  });
+
+  it("resolves when every citation was matched", () => {
+    const citations = { totalCitations: 4, yes: [], no: [] };
+    const result = evaluateConfidence(makeRuling(), baseRubric, undefined, citations);
+
+    expect(result.action).toBe("RESOLVE");
+  });
+
+  it("escalates when a judge panel splits on the verdict", () => {
+    // Composite margin 35 would resolve, but one judge ruled NO
+    const panel = {
+      aggregation: "median" as const,
+      rulings: [
+        makeRuling({ model: "judge-a" }),
+        makeRuling({ model: "judge-b", finalVerdict: "NO" }),
+      ],
+      verdictsAgree: false,
+    };
+    const result = evaluateConfidence(makeRuling(), baseRubric, panel);
+
+    expect(result.action).toBe("ESCALATE");
+    expect(result.verdict).toBeNull();
+    expect(result.reason).toContain("Judge panel split");
+  });
+
+  it("resolves as INVALID regardless of the margin", () => {
+    // Scores 50 vs 50 would escalate, but an unanswerable question isn't a close call
+    const ruling = makeRuling({ finalVerdict: "INVALID", scoreYes: 50, scoreNo: 50 });
+    const result = evaluateConfidence(ruling, baseRubric);
+
+    expect(result.action).toBe("RESOLVE");
+    expect(result.verdict).toBe("INVALID");
+    expect(result.reason).toContain("invalid");
+  });
+
+  it("escalates an INVALID ruling with hallucinations", () => {
+    const ruling = makeRuling({ finalVerdict: "INVALID", hallucinationsDetected: ["Fake source"] });
+    const result = evaluateConfidence(ruling, baseRubric);
+
+    expect(result.action).toBe("ESCALATE");
+    expect(result.verdict).toBeNull();
+  });
+
   it("escalates at exact threshold boundary (not >=, strictly <)", () => {
     // Margin exactly 20 with threshold 20 → should still ESCALATE
     // because we use < not <=, the margin must EXCEED the threshold
@@ -102,3 +157,61 @@ describe("evaluateConfidence", () => {
     expect(result.action).toBe("RESOLVE");
   });
 });
+
+describe("evaluateCategoricalConfidence", () => {
+  function makeCategoricalRuling(overrides: Partial<CategoricalRuling> = {}): CategoricalRuling {
+    return {
+      finalOutcome: "Team A",
+      outcomeScores: [
+        { outcome: "Team A", score: 80 },
+        { outcome: "Team B", score: 55 },
+        { outcome: "Team C", score: 20 },
+      ],
+      criterionScores: [],
+      rulingText: "Team A is best supported.",
+      hallucinationsDetected: [],
+      model: "test-model",
+      ...overrides,
+    };
+  }
+
+  it("resolves when the top outcome leads the runner-up by the threshold", () => {
+    const result = evaluateCategoricalConfidence(makeCategoricalRuling(), baseRubric);
+
+    expect(result).toMatchObject({ action: "RESOLVE", outcome: "Team A", margin: 25 });
+  });
+
+  it("measures the margin against the runner-up, not the weakest outcome", () => {
+    const ruling = makeCategoricalRuling({
+      outcomeScores: [
+        { outcome: "Team C", score: 10 },
+        { outcome: "Team A", score: 80 },
+        { outcome: "Team B", score: 70 },
+      ],
+    });
+    const result = evaluateCategoricalConfidence(ruling, baseRubric);
+
+    expect(result.action).toBe("ESCALATE");
+    expect(result.margin).toBe(10);
+    expect(result.reason).toContain('"Team B"');
+  });
+
+  it("escalates when the verdict contradicts the judge's own scores", () => {
+    const ruling = makeCategoricalRuling({ finalOutcome: "Team B" });
+    const result = evaluateCategoricalConfidence(ruling, baseRubric);
+
+    expect(result.action).toBe("ESCALATE");
+    expect(result.outcome).toBeNull();
+  });
+
+  it("resolves as INVALID, but not over unmatched citations", () => {
+    const ruling = makeCategoricalRuling({ finalOutcome: "INVALID" });
+
+    expect(evaluateCategoricalConfidence(ruling, baseRubric).outcome).toBe("INVALID");
+    const citations = {
+      totalCitations: 1,
+      byOutcome: { "Team A": [], "Team B": [{ criterion: "Test criterion", citation: "Fake" }] },
+    };
+    expect(evaluateCategoricalConfidence(ruling, baseRubric, citations).action).toBe("ESCALATE");
+  });
+});
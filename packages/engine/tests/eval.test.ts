@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  formatEvalMarkdown,
+  loadEvalDataset,
+  parseEvalConfigs,
+  runEval,
+  summarizeEval,
+} from "../src/eval/index.js";
+import type { EvalCaseResult, EvalModelConfig } from "../src/eval/index.js";
+import { FileEvidenceSource } from "../src/evidence/index.js";
+import { MockLLMClient } from "../src/llm/mock.js";
+import type { LLMClient, LLMResponse } from "../src/llm/index.js";
+import type { MarketQuestion } from "../src/types.js";
+
+/**
+ * Tests for the offline eval harness: fixture evidence, dataset
+ * loading, metrics and the report.
+ */
+
+const SAMPLE = fileURLToPath(new URL("../eval/sample/dataset.json", import.meta.url));
+
+class FailingClient implements LLMClient {
+  async call(): Promise<LLMResponse> {
+    throw new Error("LLM unavailable");
+  }
+}
+
+const mockConfig = (name: string, scenario: "clear" | "close"): EvalModelConfig => ({
+  name,
+  pipeline: {
+    advocateYesClient: new MockLLMClient(scenario),
+    advocateNoClient: new MockLLMClient(scenario),
+    judgeClient: new MockLLMClient(scenario),
+  },
+});
+
+const result = (overrides: Partial<EvalCaseResult>): EvalCaseResult => ({
+  caseId: "case",
+  expected: "YES",
+  verdict: "YES",
+  action: "RESOLVE",
+  margin: 30,
+  correct: true,
+  hallucinated: false,
+  costUsd: 0.01,
+  durationMs: 10,
+  ...overrides,
+});
+
+describe("FileEvidenceSource", () => {
+  it("reads an item list or a whole bundle, reviving dates", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "evidence-"));
+    const item = { source: "treasury", title: "Rates", content: "3.9%", retrievedAt: "2026-01-31T00:00:00.000Z" };
+    await writeFile(path.join(dir, "a.json"), JSON.stringify([item]));
+    await writeFile(path.join(dir, "b.json"), JSON.stringify({ questionId: "b", items: [item], gatheredAt: item.retrievedAt }));
+    const source = new FileEvidenceSource(dir);
+
+    const [a] = await source.fetch({ id: "a" } as MarketQuestion);
+    const [b] = await source.fetch({ id: "b" } as MarketQuestion);
+
+    expect(a.retrievedAt).toEqual(new Date("2026-01-31T00:00:00Z"));
+    expect(b).toEqual(a);
+  });
+
+  it("throws for a question without a fixture", async () => {
+    const source = new FileEvidenceSource(await mkdtemp(path.join(tmpdir(), "evidence-")));
+
+    await expect(source.fetch({ id: "missing" } as MarketQuestion)).rejects.toThrow("ENOENT");
+  });
+});
+
+describe("loadEvalDataset", () => {
+  it("loads the sample dataset with the shared rubric", async () => {
+    const dataset = await loadEvalDataset(SAMPLE);
+
+    expect(dataset.cases).toHaveLength(2);
+    expect(dataset.cases[0].question.settlementDeadline).toBeInstanceOf(Date);
+    expect(dataset.cases[0].question.rubric.confidenceThreshold).toBe(20);
+    expect(dataset.evidenceDir).toBe(path.join(path.dirname(SAMPLE), "evidence"));
+  });
+
+  it("rejects a dataset with cases that have no evidence", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "dataset-"));
+    const file = path.join(dir, "dataset.json");
+    await writeFile(
+      file,
+      JSON.stringify({
+        name: "gaps",
+        rubric: { criteria: [{ name: "Accuracy", description: "", weight: 100 }], confidenceThreshold: 20 },
+        cases: [{ id: "q1", question: "Q?", expected: "NO", settlementDeadline: "2026-01-01T00:00:00Z" }],
+      })
+    );
+
+    await expect(loadEvalDataset(file)).rejects.toThrow("No evidence file");
+  });
+});
+
+describe("runEval", () => {
+  it("scores every case under every configuration", async () => {
+    const dataset = await loadEvalDataset(SAMPLE);
+    dataset.cases[1].expected = "NO";
+    const seen: string[] = [];
+
+    const report = await runEval(dataset, [mockConfig("clear", "clear"), mockConfig("close", "close")], {
+      onCase: (config, r) => seen.push(`${config}:${r.caseId}`),
+    });
+
+    expect(seen).toHaveLength(4);
+    const [clear, close] = report.configs;
+    expect(clear.prompts).toEqual(["advocate@v1", "judge@v1"]);
+    expect(clear.metrics).toMatchObject({ cases: 2, completed: 2, accuracy: 0.5, escalationRate: 1 });
+    expect(close.results.map((r) => r.margin)).toEqual([4, 4]);
+    expect(close.metrics.calibration[0]).toMatchObject({ minMargin: 0, maxMargin: 10, trials: 2, correct: 1 });
+  });
+
+  it("counts a trial that throws as failed instead of aborting", async () => {
+    const dataset = await loadEvalDataset(SAMPLE);
+    const broken: EvalModelConfig = {
+      name: "broken",
+      pipeline: { ...mockConfig("broken", "clear").pipeline, judgeClient: new FailingClient(), maxOutputAttempts: 1 },
+    };
+
+    const [report] = (await runEval(dataset, [broken])).configs;
+
+    expect(report.metrics).toMatchObject({ cases: 2, completed: 0, failed: 2, accuracy: null });
+    expect(report.results[0].error).toContain("LLM unavailable");
+  });
+});
+
+describe("summarizeEval", () => {
+  it("separates resolved accuracy from overall accuracy", () => {
+    const metrics = summarizeEval([
+      result({ margin: 55 }),
+      result({ margin: 25, verdict: "NO", correct: false }),
+      result({ action: "ESCALATE", margin: 5, hallucinated: true }),
+      result({ action: "ESCALATE", margin: 12, verdict: "NO", correct: false }),
+    ]);
+
+    expect(metrics.accuracy).toBe(0.5);
+    expect(metrics.resolvedAccuracy).toBe(0.5);
+    expect(metrics.escalationRate).toBe(0.5);
+    expect(metrics.hallucinationRate).toBe(0.25);
+    expect(metrics.totalCostUsd).toBeCloseTo(0.04);
+    expect(metrics.calibration.map((b) => [b.trials, b.accuracy])).toEqual([
+      [1, 1],
+      [1, 0],
+      [1, 0],
+      [0, null],
+      [1, 1],
+    ]);
+  });
+});
+
+describe("parseEvalConfigs", () => {
+  it("accepts one provider or yes/no/judge providers per config", () => {
+    expect(parseEvalConfigs("mock, anthropic/openai/openai")).toEqual([
+      { name: "mock", yes: "mock", no: "mock", judge: "mock" },
+      { name: "anthropic/openai/openai", yes: "anthropic", no: "openai", judge: "openai" },
+    ]);
+  });
+
+  it("rejects two-role configs and unknown providers", () => {
+    expect(() => parseEvalConfigs("anthropic/openai")).toThrow("one provider or three");
+    expect(() => parseEvalConfigs("gemini")).toThrow('Unknown LLM provider "gemini"');
+  });
+});
+
+describe("formatEvalMarkdown", () => {
+  it("renders a summary row per configuration and flags failures", () => {
+    const markdown = formatEvalMarkdown({
+      dataset: "demo",
+      generatedAt: "2026-02-01T00:00:00.000Z",
+      configs: [
+        {
+          config: "mock",
+          prompts: ["judge@v1"],
+          metrics: summarizeEval([result({}), result({ caseId: "bad", error: "timeout | retry" })]),
+          results: [result({}), result({ caseId: "bad", error: "timeout | retry" })],
+        },
+      ],
+    });
+
+    expect(markdown).toContain("| mock | judge@v1 | 100.0% | 100.0% | 0.0% | 0.0% | 1/2 | $0.0200 |");
+    expect(markdown).toContain("| bad | YES | FAILED: timeout \\| retry |");
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { TrialEventHub } from "../src/events/index.js";
+import { UsageTracker } from "../src/usage/index.js";
+import type { TrialEvent } from "../src/types.js";
+
+/**
+ * Tests for the per-market event hub behind the SSE endpoint.
+ */
+
+function event(type: "trial-started" | "stage-started" | "trial-failed"): TrialEvent {
+  const base = { stage: "evidence" as const, message: type, timestamp: 0, elapsedMs: 0 };
+  if (type === "trial-started") return { ...base, type, questionId: "market-1" };
+  if (type === "trial-failed") return { ...base, type, error: "boom", usage: new UsageTracker().snapshot() };
+  return { ...base, type };
+}
+
+describe("TrialEventHub", () => {
+  it("delivers events only to the market's subscribers", () => {
+    const hub = new TrialEventHub();
+    const one: TrialEvent[] = [];
+    const two: TrialEvent[] = [];
+    hub.subscribe(1, (e) => one.push(e));
+    hub.subscribe(2, (e) => two.push(e));
+
+    hub.publish(1, event("trial-started"));
+
+    expect(one).toHaveLength(1);
+    expect(two).toHaveLength(0);
+  });
+
+  it("replays a running trial to a late subscriber", () => {
+    const hub = new TrialEventHub();
+    hub.publish(1, event("trial-started"));
+    hub.publish(1, event("stage-started"));
+
+    const received: TrialEvent[] = [];
+    hub.subscribe(1, (e) => received.push(e));
+
+    expect(received.map((e) => e.type)).toEqual(["trial-started", "stage-started"]);
+    expect(hub.isRunning(1)).toBe(true);
+  });
+
+  it("drops the replay buffer once the trial ends", () => {
+    const hub = new TrialEventHub();
+    hub.publish(1, event("trial-started"));
+    hub.publish(1, event("trial-failed"));
+
+    const received: TrialEvent[] = [];
+    hub.subscribe(1, (e) => received.push(e));
+
+    expect(received).toHaveLength(0);
+    expect(hub.isRunning(1)).toBe(false);
+  });
+
+  it("stops delivering after unsubscribe", () => {
+    const hub = new TrialEventHub();
+    const received: TrialEvent[] = [];
+    const unsubscribe = hub.subscribe(1, (e) => received.push(e));
+
+    unsubscribe();
+    hub.publish(1, event("trial-started"));
+
+    expect(received).toHaveLength(0);
+  });
+});
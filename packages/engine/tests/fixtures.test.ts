@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readdir, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { runTrial } from "../src/pipeline/index.js";
+import type { PipelineConfig } from "../src/pipeline/index.js";
+import {
+  fixtureKey,
+  LLMFixtureMissError,
+  PlaybackLLMClient,
+  RecordingLLMClient,
+} from "../src/llm/index.js";
+import type { LLMClient, LLMFixture, LLMRequest, LLMResponse } from "../src/llm/index.js";
+import { MockLLMClient } from "../src/llm/mock.js";
+import { MockEvidenceSource } from "../src/evidence/mock.js";
+import type { MarketQuestion } from "../src/types.js";
+
+/**
+ * Tests for the record-and-playback clients: fixtures are written per
+ * prompt, played back offline, and a prompt nobody recorded fails.
+ */
+
+const question: MarketQuestion = {
+  id: "fixture-001",
+  question: "Did ETH staking yields consistently outperform US Treasury rates in January 2026?",
+  rubric: {
+    criteria: [
+      { name: "Data accuracy", description: "Are the cited numbers verifiable?", weight: 50 },
+      { name: "Logical coherence", description: "Is the argument consistent?", weight: 50 },
+    ],
+    evidenceSources: ["mock"],
+    confidenceThreshold: 20,
+  },
+  settlementDeadline: new Date("2026-02-01T00:00:00Z"),
+};
+
+const request: LLMRequest = { systemPrompt: "You are a judge.", userPrompt: "Score this.", maxTokens: 100 };
+
+/* Client that counts its calls and echoes the user prompt */
+class CountingClient implements LLMClient {
+  calls = 0;
+
+  async call(req: LLMRequest): Promise<LLMResponse> {
+    this.calls++;
+    return { content: `echo: ${req.userPrompt}`, model: "counting", tokensUsed: 7 };
+  }
+}
+
+const fixtureDir = () => mkdtemp(path.join(tmpdir(), "llm-fixtures-"));
+
+const config = (client: (role: string) => LLMClient): PipelineConfig => ({
+  evidenceSources: [new MockEvidenceSource()],
+  advocateYesClient: client("yes"),
+  advocateNoClient: client("no"),
+  judgeClient: client("judge"),
+});
+
+describe("fixtureKey", () => {
+  it("depends on both prompts and nothing else", () => {
+    expect(fixtureKey(request)).toMatch(/^[0-9a-f]{64}$/);
+    expect(fixtureKey({ ...request, maxTokens: 5, temperature: 1 })).toBe(fixtureKey(request));
+    expect(fixtureKey({ ...request, userPrompt: "Score that." })).not.toBe(fixtureKey(request));
+    expect(fixtureKey({ systemPrompt: "ab", userPrompt: "c" })).not.toBe(
+      fixtureKey({ systemPrompt: "a", userPrompt: "bc" })
+    );
+  });
+});
+
+describe("RecordingLLMClient", () => {
+  it("passes the response through and writes one fixture per prompt", async () => {
+    const dir = await fixtureDir();
+    const client = new RecordingLLMClient(new CountingClient(), dir);
+
+    const response = await client.call(request);
+
+    expect(response.content).toBe("echo: Score this.");
+    expect(await readdir(dir)).toEqual([`${fixtureKey(request)}.json`]);
+    const fixture = JSON.parse(await readFile(path.join(dir, `${fixtureKey(request)}.json`), "utf-8")) as LLMFixture;
+    expect(fixture.request).toEqual(request);
+    expect(fixture.response).toEqual(response);
+  });
+
+  it("records identical prompts concurrently without clobbering the write", async () => {
+    const dir = await fixtureDir();
+    const client = new RecordingLLMClient(new CountingClient(), dir);
+
+    await Promise.all(Array.from({ length: 5 }, () => client.call(request)));
+
+    expect(await readdir(dir)).toEqual([`${fixtureKey(request)}.json`]);
+  });
+});
+
+describe("PlaybackLLMClient", () => {
+  it("serves recorded responses without calling a model", async () => {
+    const dir = await fixtureDir();
+    const live = new CountingClient();
+    await new RecordingLLMClient(live, dir).call(request);
+
+    const played = await new PlaybackLLMClient(dir).call(request);
+
+    expect(played).toEqual({ content: "echo: Score this.", model: "counting", tokensUsed: 7 });
+    expect(live.calls).toBe(1);
+  });
+
+  it("fails loudly on a prompt that was never recorded", async () => {
+    const dir = await fixtureDir();
+    const playback = new PlaybackLLMClient(dir);
+
+    await expect(playback.call(request)).rejects.toThrow(LLMFixtureMissError);
+    await expect(playback.call(request)).rejects.toThrow(fixtureKey(request));
+  });
+
+  it("replays a recorded trial offline", async () => {
+    const dir = await fixtureDir();
+    const recorded = await runTrial(question, config(() => new RecordingLLMClient(new MockLLMClient("close"), dir)));
+
+    const played = await runTrial(question, config(() => new PlaybackLLMClient(dir)));
+
+    expect(await readdir(dir)).toHaveLength(3);
+    expect(played.judgeRuling).toEqual(recorded.judgeRuling);
+    expect(played.decision).toEqual(recorded.decision);
+    expect(played.usage.totalTokens).toBe(recorded.usage.totalTokens);
+  });
+});
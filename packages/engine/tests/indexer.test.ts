@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import { InMemoryIndexerStore, MarketIndexer } from "../src/indexer/index.js";
+import type { ChainReader, MarketLog } from "../src/indexer/index.js";
+
+/**
+ * Tests for the event-driven market indexer, run against a scripted
+ * in-memory chain whose blocks can be mined and reorged at will.
+ */
+
+type LogInput = Omit<MarketLog, "blockNumber" | "logIndex">;
+
+class FakeChain implements ChainReader {
+  blocks: { hash: string; logs: LogInput[] }[] = [{ hash: "0xgenesis", logs: [] }];
+  logRequests: [number, number][] = [];
+  private fork = 0;
+
+  mine(...logs: LogInput[]): number {
+    this.blocks.push({ hash: `0x${this.fork}-${this.blocks.length}`, logs });
+    return this.blocks.length - 1;
+  }
+
+  /* Replace every block from `height` up with new ones (new hashes) */
+  reorg(height: number, ...replacement: LogInput[][]): void {
+    this.fork++;
+    this.blocks = this.blocks.slice(0, height);
+    for (const logs of replacement) this.mine(...logs);
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blocks.length - 1;
+  }
+
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    return this.blocks[blockNumber]?.hash ?? null;
+  }
+
+  async getMarketLogs(fromBlock: number, toBlock: number): Promise<MarketLog[]> {
+    this.logRequests.push([fromBlock, toBlock]);
+    return this.blocks.slice(fromBlock, toBlock + 1).flatMap((block, i) =>
+      block.logs.map((log, logIndex) => ({ ...log, blockNumber: fromBlock + i, logIndex }) as MarketLog)
+    );
+  }
+}
+
+const created = (marketId: number, deadline = 1000): LogInput => ({
+  event: "MarketCreated",
+  marketId,
+  question: `Question ${marketId}?`,
+  rubricHash: `0xrubric${marketId}`,
+  deadline,
+});
+
+describe("MarketIndexer", () => {
+  it("builds the market table from lifecycle logs", async () => {
+    const chain = new FakeChain();
+    chain.mine(created(0), created(1));
+    chain.mine({ event: "SettlementRequested", marketId: 0 });
+    chain.mine({ event: "TrialRequested", marketId: 0, requestId: "0xreq", timestamp: 1200 });
+    chain.mine({ event: "MarketEscalated", marketId: 1 });
+    const indexer = new MarketIndexer(chain, new InMemoryIndexerStore());
+
+    const result = await indexer.sync();
+
+    expect(result.logs).toBe(5);
+    expect(indexer.get(0)).toMatchObject({
+      status: "SettlementRequested",
+      trialRequestId: "0xreq",
+      trialRequestedAt: 1200,
+    });
+    expect(indexer.get(1)?.status).toBe("Escalated");
+  });
+
+  it("only reports markets whose deadline is due", async () => {
+    const chain = new FakeChain();
+    chain.mine(created(0, 100), created(1, 500), created(2, 100));
+    chain.mine({ event: "SettlementRequested", marketId: 2 });
+    const indexer = new MarketIndexer(chain, new InMemoryIndexerStore());
+    await indexer.sync();
+
+    expect(indexer.dueForSettlement(200).map((m) => m.marketId)).toEqual([0]);
+    expect(indexer.awaitingTrial().map((m) => m.marketId)).toEqual([2]);
+  });
+
+  it("treats an appealed market as awaiting a fresh trial", async () => {
+    const chain = new FakeChain();
+    chain.mine(created(0));
+    chain.mine({ event: "SettlementRequested", marketId: 0 });
+    chain.mine({ event: "TrialRequested", marketId: 0, requestId: "0xfirst", timestamp: 1200 });
+    chain.mine({ event: "MarketEscalated", marketId: 0 });
+    const indexer = new MarketIndexer(chain, new InMemoryIndexerStore());
+    await indexer.sync();
+    expect(indexer.awaitingTrial()).toEqual([]);
+
+    chain.mine({ event: "MarketAppealed", marketId: 0 });
+    await indexer.sync();
+
+    expect(indexer.get(0)).toMatchObject({ status: "Appealed", trialRequestId: null, trialRequestedAt: null });
+    expect(indexer.awaitingTrial().map((m) => m.marketId)).toEqual([0]);
+  });
+
+  it("records a categorical market's outcomes", async () => {
+    const chain = new FakeChain();
+    chain.mine(created(0), created(1), { event: "CategoricalMarketCreated", marketId: 1, outcomes: ["A", "B", "Draw"] });
+    const indexer = new MarketIndexer(chain, new InMemoryIndexerStore());
+    await indexer.sync();
+
+    expect(indexer.get(0)?.outcomes).toBeUndefined();
+    expect(indexer.get(1)).toMatchObject({ status: "Open", outcomes: ["A", "B", "Draw"] });
+  });
+
+  it("never reports a cancelled market for settlement", async () => {
+    const chain = new FakeChain();
+    chain.mine(created(0, 100), created(1, 100));
+    chain.mine({ event: "MarketCancelled", marketId: 1 });
+    const indexer = new MarketIndexer(chain, new InMemoryIndexerStore());
+    await indexer.sync();
+
+    expect(indexer.get(1)?.status).toBe("Cancelled");
+    expect(indexer.dueForSettlement(200).map((m) => m.marketId)).toEqual([0]);
+  });
+
+  it("resumes from its checkpoint after a restart", async () => {
+    const chain = new FakeChain();
+    const store = new InMemoryIndexerStore();
+    chain.mine(created(0));
+    await new MarketIndexer(chain, store).sync();
+
+    chain.mine({ event: "SettlementRequested", marketId: 0 });
+    chain.logRequests = [];
+    const restarted = new MarketIndexer(chain, store);
+    await restarted.load();
+    await restarted.sync();
+
+    expect(chain.logRequests).toEqual([[2, 2]]);
+    expect(restarted.get(0)?.status).toBe("SettlementRequested");
+  });
+
+  it("rebuilds a table saved by an older indexer version", async () => {
+    const chain = new FakeChain();
+    const store = new InMemoryIndexerStore();
+    chain.mine(created(0), { event: "CategoricalMarketCreated", marketId: 0, outcomes: ["A", "B"] });
+    await new MarketIndexer(chain, store).sync();
+    const saved = (await store.load())!;
+    await store.save({ checkpoint: saved.checkpoint, markets: saved.markets.map(({ outcomes: _, ...m }) => m) });
+
+    chain.logRequests = [];
+    const restarted = new MarketIndexer(chain, store);
+    await restarted.load();
+    await restarted.sync();
+
+    expect(chain.logRequests).toEqual([[0, 1]]);
+    expect(restarted.get(0)?.outcomes).toEqual(["A", "B"]);
+  });
+
+  it("rebuilds the table when a processed block is reorged away", async () => {
+    const chain = new FakeChain();
+    chain.mine(created(0));
+    chain.mine({ event: "SettlementRequested", marketId: 0 });
+    const indexer = new MarketIndexer(chain, new InMemoryIndexerStore());
+    await indexer.sync();
+
+    // Block 2 is replaced: the settlement request never happened
+    chain.reorg(2, [], []);
+    const result = await indexer.sync();
+
+    expect(result.reorg).toBe(true);
+    expect(result.fromBlock).toBe(0);
+    expect(indexer.get(0)?.status).toBe("Open");
+  });
+
+  it("stays `confirmations` blocks behind the head", async () => {
+    const chain = new FakeChain();
+    chain.mine(created(0));
+    chain.mine({ event: "SettlementRequested", marketId: 0 });
+    const indexer = new MarketIndexer(chain, new InMemoryIndexerStore(), { confirmations: 1 });
+
+    await indexer.sync();
+
+    expect(indexer.get(0)?.status).toBe("Open");
+  });
+
+  it("splits large ranges into batches", async () => {
+    const chain = new FakeChain();
+    for (let i = 0; i < 5; i++) chain.mine();
+    const indexer = new MarketIndexer(chain, new InMemoryIndexerStore(), { batchSize: 2 });
+
+    await indexer.sync();
+
+    expect(chain.logRequests).toEqual([[0, 1], [2, 3], [4, 5]]);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { FileJobStore, InMemoryJobStore, TrialJobQueue } from "../src/jobs/index.js";
+import type { TrialJob, TrialJobRunner } from "../src/jobs/index.js";
+
+/**
+ * Tests for the trial job queue and its persistent store.
+ *
+ * Runners are stubs that resolve when the test says so, which makes
+ * the queue's ordering and concurrency observable.
+ */
+
+/* A runner whose jobs finish only when release(marketId) is called */
+function controlledRunner() {
+  const started: number[] = [];
+  const releases = new Map<number, (trial: number) => void>();
+
+  const runner: TrialJobRunner = (job, onProgress) => {
+    started.push(job.request.marketId);
+    onProgress({ stage: "evidence", message: "Gathering evidence...", elapsedMs: 1 });
+    return new Promise((resolve) => releases.set(job.request.marketId, resolve));
+  };
+
+  const release = async (marketId: number, trial = 1) => {
+    await vi.waitFor(() => expect(releases.has(marketId)).toBe(true));
+    releases.get(marketId)!(trial);
+  };
+
+  return { runner, started, release };
+}
+
+const request = (marketId: number) => ({ marketId, question: `Question ${marketId}?` });
+
+describe("TrialJobQueue", () => {
+  it("runs a job through queued → running → succeeded", async () => {
+    const { runner, release } = controlledRunner();
+    const queue = new TrialJobQueue(new InMemoryJobStore(), runner);
+
+    await queue.enqueue(request(1));
+    const { job, created } = await queue.enqueue(request(2));
+    expect(created).toBe(true);
+    expect(job.status).toBe("queued");
+
+    await release(1);
+    await vi.waitFor(async () => expect((await queue.get(job.id))?.status).toBe("running"));
+    expect((await queue.get(job.id))?.progress?.stage).toBe("evidence");
+
+    await release(2, 3);
+    await queue.idle();
+
+    const done = await queue.get(job.id);
+    expect(done?.status).toBe("succeeded");
+    expect(done?.trial).toBe(3);
+    expect(done?.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it("records the runner's error on a failed job", async () => {
+    const queue = new TrialJobQueue(new InMemoryJobStore(), async () => {
+      throw new Error("Market refused: Rubric not published");
+    });
+
+    const { job } = await queue.enqueue(request(1));
+    await queue.idle();
+
+    const failed = await queue.get(job.id);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.error).toBe("Market refused: Rubric not published");
+  });
+
+  it("returns the active job instead of trying a market twice", async () => {
+    const { runner, started, release } = controlledRunner();
+    const queue = new TrialJobQueue(new InMemoryJobStore(), runner);
+
+    const first = await queue.enqueue(request(1));
+    const second = await queue.enqueue(request(1));
+
+    expect(second.created).toBe(false);
+    expect(second.job.id).toBe(first.job.id);
+
+    await release(1);
+    await queue.idle();
+    expect(started).toEqual([1]);
+    expect(queue.activeJob(1)).toBeNull();
+  });
+
+  it("runs at most `concurrency` jobs at a time, in FIFO order", async () => {
+    const { runner, started, release } = controlledRunner();
+    const queue = new TrialJobQueue(new InMemoryJobStore(), runner, 2);
+
+    await queue.enqueue(request(1));
+    await queue.enqueue(request(2));
+    await queue.enqueue(request(3));
+
+    await vi.waitFor(() => expect(started).toEqual([1, 2]));
+
+    await release(2);
+    await vi.waitFor(() => expect(started).toEqual([1, 2, 3]));
+
+    await release(1);
+    await release(3);
+    await queue.idle();
+  });
+
+  it("rejects a non-positive concurrency", () => {
+    expect(() => new TrialJobQueue(new InMemoryJobStore(), async () => 1, 0)).toThrow(
+      "positive integer"
+    );
+  });
+});
+
+describe("FileJobStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "tbf-jobs-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("survives a restart with dates intact", async () => {
+    const queue = new TrialJobQueue(new FileJobStore(dir), async () => 1);
+    const { job } = await queue.enqueue(request(1));
+    await queue.idle();
+
+    const reloaded = new FileJobStore(dir);
+    await reloaded.load();
+    const stored = await reloaded.get(job.id);
+
+    expect(stored?.status).toBe("succeeded");
+    expect(stored?.createdAt).toBeInstanceOf(Date);
+    expect(stored?.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it("writes overlapping saves of one job in order", async () => {
+    const store = new FileJobStore(dir);
+    const job: TrialJob = {
+      id: "job-race",
+      request: request(1),
+      status: "queued",
+      progress: null,
+      error: null,
+      trial: null,
+      createdAt: new Date(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    const statuses = ["running", "succeeded", "failed", "succeeded"] as const;
+
+    await Promise.all(statuses.map((status) => store.save({ ...job, status })));
+
+    const reloaded = new FileJobStore(dir);
+    await reloaded.load();
+    expect((await reloaded.get(job.id))?.status).toBe("succeeded");
+    expect(await readdir(dir)).toEqual([`job-${job.id}.json`]);
+  });
+
+  it("fails jobs that were still in flight when the server stopped", async () => {
+    const { runner, release } = controlledRunner();
+    const queue = new TrialJobQueue(new FileJobStore(dir), runner);
+    const { job } = await queue.enqueue(request(1));
+    await vi.waitFor(async () => expect((await queue.get(job.id))?.status).toBe("running"));
+
+    const reloaded = new FileJobStore(dir);
+    await reloaded.load();
+    const stored = await reloaded.get(job.id);
+
+    expect(stored?.status).toBe("failed");
+    expect(stored?.error).toBe("Interrupted by server restart");
+
+    await release(1);
+    await queue.idle();
+  });
+});
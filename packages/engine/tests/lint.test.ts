@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import { heuristicScore, lintQuestion, lintQuestionHeuristics } from "../src/lint/index.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "../src/llm/index.js";
+
+/**
+ * Tests for the question pre-screen: heuristics alone, and merged with
+ * a scripted LLM reviewer.
+ */
+
+const GOOD_QUESTION =
+  "Will the ETH staking APR reported by DeFiLlama exceed 4% on January 31, 2026?";
+
+/* Client that returns one canned review and records the prompt */
+class ScriptedReviewer implements LLMClient {
+  prompts: LLMRequest[] = [];
+
+  constructor(private review: unknown) {}
+
+  async call(req: LLMRequest): Promise<LLMResponse> {
+    this.prompts.push(req);
+    return { content: JSON.stringify(this.review), model: "reviewer", tokensUsed: 0 };
+  }
+}
+
+class FailingClient implements LLMClient {
+  async call(): Promise<LLMResponse> {
+    throw new Error("LLM unavailable");
+  }
+}
+
+const kinds = (question: string) => lintQuestionHeuristics({ question }).map((i) => i.kind);
+
+describe("lintQuestionHeuristics", () => {
+  it("passes a dated, measurable question about a covered topic", () => {
+    expect(lintQuestionHeuristics({ question: GOOD_QUESTION })).toEqual([]);
+  });
+
+  it("flags vague timing as an error and a missing period as a warning", () => {
+    const vague = lintQuestionHeuristics({ question: "Will Bitcoin exceed $100k soon?" });
+    const undated = lintQuestionHeuristics({ question: "Will Bitcoin exceed $100k?" });
+
+    expect(vague).toEqual([expect.objectContaining({ kind: "vague-time-window", severity: "error", excerpt: "soon" })]);
+    expect(undated).toEqual([expect.objectContaining({ kind: "vague-time-window", severity: "warning" })]);
+  });
+
+  it("does not mistake the verb 'may' for a month", () => {
+    expect(kinds("Will Bitcoin exceed $100k, as analysts say it may?")).toContain("vague-time-window");
+    expect(kinds("Will Bitcoin exceed $100k by May 2026?")).not.toContain("vague-time-window");
+  });
+
+  it("flags questions with nothing measurable, ignoring years", () => {
+    expect(kinds("Will the Ethereum community be happy in 2026?")).toContain("missing-resolution-criteria");
+  });
+
+  it("flags each undefined subjective term", () => {
+    const issues = lintQuestionHeuristics({
+      question: "Will ETH staking consistently and significantly outperform Treasury rates in January 2026?",
+    }).filter((i) => i.kind === "undefined-term");
+
+    expect(issues.map((i) => i.excerpt)).toEqual(["consistently", "significantly"]);
+  });
+
+  it("flags topics no evidence source covers", () => {
+    expect(kinds("Will my neighbour repaint their fence by June 2026?")).toContain("no-evidence-source");
+  });
+
+  it("scores 100 minus a penalty per finding", () => {
+    const issues = lintQuestionHeuristics({ question: "Will Bitcoin exceed $100k soon?" });
+
+    expect(heuristicScore(issues)).toBe(75);
+    expect(heuristicScore([])).toBe(100);
+  });
+});
+
+describe("lintQuestion", () => {
+  it("returns heuristics only without an LLM client", async () => {
+    const result = await lintQuestion({ question: "  Will Bitcoin exceed $100k soon?  " });
+
+    expect(result).toMatchObject({
+      question: "Will Bitcoin exceed $100k soon?",
+      resolvabilityScore: 75,
+      suggestedRewrites: [],
+      model: null,
+    });
+  });
+
+  it("merges the reviewer's findings without duplicating heuristic ones", async () => {
+    const reviewer = new ScriptedReviewer({
+      resolvabilityScore: 55,
+      issues: [
+        { kind: "undefined-term", severity: "warning", message: "Define it.", excerpt: "Consistently" },
+        { kind: "missing-resolution-criteria", severity: "warning", message: "No threshold." },
+        { kind: "no-evidence-source", severity: "warning", message: "Daily Treasury rates may be sparse." },
+      ],
+      suggestedRewrites: ["Will the ETH staking APR exceed the 10-year Treasury rate on 25 of 31 days in January 2026?"],
+      evidenceAvailable: true,
+    });
+
+    const result = await lintQuestion(
+      { question: "Will ETH staking consistently outperform Treasury rates in January 2026?" },
+      reviewer
+    );
+
+    expect(result.issues.map((i) => `${i.source}:${i.kind}`)).toEqual([
+      "heuristic:missing-resolution-criteria",
+      "heuristic:undefined-term",
+      "llm:no-evidence-source",
+    ]);
+    expect(result.resolvabilityScore).toBe(55);
+    expect(result.suggestedRewrites).toHaveLength(1);
+    expect(result.model).toBe("reviewer");
+  });
+
+  it("keeps the lower of the heuristic and reviewer scores", async () => {
+    const reviewer = new ScriptedReviewer({
+      resolvabilityScore: 95,
+      issues: [],
+      suggestedRewrites: [],
+      evidenceAvailable: true,
+    });
+
+    const result = await lintQuestion({ question: "Will Bitcoin exceed $100k soon?" }, reviewer);
+
+    expect(result.resolvabilityScore).toBe(75);
+  });
+
+  it("reports missing evidence as an error when the reviewer finds none", async () => {
+    const reviewer = new ScriptedReviewer({
+      resolvabilityScore: 40,
+      issues: [],
+      suggestedRewrites: [],
+      evidenceAvailable: false,
+    });
+
+    const result = await lintQuestion({ question: GOOD_QUESTION }, reviewer);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ kind: "no-evidence-source", severity: "error", source: "llm" }),
+    ]);
+  });
+
+  it("passes the deadline and heuristic findings to the reviewer", async () => {
+    const reviewer = new ScriptedReviewer({
+      resolvabilityScore: 80,
+      issues: [],
+      suggestedRewrites: [],
+      evidenceAvailable: true,
+    });
+
+    await lintQuestion({ question: "Will Bitcoin exceed $100k soon?", deadline: new Date("2026-03-01T00:00:00Z") }, reviewer);
+
+    expect(reviewer.prompts[0].userPrompt).toContain("2026-03-01T00:00:00.000Z");
+    expect(reviewer.prompts[0].userPrompt).toContain("vague-time-window");
+  });
+
+  it("falls back to heuristics when the review fails", async () => {
+    const result = await lintQuestion({ question: GOOD_QUESTION }, new FailingClient(), { maxAttempts: 1 });
+
+    expect(result).toMatchObject({ resolvabilityScore: 100, issues: [], model: null });
+  });
+
+  it("rejects an empty question", async () => {
+    await expect(lintQuestion({ question: "   " })).rejects.toThrow("must not be empty");
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { runJudgePanel, aggregateRulings } from "../src/judge/panel.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "../src/llm/index.js";
+import type {
+  AdvocateArgument,
+  EvidenceBundle,
+  JudgeRuling,
+  MarketQuestion,
+} from "../src/types.js";
+
+/**
+ * Tests for the multi-judge panel and its score aggregation.
+ */
+
+const question: MarketQuestion = {
+  id: "panel-001",
+  question: "Did the policy work?",
+  rubric: {
+    criteria: [{ name: "Evidence", description: "Quality of evidence", weight: 100 }],
+    evidenceSources: ["mock"],
+    confidenceThreshold: 20,
+  },
+  settlementDeadline: new Date(),
+};
+
+const evidence: EvidenceBundle = { questionId: "panel-001", items: [], gatheredAt: new Date() };
+
+const advocate = (side: "YES" | "NO"): AdvocateArgument => ({
+  side,
+  confidence: 50,
+  arguments: [],
+  weaknessesInOpposingCase: [],
+  model: "test",
+});
+
+function makeRuling(overrides: Partial<JudgeRuling> = {}): JudgeRuling {
+  return {
+    finalVerdict: "YES",
+    scoreYes: 70,
+    scoreNo: 40,
+    criterionScores: [
+      { criterion: "Evidence", scoreYes: 70, scoreNo: 40, reasoning: "ok" },
+    ],
+    rulingText: "YES is stronger.",
+    hallucinationsDetected: [],
+    model: "judge",
+    ...overrides,
+  };
+}
+
+/* Judge stub that always returns the given ruling */
+class FixedJudge implements LLMClient {
+  constructor(private ruling: JudgeRuling) {}
+
+  async call(_request: LLMRequest): Promise<LLMResponse> {
+    const { model, ...body } = this.ruling;
+    return { content: JSON.stringify(body), model, tokensUsed: 0 };
+  }
+}
+
+describe("aggregateRulings", () => {
+  it("takes the median so one outlier judge can't swing the result", () => {
+    const composite = aggregateRulings(
+      [
+        makeRuling({ scoreYes: 70, scoreNo: 40 }),
+        makeRuling({ scoreYes: 72, scoreNo: 38 }),
+        makeRuling({ scoreYes: 5, scoreNo: 95, finalVerdict: "NO" }),
+      ],
+      "median"
+    );
+
+    expect(composite.scoreYes).toBe(70);
+    expect(composite.scoreNo).toBe(40);
+    expect(composite.finalVerdict).toBe("YES");
+  });
+
+  it("drops the highest and lowest score for trimmed mean", () => {
+    const composite = aggregateRulings(
+      [
+        makeRuling({ scoreYes: 10 }),
+        makeRuling({ scoreYes: 60 }),
+        makeRuling({ scoreYes: 70 }),
+        makeRuling({ scoreYes: 100 }),
+      ],
+      "trimmed-mean"
+    );
+
+    expect(composite.scoreYes).toBe(65);
+  });
+
+  it("unions hallucination lists across judges", () => {
+    const composite = aggregateRulings(
+      [
+        makeRuling({ hallucinationsDetected: ["Fake A"] }),
+        makeRuling({ hallucinationsDetected: ["Fake A", "Fake B"] }),
+        makeRuling(),
+      ],
+      "median"
+    );
+
+    expect(composite.hallucinationsDetected).toEqual(["Fake A", "Fake B"]);
+  });
+
+  it("rules INVALID only when every judge does", () => {
+    const invalid = makeRuling({ finalVerdict: "INVALID" });
+
+    expect(aggregateRulings([invalid, invalid], "median").finalVerdict).toBe("INVALID");
+    expect(aggregateRulings([invalid, makeRuling()], "median").finalVerdict).toBe("YES");
+  });
+});
+
+describe("runJudgePanel", () => {
+  it("collects one ruling per judge and reports agreement", async () => {
+    const { ruling, panel } = await runJudgePanel(
+      question,
+      evidence,
+      advocate("YES"),
+      advocate("NO"),
+      [
+        new FixedJudge(makeRuling({ model: "judge-a" })),
+        new FixedJudge(makeRuling({ model: "judge-b" })),
+        new FixedJudge(makeRuling({ model: "judge-c", finalVerdict: "NO", scoreYes: 30, scoreNo: 60 })),
+      ],
+      { aggregation: "trimmed-mean" }
+    );
+
+    expect(panel.aggregation).toBe("trimmed-mean");
+    expect(panel.rulings.map((r) => r.model)).toEqual(["judge-a", "judge-b", "judge-c"]);
+    expect(panel.verdictsAgree).toBe(false);
+    expect(ruling.finalVerdict).toBe("YES");
+  });
+
+  it("rejects an empty panel", async () => {
+    await expect(
+      runJudgePanel(question, evidence, advocate("YES"), advocate("NO"), [])
+    ).rejects.toThrow("at least one judge");
+  });
+});
@@ -1,9 +1,14 @@
 import { describe, it, expect } from "vitest";
 import { runTrial } from "../src/pipeline/index.js";
 import type { PipelineConfig } from "../src/pipeline/index.js";
+import { runCategoricalTrial } from "../src/pipeline/categorical.js";
+import { settleDecision } from "../src/settlement/onchain.js";
+import type { OnchainSettler } from "../src/settlement/onchain.js";
 import { MockLLMClient } from "../src/llm/mock.js";
 import { MockEvidenceSource } from "../src/evidence/mock.js";
-import type { MarketQuestion } from "../src/types.js";
+import { builtinPrompts, loadPromptRegistry, promptVersion, PromptTemplateSchema } from "../src/prompts/index.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "../src/llm/index.js";
+import type { MarketQuestion, TrialEvent } from "../src/types.js";
 
 /**
  * Integration tests for the full trial pipeline.
@@ -47,6 +52,16 @@ const demoQuestion: MarketQuestion = {
   settlementDeadline: new Date(),
 };
 
+/* Mock client that records every user prompt it receives */
+class RecordingMockClient extends MockLLMClient {
+  prompts: string[] = [];
+
+  async call(request: LLMRequest): Promise<LLMResponse> {
+    this.prompts.push(request.userPrompt);
+    return super.call(request);
+  }
+}
+
 function buildMockConfig(
   scenario: "clear" | "close" = "clear"
 ): PipelineConfig {
@@ -135,3 +150,322 @@ describe("runTrial", () => {
     }
   });
 });
+
+describe("runTrial progress events", () => {
+  it("emits typed events in stage order with their artifacts", async () => {
+    const events: TrialEvent[] = [];
+    const transcript = await runTrial(demoQuestion, {
+      ...buildMockConfig(),
+      onEvent: (e) => events.push(e),
+    });
+    const types = events.map((e) => e.type);
+
+    expect(types[0]).toBe("trial-started");
+    expect(types[types.length - 1]).toBe("trial-completed");
+    expect(types.filter((t) => t === "advocate-argued")).toHaveLength(2);
+    expect(types.indexOf("evidence-gathered")).toBeLessThan(types.indexOf("advocate-argued"));
+    expect(types.indexOf("round-completed")).toBeLessThan(types.indexOf("judge-ruled"));
+    expect(types.indexOf("judge-ruled")).toBeLessThan(types.indexOf("decision-made"));
+
+    const gathered = events.find((e) => e.type === "evidence-gathered");
+    expect(gathered?.type === "evidence-gathered" && gathered.evidence).toBe(transcript.evidence);
+    const completed = events[events.length - 1];
+    expect(completed.type === "trial-completed" && completed.transcript).toBe(transcript);
+  });
+
+  it("timestamps every event relative to the trial start", async () => {
+    const events: TrialEvent[] = [];
+    await runTrial(demoQuestion, { ...buildMockConfig(), onEvent: (e) => events.push(e) });
+
+    for (let i = 1; i < events.length; i++) {
+      expect(events[i].timestamp).toBeGreaterThanOrEqual(events[i - 1].timestamp);
+      expect(events[i].elapsedMs).toBe(events[i].timestamp - events[0].timestamp + events[0].elapsedMs);
+    }
+  });
+
+  it("emits trial-failed before rethrowing", async () => {
+    const events: TrialEvent[] = [];
+    const failingJudge = new MockLLMClient();
+    failingJudge.call = async () => {
+      throw new Error("judge unavailable");
+    };
+
+    await expect(
+      runTrial(demoQuestion, {
+        ...buildMockConfig(),
+        judgeClient: failingJudge,
+        onEvent: (e) => events.push(e),
+      })
+    ).rejects.toThrow("judge unavailable");
+
+    const last = events[events.length - 1];
+    expect(last.type).toBe("trial-failed");
+    expect(last.stage).toBe("judge");
+    expect(last.type === "trial-failed" && last.error).toBe("judge unavailable");
+  });
+});
+
+describe("runTrial LLM call audit", () => {
+  it("logs one structured call per advocate and judge", async () => {
+    const transcript = await runTrial(demoQuestion, buildMockConfig());
+
+    expect(transcript.llmCalls.map((c) => c.label).sort()).toEqual([
+      "Advocate NO",
+      "Advocate YES",
+      "Judge",
+    ]);
+    for (const call of transcript.llmCalls) {
+      expect(call.attempts).toEqual([
+        { attempt: 1, model: "mock-model", outcome: "ok" },
+      ]);
+    }
+  });
+});
+
+describe("runTrial with multi-round debate", () => {
+  it("stores every round and keeps the final round as the advocates' position", async () => {
+    const transcript = await runTrial(demoQuestion, {
+      ...buildMockConfig(),
+      rounds: 3,
+    });
+
+    expect(transcript.debateRounds).toHaveLength(3);
+    expect(transcript.debateRounds!.map((r) => r.round)).toEqual([1, 2, 3]);
+    expect(transcript.advocateYes).toEqual(transcript.debateRounds![2].yes);
+    expect(transcript.advocateNo).toEqual(transcript.debateRounds![2].no);
+  });
+
+  it("omits debateRounds for a single-round trial", async () => {
+    const transcript = await runTrial(demoQuestion, buildMockConfig());
+
+    expect(transcript.debateRounds).toBeUndefined();
+  });
+
+  it("shows each advocate the opponent's previous argument in rebuttal rounds", async () => {
+    const yesClient = new RecordingMockClient();
+    const noClient = new RecordingMockClient();
+
+    await runTrial(demoQuestion, {
+      ...buildMockConfig(),
+      advocateYesClient: yesClient,
+      advocateNoClient: noClient,
+      rounds: 2,
+    });
+
+    expect(yesClient.prompts[0]).not.toContain("OPPOSING ADVOCATE'S PREVIOUS ARGUMENT");
+    expect(yesClient.prompts[1]).toContain("OPPOSING ADVOCATE'S PREVIOUS ARGUMENT (NO");
+    expect(noClient.prompts[1]).toContain("OPPOSING ADVOCATE'S PREVIOUS ARGUMENT (YES");
+  });
+
+  it("gives the judge the full round-by-round exchange", async () => {
+    const judgeClient = new RecordingMockClient();
+
+    await runTrial(demoQuestion, {
+      ...buildMockConfig(),
+      judgeClient,
+      rounds: 2,
+    });
+
+    expect(judgeClient.prompts[0]).toContain("ROUND 1 of 2 (OPENING)");
+    expect(judgeClient.prompts[0]).toContain("ROUND 2 of 2 (FINAL REBUTTAL)");
+  });
+
+  it("rejects a non-positive round count", async () => {
+    await expect(
+      runTrial(demoQuestion, { ...buildMockConfig(), rounds: 0 })
+    ).rejects.toThrow("positive integer");
+  });
+});
+
+describe("runCategoricalTrial", () => {
+  const categoricalQuestion: MarketQuestion = {
+    ...demoQuestion,
+    id: "test-categorical",
+    question: "Which yield was highest in January 2026?",
+    outcomes: ["ETH staking", "10-year Treasury", "Neither"],
+  };
+
+  /*
+   * Scripted client: advocates argue their assigned outcome citing mock
+   * evidence; the judge returns the given outcome scores.
+   */
+  class CategoricalClient implements LLMClient {
+    systemPrompts: string[] = [];
+
+    constructor(private scores: Record<string, number>) {}
+
+    async call(request: LLMRequest): Promise<LLMResponse> {
+      this.systemPrompts.push(request.systemPrompt);
+      const assigned = request.systemPrompt.match(/Your assigned outcome is: "([^"]+)"/);
+      if (assigned) {
+        return {
+          content: JSON.stringify({
+            outcome: assigned[1],
+            confidence: 60,
+            arguments: [
+              {
+                criterion: "Data accuracy",
+                claim: `The data favours ${assigned[1]}.`,
+                evidenceCitations: ["DeFiLlama: ETH Staking APR January 2026"],
+                strength: 60,
+              },
+            ],
+            weaknessesInOpposingCase: [],
+          }),
+          model: "advocate-model",
+          tokensUsed: 10,
+        };
+      }
+
+      const outcomeScores = Object.entries(this.scores).map(([outcome, score]) => ({ outcome, score }));
+      const top = [...outcomeScores].sort((a, b) => b.score - a.score)[0];
+      return {
+        content: JSON.stringify({
+          finalOutcome: top.outcome,
+          outcomeScores,
+          criterionScores: [{ criterion: "Data accuracy", scores: outcomeScores, reasoning: "..." }],
+          rulingText: `${top.outcome} is best supported.`,
+          hallucinationsDetected: [],
+        }),
+        model: "judge-model",
+        tokensUsed: 10,
+      };
+    }
+  }
+
+  function categoricalConfig(scores: Record<string, number>) {
+    const yes = new CategoricalClient(scores);
+    const no = new CategoricalClient(scores);
+    const judge = new CategoricalClient(scores);
+    const config: PipelineConfig = {
+      evidenceSources: [new MockEvidenceSource()],
+      advocateYesClient: yes,
+      advocateNoClient: no,
+      judgeClient: judge,
+    };
+    return { config, yes, no, judge };
+  }
+
+  it("runs one advocate per outcome and resolves to the clear favourite", async () => {
+    const { config, yes, no } = categoricalConfig({
+      "ETH staking": 78,
+      "10-year Treasury": 50,
+      Neither: 15,
+    });
+
+    const transcript = await runCategoricalTrial(categoricalQuestion, config);
+
+    expect(transcript.advocates.map((a) => a.outcome)).toEqual(categoricalQuestion.outcomes);
+    expect(transcript.decision).toMatchObject({ action: "RESOLVE", outcome: "ETH staking", margin: 28 });
+    expect(transcript.citationReport.totalCitations).toBe(3);
+    // Outcomes alternate between the two advocate clients
+    expect(yes.systemPrompts).toHaveLength(2);
+    expect(no.systemPrompts).toHaveLength(1);
+    expect(transcript.usage.byStage["advocate-yes"].calls).toBe(2);
+  });
+
+  it("escalates when the runner-up is too close", async () => {
+    const { config } = categoricalConfig({ "ETH staking": 62, "10-year Treasury": 55, Neither: 10 });
+
+    const transcript = await runCategoricalTrial(categoricalQuestion, config);
+
+    expect(transcript.decision).toMatchObject({ action: "ESCALATE", outcome: null, margin: 7 });
+  });
+
+  it("records the prompt version of every argument and the ruling", async () => {
+    const registry = loadPromptRegistry();
+    const v1 = registry.get("categorical-judge", "v1");
+    registry.register(
+      PromptTemplateSchema.parse({ ...v1, version: "v2", template: `Be terse.\n${v1.template}` })
+    );
+    const { config, judge } = categoricalConfig({ "ETH staking": 78, "10-year Treasury": 50, Neither: 15 });
+
+    const transcript = await runCategoricalTrial(categoricalQuestion, {
+      ...config,
+      promptRegistry: registry,
+      prompts: { "categorical-judge": "v2" },
+    });
+
+    const advocate = promptVersion(builtinPrompts().get("outcome-advocate"));
+    expect(transcript.advocates.map((a) => a.prompt)).toEqual([advocate, advocate, advocate]);
+    expect(transcript.judgeRuling.prompt).toEqual(promptVersion(registry.get("categorical-judge", "v2")));
+    expect(judge.systemPrompts[0].startsWith("Be terse.\n")).toBe(true);
+  });
+
+  it("rejects judge panels and multi-round debates instead of ignoring them", async () => {
+    const { config, judge } = categoricalConfig({ "ETH staking": 78, "10-year Treasury": 50, Neither: 15 });
+
+    await expect(
+      runCategoricalTrial(categoricalQuestion, { ...config, judgePanelClients: [judge, judge] })
+    ).rejects.toThrow("Judge panels are not supported");
+    await expect(runCategoricalTrial(categoricalQuestion, { ...config, rounds: 2 })).rejects.toThrow(
+      "Multi-round debates are not supported"
+    );
+    expect(judge.systemPrompts).toHaveLength(0);
+  });
+
+  it("streams typed events naming the outcomes", async () => {
+    const events: TrialEvent[] = [];
+    const { config } = categoricalConfig({ "ETH staking": 78, "10-year Treasury": 50, Neither: 15 });
+
+    const transcript = await runCategoricalTrial(categoricalQuestion, { ...config, onEvent: (e) => events.push(e) });
+
+    expect(events[0]).toMatchObject({ type: "trial-started", outcomes: categoricalQuestion.outcomes });
+    expect(events.filter((e) => e.type === "outcome-argued")).toHaveLength(3);
+    expect(events.map((e) => e.type)).toContain("evidence-gathered");
+    expect(events.find((e) => e.type === "outcomes-ruled")).toMatchObject({ ruling: transcript.judgeRuling });
+    expect(events.find((e) => e.type === "outcome-decided")).toMatchObject({ decision: transcript.decision });
+    expect(events.at(-1)).toMatchObject({ type: "trial-completed", stage: "complete", transcript });
+  });
+
+  /* Settler that records which contract call each decision maps to */
+  function recordingSettler() {
+    const calls: string[] = [];
+    const settler: OnchainSettler = {
+      settle: async (id) => (calls.push(`settle #${id}`), "0xsettle"),
+      settleOutcome: async (id, t) => (calls.push(`settleOutcome #${id} ${t.decision.outcome}`), "0xoutcome"),
+      escalate: async (id) => (calls.push(`escalate #${id}`), "0xescalate"),
+      refuse: async (id) => (calls.push(`refuse #${id}`), "0xrefuse"),
+    };
+    return { settler, calls };
+  }
+
+  it("settles a resolved categorical trial with settleOutcome and escalates a close one", async () => {
+    const { settler, calls } = recordingSettler();
+    const resolved = await runCategoricalTrial(
+      categoricalQuestion,
+      categoricalConfig({ "ETH staking": 78, "10-year Treasury": 50, Neither: 15 }).config
+    );
+    const close = await runCategoricalTrial(
+      categoricalQuestion,
+      categoricalConfig({ "ETH staking": 62, "10-year Treasury": 55, Neither: 10 }).config
+    );
+
+    expect(await settleDecision(settler, 7, resolved, "QmCid")).toBe("0xoutcome");
+    expect(await settleDecision(settler, 8, close)).toBe("0xescalate");
+    // The mock "clear" trial escalates on a hallucination; force it resolved to reach settle()
+    const binary = await runTrial(demoQuestion, buildMockConfig("clear"));
+    expect(await settleDecision(settler, 9, binary)).toBe("0xescalate");
+    expect(await settleDecision(settler, 10, { ...binary, decision: { ...binary.decision, action: "RESOLVE" } })).toBe(
+      "0xsettle"
+    );
+    expect(calls).toEqual(["settleOutcome #7 ETH staking", "escalate #8", "escalate #9", "settle #10"]);
+  });
+
+  it("re-prompts a judge that leaves an outcome unscored", async () => {
+    const events: TrialEvent[] = [];
+    const { config } = categoricalConfig({ "ETH staking": 80, "10-year Treasury": 40 });
+
+    await expect(
+      runCategoricalTrial(categoricalQuestion, { ...config, onEvent: (e) => events.push(e) })
+    ).rejects.toThrow("must score every outcome");
+    expect(events.at(-1)).toMatchObject({ type: "trial-failed", stage: "judge" });
+  });
+
+  it("is the only way to try a categorical question", async () => {
+    await expect(runTrial(categoricalQuestion, buildMockConfig())).rejects.toThrow("runCategoricalTrial");
+    await expect(
+      runCategoricalTrial(demoQuestion, categoricalConfig({}).config)
+    ).rejects.toThrow("at least 2 outcomes");
+  });
+});
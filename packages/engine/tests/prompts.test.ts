@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { ethers } from "ethers";
+import {
+  builtinPrompts,
+  loadPromptRegistry,
+  parsePromptSelection,
+  PromptRegistry,
+  PromptTemplateSchema,
+  promptVersion,
+  renderPrompt,
+} from "../src/prompts/index.js";
+import { runTrial } from "../src/pipeline/index.js";
+import type { PipelineConfig } from "../src/pipeline/index.js";
+import { MockLLMClient } from "../src/llm/mock.js";
+import { MockEvidenceSource } from "../src/evidence/mock.js";
+import type { LLMRequest, LLMResponse } from "../src/llm/index.js";
+import type { MarketQuestion } from "../src/types.js";
+
+/**
+ * Tests for the prompt registry: templates, interpolation, version
+ * selection, and the versions recorded in transcripts.
+ */
+
+const template = (version: string, text = `Judge prompt ${version}`) =>
+  PromptTemplateSchema.parse({ name: "judge", version, template: text });
+
+const question: MarketQuestion = {
+  id: "prompt-001",
+  question: "Did ETH staking yields consistently outperform US Treasury rates in January 2026?",
+  rubric: {
+    criteria: [
+      { name: "Data accuracy", description: "Are the cited numbers verifiable?", weight: 50 },
+      { name: "Logical coherence", description: "Is the argument consistent?", weight: 50 },
+    ],
+    evidenceSources: ["mock"],
+    confidenceThreshold: 20,
+  },
+  settlementDeadline: new Date("2026-02-01T00:00:00Z"),
+};
+
+/* Mock judge that records the system prompts it receives */
+class PromptCapturingClient extends MockLLMClient {
+  systemPrompts: string[] = [];
+
+  async call(request: LLMRequest): Promise<LLMResponse> {
+    this.systemPrompts.push(request.systemPrompt);
+    return super.call(request);
+  }
+}
+
+const mockConfig = (overrides: Partial<PipelineConfig> = {}): PipelineConfig => ({
+  evidenceSources: [new MockEvidenceSource()],
+  advocateYesClient: new MockLLMClient(),
+  advocateNoClient: new MockLLMClient(),
+  judgeClient: new MockLLMClient(),
+  ...overrides,
+});
+
+/* A judge@v2 that keeps v1's instructions under a new first line */
+async function dirWithJudgeV2(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "prompts-"));
+  const v1 = builtinPrompts().get("judge", "v1");
+  await writeFile(
+    path.join(dir, "judge.v2.json"),
+    JSON.stringify({ name: "judge", version: "v2", template: ["Be terse.", v1.template] })
+  );
+  return dir;
+}
+
+describe("renderPrompt", () => {
+  it("fills in every placeholder", () => {
+    const advocate = builtinPrompts().get("advocate", "v1");
+
+    const text = renderPrompt(advocate, { side: "NO" });
+
+    expect(text).toContain("Your assigned position is: NO.");
+    expect(text).not.toContain("{{");
+  });
+
+  it("rejects missing and undeclared variables", () => {
+    const advocate = builtinPrompts().get("advocate");
+
+    expect(() => renderPrompt(advocate)).toThrow('needs variable "side"');
+    expect(() => renderPrompt(advocate, { side: "YES", tone: "calm" })).toThrow('has no variable "tone"');
+  });
+});
+
+describe("PromptRegistry", () => {
+  it("picks the latest version by number unless one is requested", () => {
+    const registry = new PromptRegistry();
+    for (const v of ["v2", "v10", "v1"]) registry.register(template(v));
+
+    expect(registry.versions("judge")).toEqual(["v1", "v2", "v10"]);
+    expect(registry.get("judge").version).toBe("v10");
+    expect(registry.get("judge", "v2").version).toBe("v2");
+    expect(() => registry.get("judge", "v3")).toThrow("available: v1, v2, v10");
+  });
+
+  it("refuses to change a published version", () => {
+    const registry = new PromptRegistry();
+    registry.register(template("v1"));
+
+    expect(() => registry.register(template("v1"))).not.toThrow();
+    expect(() => registry.register(template("v1", "Edited"))).toThrow("publish a new version");
+  });
+
+  it("validates template files", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "prompts-"));
+    await writeFile(path.join(dir, "judge.v2.json"), JSON.stringify({ name: "judge", version: "v2", template: "{{side}}" }));
+
+    expect(() => new PromptRegistry().loadDirectory(dir)).toThrow("{{side}} is not a declared variable");
+  });
+
+  it("adds templates from an extra directory to the built-ins", async () => {
+    const registry = loadPromptRegistry(await dirWithJudgeV2());
+
+    expect(registry.versions("judge")).toEqual(["v1", "v2"]);
+    expect(registry.versions("advocate")).toEqual(["v1"]);
+  });
+});
+
+describe("promptVersion", () => {
+  it("identifies a template by id and a hash of its text", () => {
+    const judge = template("v3");
+
+    expect(promptVersion(judge)).toEqual({
+      id: "judge@v3",
+      hash: ethers.keccak256(ethers.toUtf8Bytes("Judge prompt v3")),
+    });
+  });
+});
+
+describe("parsePromptSelection", () => {
+  it("reads a version per stage, skipping empty values", () => {
+    expect(parsePromptSelection({ PROMPT_JUDGE_VERSION: " v2 ", PROMPT_ADVOCATE_VERSION: "" })).toEqual({ judge: "v2" });
+    expect(parsePromptSelection({ PROMPT_OUTCOME_ADVOCATE_VERSION: "v3" })).toEqual({ "outcome-advocate": "v3" });
+  });
+});
+
+describe("runTrial prompt versions", () => {
+  it("records the prompt version of every argument and ruling", async () => {
+    const transcript = await runTrial(question, mockConfig({ rounds: 2 }));
+    const advocate = promptVersion(builtinPrompts().get("advocate"));
+
+    expect(transcript.debateRounds?.flatMap((r) => [r.yes.prompt, r.no.prompt])).toEqual([
+      advocate,
+      advocate,
+      advocate,
+      advocate,
+    ]);
+    expect(transcript.judgeRuling.prompt).toEqual(promptVersion(builtinPrompts().get("judge")));
+  });
+
+  it("uses the selected version per stage", async () => {
+    const registry = loadPromptRegistry(await dirWithJudgeV2());
+    const judges = [new PromptCapturingClient(), new PromptCapturingClient()];
+
+    const transcript = await runTrial(
+      question,
+      mockConfig({ judgePanelClients: judges, promptRegistry: registry, prompts: { judge: "v2", advocate: "v1" } })
+    );
+
+    expect(judges.every((j) => j.systemPrompts[0].startsWith("Be terse.\n"))).toBe(true);
+    expect(transcript.judgePanel?.rulings.map((r) => r.prompt?.id)).toEqual(["judge@v2", "judge@v2"]);
+    expect(transcript.judgeRuling.prompt).toEqual(promptVersion(registry.get("judge", "v2")));
+    expect(transcript.advocateYes.prompt?.id).toBe("advocate@v1");
+  });
+
+  it("fails before gathering evidence on an unknown version", async () => {
+    await expect(runTrial(question, mockConfig({ prompts: { judge: "v99" } }))).rejects.toThrow(
+      'Prompt "judge" has no version v99'
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { runTrial } from "../src/pipeline/index.js";
+import type { PipelineConfig } from "../src/pipeline/index.js";
+import { loadTranscript, RecordedResponseClient, replayTrial } from "../src/pipeline/replay.js";
+import { MockLLMClient } from "../src/llm/mock.js";
+import { MockEvidenceSource } from "../src/evidence/mock.js";
+import { PromptRegistry, PromptTemplateSchema, builtinPrompts } from "../src/prompts/index.js";
+import type { MarketQuestion, TrialTranscript } from "../src/types.js";
+
+/**
+ * Tests for replaying stored transcripts: playback reproduces the
+ * decision, a live client can stand in for a role, and transcripts load
+ * from files or IPFS.
+ */
+
+const question: MarketQuestion = {
+  id: "replay-001",
+  question: "Did ETH staking yields consistently outperform US Treasury rates in January 2026?",
+  rubric: {
+    criteria: [
+      { name: "Data accuracy", description: "Are the cited numbers verifiable?", weight: 50 },
+      { name: "Logical coherence", description: "Is the argument consistent?", weight: 50 },
+    ],
+    evidenceSources: ["mock"],
+    confidenceThreshold: 20,
+  },
+  settlementDeadline: new Date("2026-02-01T00:00:00Z"),
+};
+
+const mockConfig = (overrides: Partial<PipelineConfig> = {}): PipelineConfig => ({
+  evidenceSources: [new MockEvidenceSource()],
+  advocateYesClient: new MockLLMClient("close"),
+  advocateNoClient: new MockLLMClient("close"),
+  judgeClient: new MockLLMClient("close"),
+  ...overrides,
+});
+
+/* A transcript as it comes back from disk or IPFS */
+const roundTrip = (t: TrialTranscript) => JSON.parse(JSON.stringify(t)) as TrialTranscript;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("replayTrial", () => {
+  it("reproduces the stored decision and evidence root", async () => {
+    const stored = await runTrial(question, mockConfig());
+
+    const result = await replayTrial(stored);
+
+    expect(result.matches).toBe(true);
+    expect(result.differences).toEqual([]);
+    expect(result.replayed.decision).toEqual(stored.decision);
+    expect(result.replayed.evidence.merkleRoot).toBe(stored.evidence.merkleRoot);
+    expect(result.replayed.advocateYes.model).toBe(stored.advocateYes.model);
+  });
+
+  it("replays every round and every panel seat", async () => {
+    const stored = await runTrial(
+      question,
+      mockConfig({
+        rounds: 2,
+        judgePanelClients: [new MockLLMClient("close"), new MockLLMClient("clear"), new MockLLMClient("close")],
+        judgeAggregation: "trimmed-mean",
+      })
+    );
+
+    const result = await replayTrial(stored);
+
+    expect(result.matches).toBe(true);
+    expect(result.replayed.debateRounds).toHaveLength(2);
+    expect(result.replayed.judgePanel?.aggregation).toBe("trimmed-mean");
+    expect(result.replayed.judgePanel?.rulings).toEqual(stored.judgePanel?.rulings);
+  });
+
+  it("diffs the decision when a live judge rules differently", async () => {
+    const stored = await runTrial(question, mockConfig());
+
+    const result = await replayTrial(stored, { judgeClient: new MockLLMClient("clear") });
+
+    expect(result.matches).toBe(false);
+    expect(result.differences).toContainEqual({ field: "judgeRuling.scoreYes", stored: 52, replayed: 78 });
+    expect(result.differences.map((d) => d.field)).not.toContain("evidence.merkleRoot");
+  });
+
+  it("reports a stored decision the replay doesn't reproduce", async () => {
+    const stored = await runTrial(question, mockConfig());
+    const edited = { ...stored, decision: { ...stored.decision, action: "RESOLVE" as const, verdict: "YES" as const } };
+
+    const result = await replayTrial(edited);
+
+    expect(result.differences.map((d) => d.field)).toEqual(["decision.action", "decision.verdict"]);
+  });
+
+  it("uses the prompt versions the stored trial recorded", async () => {
+    const registry = new PromptRegistry();
+    registry.register(builtinPrompts().get("advocate"));
+    registry.register(builtinPrompts().get("judge"));
+    registry.register(PromptTemplateSchema.parse({ name: "judge", version: "v2", template: "Judge tersely." }));
+    const stored = await runTrial(question, mockConfig({ promptRegistry: registry, prompts: { judge: "v1" } }));
+
+    const result = await replayTrial(stored, { promptRegistry: registry });
+
+    expect(result.replayed.judgeRuling.prompt).toEqual(stored.judgeRuling.prompt);
+    expect(result.replayed.judgeRuling.prompt?.id).toBe("judge@v1");
+  });
+
+  it("fails when the trial asks for more responses than were recorded", async () => {
+    const client = new RecordedResponseClient("Judge", []);
+
+    await expect(client.call({ systemPrompt: "", userPrompt: "" })).rejects.toThrow(
+      "Judge: no recorded response left to replay"
+    );
+  });
+});
+
+describe("loadTranscript", () => {
+  it("reads a stored record from a file and revives its dates", async () => {
+    const stored = await runTrial(question, mockConfig());
+    const dir = await mkdtemp(path.join(tmpdir(), "replay-"));
+    const file = path.join(dir, "market-1.json");
+    await writeFile(file, JSON.stringify({ marketId: 1, transcript: stored }));
+
+    const loaded = await loadTranscript(file);
+
+    expect(loaded.executedAt).toBeInstanceOf(Date);
+    expect(loaded.evidence.items[0].retrievedAt).toBeInstanceOf(Date);
+    expect((await replayTrial(loaded)).matches).toBe(true);
+  });
+
+  it("fetches an ipfs:// transcript through the gateway", async () => {
+    const stored = roundTrip(await runTrial(question, mockConfig()));
+    const fetchMock = vi.fn(async () => Response.json(stored));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const loaded = await loadTranscript("ipfs://bafytranscript", "https://ipfs.example/ipfs");
+
+    expect(fetchMock).toHaveBeenCalledWith("https://ipfs.example/ipfs/bafytranscript");
+    expect(loaded.question.id).toBe("replay-001");
+  });
+
+  it("rejects JSON that isn't a transcript", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "replay-"));
+    const file = path.join(dir, "other.json");
+    await writeFile(file, JSON.stringify({ hello: "world" }));
+
+    await expect(loadTranscript(file)).rejects.toThrow("is not a trial transcript");
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  AnthropicClient,
+  OpenAIClient,
+  TimeoutLLMClient,
+  RetryingLLMClient,
+  FailoverLLMClient,
+  LLMHttpError,
+  LLMTimeoutError,
+  createLLMClient,
+} from "../src/llm/index.js";
+import type { LLMRequest } from "../src/llm/index.js";
+
+/**
+ * Tests for the LLM resilience decorators, run against a local stub
+ * HTTP server that speaks just enough of each provider's API.
+ */
+
+type Reply = { status: number; headers?: Record<string, string>; delayMs?: number };
+
+/* Per-path queue of scripted replies; an empty queue answers 200 */
+const script = new Map<string, Reply[]>();
+const hits = new Map<string, number>();
+
+const anthropicOk = JSON.stringify({
+  model: "stub-claude",
+  content: [{ type: "text", text: '{"ok":true}' }],
+  usage: { input_tokens: 1, output_tokens: 1 },
+});
+const openaiOk = JSON.stringify({
+  model: "stub-gpt",
+  choices: [{ message: { content: '{"ok":true}' } }],
+  usage: { total_tokens: 2 },
+});
+
+const server = http.createServer((req, res) => {
+  const path = req.url ?? "/";
+  hits.set(path, (hits.get(path) ?? 0) + 1);
+  const reply = script.get(path)?.shift() ?? { status: 200 };
+
+  setTimeout(() => {
+    if (res.destroyed) return;
+    res.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+    res.end(
+      reply.status === 200
+        ? path === "/openai" ? openaiOk : anthropicOk
+        : JSON.stringify({ error: `stub ${reply.status}` })
+    );
+  }, reply.delayMs ?? 0);
+});
+
+let baseUrl = "";
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  script.clear();
+  hits.clear();
+});
+
+const request: LLMRequest = { systemPrompt: "sys", userPrompt: "user" };
+
+const anthropic = () => new AnthropicClient({ apiKey: "test", baseUrl: `${baseUrl}/anthropic` });
+const openai = () => new OpenAIClient({ apiKey: "test", baseUrl: `${baseUrl}/openai` });
+
+describe("provider adapters", () => {
+  it("raise LLMHttpError with status and parsed Retry-After", async () => {
+    script.set("/anthropic", [{ status: 429, headers: { "retry-after": "7" } }]);
+
+    const error = await anthropic().call(request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(LLMHttpError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterMs).toBe(7000);
+  });
+});
+
+describe("TimeoutLLMClient", () => {
+  it("aborts a call that exceeds the timeout", async () => {
+    script.set("/anthropic", [{ status: 200, delayMs: 2000 }]);
+    const client = new TimeoutLLMClient(anthropic(), 50);
+
+    await expect(client.call(request)).rejects.toBeInstanceOf(LLMTimeoutError);
+  });
+});
+
+describe("RetryingLLMClient", () => {
+  it("retries 5xx and 429 with backoff until the call succeeds", async () => {
+    script.set("/anthropic", [
+      { status: 503 },
+      { status: 429, headers: { "retry-after": "0" } },
+    ]);
+    const client = new RetryingLLMClient(anthropic(), { baseDelayMs: 10 });
+
+    const response = await client.call(request);
+
+    expect(response.model).toBe("stub-claude");
+    expect(hits.get("/anthropic")).toBe(3);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    script.set("/anthropic", [{ status: 429, headers: { "retry-after": "1" } }]);
+    const client = new RetryingLLMClient(anthropic(), { baseDelayMs: 10 });
+
+    const start = Date.now();
+    await client.call(request);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(950);
+  });
+
+  it("gives up immediately when Retry-After exceeds maxDelayMs", async () => {
+    script.set("/anthropic", [{ status: 429, headers: { "retry-after": "120" } }]);
+    const client = new RetryingLLMClient(anthropic(), { maxDelayMs: 1000 });
+
+    await expect(client.call(request)).rejects.toThrow("429");
+    expect(hits.get("/anthropic")).toBe(1);
+  });
+
+  it("does not retry client errors", async () => {
+    script.set("/anthropic", [{ status: 400 }]);
+    const client = new RetryingLLMClient(anthropic(), { baseDelayMs: 10 });
+
+    await expect(client.call(request)).rejects.toThrow("400");
+    expect(hits.get("/anthropic")).toBe(1);
+  });
+
+  it("retries a timed-out attempt", async () => {
+    script.set("/anthropic", [{ status: 200, delayMs: 2000 }]);
+    const client = new RetryingLLMClient(new TimeoutLLMClient(anthropic(), 50), {
+      baseDelayMs: 10,
+    });
+
+    const response = await client.call(request);
+
+    expect(response.model).toBe("stub-claude");
+    expect(hits.get("/anthropic")).toBe(2);
+  });
+});
+
+describe("FailoverLLMClient", () => {
+  it("falls through to the next provider once the first gives up", async () => {
+    script.set("/anthropic", [{ status: 500 }, { status: 500 }]);
+    const client = new FailoverLLMClient([
+      new RetryingLLMClient(anthropic(), { maxRetries: 1, baseDelayMs: 10 }),
+      openai(),
+    ]);
+
+    const response = await client.call(request);
+
+    expect(response.model).toBe("stub-gpt");
+    expect(hits.get("/anthropic")).toBe(2);
+    expect(hits.get("/openai")).toBe(1);
+  });
+
+  it("reports every provider's failure when all fail", async () => {
+    script.set("/anthropic", [{ status: 401 }]);
+    script.set("/openai", [{ status: 401 }]);
+    const client = new FailoverLLMClient([anthropic(), openai()]);
+
+    await expect(client.call(request)).rejects.toThrow(
+      /All 2 LLM providers failed: Anthropic API error 401.*OpenAI API error 401/
+    );
+  });
+});
+
+describe("createLLMClient", () => {
+  it("builds the bare adapter without options", () => {
+    expect(createLLMClient("mock")).not.toBeInstanceOf(RetryingLLMClient);
+  });
+
+  it("wraps each provider in timeout + retry and chains failover", () => {
+    const client = createLLMClient("anthropic", {
+      timeoutMs: 1000,
+      maxRetries: 2,
+      failover: ["openai"],
+    });
+
+    expect(client).toBeInstanceOf(FailoverLLMClient);
+  });
+});
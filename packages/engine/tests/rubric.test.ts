@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { ethers } from "ethers";
+import {
+  InMemoryRubricRegistry,
+  hashRubric,
+  resolveRubric,
+} from "../src/rubric/index.js";
+import type { RubricDocument, RubricRegistry } from "../src/rubric/index.js";
+
+/**
+ * Tests for the rubric registry and onchain hash verification.
+ */
+
+const rubric: RubricDocument = {
+  criteria: [
+    { name: "Data accuracy", description: "Are the cited numbers verifiable?", weight: 60 },
+    { name: "Logical coherence", description: "Is the argument consistent?", weight: 40 },
+  ],
+  confidenceThreshold: 35,
+};
+
+describe("hashRubric", () => {
+  it("matches the hash CreateMarket.tsx puts onchain", () => {
+    // Same construction as the frontend: the criteria in full + threshold
+    const frontendJson = JSON.stringify({
+      criteria: [
+        { name: "Data accuracy", description: "Are the cited numbers verifiable?", weight: 60 },
+        { name: "Logical coherence", description: "Is the argument consistent?", weight: 40 },
+      ],
+      confidenceThreshold: 35,
+    });
+
+    expect(hashRubric(rubric)).toBe(
+      ethers.keccak256(ethers.toUtf8Bytes(frontendJson))
+    );
+  });
+
+  it("covers descriptions, weights and evidence sources", () => {
+    const reworded = {
+      ...rubric,
+      criteria: rubric.criteria.map((c) => ({ ...c, description: "edited" })),
+    };
+    const reweighted = {
+      ...rubric,
+      criteria: [
+        { ...rubric.criteria[0], weight: 50 },
+        { ...rubric.criteria[1], weight: 50 },
+      ],
+    };
+
+    const sourced = { ...rubric, evidenceSources: ["mock"] };
+
+    expect(hashRubric(reworded)).not.toBe(hashRubric(rubric));
+    expect(hashRubric(reweighted)).not.toBe(hashRubric(rubric));
+    expect(hashRubric(sourced)).not.toBe(hashRubric(rubric));
+  });
+});
+
+describe("resolveRubric", () => {
+  it("builds the market's rubric from the registry", async () => {
+    const registry = new InMemoryRubricRegistry();
+    const rubricHash = await registry.publish(rubric);
+
+    const result = await resolveRubric(registry, rubricHash, ["mock"]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.rubric.confidenceThreshold).toBe(35);
+      expect(result.rubric.criteria).toHaveLength(2);
+      expect(result.rubric.evidenceSources).toEqual(["mock"]);
+    }
+  });
+
+  it("refuses a rubric that was never published", async () => {
+    const registry = new InMemoryRubricRegistry();
+
+    const result = await resolveRubric(registry, hashRubric(rubric));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.reason).toContain("never published");
+  });
+
+  it("keeps a re-worded rubric separate from the one already published", async () => {
+    const registry = new InMemoryRubricRegistry();
+    const reworded = {
+      ...rubric,
+      criteria: rubric.criteria.map((c) => ({ ...c, description: "Anything goes" })),
+    };
+
+    const originalHash = await registry.publish(rubric);
+    const rewordedHash = await registry.publish(reworded);
+
+    expect(rewordedHash).not.toBe(originalHash);
+    expect((await registry.get(originalHash))?.criteria[0].description).toBe(
+      "Are the cited numbers verifiable?"
+    );
+    expect((await registry.get(rewordedHash))?.criteria[0].description).toBe("Anything goes");
+  });
+
+  it("refuses a registry document that doesn't match the onchain hash", async () => {
+    const onchainHash = hashRubric(rubric);
+    const tampered: RubricRegistry = {
+      load: async () => {},
+      publish: async () => onchainHash,
+      get: async () => ({ ...rubric, confidenceThreshold: 5 }),
+    };
+
+    const result = await resolveRubric(tampered, onchainHash);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.reason).toContain("hash mismatch");
+  });
+
+  it("rejects rubrics whose weights don't sum to 100", async () => {
+    const registry = new InMemoryRubricRegistry();
+    const bad = {
+      ...rubric,
+      criteria: [{ name: "Only", description: "", weight: 90 }],
+    };
+
+    await expect(registry.publish(bad)).rejects.toThrow("sum to 100");
+  });
+});
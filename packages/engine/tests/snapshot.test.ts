@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ethers } from "ethers";
+import {
+  evidenceMerkleRoot,
+  fetchSnapshot,
+  gatherEvidence,
+  hashEvidenceItem,
+  snapshotEvidence,
+  verifyEvidenceBundle,
+} from "../src/evidence/index.js";
+import type { EvidenceSource } from "../src/evidence/index.js";
+import { hashTranscript } from "../src/settlement/onchain.js";
+import type { EvidenceBundle, EvidenceItem, MarketQuestion, TrialTranscript } from "../src/types.js";
+
+/**
+ * Tests for evidence snapshotting: response metadata, content hashes,
+ * the bundle's Merkle root and its place in the transcriptHash.
+ */
+
+const item = (n: number): EvidenceItem => ({
+  source: "treasury",
+  title: `Rates ${n}`,
+  content: `Average rate ${n}%`,
+  retrievedAt: new Date("2026-01-31T00:00:00Z"),
+});
+
+const bundle = (count: number): EvidenceBundle =>
+  snapshotEvidence({
+    questionId: "q-1",
+    items: Array.from({ length: count }, (_, i) => item(i)),
+    gatheredAt: new Date("2026-01-31T00:00:00Z"),
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchSnapshot", () => {
+  it("records status, selected headers, length and a hash of the raw body", async () => {
+    const body = '{"data":[1,2,3]}';
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        new Response(body, {
+          status: 200,
+          headers: { "content-type": "application/json", etag: '"v1"', "set-cookie": "secret=1" },
+        })
+      )
+    );
+
+    const snapshot = await fetchSnapshot("https://api.example/data");
+
+    expect(snapshot.ok).toBe(true);
+    expect(JSON.parse(snapshot.body)).toEqual({ data: [1, 2, 3] });
+    expect(snapshot.response).toEqual({
+      status: 200,
+      headers: { "content-type": "application/json", etag: '"v1"' },
+      byteLength: body.length,
+      bodyHash: ethers.keccak256(ethers.toUtf8Bytes(body)),
+    });
+  });
+});
+
+describe("evidenceMerkleRoot", () => {
+  it("is zero for an empty bundle and the leaf itself for one item", () => {
+    expect(evidenceMerkleRoot([])).toBe(ethers.ZeroHash);
+    expect(evidenceMerkleRoot([item(0)])).toBe(hashEvidenceItem(item(0)));
+  });
+
+  it("carries an odd leaf up and hashes pairs in sorted order", () => {
+    const [a, b, c] = [item(0), item(1), item(2)].map(hashEvidenceItem);
+    const pair = (x: string, y: string) => ethers.keccak256(ethers.concat([x, y].sort()));
+
+    expect(evidenceMerkleRoot([item(0), item(1), item(2)])).toBe(pair(pair(a, b), c));
+  });
+
+  it("changes when any item changes", () => {
+    const tampered = { ...item(1), content: "Average rate 9%" };
+
+    expect(evidenceMerkleRoot([item(0), tampered])).not.toBe(evidenceMerkleRoot([item(0), item(1)]));
+  });
+});
+
+describe("verifyEvidenceBundle", () => {
+  it("accepts a snapshotted bundle, also after a JSON round trip", () => {
+    const original = bundle(3);
+    const fromIpfs = JSON.parse(JSON.stringify(original)) as EvidenceBundle;
+
+    expect(verifyEvidenceBundle(original).valid).toBe(true);
+    expect(verifyEvidenceBundle(fromIpfs)).toEqual({
+      valid: true,
+      merkleRoot: original.merkleRoot,
+      mismatchedItems: [],
+    });
+  });
+
+  it("pinpoints an item whose content was edited", () => {
+    const tampered = bundle(3);
+    tampered.items[1] = { ...tampered.items[1], content: "Average rate 9%" };
+
+    const result = verifyEvidenceBundle(tampered);
+
+    expect(result.valid).toBe(false);
+    expect(result.mismatchedItems).toEqual([1]);
+  });
+});
+
+describe("gatherEvidence", () => {
+  it("returns a snapshotted bundle", async () => {
+    const source: EvidenceSource = { name: "fixed", fetch: async () => [item(0), item(1)] };
+    const question = { id: "q-1" } as MarketQuestion;
+
+    const gathered = await gatherEvidence(question, [source]);
+
+    expect(gathered.items.every((i) => i.contentHash)).toBe(true);
+    expect(gathered.merkleRoot).toBe(evidenceMerkleRoot(gathered.items));
+  });
+});
+
+describe("hashTranscript", () => {
+  it("commits to the evidence Merkle root", () => {
+    const transcript = { evidence: bundle(2), decision: { action: "RESOLVE" } } as unknown as TrialTranscript;
+    const jsonHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(transcript)));
+
+    expect(hashTranscript(transcript)).toBe(
+      ethers.keccak256(ethers.concat([jsonHash, transcript.evidence.merkleRoot!]))
+    );
+  });
+
+  it("keeps the plain JSON hash for transcripts without a root", () => {
+    const transcript = { evidence: { questionId: "q-1", items: [] } } as unknown as TrialTranscript;
+
+    expect(hashTranscript(transcript)).toBe(ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(transcript))));
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { runTrial } from "../src/pipeline/index.js";
+import { MockLLMClient } from "../src/llm/mock.js";
+import { MockEvidenceSource } from "../src/evidence/mock.js";
+import { FileTranscriptRepository } from "../src/store/index.js";
+import { hashTranscript } from "../src/settlement/onchain.js";
+import type { MarketQuestion, TrialTranscript } from "../src/types.js";
+
+/**
+ * Tests for the file-backed transcript repository.
+ *
+ * Each test gets a fresh temp directory, and "restarts" are simulated
+ * by constructing a second repository over the same directory.
+ */
+
+const question: MarketQuestion = {
+  id: "market-0",
+  question: "Did ETH staking yields outperform US Treasury rates?",
+  rubric: {
+    criteria: [{ name: "Data accuracy", description: "Verifiable?", weight: 100 }],
+    evidenceSources: ["mock"],
+    confidenceThreshold: 20,
+  },
+  settlementDeadline: new Date(),
+};
+
+async function mockTranscript(): Promise<TrialTranscript> {
+  return runTrial(question, {
+    evidenceSources: [new MockEvidenceSource()],
+    advocateYesClient: new MockLLMClient("close"),
+    advocateNoClient: new MockLLMClient("close"),
+    judgeClient: new MockLLMClient("close"),
+  });
+}
+
+describe("FileTranscriptRepository", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "tbf-transcripts-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores a transcript with its keccak hash", async () => {
+    const repo = new FileTranscriptRepository(dir);
+    await repo.load();
+
+    const transcript = await mockTranscript();
+    const record = await repo.append(0, transcript);
+
+    expect(record.trial).toBe(1);
+    expect(record.transcriptHash).toBe(hashTranscript(transcript));
+    expect(record.cid).toBeNull();
+    expect(record.txHash).toBeNull();
+  });
+
+  it("survives a restart with CID and tx hash intact", async () => {
+    const repo = new FileTranscriptRepository(dir);
+    await repo.load();
+    const record = await repo.append(3, await mockTranscript());
+    await repo.update(3, record.trial, { cid: "QmTestCid", txHash: "0xabc" });
+
+    // Simulate a server restart
+    const reloaded = new FileTranscriptRepository(dir);
+    await reloaded.load();
+    const latest = await reloaded.latest(3);
+
+    expect(latest).not.toBeNull();
+    expect(latest!.cid).toBe("QmTestCid");
+    expect(latest!.txHash).toBe("0xabc");
+    expect(latest!.transcript.executedAt).toBeInstanceOf(Date);
+    // Reviving dates must not change the hash anchored onchain
+    expect(hashTranscript(latest!.transcript)).toBe(record.transcriptHash);
+  });
+
+  it("keeps every retrial for a market", async () => {
+    const repo = new FileTranscriptRepository(dir);
+    await repo.load();
+    await repo.append(1, await mockTranscript());
+    await repo.append(1, await mockTranscript());
+
+    const history = await repo.history(1);
+    expect(history.map((r) => r.trial)).toEqual([1, 2]);
+    expect((await repo.latest(1))!.trial).toBe(2);
+    expect(await repo.latest(99)).toBeNull();
+  });
+
+  it("keeps every update when writes to one market overlap", async () => {
+    const repo = new FileTranscriptRepository(dir);
+    await repo.load();
+    const transcript = await mockTranscript();
+
+    const [first] = await Promise.all([repo.append(2, transcript), repo.append(2, transcript)]);
+    await Promise.all([
+      repo.update(2, first.trial, { cid: "QmFirst" }),
+      repo.append(2, transcript),
+      repo.update(2, 2, { txHash: "0x2" }),
+    ]);
+
+    const reloaded = new FileTranscriptRepository(dir);
+    await reloaded.load();
+    const history = await reloaded.history(2);
+    expect(history.map((r) => [r.trial, r.cid, r.txHash])).toEqual([
+      [1, "QmFirst", null],
+      [2, null, "0x2"],
+      [3, null, null],
+    ]);
+    expect(await readdir(dir)).toEqual(["market-2.json"]);
+  });
+
+  it("rejects updates to unknown trials", async () => {
+    const repo = new FileTranscriptRepository(dir);
+    await repo.load();
+
+    await expect(repo.update(5, 1, { txHash: "0x1" })).rejects.toThrow(
+      "No transcript record"
+    );
+  });
+});
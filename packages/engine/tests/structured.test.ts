@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { callStructured, parseJsonContent } from "../src/llm/structured.js";
+import type { LLMClient, LLMRequest, LLMResponse } from "../src/llm/index.js";
+import type { LLMCallLog } from "../src/types.js";
+
+/**
+ * Tests for the structured output layer (JSON repair + re-prompting).
+ */
+
+const schema = z.object({ verdict: z.enum(["YES", "NO"]), score: z.number() });
+
+const request: LLMRequest = { systemPrompt: "Return JSON.", userPrompt: "Decide." };
+
+/* Client that replays a fixed sequence of responses and records prompts */
+class ScriptedClient implements LLMClient {
+  prompts: string[] = [];
+
+  constructor(private responses: string[]) {}
+
+  async call(req: LLMRequest): Promise<LLMResponse> {
+    this.prompts.push(req.userPrompt);
+    const content = this.responses[this.prompts.length - 1];
+    return { content, model: "scripted", tokensUsed: 0 };
+  }
+}
+
+describe("parseJsonContent", () => {
+  it("strips markdown code fences", () => {
+    const result = parseJsonContent('```json\n{"verdict": "YES", "score": 70}\n```');
+
+    expect(result).toEqual({ ok: true, value: { verdict: "YES", score: 70 }, repaired: true });
+  });
+
+  it("extracts the first object from surrounding prose", () => {
+    const result = parseJsonContent(
+      'Here is my ruling: {"verdict": "NO", "note": "a {brace} in a string"} Hope that helps! {"extra": 1}'
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: { verdict: "NO", note: "a {brace} in a string" },
+      repaired: true,
+    });
+  });
+
+  it("reports unrecoverable output", () => {
+    const result = parseJsonContent("I cannot answer that.");
+
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe("callStructured", () => {
+  it("returns valid output on the first attempt without retrying", async () => {
+    const client = new ScriptedClient(['{"verdict": "YES", "score": 70}']);
+    const logs: LLMCallLog[] = [];
+
+    const { value } = await callStructured("Judge", client, request, schema, {
+      onCall: (log) => logs.push(log),
+    });
+
+    expect(value).toEqual({ verdict: "YES", score: 70 });
+    expect(client.prompts).toHaveLength(1);
+    expect(logs).toEqual([
+      { label: "Judge", attempts: [{ attempt: 1, model: "scripted", outcome: "ok" }] },
+    ]);
+  });
+
+  it("re-prompts with the Zod error and logs every attempt", async () => {
+    const client = new ScriptedClient([
+      '{"verdict": "MAYBE", "score": 70}',
+      '{"verdict": "YES", "score": 70}',
+    ]);
+    const logs: LLMCallLog[] = [];
+
+    const { value } = await callStructured("Judge", client, request, schema, {
+      onCall: (log) => logs.push(log),
+    });
+
+    expect(value.verdict).toBe("YES");
+    expect(client.prompts[1]).toContain("PREVIOUS ATTEMPT REJECTED");
+    expect(client.prompts[1]).toContain("verdict:");
+    expect(logs[0].attempts.map((a) => a.outcome)).toEqual(["schema-error", "ok"]);
+    expect(logs[0].attempts[0].rawContent).toBe('{"verdict": "MAYBE", "score": 70}');
+  });
+
+  it("gives up after maxAttempts and still reports the log", async () => {
+    const client = new ScriptedClient(["not json", "still not json"]);
+    const logs: LLMCallLog[] = [];
+
+    await expect(
+      callStructured("Advocate YES", client, request, schema, {
+        maxAttempts: 2,
+        onCall: (log) => logs.push(log),
+      })
+    ).rejects.toThrow("Advocate YES returned unusable output after 2 attempt(s)");
+
+    expect(client.prompts).toHaveLength(2);
+    expect(logs[0].attempts.map((a) => a.outcome)).toEqual(["invalid-json", "invalid-json"]);
+  });
+});
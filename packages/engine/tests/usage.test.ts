@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import {
+  UsageTracker,
+  addTrialUsage,
+  emptyUsageAggregate,
+  parseTrialBudget,
+  priceFor,
+} from "../src/usage/index.js";
+import { runTrial } from "../src/pipeline/index.js";
+import type { PipelineConfig } from "../src/pipeline/index.js";
+import { MockLLMClient } from "../src/llm/mock.js";
+import { MockEvidenceSource } from "../src/evidence/mock.js";
+import type { EvidenceContext, EvidenceSource } from "../src/evidence/index.js";
+import type { MarketQuestion, TrialEvent } from "../src/types.js";
+
+/**
+ * Tests for token / cost accounting and per-trial budgets.
+ */
+
+const question: MarketQuestion = {
+  id: "usage-001",
+  question: "Did ETH staking yields outperform Treasuries?",
+  rubric: {
+    criteria: [{ name: "Data accuracy", description: "Verifiable?", weight: 100 }],
+    evidenceSources: ["mock"],
+    confidenceThreshold: 20,
+  },
+  settlementDeadline: new Date(),
+};
+
+function buildConfig(overrides: Partial<PipelineConfig> = {}): PipelineConfig {
+  return {
+    evidenceSources: [new MockEvidenceSource()],
+    advocateYesClient: new MockLLMClient(),
+    advocateNoClient: new MockLLMClient(),
+    judgeClient: new MockLLMClient(),
+    ...overrides,
+  };
+}
+
+describe("pricing", () => {
+  it("matches dated model ids by longest prefix", () => {
+    expect(priceFor("claude-sonnet-4-20250514")).toEqual({ inputPerMTok: 3, outputPerMTok: 15 });
+    expect(priceFor("gpt-4o-mini-2024-07-18")?.inputPerMTok).toBe(0.15);
+    expect(priceFor("gpt-4o-2024-08-06")?.inputPerMTok).toBe(2.5);
+    expect(priceFor("llama-3-70b")).toBeNull();
+  });
+});
+
+describe("UsageTracker", () => {
+  it("converts tokens to USD per stage", () => {
+    const tracker = new UsageTracker();
+    tracker.record("judge", {
+      content: "",
+      model: "claude-sonnet-4-20250514",
+      tokensUsed: 3000,
+      inputTokens: 2000,
+      outputTokens: 1000,
+    });
+
+    const usage = tracker.snapshot();
+
+    // 2000 × $3/M + 1000 × $15/M
+    expect(usage.byStage.judge.costUsd).toBeCloseTo(0.021);
+    expect(usage.total.calls).toBe(1);
+    expect(usage.byStage["advocate-yes"].calls).toBe(0);
+  });
+
+  it("counts unsplit tokens as output and flags unpriced models", () => {
+    const tracker = new UsageTracker();
+    tracker.record("router", { content: "", model: "custom-model", tokensUsed: 500 });
+
+    const usage = tracker.snapshot();
+
+    expect(usage.byStage.router.outputTokens).toBe(500);
+    expect(usage.byStage.router.costUsd).toBe(0);
+    expect(usage.unpricedModels).toEqual(["custom-model"]);
+  });
+});
+
+describe("addTrialUsage", () => {
+  it("accumulates trials for the health endpoint", async () => {
+    const a = await runTrial(question, buildConfig());
+    const b = await runTrial(question, buildConfig());
+
+    const totals = addTrialUsage(addTrialUsage(emptyUsageAggregate(), a.usage), b.usage);
+
+    expect(totals.trials).toBe(2);
+    expect(totals.total.calls).toBe(6);
+    expect(totals.byStage.judge.inputTokens).toBe(
+      a.usage.byStage.judge.inputTokens + b.usage.byStage.judge.inputTokens
+    );
+  });
+});
+
+describe("runTrial usage", () => {
+  it("meters advocates, judge and the evidence router separately", async () => {
+    const router: EvidenceSource = {
+      name: "router-stub",
+      async fetch(_q, context?: EvidenceContext) {
+        context?.onLLMResponse?.({
+          content: "{}",
+          model: "mock-model",
+          tokensUsed: 30,
+          inputTokens: 20,
+          outputTokens: 10,
+        });
+        return [];
+      },
+    };
+
+    const transcript = await runTrial(
+      question,
+      buildConfig({ evidenceSources: [new MockEvidenceSource(), router] })
+    );
+    const { byStage, total } = transcript.usage;
+
+    expect(byStage.router).toEqual({ calls: 1, inputTokens: 20, outputTokens: 10, costUsd: 0 });
+    expect(byStage["advocate-yes"].calls).toBe(1);
+    expect(byStage["advocate-no"].calls).toBe(1);
+    expect(byStage.judge.calls).toBe(1);
+    expect(total.calls).toBe(4);
+    expect(transcript.usage.budget).toBeUndefined();
+  });
+
+  it("escalates a trial that exceeded an escalate-mode budget", async () => {
+    const transcript = await runTrial(
+      question,
+      buildConfig({ budget: { maxTokens: 100, onExceeded: "escalate" } })
+    );
+
+    expect(transcript.decision.action).toBe("ESCALATE");
+    expect(transcript.decision.reason).toContain("exceeded its budget");
+    expect(transcript.usage.budget?.exceeded).toBe(true);
+  });
+
+  it("aborts at the first stage boundary over an abort-mode budget", async () => {
+    await expect(
+      runTrial(question, buildConfig({ budget: { maxTokens: 100, onExceeded: "abort" } }))
+    ).rejects.toThrow("Trial aborted after debate round 1");
+  });
+
+  it("reports what an aborted trial spent on its trial-failed event", async () => {
+    const events: TrialEvent[] = [];
+    const config = buildConfig({
+      budget: { maxTokens: 100, onExceeded: "abort" },
+      onEvent: (event) => events.push(event),
+    });
+
+    await expect(runTrial(question, config)).rejects.toThrow("Trial aborted");
+
+    const failed = events.at(-1)!;
+    if (failed.type !== "trial-failed") throw new Error(`unexpected ${failed.type}`);
+    expect(failed.usage.byStage["advocate-yes"].calls).toBe(1);
+    expect(failed.usage.byStage.judge.calls).toBe(0);
+    expect(failed.usage.budget?.exceeded).toBe(true);
+    expect(addTrialUsage(emptyUsageAggregate(), failed.usage)).toMatchObject({ trials: 1, budgetExceeded: 1 });
+  });
+});
+
+describe("parseTrialBudget", () => {
+  it("defaults to escalate and returns undefined without limits", () => {
+    expect(parseTrialBudget({})).toBeUndefined();
+    expect(parseTrialBudget({ TRIAL_BUDGET_USD: "0.5" })).toEqual({
+      maxUsd: 0.5,
+      maxTokens: undefined,
+      onExceeded: "escalate",
+    });
+    expect(() =>
+      parseTrialBudget({ TRIAL_BUDGET_TOKENS: "1000", TRIAL_BUDGET_ON_EXCEEDED: "ignore" })
+    ).toThrow("abort");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { FulfillmentWatchdog } from "../src/watchdog/index.js";
+import type { IndexedMarket } from "../src/indexer/index.js";
+
+/**
+ * Tests for the DON fulfillment watchdog over indexed market state.
+ */
+
+function market(marketId: number, overrides: Partial<IndexedMarket> = {}): IndexedMarket {
+  return {
+    marketId,
+    question: `Question ${marketId}?`,
+    rubricHash: "0xrubric",
+    deadline: 0,
+    status: "SettlementRequested",
+    trialRequestId: `0xreq${marketId}`,
+    trialRequestedAt: 1_000,
+    updatedAtBlock: 1,
+    ...overrides,
+  };
+}
+
+/* Unix seconds → Date */
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe("FulfillmentWatchdog", () => {
+  it("lists only markets with an unfulfilled DON request", () => {
+    const watchdog = new FulfillmentWatchdog(60_000);
+    const markets = [
+      market(0),
+      market(1, { trialRequestId: null, trialRequestedAt: null }),
+      market(2, { status: "Resolved" }),
+    ];
+
+    const pending = watchdog.pending(markets, at(1_010));
+
+    expect(pending.map((p) => p.marketId)).toEqual([0]);
+    expect(pending[0].requestId).toBe("0xreq0");
+    expect(pending[0].expiresAt).toEqual(at(1_060));
+  });
+
+  it("watches the retrial request of an appealed market", () => {
+    const watchdog = new FulfillmentWatchdog(60_000);
+
+    const pending = watchdog.pending([market(0, { status: "Appealed" })], at(1_010));
+
+    expect(pending.map((p) => p.marketId)).toEqual([0]);
+  });
+
+  it("flags a request as overdue once the timeout has passed", () => {
+    const watchdog = new FulfillmentWatchdog(60_000);
+
+    expect(watchdog.pending([market(0)], at(1_059))[0].overdue).toBe(false);
+    expect(watchdog.pending([market(0)], at(1_060))[0].overdue).toBe(true);
+  });
+
+  it("reports the fallback job started for a request", () => {
+    const watchdog = new FulfillmentWatchdog(60_000);
+    watchdog.recordFallback("0xreq0", "job-1");
+
+    expect(watchdog.pending([market(0), market(1)], at(2_000)).map((p) => p.fallbackJobId)).toEqual([
+      "job-1",
+      null,
+    ]);
+  });
+
+  it("rejects a non-positive timeout", () => {
+    expect(() => new FulfillmentWatchdog(0)).toThrow("positive");
+  });
+});
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useWallet } from "./hooks/useWallet";
 import { useContract } from "./hooks/useContract";
+import { useTrialEngine } from "./hooks/useTrialEngine";
 import { HowItWorks } from "./components/HowItWorks";
 import { CreateMarket } from "./components/CreateMarket";
 import { MarketList } from "./components/MarketList";
@@ -9,8 +10,11 @@ import { ParticipantList } from "./components/ParticipantList";
 import { TrialTranscript } from "./components/TrialTranscript";
 import { JudgeScorecard } from "./components/JudgeScorecard";
 import { SettlementStatus } from "./components/SettlementStatus";
-import type { Participant } from "./hooks/useContract";
-import type { TrialTranscript as TrialTranscriptType } from "./types";
+import { OutcomeScorecard } from "./components/OutcomeScorecard";
+import { ArbitrationPanel } from "./components/ArbitrationPanel";
+import type { ArbitrationInfo, Participant, UserPosition } from "./hooks/useContract";
+import { isCategoricalTranscript } from "./types";
+import type { CategoricalTranscript, TrialTranscript as TrialTranscriptType } from "./types";
 import "./App.css";
 
 /*
@@ -22,9 +26,12 @@ import "./App.css";
  *   CreateMarket form (anyone with a wallet — 0.01 ETH deposit)
  *   MarketList (card grid of all filed cases)
  *   MarketView (detail panel for selected case + staking)
+ *   Live trial (streams stage by stage while a settlement trial runs;
+ *     categorical markets show an OutcomeScorecard instead of the cards below)
  *   TrialTranscript (adversarial debate — appears after trial runs)
  *   JudgeScorecard (per-criterion scores — appears after trial runs)
  *   SettlementStatus (final verdict — appears after trial runs)
+ *   ArbitrationPanel (committee vote — escalated markets only)
  *   ParticipantList (all stakers + potential payouts)
  */
 export default function App() {
@@ -35,17 +42,32 @@ export default function App() {
     ethUsdPrice,
     createMarket,
     takePosition,
+    takeOutcomePosition,
+    getCollateralAllowance,
+    approveCollateral,
+    enableEarlyExit,
+    exitPosition,
+    getExitPenalty,
+    cancelMarket,
     claimWinnings,
     claimRefund,
+    appealMarket,
+    claimAppealBond,
+    expireAppeal,
+    getArbitration,
+    castArbitrationVote,
     getUserPosition,
     getMarketParticipants,
   } = useContract(provider, signer);
 
   const [selectedId, setSelectedId] = useState<number | null>(null);
   const [createLoading, setCreateLoading] = useState(false);
-  const [userPosition, setUserPosition] = useState<{ yes: string; no: string } | null>(null);
+  const [userPosition, setUserPosition] = useState<UserPosition | null>(null);
+  const [collateralAllowance, setCollateralAllowance] = useState<string | null>(null);
+  const [exitPenalty, setExitPenalty] = useState<{ yes: number; no: number } | null>(null);
   const [participants, setParticipants] = useState<Participant[]>([]);
-  const [transcript, setTranscript] = useState<TrialTranscriptType | null>(null);
+  const [arbitration, setArbitration] = useState<ArbitrationInfo | null>(null);
+  const [transcript, setTranscript] = useState<TrialTranscriptType | CategoricalTranscript | null>(null);
   const [transcriptLoading, setTranscriptLoading] = useState(false);
 
   /* Auto-select the first market when data loads */
@@ -70,15 +92,47 @@ export default function App() {
           console.warn("Failed to load user position:", err);
           setUserPosition(null);
         });
+      getCollateralAllowance(selectedId, account).then(setCollateralAllowance);
     } else {
       setUserPosition(null);
+      setCollateralAllowance(null);
     }
     if (selectedId !== null) {
       getMarketParticipants(selectedId).then(setParticipants);
     } else {
       setParticipants([]);
     }
-  }, [selectedId, account, provider, getUserPosition, getMarketParticipants, markets]);
+  }, [selectedId, account, provider, getUserPosition, getCollateralAllowance, getMarketParticipants, markets]);
+
+  /* Current exit penalties, for markets that allow early exit */
+  useEffect(() => {
+    const market = markets.find((m) => m.id === selectedId);
+    if (!market || !market.earlyExit.enabled || !account) {
+      setExitPenalty(null);
+      return;
+    }
+    getExitPenalty(market.id, account).then(setExitPenalty);
+  }, [selectedId, account, markets, getExitPenalty]);
+
+  /* Approve a token market's stake, then re-read the allowance so staking unlocks */
+  const handleApprove = useCallback(
+    async (marketId: number, amount: string) => {
+      const tx = await approveCollateral(marketId, amount);
+      if (account) setCollateralAllowance(await getCollateralAllowance(marketId, account));
+      return tx;
+    },
+    [account, approveCollateral, getCollateralAllowance]
+  );
+
+  /* Arbitration state for an escalated market (refreshed with the markets) */
+  useEffect(() => {
+    const market = markets.find((m) => m.id === selectedId);
+    if (!market || market.status !== "Escalated") {
+      setArbitration(null);
+      return;
+    }
+    getArbitration(market.id, account).then(setArbitration);
+  }, [selectedId, account, markets, getArbitration]);
 
   /*
    * Fetch trial transcript when a settled market is selected.
@@ -118,6 +172,11 @@ export default function App() {
             const res = await fetch(url, { signal: AbortSignal.timeout(8000) });
             if (res.ok) {
               const donData = await res.json();
+              /* Categorical markets are tried by the engine, which pins its own transcript format */
+              if (Array.isArray(donData.advocates)) {
+                setTranscript(donData as CategoricalTranscript);
+                return;
+              }
               /* Transform DON transcript format to frontend TrialTranscript type */
               setTranscript({
                 question: {
@@ -131,7 +190,8 @@ export default function App() {
                       { name: "Logical coherence", description: "Is the argument internally consistent?", weight: 25 },
                     ],
                     evidenceSources: [donData.category || "dynamic"],
-                    confidenceThreshold: 20,
+                    /* Mirrors trial-source.js: appeal retrials need a wider margin */
+                    confidenceThreshold: donData.appeal ? 30 : 20,
                   },
                   settlementDeadline: market.deadline,
                 },
@@ -160,7 +220,8 @@ export default function App() {
         const res = await fetch(`/api/transcript/${selectedId}`);
         if (res.ok) {
           const data = await res.json();
-          setTranscript(data.transcript);
+          /* txHash is stored next to the transcript, not inside it */
+          setTranscript({ ...data.transcript, txHash: data.txHash });
           return;
         }
       } catch {
@@ -175,10 +236,10 @@ export default function App() {
 
   /* Handle market creation with loading state */
   const handleCreateMarket = useCallback(
-    async (question: string, rubricHash: string, deadline: number) => {
+    async (question: string, rubricHash: string, deadline: number, token?: string, outcomes?: string[]) => {
       setCreateLoading(true);
       try {
-        await createMarket(question, rubricHash, deadline);
+        await createMarket(question, rubricHash, deadline, token, outcomes);
       } finally {
         setCreateLoading(false);
       }
@@ -189,6 +250,12 @@ export default function App() {
   /* Find the currently selected market object */
   const selectedMarket = markets.find((m) => m.id === selectedId) || null;
 
+  /* Follow the trial live while the selected market awaits settlement (or its appeal retrial) */
+  const awaitingVerdict =
+    selectedMarket !== null &&
+    (selectedMarket.status === "SettlementRequested" || selectedMarket.status === "Appealed");
+  const liveTrial = useTrialEngine(awaitingVerdict ? selectedMarket.id : null);
+
   /* Truncated wallet address for display */
   const truncatedAddress = account
     ? `${account.slice(0, 6)}...${account.slice(-4)}`
@@ -259,11 +326,69 @@ export default function App() {
           ethUsdPrice={ethUsdPrice}
           onStakeYes={(id, amount) => takePosition(id, 1, amount)}
           onStakeNo={(id, amount) => takePosition(id, 2, amount)}
+          onStakeOutcome={takeOutcomePosition}
+          collateralAllowance={collateralAllowance}
+          onApprove={handleApprove}
+          exitPenalty={exitPenalty}
+          onExit={exitPosition}
+          onEnableEarlyExit={enableEarlyExit}
+          onCancel={cancelMarket}
           onClaimWinnings={claimWinnings}
           onClaimRefund={claimRefund}
+          onAppeal={appealMarket}
+          onClaimAppealBond={claimAppealBond}
+          onExpireAppeal={expireAppeal}
+          arbitrationPending={
+            arbitration !== null &&
+            arbitration.quorum > 0 &&
+            arbitration.closesAt.getTime() > Date.now()
+          }
         />
       )}
 
+      {/* ── Live Trial (streams from the engine while the trial runs) ── */}
+      {selectedMarket && awaitingVerdict && (
+        <>
+          {liveTrial.stage === "idle" ? (
+            <div className="trial-loading mono">
+              Awaiting trial — progress will appear here once it starts.
+            </div>
+          ) : (
+            <div className="trial-loading mono">
+              {liveTrial.isRunning && <span className="run-trial-btn__spinner" />}
+              {liveTrial.error ? `Trial failed: ${liveTrial.error}` : liveTrial.stageMessage}
+            </div>
+          )}
+
+          {liveTrial.advocateYes && liveTrial.advocateNo && (
+            <TrialTranscript
+              advocateYes={liveTrial.advocateYes}
+              advocateNo={liveTrial.advocateNo}
+            />
+          )}
+
+          {liveTrial.ruling && <JudgeScorecard ruling={liveTrial.ruling} />}
+
+          {liveTrial.outcomes && (
+            <OutcomeScorecard
+              outcomes={liveTrial.outcomes}
+              advocates={liveTrial.outcomeArguments}
+              ruling={liveTrial.outcomeRuling}
+              decision={liveTrial.outcomeDecision}
+            />
+          )}
+
+          {liveTrial.transcript && !isCategoricalTranscript(liveTrial.transcript) && (
+            <SettlementStatus
+              decision={liveTrial.transcript.decision}
+              threshold={liveTrial.transcript.question.rubric.confidenceThreshold}
+              durationMs={liveTrial.transcript.durationMs}
+              isAppeal={selectedMarket.status === "Appealed"}
+            />
+          )}
+        </>
+      )}
+
       {/* ── Trial Results (appears after trial completes) ── */}
       {selectedMarket && (selectedMarket.status === "Resolved" || selectedMarket.status === "Escalated") && (
         <>
@@ -274,7 +399,16 @@ export default function App() {
             </div>
           )}
 
-          {transcript && (
+          {transcript && isCategoricalTranscript(transcript) && (
+            <OutcomeScorecard
+              outcomes={transcript.question.outcomes ?? transcript.advocates.map((a) => a.outcome)}
+              advocates={transcript.advocates}
+              ruling={transcript.judgeRuling}
+              decision={transcript.decision}
+            />
+          )}
+
+          {transcript && !isCategoricalTranscript(transcript) && (
             <>
               {/* Adversarial Debate — YES vs NO side by side */}
               <TrialTranscript
@@ -290,6 +424,8 @@ export default function App() {
                 decision={transcript.decision}
                 threshold={transcript.question.rubric.confidenceThreshold}
                 durationMs={transcript.durationMs}
+                isAppeal={selectedMarket.appeal.state !== "None"}
+                appealDeadline={selectedMarket.status === "Escalated" ? selectedMarket.appeal.windowClosesAt : null}
                 txHash={(transcript as unknown as Record<string, unknown>).txHash as string | undefined}
               />
             </>
@@ -303,12 +439,22 @@ export default function App() {
         </>
       )}
 
+      {/* ── Arbitration Committee (escalated markets, when a committee exists) ── */}
+      {selectedMarket && arbitration && arbitration.quorum > 0 && (
+        <ArbitrationPanel
+          market={selectedMarket}
+          arbitration={arbitration}
+          onVote={castArbitrationVote}
+        />
+      )}
+
       {/* ── Participant List ── */}
       {selectedMarket && participants.length > 0 && (
         <ParticipantList
           participants={participants}
           account={account}
-          ethUsdPrice={ethUsdPrice}
+          ethUsdPrice={selectedMarket.collateral.token === null ? ethUsdPrice : null}
+          unit={selectedMarket.collateral.symbol}
           marketOutcome={selectedMarket.outcome}
           marketStatus={selectedMarket.status}
         />
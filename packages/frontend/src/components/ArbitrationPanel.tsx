@@ -0,0 +1,113 @@
+import { useState } from "react";
+import type { ArbitrationInfo, MarketData } from "../hooks/useContract";
+import "./ArbitrationPanel.css";
+
+interface ArbitrationPanelProps {
+  market: MarketData;
+  arbitration: ArbitrationInfo;
+  onVote: (marketId: number, vote: 1 | 2) => Promise<unknown>;
+}
+
+/*
+ * ArbitrationPanel — the human backstop for escalated markets.
+ *
+ * Shown while a market is Escalated and a committee is configured.
+ * Everyone sees the voting window and the running tally; registered
+ * arbitrators also get a link to the transcript and YES / NO buttons.
+ *
+ * Phases (from the contract's arbitrationWindow):
+ *   before opensAt  — appeal window still open, voting not started
+ *   opensAt–closesAt — voting; first side to reach the quorum resolves
+ *   after closesAt  — no quorum reached, escalation stands → refunds
+ */
+export function ArbitrationPanel({ market, arbitration, onVote }: ArbitrationPanelProps) {
+  const [voting, setVoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const now = Date.now();
+  const phase =
+    now < arbitration.opensAt.getTime()
+      ? "pending"
+      : now < arbitration.closesAt.getTime()
+        ? "open"
+        : "closed";
+
+  const canVote = phase === "open" && arbitration.isArbitrator && arbitration.myVote === "None";
+
+  const handleVote = async (vote: 1 | 2) => {
+    setVoting(true);
+    setError(null);
+    try {
+      await onVote(market.id, vote);
+    } catch (err: unknown) {
+      const revert = err instanceof Error ? err.message.match(/reason="([^"]+)"/) : null;
+      setError(revert ? revert[1] : "Vote failed");
+      console.error("Arbitration vote failed:", err);
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  const formatDate = (d: Date) =>
+    d.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+  return (
+    <section className="arbitration reveal">
+      <div className="section-label">Arbitration Committee</div>
+
+      <p className="arbitration__phase mono">
+        {phase === "pending" && `Voting opens ${formatDate(arbitration.opensAt)}, once the appeal window closes.`}
+        {phase === "open" && `Voting open until ${formatDate(arbitration.closesAt)}.`}
+        {phase === "closed" && "Voting closed without a quorum — stakers can claim refunds."}
+      </p>
+
+      {/* ── Tally: votes per side against the quorum ── */}
+      <div className="arbitration__tally mono">
+        <span className="arbitration__count arbitration__count--yes">YES {arbitration.yesVotes}</span>
+        <span className="arbitration__count arbitration__count--no">NO {arbitration.noVotes}</span>
+        <span className="arbitration__quorum">
+          {arbitration.quorum} of {arbitration.arbitrators} needed
+        </span>
+      </div>
+
+      {/* ── Arbitrator controls ── */}
+      {arbitration.isArbitrator && (
+        <div className="arbitration__controls">
+          {market.transcriptCid && (
+            <a
+              href={`https://gateway.pinata.cloud/ipfs/${market.transcriptCid}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="arbitration__transcript mono"
+            >
+              Review transcript on IPFS
+            </a>
+          )}
+
+          {arbitration.myVote !== "None" ? (
+            <span className="arbitration__voted mono">You voted {arbitration.myVote.toUpperCase()}</span>
+          ) : (
+            <div className="arbitration__buttons">
+              <button
+                className="market-view__stake-btn market-view__stake-btn--yes"
+                disabled={!canVote || voting}
+                onClick={() => handleVote(1)}
+              >
+                {voting ? "..." : "Vote YES"}
+              </button>
+              <button
+                className="market-view__stake-btn market-view__stake-btn--no"
+                disabled={!canVote || voting}
+                onClick={() => handleVote(2)}
+              >
+                {voting ? "..." : "Vote NO"}
+              </button>
+            </div>
+          )}
+
+          {error && <div className="market-view__error mono">{error}</div>}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,9 +1,16 @@
 import { useState } from "react";
 import { ethers } from "ethers";
+import type { QuestionLintResult, RubricCriterion } from "../types";
 import "./CreateMarket.css";
 
 interface CreateMarketProps {
-  onSubmit: (question: string, rubricHash: string, deadline: number) => Promise<unknown>;
+  onSubmit: (
+    question: string,
+    rubricHash: string,
+    deadline: number,
+    token?: string,
+    outcomes?: string[]
+  ) => Promise<unknown>;
   isLoading: boolean;
 }
 
@@ -14,12 +21,97 @@ const DEFAULT_CRITERIA = [
   { name: "Logical coherence", description: "Is the argument internally consistent?", weight: 25 },
 ];
 
+/* The rubric document a market is created with, as the registry stores it */
+interface RubricDocument {
+  criteria: RubricCriterion[];
+  confidenceThreshold: number;
+  evidenceSources?: string[];
+}
+
+/*
+ * Compute a rubric's onchain rubricHash — the same construction as the
+ * engine's hashRubric(). Every field the trial reads is covered,
+ * descriptions included, in a fixed key order.
+ */
+function hashRubric(doc: RubricDocument): string {
+  const hashed = {
+    criteria: doc.criteria.map((c) => ({ name: c.name, description: c.description, weight: c.weight })),
+    confidenceThreshold: doc.confidenceThreshold,
+    evidenceSources: doc.evidenceSources,
+  };
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(hashed)));
+}
+
+/*
+ * Publish the full rubric to the engine's rubric registry. The contract
+ * only stores the hash; the engine needs the document itself to score
+ * the trial, and re-verifies it against the onchain hash before using
+ * it.
+ *
+ * A matching hash in the response isn't enough on its own — it says
+ * what the registry computed, not what it kept. So the stored document
+ * is read back and re-hashed here before the market is created.
+ */
+async function publishRubric(rubric: RubricDocument, expectedHash: string): Promise<void> {
+  const res = await fetch("/api/rubrics", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(rubric),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "Failed to publish rubric");
+  }
+  if (data.rubricHash !== expectedHash) {
+    throw new Error(`Rubric registry returned hash ${data.rubricHash}, expected ${expectedHash}`);
+  }
+
+  const stored = await fetch(`/api/rubrics/${expectedHash}`);
+  const storedData = await stored.json();
+  if (!stored.ok) {
+    throw new Error(storedData.error || "Failed to read back the published rubric");
+  }
+  const storedHash = hashRubric(storedData.rubric);
+  if (storedHash !== expectedHash) {
+    throw new Error(`Rubric registry stored a different rubric (hash ${storedHash}, expected ${expectedHash})`);
+  }
+}
+
+/*
+ * Ask the engine whether a draft question can actually be resolved —
+ * vague timing, no objective criterion, undefined terms, no evidence —
+ * before the creator pays the deposit.
+ */
+async function lintQuestion(question: string, deadline: number | undefined): Promise<QuestionLintResult> {
+  const res = await fetch("/api/questions/lint", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ question, deadline }),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "Failed to check question");
+  }
+  return data;
+}
+
+/* Below this resolvability score the feedback panel warns against creating the market */
+const LOW_RESOLVABILITY = 50;
+
 export function CreateMarket({ onSubmit, isLoading }: CreateMarketProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [question, setQuestion] = useState("");
   const [deadlineStr, setDeadlineStr] = useState("");
   const [threshold, setThreshold] = useState(20);
+  const [collateralToken, setCollateralToken] = useState(""); // blank = ETH
+  const [outcomesText, setOutcomesText] = useState(""); // one per line; blank = YES/NO
   const [criteria, setCriteria] = useState(DEFAULT_CRITERIA);
+  const [publishError, setPublishError] = useState<string | null>(null);
+  const [lint, setLint] = useState<QuestionLintResult | null>(null);
+  const [lintError, setLintError] = useState<string | null>(null);
+  const [lintLoading, setLintLoading] = useState(false);
+  /* The question text the last check ran on — editing it asks for a new check */
+  const [checkedQuestion, setCheckedQuestion] = useState<string | null>(null);
 
   const handleWeightChange = (index: number, value: string) => {
     const updated = [...criteria];
@@ -28,35 +120,82 @@ export function CreateMarket({ onSubmit, isLoading }: CreateMarketProps) {
   };
 
   const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  const isChecked = checkedQuestion !== null && checkedQuestion === question.trim();
+
+  /*
+   * A failed check doesn't block creation — the linter is advisory, so
+   * the creator can still go ahead once they've seen the error.
+   */
+  const checkQuestion = async (deadline: number | undefined) => {
+    const text = question.trim();
+    setLintLoading(true);
+    setLintError(null);
+    try {
+      setLint(await lintQuestion(text, deadline));
+    } catch (err) {
+      setLint(null);
+      setLintError(err instanceof Error ? err.message : "Failed to check question");
+    } finally {
+      setCheckedQuestion(text);
+      setLintLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!question.trim() || !deadlineStr) return;
+    const token = collateralToken.trim() || undefined;
+    if (token && !ethers.isAddress(token)) {
+      setPublishError("Collateral token must be an address (or blank for ETH)");
+      return;
+    }
+    const outcomeLines = outcomesText.split("\n").map((line) => line.trim()).filter(Boolean);
+    const outcomes = outcomeLines.length > 0 ? outcomeLines : undefined;
+    if (outcomes && (outcomes.length < 2 || outcomes.length > 8)) {
+      setPublishError("A categorical market needs 2-8 outcomes (or leave blank for YES/NO)");
+      return;
+    }
 
     const parsedTime = new Date(deadlineStr).getTime();
     if (isNaN(parsedTime)) return;
     const deadlineUnix = Math.floor(parsedTime / 1000);
 
+    /* First submit of a question checks it; the creator reviews the feedback and submits again */
+    setPublishError(null);
+    if (!isChecked) {
+      await checkQuestion(deadlineUnix);
+      return;
+    }
+
+    /*
+     * Hash the rubric with keccak256. This produces a content-addressed
+     * hash — the same rubric always produces the same hash, so anyone
+     * can verify the rubric that was used by re-hashing the published
+     * document. Descriptions are part of it: the judges score against
+     * them, so rewording one makes a different rubric.
+     */
+    const rubric: RubricDocument = { criteria, confidenceThreshold: threshold };
+    const rubricHash = hashRubric(rubric);
+
     /*
-     * Build a deterministic rubric JSON and hash it with keccak256.
-     * This produces a content-addressed hash — the same rubric
-     * always produces the same hash, so anyone can verify the rubric
-     * that was used by re-hashing the original data.
-     *
-     * The rubric object includes criteria (name + weight) and the
-     * confidence threshold. Description is excluded from the hash
-     * because it's human-facing text, not scoring logic.
+     * Publish before creating the market — a market whose rubric the
+     * engine can't find would be refused at trial time.
      */
-    const rubricData = {
-      criteria: criteria.map((c) => ({ name: c.name, weight: c.weight })),
-      confidenceThreshold: threshold,
-    };
-    const rubricJson = JSON.stringify(rubricData);
-    const rubricHash = ethers.keccak256(ethers.toUtf8Bytes(rubricJson));
-
-    await onSubmit(question, rubricHash, deadlineUnix);
+    try {
+      await publishRubric(rubric, rubricHash);
+    } catch (err) {
+      setPublishError(err instanceof Error ? err.message : "Failed to publish rubric");
+      return;
+    }
+
+    await onSubmit(question, rubricHash, deadlineUnix, token, outcomes);
     setQuestion("");
     setDeadlineStr("");
+    setCollateralToken("");
+    setOutcomesText("");
+    setLint(null);
+    setLintError(null);
+    setCheckedQuestion(null);
     setIsOpen(false);
   };
 
@@ -87,6 +226,57 @@ export function CreateMarket({ onSubmit, isLoading }: CreateMarketProps) {
           />
         </div>
 
+        {/* Resolvability feedback for the current question text */}
+        {isChecked && lintError && (
+          <div className="question-lint question-lint--unavailable">
+            Couldn't check this question ({lintError}) — you can still create the market.
+          </div>
+        )}
+        {isChecked && lint && (
+          <div className={`question-lint${lint.resolvabilityScore < LOW_RESOLVABILITY ? " question-lint--low" : ""}`}>
+            <div className="question-lint__header">
+              <span className="question-lint__score">Resolvability {lint.resolvabilityScore}/100</span>
+              {lint.resolvabilityScore < LOW_RESOLVABILITY && (
+                <span className="question-lint__verdict">Likely to escalate — consider a rewrite</span>
+              )}
+            </div>
+            {lint.issues.length > 0 && (
+              <ul className="question-lint__issues">
+                {lint.issues.map((issue, i) => (
+                  <li key={i} className={`question-lint__issue question-lint__issue--${issue.severity}`}>
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {lint.suggestedRewrites.length > 0 && (
+              <div className="question-lint__rewrites">
+                <div className="form-field__label">Suggested rewrites</div>
+                {lint.suggestedRewrites.map((rewrite, i) => (
+                  <button
+                    key={i}
+                    type="button"
+                    className="question-lint__rewrite"
+                    onClick={() => setQuestion(rewrite)}
+                  >
+                    {rewrite}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="form-field">
+          <label className="form-field__label">Outcomes (optional)</label>
+          <textarea
+            className="form-field__textarea"
+            placeholder={"Blank for a YES/NO market, or 2-8 named outcomes, one per line:\nTeam A\nTeam B\nDraw"}
+            value={outcomesText}
+            onChange={(e) => setOutcomesText(e.target.value)}
+          />
+        </div>
+
         <div className="form-field">
           <label className="form-field__label">Resolution Rubric</label>
           <div className="rubric-grid">
@@ -140,15 +330,41 @@ export function CreateMarket({ onSubmit, isLoading }: CreateMarketProps) {
           </div>
         </div>
 
+        <div className="form-field">
+          <label className="form-field__label">Collateral Token (optional)</label>
+          <input
+            type="text"
+            className="form-field__input"
+            value={collateralToken}
+            onChange={(e) => setCollateralToken(e.target.value)}
+            placeholder="Blank for ETH, or an allowlisted ERC-20 address (e.g. a stablecoin)"
+          />
+        </div>
+
+        {publishError && (
+          <div style={{ color: "var(--warning-primary)", fontSize: "0.75rem", marginBottom: "var(--space-sm)", fontFamily: "var(--font-mono)" }}>
+            {publishError}
+          </div>
+        )}
+
         <button
           type="submit"
           className="create-market__submit"
-          disabled={isLoading || !question.trim() || !deadlineStr || totalWeight !== 100}
+          disabled={isLoading || lintLoading || !question.trim() || !deadlineStr || totalWeight !== 100}
         >
-          {isLoading ? "Creating..." : "Create Market — 0.01 ETH Deposit"}
+          {lintLoading
+            ? "Checking..."
+            : !isChecked
+              ? "Check Question"
+              : isLoading
+                ? "Creating..."
+                : collateralToken.trim()
+                  ? "Create Token Market — Approve Deposit"
+                  : "Create Market — 0.01 ETH Deposit"}
         </button>
         <div className="create-market__deposit-note">
           Deposit is refunded after market settlement
+          {collateralToken.trim() && " · token markets deposit the token's configured amount"}
         </div>
       </form>
     </div>
@@ -111,6 +111,7 @@ export function JudgeScorecard({ ruling }: JudgeScorecardProps) {
         <p className="scorecard__ruling-text serif">{ruling.rulingText}</p>
         <cite className="scorecard__ruling-model mono">
           — {ruling.model}
+          {ruling.prompt && <span title={ruling.prompt.hash}> · prompt {ruling.prompt.id}</span>}
         </cite>
       </blockquote>
 
@@ -21,6 +21,8 @@ const STATUS_CLASS: Record<string, string> = {
   SettlementRequested: "market-card__status--settlement",
   Resolved: "market-card__status--resolved",
   Escalated: "market-card__status--escalated",
+  Appealed: "market-card__status--settlement",
+  Cancelled: "market-card__status--cancelled",
 };
 
 const STATUS_LABEL: Record<string, string> = {
@@ -28,6 +30,8 @@ const STATUS_LABEL: Record<string, string> = {
   SettlementRequested: "In Trial",
   Resolved: "Resolved",
   Escalated: "Escalated",
+  Appealed: "On Appeal",
+  Cancelled: "Cancelled",
 };
 
 /**
@@ -89,11 +93,24 @@ export function MarketList({ markets, selectedId, onSelect, loading, ethUsdPrice
           </div>
         ) : (
           markets.map((m) => {
+            /*
+             * Implied probability from live stakes only: exited stakes
+             * leave the pools, and their penalties are held separately.
+             */
             const yesNum = parseFloat(m.yesPool);
             const noNum = parseFloat(m.noPool);
-            const total = yesNum + noNum;
+            const outcomePools = m.outcomes?.map((o) => parseFloat(o.pool)) ?? [];
+            const total = yesNum + noNum + outcomePools.reduce((sum, pool) => sum + pool, 0);
             const yesPct = total > 0 ? (yesNum / total) * 100 : 0;
-            const totalUsd = priceNum && total > 0 ? ` (~$${(total * priceNum).toFixed(2)})` : "";
+            /* Categorical markets show their leading (or winning) outcome instead */
+            const leading = m.outcomes
+              ? m.winningOutcome ?? outcomePools.indexOf(Math.max(...outcomePools))
+              : -1;
+            const leadingPct = leading >= 0 && total > 0 ? (outcomePools[leading] / total) * 100 : 0;
+            const unit = m.collateral.symbol;
+            /* The ETH/USD feed only prices ETH markets */
+            const totalUsd =
+              priceNum && total > 0 && m.collateral.token === null ? ` (~$${(total * priceNum).toFixed(2)})` : "";
             const countdown = formatCountdown(m.deadline);
 
             return (
@@ -115,21 +132,38 @@ export function MarketList({ markets, selectedId, onSelect, loading, ethUsdPrice
 
                 {/* Miniature pool bar */}
                 <div className="market-card__pools">
-                  <div className="market-card__pool-labels">
-                    <span className="market-card__pool-label market-card__pool-label--yes">
-                      YES {m.yesPool} ETH {total > 0 && `(${yesPct.toFixed(0)}%)`}
-                    </span>
-                    <span className="market-card__pool-label market-card__pool-label--no">
-                      NO {m.noPool} ETH {total > 0 && `(${(100 - yesPct).toFixed(0)}%)`}
-                    </span>
-                  </div>
-                  <div className="market-card__pool-bar">
-                    <div className="market-card__pool-yes" style={{ width: `${yesPct}%` }} />
-                    <div className="market-card__pool-no" style={{ width: `${100 - yesPct}%` }} />
-                  </div>
+                  {m.outcomes ? (
+                    <>
+                      <div className="market-card__pool-labels">
+                        <span className="market-card__pool-label market-card__pool-label--outcome">
+                          {m.winningOutcome !== null ? "WON" : "LEADING"} {m.outcomes[leading]?.label}{" "}
+                          {total > 0 && `(${leadingPct.toFixed(0)}%)`}
+                        </span>
+                        <span className="market-card__pool-label">{m.outcomes.length} outcomes</span>
+                      </div>
+                      <div className="market-card__pool-bar">
+                        <div className="market-card__pool-outcome" style={{ width: `${leadingPct}%` }} />
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="market-card__pool-labels">
+                        <span className="market-card__pool-label market-card__pool-label--yes">
+                          YES {m.yesPool} {unit} {total > 0 && `(${yesPct.toFixed(0)}%)`}
+                        </span>
+                        <span className="market-card__pool-label market-card__pool-label--no">
+                          NO {m.noPool} {unit} {total > 0 && `(${(100 - yesPct).toFixed(0)}%)`}
+                        </span>
+                      </div>
+                      <div className="market-card__pool-bar">
+                        <div className="market-card__pool-yes" style={{ width: `${yesPct}%` }} />
+                        <div className="market-card__pool-no" style={{ width: `${100 - yesPct}%` }} />
+                      </div>
+                    </>
+                  )}
                   {total > 0 && (
                     <div className="market-card__pool-total">
-                      {total.toFixed(4)} ETH{totalUsd} total
+                      {total.toFixed(4)} {unit}{totalUsd} total
                     </div>
                   )}
                 </div>
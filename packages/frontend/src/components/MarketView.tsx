@@ -1,16 +1,27 @@
 import { useState } from "react";
-import type { MarketData } from "../hooks/useContract";
+import type { MarketData, UserPosition } from "../hooks/useContract";
 import "./MarketView.css";
 
 interface MarketViewProps {
   market: MarketData;
   account: string | null;
-  userPosition: { yes: string; no: string } | null;
+  userPosition: UserPosition | null;
   ethUsdPrice: string | null;
   onStakeYes: (marketId: number, amount: string) => Promise<unknown>;
   onStakeNo: (marketId: number, amount: string) => Promise<unknown>;
+  onStakeOutcome: (marketId: number, outcome: number, amount: string) => Promise<unknown>;
+  collateralAllowance: string | null; // token markets: what the contract may pull; null for ETH
+  onApprove: (marketId: number, amount: string) => Promise<unknown>;
+  exitPenalty: { yes: number; no: number } | null; // % the user would pay to exit each side now
+  onExit: (marketId: number, side: 1 | 2, amount: string) => Promise<unknown>;
+  onEnableEarlyExit: (marketId: number) => Promise<unknown>;
+  onCancel: (marketId: number) => Promise<unknown>;
   onClaimWinnings: (marketId: number) => Promise<unknown>;
   onClaimRefund: (marketId: number) => Promise<unknown>;
+  onAppeal: (marketId: number) => Promise<unknown>;
+  onClaimAppealBond: (marketId: number) => Promise<unknown>;
+  onExpireAppeal: (marketId: number) => Promise<unknown>;
+  arbitrationPending: boolean; // committee vote not yet expired — refunds wait
 }
 
 /*
@@ -18,11 +29,22 @@ interface MarketViewProps {
  *
  * Status → Available Actions:
  *   Open (before deadline)  → Stake YES / Stake NO
+ *                             (categorical markets: one Stake button per outcome)
+ *                             (token markets: Approve first, then stake)
+ *                             (early-exit markets: Exit YES / Exit NO, penalised)
+ *   Open (creator, no stakes) → Allow Early Exit / Cancel Market
  *   Open (past deadline)    → Request Settlement
  *   SettlementRequested     → Run Trial (owner/admin)
  *   Resolved (winner)       → Claim Winnings
  *   Resolved (loser)        → "Market resolved against your position"
- *   Escalated               → Claim Refund
+ *   Resolved (Invalid)      → Claim Refund (question ruled unanswerable)
+ *   Escalated (window open) → Appeal (stakers post a bond for a retrial)
+ *   Escalated (arbitration) → Committee vote (see ArbitrationPanel)
+ *   Escalated (final)       → Claim Refund
+ *   Appealed                → Retrial running
+ *   Appealed (overdue)      → Expire retrial (reopens refunds)
+ *   Resolved (appellant)    → Reclaim Appeal Bond
+ *   Escalated (expired appeal, appellant) → Reclaim Appeal Bond
  */
 export function MarketView({
   market,
@@ -31,22 +53,47 @@ export function MarketView({
   ethUsdPrice,
   onStakeYes,
   onStakeNo,
+  onStakeOutcome,
+  collateralAllowance,
+  onApprove,
+  exitPenalty,
+  onExit,
+  onEnableEarlyExit,
+  onCancel,
   onClaimWinnings,
   onClaimRefund,
+  onAppeal,
+  onClaimAppealBond,
+  onExpireAppeal,
+  arbitrationPending,
 }: MarketViewProps) {
   const [stakeAmount, setStakeAmount] = useState("0.01");
   const [actionLoading, setActionLoading] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
   const [txHash, setTxHash] = useState<string | null>(null);
 
-  /* Pool percentage calculation for the split bar */
+  /*
+   * Pool percentage calculation for the split bar. Categorical markets
+   * stake on named outcomes instead, and their YES/NO pools stay empty.
+   */
+  const outcomes = market.outcomes;
+  const outcomePools = outcomes?.map((o) => parseFloat(o.pool)) ?? [];
   const yesNum = parseFloat(market.yesPool);
   const noNum = parseFloat(market.noPool);
-  const total = yesNum + noNum;
+  const total = yesNum + noNum + outcomePools.reduce((sum, pool) => sum + pool, 0);
   const yesPct = total > 0 ? (yesNum / total) * 100 : 0;
+  const winningLabel =
+    outcomes && market.winningOutcome !== null ? outcomes[market.winningOutcome]?.label ?? null : null;
+
+  /*
+   * Amounts are in the market's collateral. The USD conversion uses
+   * the ETH/USD feed, so it only applies to ETH markets.
+   */
+  const unit = market.collateral.symbol;
+  const isTokenMarket = market.collateral.token !== null;
 
   /* Convert ETH to USD for display */
-  const priceNum = ethUsdPrice ? parseFloat(ethUsdPrice) : 0;
+  const priceNum = ethUsdPrice && !isTokenMarket ? parseFloat(ethUsdPrice) : 0;
   const toUsd = (eth: string) => {
     if (!priceNum) return "";
     const val = parseFloat(eth) * priceNum;
@@ -70,6 +117,8 @@ export function MarketView({
     SettlementRequested: { label: "Settlement In Progress", className: "status--pending" },
     Resolved: { label: "Resolved", className: "status--resolved" },
     Escalated: { label: "Escalated", className: "status--escalated" },
+    Appealed: { label: "Appeal Retrial", className: "status--pending" },
+    Cancelled: { label: "Cancelled", className: "status--cancelled" },
   };
   const { label: statusLabel, className: statusClass } = statusConfig[market.status];
 
@@ -109,36 +158,96 @@ export function MarketView({
     }
   };
 
+  /*
+   * Approve-then-stake: a token market's stake is pulled with
+   * transferFrom, so the contract needs an allowance covering it.
+   */
+  const needsApproval =
+    isTokenMarket &&
+    !!stakeAmount &&
+    parseFloat(collateralAllowance ?? "0") < parseFloat(stakeAmount);
+
   /* Check if the user has any position */
   const hasYesPosition = userPosition && parseFloat(userPosition.yes) > 0;
   const hasNoPosition = userPosition && parseFloat(userPosition.no) > 0;
+  const outcomeStakes = userPosition?.outcomes.map((stake) => parseFloat(stake)) ?? [];
+  const hasOutcomePosition = outcomeStakes.some((stake) => stake > 0);
+  const hasPosition = hasYesPosition || hasNoPosition || hasOutcomePosition;
+
+  /*
+   * Early exit: open to stakers before the deadline, and to the creator
+   * to enable. Categorical markets don't support it.
+   */
+  const canExit = market.earlyExit.enabled && market.status === "Open" && !isPastDeadline && !outcomes;
+  const exitPenalties = parseFloat(market.earlyExit.penalties);
+  /* Before anyone stakes, the creator may still change the rules or withdraw the market */
+  const creatorBeforeStakes =
+    market.status === "Open" &&
+    total === 0 &&
+    exitPenalties === 0 &&
+    account !== null &&
+    market.creator.toLowerCase() === account.toLowerCase();
+  const canEnableEarlyExit = creatorBeforeStakes && !market.earlyExit.enabled && !outcomes;
+
+  /* An Invalid ruling has no winners: everyone is refunded */
+  const isInvalid = market.status === "Resolved" && market.outcome === "Invalid";
 
   /* Determine if user won or lost */
   const userWon =
     market.status === "Resolved" &&
+    !isInvalid &&
     ((market.outcome === "Yes" && hasYesPosition) ||
-     (market.outcome === "No" && hasNoPosition));
+     (market.outcome === "No" && hasNoPosition) ||
+     (market.winningOutcome !== null && outcomeStakes[market.winningOutcome] > 0));
 
   const userLost =
     market.status === "Resolved" &&
-    (hasYesPosition || hasNoPosition) &&
+    !isInvalid &&
+    hasPosition &&
     !userWon;
 
   /* Calculate expected payout for winners */
   const getExpectedPayout = () => {
     if (!userWon || !userPosition) return null;
-    const userStake = market.outcome === "Yes"
-      ? parseFloat(userPosition.yes)
-      : parseFloat(userPosition.no);
-    const winnerPool = market.outcome === "Yes" ? yesNum : noNum;
+    let userStake: number;
+    let winnerPool: number;
+    if (market.winningOutcome !== null) {
+      userStake = outcomeStakes[market.winningOutcome];
+      winnerPool = outcomePools[market.winningOutcome];
+    } else {
+      userStake = market.outcome === "Yes"
+        ? parseFloat(userPosition.yes)
+        : parseFloat(userPosition.no);
+      winnerPool = market.outcome === "Yes" ? yesNum : noNum;
+    }
     if (winnerPool <= 0) return null;
-    const payout = (userStake / winnerPool) * total;
+    const payout = (userStake / winnerPool) * parseFloat(market.payoutPool);
     const profit = payout - userStake;
     return { payout, profit };
   };
 
   const payoutInfo = getExpectedPayout();
 
+  /*
+   * Appeals: an escalated market can be appealed once, until its window
+   * closes; refunds wait until then. The contract enforces the same rules.
+   */
+  const { appeal } = market;
+  const appealWindowOpen =
+    market.status === "Escalated" &&
+    appeal.state === "None" &&
+    appeal.windowClosesAt !== null &&
+    appeal.windowClosesAt.getTime() > Date.now();
+  const retrialExpired =
+    market.status === "Appealed" &&
+    appeal.retrialExpiresAt !== null &&
+    appeal.retrialExpiresAt.getTime() <= Date.now();
+  const canClaimAppealBond =
+    (appeal.state === "Succeeded" || appeal.state === "Expired") &&
+    parseFloat(appeal.bond) > 0 &&
+    account !== null &&
+    appeal.appellant?.toLowerCase() === account.toLowerCase();
+
   return (
     <section className="market-view reveal">
       <div className="section-label">Case Detail</div>
@@ -149,40 +258,80 @@ export function MarketView({
         <span className={`market-view__status ${statusClass}`}>{statusLabel}</span>
       </div>
 
-      {/* Pool split bar */}
+      {/* Pool split bar — or, for a categorical market, one row per outcome */}
       <div className="market-view__pools">
-        <div className="pool-labels">
-          <span className="pool-label pool-label--yes mono">
-            YES {market.yesPool} ETH{toUsd(market.yesPool)} {total > 0 && `(${yesPct.toFixed(0)}%)`}
-          </span>
-          <span className="pool-label pool-label--no mono">
-            NO {market.noPool} ETH{toUsd(market.noPool)} {total > 0 && `(${(100 - yesPct).toFixed(0)}%)`}
-          </span>
-        </div>
-        <div className="pool-bar">
-          <div className="pool-bar__yes" style={{ width: `${yesPct}%` }} />
-          <div className="pool-bar__no" style={{ width: `${100 - yesPct}%` }} />
-        </div>
+        {outcomes ? (
+          <div className="outcome-pools">
+            {outcomes.map((o, i) => {
+              const pct = total > 0 ? (outcomePools[i] / total) * 100 : 0;
+              return (
+                <div
+                  key={i}
+                  className={`outcome-pool${market.winningOutcome === i ? " outcome-pool--winner" : ""}`}
+                >
+                  <div className="pool-labels">
+                    <span className="pool-label outcome-pool__label">{o.label}</span>
+                    <span className="pool-label outcome-pool__label mono">
+                      {o.pool} {unit}{toUsd(o.pool)} {total > 0 && `(${pct.toFixed(0)}%)`}
+                    </span>
+                  </div>
+                  <div className="pool-bar">
+                    <div className="outcome-pool__fill" style={{ width: `${pct}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <>
+            <div className="pool-labels">
+              <span className="pool-label pool-label--yes mono">
+                YES {market.yesPool} {unit}{toUsd(market.yesPool)} {total > 0 && `(${yesPct.toFixed(0)}%)`}
+              </span>
+              <span className="pool-label pool-label--no mono">
+                NO {market.noPool} {unit}{toUsd(market.noPool)} {total > 0 && `(${(100 - yesPct).toFixed(0)}%)`}
+              </span>
+            </div>
+            <div className="pool-bar">
+              <div className="pool-bar__yes" style={{ width: `${yesPct}%` }} />
+              <div className="pool-bar__no" style={{ width: `${100 - yesPct}%` }} />
+            </div>
+          </>
+        )}
         <div className="pool-total mono">
-          Total Pool: {total.toFixed(4)} ETH{toUsd(total.toString())}
+          Total Pool: {total.toFixed(4)} {unit}{toUsd(total.toString())}
+          {total > 0 && parseFloat(market.payoutPool) < total && (
+            <> · Winners split {parseFloat(market.payoutPool).toFixed(4)} {unit} after fees</>
+          )}
+          {exitPenalties > 0 && (
+            <> · incl. {exitPenalties.toFixed(4)} {unit} in early-exit penalties</>
+          )}
         </div>
       </div>
 
       {/* User's position */}
-      {account && userPosition && (hasYesPosition || hasNoPosition) && (
+      {account && userPosition && hasPosition && (
         <div className="market-view__position">
           <div className="section-label">Your Position</div>
           <div className="market-view__position-row">
             {hasYesPosition && (
               <span className="market-view__position-badge market-view__position-badge--yes mono">
-                YES: {userPosition.yes} ETH{toUsd(userPosition.yes)}
+                YES: {userPosition.yes} {unit}{toUsd(userPosition.yes)}
               </span>
             )}
             {hasNoPosition && (
               <span className="market-view__position-badge market-view__position-badge--no mono">
-                NO: {userPosition.no} ETH{toUsd(userPosition.no)}
+                NO: {userPosition.no} {unit}{toUsd(userPosition.no)}
               </span>
             )}
+            {outcomes?.map(
+              (o, i) =>
+                outcomeStakes[i] > 0 && (
+                  <span key={i} className="market-view__position-badge market-view__position-badge--outcome mono">
+                    {o.label}: {userPosition.outcomes[i]} {unit}{toUsd(userPosition.outcomes[i])}
+                  </span>
+                )
+            )}
           </div>
 
           {/* Payout info for winners */}
@@ -190,9 +339,9 @@ export function MarketView({
             <div className="market-view__payout market-view__payout--win">
               <span className="market-view__payout-icon">&#10003;</span>
               <div>
-                <strong>You won!</strong> Claimable: {payoutInfo.payout.toFixed(4)} ETH{toUsd(payoutInfo.payout.toString())}
+                <strong>You won!</strong> Claimable: {payoutInfo.payout.toFixed(4)} {unit}{toUsd(payoutInfo.payout.toString())}
                 <span className="market-view__payout-profit mono">
-                  +{payoutInfo.profit.toFixed(4)} ETH profit
+                  +{payoutInfo.profit.toFixed(4)} {unit} profit
                 </span>
               </div>
             </div>
@@ -203,7 +352,7 @@ export function MarketView({
             <div className="market-view__payout market-view__payout--loss">
               <span className="market-view__payout-icon">&#10007;</span>
               <div>
-                Market resolved as <strong>{market.outcome}</strong> — your stake was on the losing side.
+                Market resolved as <strong>{winningLabel ?? market.outcome}</strong> — your stake was on the losing side.
               </div>
             </div>
           )}
@@ -214,7 +363,7 @@ export function MarketView({
       <div className="market-view__meta-row">
         <span className="meta-item mono">Deadline: {deadlineStr}</span>
         <span className="meta-item mono">
-          Outcome: {market.outcome === "None" ? "Pending" : market.outcome}
+          Outcome: {market.outcome === "None" ? "Pending" : winningLabel ?? market.outcome}
         </span>
         <span className="meta-item mono">Creator: {market.creator.slice(0, 6)}...{market.creator.slice(-4)}</span>
       </div>
@@ -249,7 +398,7 @@ export function MarketView({
         {/* OPEN + BEFORE DEADLINE → Staking form */}
         {market.status === "Open" && !isPastDeadline && account && (
           <div className="market-view__stake-form">
-            <label className="market-view__stake-label mono">Stake Amount (ETH)</label>
+            <label className="market-view__stake-label mono">Stake Amount ({unit})</label>
             <div className="market-view__stake-row">
               <input
                 type="number"
@@ -260,21 +409,101 @@ export function MarketView({
                 step="0.01"
                 placeholder="0.01"
               />
+              {needsApproval && (
+                <button
+                  className="market-view__stake-btn market-view__stake-btn--approve"
+                  disabled={actionLoading}
+                  onClick={() => handleAction(() => onApprove(market.id, stakeAmount))}
+                >
+                  {actionLoading ? "..." : `Approve ${unit}`}
+                </button>
+              )}
+              {!outcomes && (
+                <>
+                  <button
+                    className="market-view__stake-btn market-view__stake-btn--yes"
+                    disabled={actionLoading || !stakeAmount || needsApproval}
+                    onClick={() => handleAction(() => onStakeYes(market.id, stakeAmount))}
+                  >
+                    {actionLoading ? "..." : "Stake YES"}
+                  </button>
+                  <button
+                    className="market-view__stake-btn market-view__stake-btn--no"
+                    disabled={actionLoading || !stakeAmount || needsApproval}
+                    onClick={() => handleAction(() => onStakeNo(market.id, stakeAmount))}
+                  >
+                    {actionLoading ? "..." : "Stake NO"}
+                  </button>
+                </>
+              )}
+            </div>
+            {outcomes && (
+              <div className="market-view__stake-row market-view__stake-row--outcomes">
+                {outcomes.map((o, i) => (
+                  <button
+                    key={i}
+                    className="market-view__stake-btn market-view__stake-btn--outcome"
+                    disabled={actionLoading || !stakeAmount || needsApproval}
+                    onClick={() => handleAction(() => onStakeOutcome(market.id, i, stakeAmount))}
+                  >
+                    {actionLoading ? "..." : `Stake ${o.label}`}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* EARLY EXIT → withdraw a whole side, minus the penalty */}
+        {canExit && account && userPosition && (hasYesPosition || hasNoPosition) && (
+          <div className="market-view__stake-row">
+            {hasYesPosition && (
               <button
-                className="market-view__stake-btn market-view__stake-btn--yes"
-                disabled={actionLoading || !stakeAmount}
-                onClick={() => handleAction(() => onStakeYes(market.id, stakeAmount))}
+                className="market-view__stake-btn market-view__stake-btn--exit"
+                disabled={actionLoading}
+                onClick={() => handleAction(() => onExit(market.id, 1, userPosition.yes))}
               >
-                {actionLoading ? "..." : "Stake YES"}
+                {actionLoading ? "..." : `Exit YES${exitPenalty ? ` (${exitPenalty.yes.toFixed(1)}% penalty)` : ""}`}
               </button>
+            )}
+            {hasNoPosition && (
               <button
-                className="market-view__stake-btn market-view__stake-btn--no"
-                disabled={actionLoading || !stakeAmount}
-                onClick={() => handleAction(() => onStakeNo(market.id, stakeAmount))}
+                className="market-view__stake-btn market-view__stake-btn--exit"
+                disabled={actionLoading}
+                onClick={() => handleAction(() => onExit(market.id, 2, userPosition.no))}
               >
-                {actionLoading ? "..." : "Stake NO"}
+                {actionLoading ? "..." : `Exit NO${exitPenalty ? ` (${exitPenalty.no.toFixed(1)}% penalty)` : ""}`}
               </button>
-            </div>
+            )}
+          </div>
+        )}
+
+        {/* CREATOR + NO STAKES YET → opt in to early exit */}
+        {canEnableEarlyExit && (
+          <button
+            className="market-view__stake-btn market-view__stake-btn--approve"
+            disabled={actionLoading}
+            onClick={() => handleAction(() => onEnableEarlyExit(market.id))}
+          >
+            {actionLoading ? "..." : "Allow Early Exit"}
+          </button>
+        )}
+
+        {/* CREATOR + NO STAKES YET → withdraw the market */}
+        {creatorBeforeStakes && (
+          <button
+            className="market-view__stake-btn market-view__stake-btn--exit"
+            disabled={actionLoading}
+            onClick={() => handleAction(() => onCancel(market.id))}
+          >
+            {actionLoading ? "..." : "Cancel Market"}
+          </button>
+        )}
+
+        {/* CANCELLED → nothing left to do */}
+        {market.status === "Cancelled" && (
+          <div className="market-view__auto-status mono">
+            Cancelled by its creator before any stakes — deposit returned.
           </div>
         )}
 
@@ -301,12 +530,64 @@ export function MarketView({
             disabled={actionLoading}
             onClick={() => handleAction(() => onClaimWinnings(market.id))}
           >
-            {actionLoading ? "Claiming..." : `Claim ${payoutInfo ? payoutInfo.payout.toFixed(4) + " ETH" : "Winnings"}`}
+            {actionLoading ? "Claiming..." : `Claim ${payoutInfo ? `${payoutInfo.payout.toFixed(4)} ${unit}` : "Winnings"}`}
+          </button>
+        )}
+
+        {/* RESOLVED INVALID → everyone gets their stake back */}
+        {isInvalid && account && hasPosition && (
+          <button
+            className="run-trial-btn market-view__refund-btn"
+            disabled={actionLoading}
+            onClick={() => handleAction(() => onClaimRefund(market.id))}
+          >
+            {actionLoading ? "Claiming..." : "Question Ruled Invalid — Claim Refund"}
+          </button>
+        )}
+
+        {/* APPEALED → retrial running automatically */}
+        {market.status === "Appealed" && !retrialExpired && (
+          <div className="market-view__auto-status mono">
+            <span className="run-trial-btn__spinner" />
+            Appeal retrial running — stricter threshold this time...
+          </div>
+        )}
+
+        {/* APPEALED + RETRIAL OVERDUE → anyone can expire it */}
+        {retrialExpired && account && (
+          <button
+            className="run-trial-btn market-view__refund-btn"
+            disabled={actionLoading}
+            onClick={() => handleAction(() => onExpireAppeal(market.id))}
+          >
+            {actionLoading ? "Expiring..." : "Retrial Overdue — Reopen Refunds"}
+          </button>
+        )}
+
+        {/* ESCALATED + APPEAL WINDOW OPEN → Appeal */}
+        {appealWindowOpen && account && hasPosition && (
+          <button
+            className="run-trial-btn market-view__refund-btn"
+            disabled={actionLoading}
+            onClick={() => handleAction(() => onAppeal(market.id))}
+          >
+            {actionLoading ? "Appealing..." : "Appeal (post bond)"}
+          </button>
+        )}
+
+        {/* SUCCESSFUL OR EXPIRED APPEAL → appellant reclaims the bond */}
+        {canClaimAppealBond && (
+          <button
+            className="run-trial-btn market-view__claim-btn"
+            disabled={actionLoading}
+            onClick={() => handleAction(() => onClaimAppealBond(market.id))}
+          >
+            {actionLoading ? "Claiming..." : `Reclaim ${appeal.bond} ETH Appeal Bond`}
           </button>
         )}
 
-        {/* ESCALATED → Claim Refund */}
-        {market.status === "Escalated" && account && (hasYesPosition || hasNoPosition) && (
+        {/* ESCALATED + APPEAL WINDOW CLOSED + NO VOTE PENDING → Claim Refund */}
+        {market.status === "Escalated" && !appealWindowOpen && !arbitrationPending && account && hasPosition && (
           <button
             className="run-trial-btn market-view__refund-btn"
             disabled={actionLoading}
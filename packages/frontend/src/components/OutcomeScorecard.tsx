@@ -0,0 +1,71 @@
+import type { CategoricalDecision, CategoricalRuling, OutcomeArgument } from "../types";
+import "./OutcomeScorecard.css";
+
+interface OutcomeScorecardProps {
+  outcomes: string[];
+  advocates: OutcomeArgument[]; // in arrival order while a trial runs
+  ruling: CategoricalRuling | null;
+  decision: CategoricalDecision | null;
+}
+
+/*
+ * OutcomeScorecard is the categorical counterpart of the debate,
+ * scorecard and settlement cards: one row per named outcome.
+ *
+ * Each row fills in as the trial progresses — the advocate's
+ * confidence once that outcome has been argued, then the judge's score
+ * as a bar. The judge's pick is highlighted, and the decision line
+ * below says whether it resolves or escalates, and why.
+ */
+export function OutcomeScorecard({ outcomes, advocates, ruling, decision }: OutcomeScorecardProps) {
+  const scoreOf = (outcome: string) => ruling?.outcomeScores.find((s) => s.outcome === outcome)?.score;
+
+  return (
+    <section className="outcome-scorecard reveal" style={{ animationDelay: "0.2s" }}>
+      <div className="section-label">Outcomes</div>
+
+      <div className="outcome-scorecard__rows">
+        {outcomes.map((outcome) => {
+          const argument = advocates.find((a) => a.outcome === outcome);
+          const score = scoreOf(outcome);
+          const isPick = ruling?.finalOutcome === outcome;
+
+          return (
+            <div key={outcome} className={`outcome-row ${isPick ? "outcome-row--pick" : ""}`}>
+              <div className="outcome-row__header">
+                <span className="outcome-row__label">{outcome}</span>
+                <span className="outcome-row__confidence mono" title={argument?.model}>
+                  {argument ? `advocate ${argument.confidence}%` : "arguing…"}
+                </span>
+              </div>
+              {score !== undefined && (
+                <div className="outcome-row__bar">
+                  <div className="outcome-row__bar-track">
+                    <div className="outcome-row__bar-fill" style={{ width: `${score}%` }} />
+                  </div>
+                  <span className="outcome-row__score mono">{score}</span>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {ruling && (
+        <blockquote className="outcome-scorecard__ruling">
+          <p className="serif">{ruling.rulingText}</p>
+          <cite className="mono">— {ruling.model}</cite>
+        </blockquote>
+      )}
+
+      {decision && (
+        <div
+          className={`outcome-scorecard__decision mono outcome-scorecard__decision--${decision.action.toLowerCase()}`}
+        >
+          {decision.action}
+          {decision.outcome && ` — ${decision.outcome}`} · margin {decision.margin} · {decision.reason}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,12 +1,13 @@
-import type { Participant } from "../hooks/useContract";
+import type { MarketData, Participant } from "../hooks/useContract";
 import "./ParticipantList.css";
 
 interface ParticipantListProps {
   participants: Participant[];
   account: string | null;
-  ethUsdPrice: string | null;
-  marketOutcome: "None" | "Yes" | "No";
-  marketStatus: "Open" | "SettlementRequested" | "Resolved" | "Escalated";
+  ethUsdPrice: string | null; // pass null for token markets — the feed prices ETH
+  unit: string; // the market's collateral symbol
+  marketOutcome: MarketData["outcome"];
+  marketStatus: MarketData["status"];
 }
 
 /*
@@ -22,6 +23,7 @@ export function ParticipantList({
   participants,
   account,
   ethUsdPrice,
+  unit,
   marketOutcome,
   marketStatus,
 }: ParticipantListProps) {
@@ -80,19 +82,19 @@ export function ParticipantList({
                     {isYou && <span className="participants__you-badge">You</span>}
                   </td>
                   <td className="participants__td participants__td--yes mono">
-                    {yesStake > 0 ? `${p.yesStake} ETH` : "—"}
+                    {yesStake > 0 ? `${p.yesStake} ${unit}` : "—"}
                   </td>
                   <td className="participants__td participants__td--no mono">
-                    {noStake > 0 ? `${p.noStake} ETH` : "—"}
+                    {noStake > 0 ? `${p.noStake} ${unit}` : "—"}
                   </td>
                   <td className={`participants__td mono ${p.payoutIfYes >= 0 ? "participants__td--profit" : "participants__td--loss"} ${isResolved && marketOutcome === "Yes" ? "participants__td--actual" : ""}`}>
-                    <span>{formatPayout(p.payoutIfYes)} ETH</span>
+                    <span>{formatPayout(p.payoutIfYes)} {unit}</span>
                     {formatUsd(p.payoutIfYes) && (
                       <span className="participants__usd">{formatUsd(p.payoutIfYes)}</span>
                     )}
                   </td>
                   <td className={`participants__td mono ${p.payoutIfNo >= 0 ? "participants__td--profit" : "participants__td--loss"} ${isResolved && marketOutcome === "No" ? "participants__td--actual" : ""}`}>
-                    <span>{formatPayout(p.payoutIfNo)} ETH</span>
+                    <span>{formatPayout(p.payoutIfNo)} {unit}</span>
                     {formatUsd(p.payoutIfNo) && (
                       <span className="participants__usd">{formatUsd(p.payoutIfNo)}</span>
                     )}
@@ -6,6 +6,8 @@ interface SettlementStatusProps {
   threshold: number;      // From rubric, for comparison display
   durationMs: number;     // Trial execution time
   txHash?: string;        // Optional Etherscan link
+  isAppeal?: boolean;     // Decision of an appeal retrial (stricter threshold)
+  appealDeadline?: Date | null; // Escalated and still appealable until then
 }
 
 /*
@@ -22,9 +24,22 @@ interface SettlementStatusProps {
  *
  * This transparency is a core selling point of TrialByFire:
  * the AI explains exactly why it made (or didn't make) a decision.
+ *
+ * Appeals: an escalation isn't final while its appeal window is open,
+ * so the card says until when stakers can appeal. A retrial's decision
+ * is badged as such — its threshold is the stricter appeal threshold,
+ * and escalating again is final.
  */
-export function SettlementStatus({ decision, threshold, durationMs, txHash }: SettlementStatusProps) {
+export function SettlementStatus({
+  decision,
+  threshold,
+  durationMs,
+  txHash,
+  isAppeal = false,
+  appealDeadline = null,
+}: SettlementStatusProps) {
   const isResolved = decision.action === "RESOLVE";
+  const appealOpen = !isResolved && appealDeadline !== null && appealDeadline.getTime() > Date.now();
 
   return (
     <section
@@ -39,6 +54,7 @@ export function SettlementStatus({ decision, threshold, durationMs, txHash }: Se
         <div className="settlement__action mono">
           <span className="settlement__action-dot" />
           {decision.action}
+          {isAppeal && " · APPEAL RETRIAL"}
         </div>
 
         {/*
@@ -51,10 +67,18 @@ export function SettlementStatus({ decision, threshold, durationMs, txHash }: Se
           </div>
         ) : (
           <div className="settlement__escalated-text serif">
-            Escalated for Human Review
+            {isAppeal ? "Escalated on Appeal — Final" : "Escalated for Human Review"}
           </div>
         )}
 
+        {/* Escalated and still appealable: stakers may bond a retrial */}
+        {appealOpen && (
+          <p className="settlement__appeal mono">
+            Open for appeal until {appealDeadline!.toLocaleString()} — any staker can post a bond for a
+            retrial. Refunds unlock once the window closes.
+          </p>
+        )}
+
         {/* Reason text — explains the decision logic */}
         <p className="settlement__reason">{decision.reason}</p>
 
@@ -61,7 +61,9 @@ function AdvocateColumn({ advocate, side }: { advocate: AdvocateArgument; side:
       <div className="advocate__header">
         <div className="advocate__side mono">{sideLabel} Advocate</div>
         <div className="advocate__meta">
-          <span className="advocate__model mono">{advocate.model}</span>
+          <span className="advocate__model mono" title={advocate.prompt && `prompt ${advocate.prompt.id} (${advocate.prompt.hash})`}>
+            {advocate.model}
+          </span>
           <span className="advocate__confidence mono">
             {advocate.confidence}% confident
           </span>
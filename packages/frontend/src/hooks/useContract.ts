@@ -11,14 +11,28 @@ import { ethers } from "ethers";
  *   - getAllMarkets()      — Fetch all markets from the contract
  *   - getMarket(id)       — Fetch a single market
  *   - getEthUsdPrice()    — Read Chainlink Data Feed price
+ *   - getCollateralAllowance() — How much of a token market's token the
+ *                           contract may pull from the user
+ *   - getUserPosition()   — The user's YES/NO (or per-outcome) stakes
  *
  * WRITE operations (require gas + wallet signature):
- *   - createMarket()      — Create a new prediction market (0.01 ETH deposit)
- *   - takePosition()      — Stake ETH on YES or NO
+ *   - createMarket()      — Create a new prediction market (0.01 ETH deposit,
+ *                           or the token's deposit for a token market;
+ *                           categorical when given `outcomes`)
+ *   - takePosition()      — Stake ETH (or the market's token) on YES or NO
+ *   - takeOutcomePosition() — Stake on one outcome of a categorical market
+ *   - approveCollateral() — Let the contract pull a token market's stake
+ *   - enableEarlyExit()   — Creator opts a market in to early exit
+ *   - exitPosition()      — Withdraw a stake before the deadline (penalised)
+ *   - cancelMarket()      — Creator withdraws a market nobody has staked in
  *   - requestSettlement() — Trigger settlement after deadline
  *   - sendTrialRequest()  — Trigger Chainlink Functions trial
  *   - claimWinnings()     — Withdraw winnings from resolved market
  *   - claimRefund()       — Withdraw refund from escalated market
+ *   - appealMarket()      — Post the appeal bond to retry an escalated market
+ *   - claimAppealBond()   — Reclaim the bond after a successful or expired appeal
+ *   - expireAppeal()      — Give up on a retrial that never settled
+ *   - castArbitrationVote() — Arbitrators vote to resolve an escalated market
  *
  * EVENT listeners:
  *   - Listens for MarketCreated, MarketResolved, MarketEscalated events
@@ -37,6 +51,9 @@ import { ethers } from "ethers";
  */
 const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || "";
 
+/* How often runLocalTrial polls the engine's trial job (ms) */
+const JOB_POLL_INTERVAL = 2000;
+
 /*
  * ABI for all functions we call from the frontend.
  * This is a minimal "human-readable ABI" — ethers.js parses these
@@ -57,10 +74,40 @@ const CONTRACT_ABI = [
   "function getLatestEthUsdPrice() view returns (int256 price, uint256 updatedAt)",
   "function getTranscriptCid(uint256 marketId) view returns (string)",
   "function owner() view returns (address)",
+  "function appeals(uint256 marketId) view returns (address appellant, uint256 bond, uint8 state)",
+  "function escalatedAt(uint256 marketId) view returns (uint256)",
+  "function APPEAL_WINDOW() view returns (uint256)",
+  "function APPEAL_BOND() view returns (uint256)",
+  "function appealedAt(uint256 marketId) view returns (uint256)",
+  "function RETRIAL_PERIOD() view returns (uint256)",
+  "function arbitrationWindow(uint256 marketId) view returns (uint256 opensAt, uint256 closesAt)",
+  "function arbitrationTallies(uint256 marketId) view returns (uint256 yesVotes, uint256 noVotes)",
+  "function arbitrationVotes(uint256 marketId, address arbitrator) view returns (uint8)",
+  "function arbitrationQuorums(uint256 marketId) view returns (uint256)",
+  "function arbitratorCount() view returns (uint256)",
+  "function isArbitrator(address account) view returns (bool)",
+  "function protocolFeeBps() view returns (uint256)",
+  "function creatorRewardBps() view returns (uint256)",
+  "function payouts(uint256 marketId) view returns (uint256 payoutPool, uint256 creatorReward, uint256 claimedStake, uint256 paidOut)",
+  "function marketTokens(uint256 marketId) view returns (address)",
+  "function tokenCreationDeposit(address token) view returns (uint256)",
+  "function earlyExitEnabled(uint256 marketId) view returns (bool)",
+  "function exitPenalties(uint256 marketId) view returns (uint256)",
+  "function exitPenaltyBps(uint256 marketId, address participant, uint8 side) view returns (uint256)",
+  "function getOutcomes(uint256 marketId) view returns (string[] labels, uint256[] pools)",
+  "function outcomePositions(uint256 marketId, address user, uint256 outcome) view returns (uint256)",
+  "function winningOutcome(uint256 marketId) view returns (uint256)",
 
   // Write functions
   "function createMarket(string question, string rubricHash, uint256 deadline) payable returns (uint256)",
+  "function createTokenMarket(string question, string rubricHash, uint256 deadline, address token) returns (uint256)",
   "function takePosition(uint256 marketId, uint8 side) payable",
+  "function takeTokenPosition(uint256 marketId, uint8 side, uint256 amount)",
+  "function createCategoricalMarket(string question, string rubricHash, uint256 deadline, string[] outcomes, address token) payable returns (uint256)",
+  "function takeOutcomePosition(uint256 marketId, uint256 outcome, uint256 amount) payable",
+  "function enableEarlyExit(uint256 marketId)",
+  "function cancelMarket(uint256 marketId)",
+  "function exitPosition(uint256 marketId, uint8 side, uint256 amount)",
   "function requestSettlement(uint256 marketId)",
   "function sendTrialRequest(uint256 marketId) returns (bytes32)",
   "function settle(uint256 marketId, uint8 outcome, uint256 scoreYes, uint256 scoreNo, bytes32 transcriptHash, bytes32 cidA, bytes32 cidB)",
@@ -68,6 +115,10 @@ const CONTRACT_ABI = [
   "function claimWinnings(uint256 marketId)",
   "function claimRefund(uint256 marketId)",
   "function claimCreationDeposit(uint256 marketId)",
+  "function appeal(uint256 marketId) payable",
+  "function claimAppealBond(uint256 marketId)",
+  "function expireAppeal(uint256 marketId)",
+  "function castArbitrationVote(uint256 marketId, uint8 vote)",
 
   // Events
   "event MarketCreated(uint256 indexed marketId, address indexed creator, string question, uint256 deadline)",
@@ -76,8 +127,92 @@ const CONTRACT_ABI = [
   "event TrialRequested(uint256 indexed marketId, bytes32 indexed requestId)",
   "event MarketResolved(uint256 indexed marketId, uint8 outcome, uint256 scoreYes, uint256 scoreNo, bytes32 transcriptHash)",
   "event MarketEscalated(uint256 indexed marketId, bytes32 transcriptHash)",
+  "event MarketAppealed(uint256 indexed marketId, address indexed appellant, uint256 bond)",
+];
+
+/* The slice of ERC-20 needed for token-collateral markets */
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
 ];
 
+/**
+ * What a market is staked in: ETH (token = null) or an ERC-20 such as
+ * a stablecoin. Every amount of the market is in this unit.
+ */
+export interface CollateralInfo {
+  token: string | null; // ERC-20 address, null for ETH
+  symbol: string;
+  decimals: number;
+}
+
+const ETH_COLLATERAL: CollateralInfo = { token: null, symbol: "ETH", decimals: 18 };
+
+/**
+ * A market's single appeal, if any.
+ *   None      — not appealed (windowClosesAt says whether it still can be)
+ *   Pending   — bond posted, retrial outstanding
+ *   Succeeded — retrial resolved the market; bond reclaimable
+ *   Failed    — retrial escalated again; bond slashed
+ *   Expired   — retrial never settled (retrialExpiresAt passed); the
+ *               market is escalated again and the bond reclaimable
+ */
+export interface AppealInfo {
+  state: "None" | "Pending" | "Succeeded" | "Failed" | "Expired";
+  appellant: string | null;
+  bond: string; // ETH
+  windowClosesAt: Date | null; // appeal deadline of an escalated market
+  retrialExpiresAt: Date | null; // when a pending retrial can be expired
+}
+
+/**
+ * An escalated market's arbitration vote. Voting runs from opensAt
+ * (once the market can't be appealed) to closesAt; the first side to
+ * reach `quorum` votes resolves the market.
+ */
+export interface ArbitrationInfo {
+  opensAt: Date;
+  closesAt: Date;
+  quorum: number; // m, fixed when the market escalated — 0 means no committee
+  arbitrators: number; // n
+  yesVotes: number;
+  noVotes: number;
+  isArbitrator: boolean; // the connected account
+  myVote: "None" | "Yes" | "No";
+}
+
+/**
+ * A market's early-exit terms. Stakes in a market that opted in can be
+ * withdrawn before the deadline for a penalty; `penalties` collected so
+ * far stay in the market (outside the YES/NO pools) for the stakers who
+ * remain.
+ */
+export interface EarlyExitInfo {
+  enabled: boolean;
+  penalties: string; // in the market's collateral
+}
+
+/**
+ * One outcome of a categorical market and the stake behind it.
+ */
+export interface OutcomeInfo {
+  label: string;
+  pool: string; // in the market's collateral
+}
+
+/**
+ * A user's stake in a market. Binary markets use yes/no; categorical
+ * markets use `outcomes` (indexed like MarketData.outcomes, empty for
+ * binary markets).
+ */
+export interface UserPosition {
+  yes: string;
+  no: string;
+  outcomes: string[];
+}
+
 /**
  * Market data as returned from the contract, with parsed fields.
  * The raw contract returns numeric enums; we convert to strings
@@ -88,14 +223,20 @@ export interface MarketData {
   question: string;
   rubricHash: string;
   deadline: Date;
-  status: "Open" | "SettlementRequested" | "Resolved" | "Escalated";
-  outcome: "None" | "Yes" | "No";
-  yesPool: string; // ETH as string (e.g. "1.5")
+  status: "Open" | "SettlementRequested" | "Resolved" | "Escalated" | "Appealed" | "Cancelled";
+  outcome: "None" | "Yes" | "No" | "Invalid"; // Invalid: question unanswerable, stakes refunded
+  collateral: CollateralInfo;
+  yesPool: string; // in the collateral's units, as string (e.g. "1.5")
   noPool: string;
+  payoutPool: string; // what winners split: fixed at resolution, else estimated at current fees
   transcriptHash: string;
   transcriptCid: string; // IPFS CID for the full trial transcript
   creator: string;
   creationDeposit: string;
+  appeal: AppealInfo;
+  earlyExit: EarlyExitInfo;
+  outcomes: OutcomeInfo[] | null; // categorical markets only; yesPool/noPool stay 0
+  winningOutcome: number | null; // index into outcomes once a categorical market resolves
 }
 
 /*
@@ -107,12 +248,38 @@ const STATUS_MAP: Record<number, MarketData["status"]> = {
   1: "SettlementRequested",
   2: "Resolved",
   3: "Escalated",
+  4: "Appealed",
+  5: "Cancelled",
+};
+
+const APPEAL_STATE_MAP: Record<number, AppealInfo["state"]> = {
+  0: "None",
+  1: "Pending",
+  2: "Succeeded",
+  3: "Failed",
+  4: "Expired",
+};
+
+const NO_APPEAL: AppealInfo = {
+  state: "None",
+  appellant: null,
+  bond: "0.0",
+  windowClosesAt: null,
+  retrialExpiresAt: null,
 };
 
 const VERDICT_MAP: Record<number, MarketData["outcome"]> = {
   0: "None",
   1: "Yes",
   2: "No",
+  3: "Invalid",
+};
+
+/* Arbitration votes are only ever Yes or No */
+const VOTE_MAP: Record<number, ArbitrationInfo["myVote"]> = {
+  0: "None",
+  1: "Yes",
+  2: "No",
 };
 
 /**
@@ -138,7 +305,16 @@ function cidFromBytes32Pair(a: string, b: string): string {
   return hexToAscii(a) + hexToAscii(b);
 }
 
-function parseMarket(id: number, raw: ethers.Result): MarketData {
+function parseMarket(
+  id: number,
+  raw: ethers.Result,
+  payoutPool: bigint,
+  appeal: AppealInfo = NO_APPEAL,
+  collateral: CollateralInfo = ETH_COLLATERAL,
+  exit: { enabled: boolean; penalties: bigint } = { enabled: false, penalties: 0n },
+  categorical: { labels: string[]; pools: bigint[]; winner: bigint } | null = null
+): MarketData {
+  const format = (amount: bigint) => ethers.formatUnits(amount, collateral.decimals);
   return {
     id,
     question: raw.question,
@@ -146,12 +322,133 @@ function parseMarket(id: number, raw: ethers.Result): MarketData {
     deadline: new Date(Number(raw.deadline) * 1000),
     status: STATUS_MAP[Number(raw.status)] || "Open",
     outcome: VERDICT_MAP[Number(raw.outcome)] || "None",
-    yesPool: ethers.formatEther(raw.yesPool),
-    noPool: ethers.formatEther(raw.noPool),
+    collateral,
+    yesPool: format(raw.yesPool),
+    noPool: format(raw.noPool),
+    payoutPool: format(payoutPool),
     transcriptHash: raw.transcriptHash,
     transcriptCid: cidFromBytes32Pair(raw.transcriptCidA, raw.transcriptCidB),
     creator: raw.creator,
-    creationDeposit: ethers.formatEther(raw.creationDeposit),
+    creationDeposit: format(raw.creationDeposit),
+    appeal,
+    earlyExit: { enabled: exit.enabled, penalties: format(exit.penalties) },
+    outcomes: categorical
+      ? categorical.labels.map((label, i) => ({ label, pool: format(categorical.pools[i]) }))
+      : null,
+    winningOutcome:
+      categorical && Number(raw.status) === 2 && VERDICT_MAP[Number(raw.outcome)] !== "Invalid"
+        ? Number(categorical.winner)
+        : null,
+  };
+}
+
+/*
+ * The pool winners split after the protocol fee and creator reward.
+ * A resolved market's is fixed onchain; for others it's an estimate
+ * at the current rates (feeBps = protocol fee + creator reward),
+ * including any early-exit penalties held by the market.
+ */
+async function loadPayoutPool(
+  contract: ethers.Contract,
+  id: number,
+  raw: ethers.Result,
+  feeBps: bigint,
+  outcomePools: bigint[] = []
+): Promise<bigint> {
+  if (Number(raw.status) === 2) {
+    return (await contract.payouts(id)).payoutPool;
+  }
+  const penalties: bigint = await contract.exitPenalties(id);
+  const staked = outcomePools.reduce((sum, pool) => sum + pool, 0n);
+  const total: bigint = raw.yesPool + raw.noPool + staked + penalties;
+  return total - (total * feeBps) / 10_000n;
+}
+
+/* Combined fee rate, in basis points, charged when a market resolves */
+async function loadFeeBps(contract: ethers.Contract): Promise<bigint> {
+  const [protocolBps, creatorBps]: bigint[] = await Promise.all([
+    contract.protocolFeeBps(),
+    contract.creatorRewardBps(),
+  ]);
+  return protocolBps + creatorBps;
+}
+
+/*
+ * Read a market's collateral token. Token metadata is cached by
+ * address — many markets usually share one stablecoin.
+ */
+async function loadCollateral(
+  contract: ethers.Contract,
+  id: number,
+  cache: Map<string, CollateralInfo> = new Map()
+): Promise<CollateralInfo> {
+  const token: string = await contract.marketTokens(id);
+  if (token === ethers.ZeroAddress) return ETH_COLLATERAL;
+
+  let info = cache.get(token);
+  if (!info) {
+    const erc20 = new ethers.Contract(token, ERC20_ABI, contract.runner);
+    const [symbol, decimals] = await Promise.all([erc20.symbol(), erc20.decimals()]);
+    info = { token, symbol, decimals: Number(decimals) };
+    cache.set(token, info);
+  }
+  return info;
+}
+
+/*
+ * Read a categorical market's outcomes. Binary markets have none and
+ * return null.
+ */
+async function loadOutcomes(
+  contract: ethers.Contract,
+  id: number
+): Promise<{ labels: string[]; pools: bigint[]; winner: bigint } | null> {
+  const [labels, pools]: [string[], bigint[]] = await contract.getOutcomes(id);
+  if (labels.length === 0) return null;
+  const winner: bigint = await contract.winningOutcome(id);
+  return { labels: [...labels], pools: [...pools], winner };
+}
+
+/*
+ * Approve the contract to pull a token's creation deposit, if the
+ * current allowance doesn't already cover it.
+ */
+async function approveCreationDeposit(
+  contract: ethers.Contract,
+  token: string,
+  signer: ethers.JsonRpcSigner
+): Promise<void> {
+  const deposit: bigint = await contract.tokenCreationDeposit(token);
+  const erc20 = new ethers.Contract(token, ERC20_ABI, signer);
+  const allowance: bigint = await erc20.allowance(await signer.getAddress(), CONTRACT_ADDRESS);
+  if (allowance < deposit) {
+    await (await erc20.approve(CONTRACT_ADDRESS, deposit)).wait();
+  }
+}
+
+/*
+ * Read a market's appeal. Only settled or appealed markets (status ≥ 2)
+ * can have one, so other markets skip the extra RPC calls.
+ */
+async function loadAppeal(
+  contract: ethers.Contract,
+  id: number,
+  status: number,
+  appealWindow: bigint,
+  retrialPeriod: bigint
+): Promise<AppealInfo> {
+  if (status < 2) return NO_APPEAL;
+  const [raw, escalatedAt, appealedAt] = await Promise.all([
+    contract.appeals(id),
+    contract.escalatedAt(id),
+    contract.appealedAt(id),
+  ]);
+  return {
+    state: APPEAL_STATE_MAP[Number(raw.state)] || "None",
+    appellant: raw.appellant === ethers.ZeroAddress ? null : raw.appellant,
+    bond: ethers.formatEther(raw.bond),
+    windowClosesAt: escalatedAt > 0n ? new Date(Number(escalatedAt + appealWindow) * 1000) : null,
+    retrialExpiresAt: appealedAt > 0n ? new Date(Number(appealedAt + retrialPeriod) * 1000) : null,
   };
 }
 
@@ -169,10 +466,10 @@ export type TrialResult = Record<string, any>;
  */
 export interface Participant {
   address: string;
-  yesStake: string;  // ETH
-  noStake: string;   // ETH
-  payoutIfYes: number; // profit/loss in ETH (positive = profit)
-  payoutIfNo: number;  // profit/loss in ETH (positive = profit)
+  yesStake: string;  // in the market's collateral
+  noStake: string;   // in the market's collateral
+  payoutIfYes: number; // profit/loss in collateral (positive = profit)
+  payoutIfNo: number;  // profit/loss in collateral (positive = profit)
 }
 
 export function useContract(
@@ -203,11 +500,25 @@ export function useContract(
       const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
       const count = await contract.nextMarketId();
       const total = Number(count);
+      const appealWindow: bigint = await contract.APPEAL_WINDOW();
+      const retrialPeriod: bigint = await contract.RETRIAL_PERIOD();
+      const feeBps = await loadFeeBps(contract);
+      const tokens = new Map<string, CollateralInfo>();
 
       const loaded: MarketData[] = [];
       for (let i = 0; i < total; i++) {
         const raw = await contract.getMarket(i);
-        loaded.push(parseMarket(i, raw));
+        const appeal = await loadAppeal(contract, i, Number(raw.status), appealWindow, retrialPeriod);
+        const categorical = await loadOutcomes(contract, i);
+        const payoutPool = await loadPayoutPool(contract, i, raw, feeBps, categorical?.pools);
+        const collateral = await loadCollateral(contract, i, tokens);
+        const [exitEnabled, penalties] = await Promise.all([
+          contract.earlyExitEnabled(i),
+          contract.exitPenalties(i),
+        ]);
+        loaded.push(
+          parseMarket(i, raw, payoutPool, appeal, collateral, { enabled: exitEnabled, penalties }, categorical)
+        );
       }
 
       setMarkets(loaded);
@@ -239,15 +550,37 @@ export function useContract(
 
   /**
    * Create a new prediction market.
-   * Sends 0.01 ETH as creation deposit (anti-spam).
+   * Sends 0.01 ETH as creation deposit (anti-spam). With `token`, the
+   * market is staked in that ERC-20 instead: the token's creation
+   * deposit is approved first (if needed), then pulled by the contract.
+   * With `outcomes`, the market is categorical: stakers pick one of the
+   * named outcomes rather than YES or NO.
    */
   const createMarket = useCallback(
-    async (question: string, rubricHash: string, deadline: number) => {
+    async (question: string, rubricHash: string, deadline: number, token?: string, outcomes?: string[]) => {
       if (!signer) throw new Error("Wallet not connected");
       const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.createMarket(question, rubricHash, deadline, {
-        value: ethers.parseEther("0.01"),
-      });
+      let tx;
+      if (outcomes) {
+        if (token) {
+          await approveCreationDeposit(contract, token, signer);
+        }
+        tx = await contract.createCategoricalMarket(
+          question,
+          rubricHash,
+          deadline,
+          outcomes,
+          token ?? ethers.ZeroAddress,
+          { value: token ? 0n : ethers.parseEther("0.01") }
+        );
+      } else if (token) {
+        await approveCreationDeposit(contract, token, signer);
+        tx = await contract.createTokenMarket(question, rubricHash, deadline, token);
+      } else {
+        tx = await contract.createMarket(question, rubricHash, deadline, {
+          value: ethers.parseEther("0.01"),
+        });
+      }
       await tx.wait();
       await loadMarkets(); // Refresh market list
       return tx;
@@ -256,15 +589,38 @@ export function useContract(
   );
 
   /**
-   * Stake ETH on YES (side=1) or NO (side=2).
-   * amount is in ETH (e.g. "0.5").
+   * Stake on YES (side=1) or NO (side=2).
+   * amount is in the market's collateral (e.g. "0.5" ETH, "100" USDC).
+   * Token markets need an allowance first — see approveCollateral().
    */
   const takePosition = useCallback(
     async (marketId: number, side: 1 | 2, amount: string) => {
       if (!signer) throw new Error("Wallet not connected");
       const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.takePosition(marketId, side, {
-        value: ethers.parseEther(amount),
+      const collateral = await loadCollateral(contract, marketId);
+      const tx = collateral.token
+        ? await contract.takeTokenPosition(marketId, side, ethers.parseUnits(amount, collateral.decimals))
+        : await contract.takePosition(marketId, side, { value: ethers.parseEther(amount) });
+      await tx.wait();
+      await loadMarkets();
+      return tx;
+    },
+    [signer, loadMarkets]
+  );
+
+  /**
+   * Stake on one outcome (by index) of a categorical market.
+   * amount is in the market's collateral; token markets need an
+   * allowance first, as with takePosition().
+   */
+  const takeOutcomePosition = useCallback(
+    async (marketId: number, outcome: number, amount: string) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const collateral = await loadCollateral(contract, marketId);
+      const stake = ethers.parseUnits(amount, collateral.decimals);
+      const tx = await contract.takeOutcomePosition(marketId, outcome, stake, {
+        value: collateral.token ? 0n : stake,
       });
       await tx.wait();
       await loadMarkets();
@@ -273,6 +629,111 @@ export function useContract(
     [signer, loadMarkets]
   );
 
+  /**
+   * How much of a token market's collateral the contract may pull from
+   * `account`, formatted in token units. null for ETH markets.
+   */
+  const getCollateralAllowance = useCallback(
+    async (marketId: number, account: string): Promise<string | null> => {
+      if (!provider || !CONTRACT_ADDRESS) return null;
+      try {
+        const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+        const collateral = await loadCollateral(contract, marketId);
+        if (!collateral.token) return null;
+        const erc20 = new ethers.Contract(collateral.token, ERC20_ABI, provider);
+        const allowance: bigint = await erc20.allowance(account, CONTRACT_ADDRESS);
+        return ethers.formatUnits(allowance, collateral.decimals);
+      } catch (err) {
+        console.warn("getCollateralAllowance failed:", err);
+        return null;
+      }
+    },
+    [provider]
+  );
+
+  /**
+   * Approve the contract to pull `amount` of a token market's collateral
+   * — the first half of approve-then-stake.
+   */
+  const approveCollateral = useCallback(
+    async (marketId: number, amount: string) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const collateral = await loadCollateral(contract, marketId);
+      if (!collateral.token) throw new Error("Market is staked in ETH");
+      const erc20 = new ethers.Contract(collateral.token, ERC20_ABI, signer);
+      const tx = await erc20.approve(CONTRACT_ADDRESS, ethers.parseUnits(amount, collateral.decimals));
+      await tx.wait();
+      return tx;
+    },
+    [signer]
+  );
+
+  /** Creator-only: opt a market in to early exit (before anyone stakes). */
+  const enableEarlyExit = useCallback(
+    async (marketId: number) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.enableEarlyExit(marketId);
+      await tx.wait();
+      await loadMarkets();
+      return tx;
+    },
+    [signer, loadMarkets]
+  );
+
+  /**
+   * Withdraw `amount` (in the market's collateral) of a YES (side=1)
+   * or NO (side=2) stake before the deadline, minus the exit penalty.
+   */
+  const exitPosition = useCallback(
+    async (marketId: number, side: 1 | 2, amount: string) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const { decimals } = await loadCollateral(contract, marketId);
+      const tx = await contract.exitPosition(marketId, side, ethers.parseUnits(amount, decimals));
+      await tx.wait();
+      await loadMarkets();
+      return tx;
+    },
+    [signer, loadMarkets]
+  );
+
+  /**
+   * The penalty `account` would pay to exit each side right now, as a
+   * percentage. It falls the longer a stake has been held.
+   */
+  const getExitPenalty = useCallback(
+    async (marketId: number, account: string): Promise<{ yes: number; no: number } | null> => {
+      if (!provider || !CONTRACT_ADDRESS) return null;
+      try {
+        const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+        const [yesBps, noBps] = await Promise.all([
+          contract.exitPenaltyBps(marketId, account, 1),
+          contract.exitPenaltyBps(marketId, account, 2),
+        ]);
+        return { yes: Number(yesBps) / 100, no: Number(noBps) / 100 };
+      } catch (err) {
+        console.warn("getExitPenalty failed:", err);
+        return null;
+      }
+    },
+    [provider]
+  );
+
+  /** Creator-only: cancel a market before anyone stakes; refunds the deposit. */
+  const cancelMarket = useCallback(
+    async (marketId: number) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.cancelMarket(marketId);
+      await tx.wait();
+      await loadMarkets();
+      return tx;
+    },
+    [signer, loadMarkets]
+  );
+
   /** Request settlement after deadline (permissionless). */
   const requestSettlement = useCallback(
     async (marketId: number) => {
@@ -343,7 +804,7 @@ export function useContract(
     [signer, loadMarkets]
   );
 
-  /** Claim full refund from an escalated market. */
+  /** Claim full refund from an escalated market (or one resolved Invalid). */
   const claimRefund = useCallback(
     async (marketId: number) => {
       if (!signer) throw new Error("Wallet not connected");
@@ -356,12 +817,107 @@ export function useContract(
     [signer, loadMarkets]
   );
 
+  /**
+   * Read an escalated market's arbitration state, from the point of
+   * view of `account` (whether it may vote and how it voted).
+   */
+  const getArbitration = useCallback(
+    async (marketId: number, account: string | null): Promise<ArbitrationInfo | null> => {
+      if (!provider || !CONTRACT_ADDRESS) return null;
+      try {
+        const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
+        const [window, tally, quorum, count, isArbitrator, myVote] = await Promise.all([
+          contract.arbitrationWindow(marketId),
+          contract.arbitrationTallies(marketId),
+          contract.arbitrationQuorums(marketId),
+          contract.arbitratorCount(),
+          account ? contract.isArbitrator(account) : false,
+          account ? contract.arbitrationVotes(marketId, account) : 0,
+        ]);
+        return {
+          opensAt: new Date(Number(window.opensAt) * 1000),
+          closesAt: new Date(Number(window.closesAt) * 1000),
+          quorum: Number(quorum),
+          arbitrators: Number(count),
+          yesVotes: Number(tally.yesVotes),
+          noVotes: Number(tally.noVotes),
+          isArbitrator,
+          myVote: VOTE_MAP[Number(myVote)] || "None",
+        };
+      } catch (err) {
+        console.warn("getArbitration failed:", err);
+        return null;
+      }
+    },
+    [provider]
+  );
+
+  /** Arbitrator vote on an escalated market: Yes (1) or No (2). */
+  const castArbitrationVote = useCallback(
+    async (marketId: number, vote: 1 | 2) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.castArbitrationVote(marketId, vote);
+      await tx.wait();
+      await loadMarkets();
+      return tx;
+    },
+    [signer, loadMarkets]
+  );
+
+  /**
+   * Appeal an escalated market (stakers only, within the appeal window).
+   * Posts the contract's APPEAL_BOND; the market goes to a retrial.
+   */
+  const appealMarket = useCallback(
+    async (marketId: number) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const bond: bigint = await contract.APPEAL_BOND();
+      const tx = await contract.appeal(marketId, { value: bond });
+      await tx.wait();
+      await loadMarkets();
+      return tx;
+    },
+    [signer, loadMarkets]
+  );
+
+  /** Reclaim the appeal bond after the retrial resolved the market, or expired. */
+  const claimAppealBond = useCallback(
+    async (marketId: number) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.claimAppealBond(marketId);
+      await tx.wait();
+      await loadMarkets();
+      return tx;
+    },
+    [signer, loadMarkets]
+  );
+
+  /**
+   * Expire a retrial that hasn't settled within RETRIAL_PERIOD (anyone).
+   * The market goes back to Escalated: refunds and arbitration open.
+   */
+  const expireAppeal = useCallback(
+    async (marketId: number) => {
+      if (!signer) throw new Error("Wallet not connected");
+      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+      const tx = await contract.expireAppeal(marketId);
+      await tx.wait();
+      await loadMarkets();
+      return tx;
+    },
+    [signer, loadMarkets]
+  );
+
   /**
    * Run the adversarial trial via the local API server.
    *
    * This is the LOCAL DEVELOPMENT path. It calls POST /api/trial
-   * on the engine API server (proxied via Vite on :3001), which runs
-   * the full pipeline (evidence → advocates → judge → confidence check).
+   * on the engine API server (proxied via Vite on :3001), which queues
+   * the full pipeline (evidence → advocates → judge → confidence check)
+   * as a job, then polls GET /api/jobs/:jobId until the job finishes.
    *
    * Then it calls POST /api/settle to write the result onchain
    * (the engine server uses the deployer's private key to call
@@ -376,7 +932,7 @@ export function useContract(
       setTrialLoading(true);
       setTrialResult(null);
       try {
-        /* Step 1: Run the adversarial trial */
+        /* Step 1: Queue the adversarial trial and wait for its job */
         const trialRes = await fetch("/api/trial", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
@@ -386,7 +942,17 @@ export function useContract(
           const err = await trialRes.json();
           throw new Error(err.error || "Trial failed");
         }
-        const { transcript } = await trialRes.json();
+        const { statusUrl } = await trialRes.json();
+
+        let job = await (await fetch(statusUrl)).json();
+        while (job.status === "queued" || job.status === "running") {
+          await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL));
+          job = await (await fetch(statusUrl)).json();
+        }
+        if (job.status !== "succeeded") {
+          throw new Error(job.error || "Trial failed");
+        }
+        const { transcript } = job.transcript;
         setTrialResult(transcript);
 
         /* Step 2: Settle onchain via the API server */
@@ -420,24 +986,32 @@ export function useContract(
 
   /**
    * Get the user's position in a market.
-   * Returns { yes: "0.5", no: "0.0" } in ETH.
+   * Returns { yes: "0.5", no: "0.0", outcomes: [] } in the market's
+   * collateral; for a categorical market, `outcomes` holds the stake on
+   * each outcome.
    */
   const getUserPosition = useCallback(
-    async (marketId: number, userAddress: string) => {
-      if (!provider || !CONTRACT_ADDRESS) return { yes: "0", no: "0" };
+    async (marketId: number, userAddress: string): Promise<UserPosition> => {
+      if (!provider || !CONTRACT_ADDRESS) return { yes: "0", no: "0", outcomes: [] };
       try {
         const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, provider);
-        const [yesPos, noPos] = await Promise.all([
+        const [yesPos, noPos, collateral, [labels]] = await Promise.all([
           contract.yesPositions(marketId, userAddress),
           contract.noPositions(marketId, userAddress),
+          loadCollateral(contract, marketId),
+          contract.getOutcomes(marketId),
         ]);
+        const outcomePos: bigint[] = await Promise.all(
+          (labels as string[]).map((_, i) => contract.outcomePositions(marketId, userAddress, i))
+        );
         return {
-          yes: ethers.formatEther(yesPos),
-          no: ethers.formatEther(noPos),
+          yes: ethers.formatUnits(yesPos, collateral.decimals),
+          no: ethers.formatUnits(noPos, collateral.decimals),
+          outcomes: outcomePos.map((pos) => ethers.formatUnits(pos, collateral.decimals)),
         };
       } catch (err) {
         console.warn("getUserPosition failed:", err);
-        return { yes: "0", no: "0" };
+        return { yes: "0", no: "0", outcomes: [] };
       }
     },
     [provider]
@@ -495,11 +1069,14 @@ export function useContract(
         const addresses = [...addressSet];
         const participants: Participant[] = [];
 
-        /* Get market totals for payout calculation */
+        /* Get market totals for payout calculation (winners split the pool net of fees) */
         const raw = await contract.getMarket(marketId);
-        const yesPool = parseFloat(ethers.formatEther(raw.yesPool));
-        const noPool = parseFloat(ethers.formatEther(raw.noPool));
-        const totalPool = yesPool + noPool;
+        const { decimals } = await loadCollateral(contract, marketId);
+        const format = (amount: bigint) => ethers.formatUnits(amount, decimals);
+        const yesPool = parseFloat(format(raw.yesPool));
+        const noPool = parseFloat(format(raw.noPool));
+        const payoutPool = await loadPayoutPool(contract, marketId, raw, await loadFeeBps(contract));
+        const totalPool = parseFloat(format(payoutPool));
 
         for (const addr of addresses) {
           const [yesPos, noPos] = await Promise.all([
@@ -507,8 +1084,8 @@ export function useContract(
             contract.noPositions(marketId, addr),
           ]);
 
-          const yesStake = parseFloat(ethers.formatEther(yesPos));
-          const noStake = parseFloat(ethers.formatEther(noPos));
+          const yesStake = parseFloat(format(yesPos));
+          const noStake = parseFloat(format(noPos));
 
           /* Skip if user has withdrawn (both positions zero) */
           if (yesStake === 0 && noStake === 0) continue;
@@ -524,8 +1101,8 @@ export function useContract(
 
           participants.push({
             address: addr,
-            yesStake: ethers.formatEther(yesPos),
-            noStake: ethers.formatEther(noPos),
+            yesStake: format(yesPos),
+            noStake: format(noPos),
             payoutIfYes,
             payoutIfNo,
           });
@@ -574,6 +1151,13 @@ export function useContract(
     loadMarkets,
     createMarket,
     takePosition,
+    takeOutcomePosition,
+    getCollateralAllowance,
+    approveCollateral,
+    enableEarlyExit,
+    exitPosition,
+    getExitPenalty,
+    cancelMarket,
     requestSettlement,
     sendTrialRequest,
     runLocalTrial,
@@ -581,6 +1165,11 @@ export function useContract(
     escalate,
     claimWinnings,
     claimRefund,
+    appealMarket,
+    claimAppealBond,
+    expireAppeal,
+    getArbitration,
+    castArbitrationVote,
     getUserPosition,
     getMarketParticipants,
   };
@@ -2,6 +2,8 @@
 // Duplicated here to avoid cross-workspace import issues with Vite.
 
 export type Verdict = "YES" | "NO";
+/* A judge may also rule the question itself INVALID (refunded, not escalated) */
+export type RulingVerdict = Verdict | "INVALID";
 export type SettlementAction = "RESOLVE" | "ESCALATE";
 
 export interface RubricCriterion {
@@ -22,6 +24,14 @@ export interface MarketQuestion {
   rubric: ResolutionRubric;
   settlementDeadline: Date;
   metadata?: Record<string, string>;
+  outcomes?: string[]; // categorical markets only
+}
+
+export interface EvidenceResponseMeta {
+  status: number;
+  headers: Record<string, string>;
+  byteLength: number;
+  bodyHash: string;
 }
 
 export interface EvidenceItem {
@@ -30,12 +40,20 @@ export interface EvidenceItem {
   content: string;
   url?: string;
   retrievedAt: Date;
+  contentHash?: string;
+  response?: EvidenceResponseMeta;
 }
 
 export interface EvidenceBundle {
   questionId: string;
   items: EvidenceItem[];
   gatheredAt: Date;
+  merkleRoot?: string;
+}
+
+export interface PromptVersion {
+  id: string; // "<name>@<version>", e.g. "judge@v2"
+  hash: string;
 }
 
 export interface CriterionArgument {
@@ -51,6 +69,18 @@ export interface AdvocateArgument {
   arguments: CriterionArgument[];
   weaknessesInOpposingCase: string[];
   model: string;
+  prompt?: PromptVersion;
+}
+
+/* Categorical trials: one advocate per named outcome */
+export interface OutcomeArgument extends Omit<AdvocateArgument, "side"> {
+  outcome: string;
+}
+
+export interface DebateRound {
+  round: number;
+  yes: AdvocateArgument;
+  no: AdvocateArgument;
 }
 
 export interface CriterionScore {
@@ -61,18 +91,90 @@ export interface CriterionScore {
 }
 
 export interface JudgeRuling {
-  finalVerdict: Verdict;
+  finalVerdict: RulingVerdict;
   scoreYes: number;
   scoreNo: number;
   criterionScores: CriterionScore[];
   rulingText: string;
   hallucinationsDetected: string[];
   model: string;
+  prompt?: PromptVersion;
+}
+
+export interface OutcomeScore {
+  outcome: string;
+  score: number;
+}
+
+export interface CategoricalRuling {
+  finalOutcome: string; // one of the outcomes, or "INVALID"
+  outcomeScores: OutcomeScore[];
+  criterionScores: { criterion: string; scores: OutcomeScore[]; reasoning: string }[];
+  rulingText: string;
+  hallucinationsDetected: string[];
+  model: string;
+  prompt?: PromptVersion;
+}
+
+export type PanelAggregation = "median" | "trimmed-mean";
+
+export interface JudgePanelResult {
+  aggregation: PanelAggregation;
+  rulings: JudgeRuling[];
+  verdictsAgree: boolean;
+}
+
+export interface UnmatchedCitation {
+  criterion: string;
+  citation: string;
+  round?: number;
+}
+
+export interface CitationReport {
+  totalCitations: number;
+  yes: UnmatchedCitation[];
+  no: UnmatchedCitation[];
+}
+
+export interface LLMCallAttempt {
+  attempt: number;
+  model: string;
+  outcome: "ok" | "repaired" | "invalid-json" | "schema-error";
+  error?: string;
+  rawContent?: string;
+}
+
+export interface LLMCallLog {
+  label: string;
+  attempts: LLMCallAttempt[];
+}
+
+export type UsageStage = "router" | "advocate-yes" | "advocate-no" | "judge";
+
+export interface StageUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface TrialUsage {
+  byStage: Record<UsageStage, StageUsage>;
+  total: StageUsage;
+  unpricedModels: string[];
+  budget?: { maxUsd?: number; maxTokens?: number; exceeded: boolean };
 }
 
 export interface SettlementDecision {
   action: SettlementAction;
-  verdict: Verdict | null;
+  verdict: RulingVerdict | null;
+  margin: number;
+  reason: string;
+}
+
+export interface CategoricalDecision {
+  action: SettlementAction;
+  outcome: string | null; // null when escalated
   margin: number;
   reason: string;
 }
@@ -82,8 +184,81 @@ export interface TrialTranscript {
   evidence: EvidenceBundle;
   advocateYes: AdvocateArgument;
   advocateNo: AdvocateArgument;
+  debateRounds?: DebateRound[];
   judgeRuling: JudgeRuling;
+  judgePanel?: JudgePanelResult;
+  citationReport?: CitationReport;
+  llmCalls?: LLMCallLog[];
+  usage?: TrialUsage;
   decision: SettlementDecision;
   executedAt: Date;
   durationMs: number;
 }
+
+export interface CategoricalTranscript {
+  question: MarketQuestion;
+  evidence: EvidenceBundle;
+  advocates: OutcomeArgument[];
+  judgeRuling: CategoricalRuling;
+  citationReport?: { totalCitations: number; byOutcome: Record<string, UnmatchedCitation[]> };
+  llmCalls?: LLMCallLog[];
+  usage?: TrialUsage;
+  decision: CategoricalDecision;
+  executedAt: Date;
+  durationMs: number;
+}
+
+export function isCategoricalTranscript(
+  transcript: TrialTranscript | CategoricalTranscript
+): transcript is CategoricalTranscript {
+  return "advocates" in transcript;
+}
+
+export type TrialStage = "evidence" | "advocates" | "judge" | "decision" | "complete";
+
+interface TrialEventBase {
+  stage: TrialStage;
+  message: string;
+  timestamp: number;
+  elapsedMs: number;
+}
+
+export type TrialEvent = TrialEventBase &
+  (
+    | { type: "trial-started"; questionId: string; outcomes?: string[] }
+    | { type: "stage-started" }
+    | { type: "evidence-gathered"; evidence: EvidenceBundle }
+    | { type: "advocate-argued"; round: number; argument: AdvocateArgument }
+    | { type: "round-completed"; round: DebateRound }
+    | { type: "llm-retry"; log: LLMCallLog }
+    | { type: "judge-ruled"; ruling: JudgeRuling; judgePanel?: JudgePanelResult }
+    | { type: "decision-made"; decision: SettlementDecision }
+    | { type: "outcome-argued"; argument: OutcomeArgument }
+    | { type: "outcomes-ruled"; ruling: CategoricalRuling }
+    | { type: "outcome-decided"; decision: CategoricalDecision }
+    | { type: "trial-completed"; transcript: TrialTranscript | CategoricalTranscript }
+    | { type: "trial-failed"; error: string; usage?: TrialUsage }
+  );
+
+/* Pre-screen of a draft question (POST /api/questions/lint) */
+export type LintIssueKind =
+  | "vague-time-window"
+  | "missing-resolution-criteria"
+  | "undefined-term"
+  | "no-evidence-source";
+
+export interface LintIssue {
+  kind: LintIssueKind;
+  severity: "error" | "warning";
+  source: "heuristic" | "llm";
+  message: string;
+  excerpt?: string;
+}
+
+export interface QuestionLintResult {
+  question: string;
+  resolvabilityScore: number;
+  issues: LintIssue[];
+  suggestedRewrites: string[];
+  model: string | null;
+}